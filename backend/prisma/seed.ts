@@ -66,6 +66,8 @@ async function main() {
         description: 'Finish the project proposal for the new client',
         priority: 'HIGH',
         status: 'IN_PROGRESS',
+        priorityRank: 2,
+        statusRank: 1,
         dueDate: new Date(Date.now() + 7 * 24 * 60 * 60 * 1000), // 7 days from now
         userId: user.id,
         categories: {
@@ -128,6 +130,8 @@ async function main() {
         description: 'Daily workout session',
         priority: 'LOW',
         status: 'COMPLETED',
+        priorityRank: 0,
+        statusRank: 2,
         userId: user.id,
         categories: {
           create: {
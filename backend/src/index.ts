@@ -11,6 +11,21 @@ import authRoutes from './routes/auth';
 import todoRoutes from './routes/todos';
 import userRoutes from './routes/users';
 import categoryRoutes from './routes/categories';
+import notificationRoutes from './routes/notifications';
+import trashRoutes from './routes/trash';
+import calendarRoutes from './routes/calendar';
+import teamRoutes from './routes/teams';
+import accessTokenRoutes from './routes/accessTokens';
+import webhookRoutes from './routes/webhooks';
+import savedFilterRoutes from './routes/savedFilters';
+import analyticsRoutes from './routes/analytics';
+
+// Import services
+import { startReminderScheduler, stopReminderScheduler } from './services/reminderScheduler';
+import { startTrashPurger, stopTrashPurger } from './services/trashPurger';
+import { initRealtime } from './services/realtime';
+import { startWebhookDispatcher, stopWebhookDispatcher } from './services/webhooks';
+import { syncSortRanks } from './services/todoSort';
 
 // Import middleware
 import { errorHandler } from './middleware/errorHandler';
@@ -68,43 +83,17 @@ app.use('/api/auth', authRoutes);
 app.use('/api/todos', todoRoutes);
 app.use('/api/users', userRoutes);
 app.use('/api/categories', categoryRoutes);
-
-// Socket.io connection handling
-io.on('connection', (socket) => {
-  console.log(`User connected: ${socket.id}`);
-
-  // Join user to their personal room
-  socket.on('join-user-room', (userId: string) => {
-    socket.join(`user-${userId}`);
-    console.log(`User ${userId} joined their room`);
-  });
-
-  // Join team room
-  socket.on('join-team-room', (teamId: string) => {
-    socket.join(`team-${teamId}`);
-    console.log(`User joined team room: ${teamId}`);
-  });
-
-  // Handle todo updates
-  socket.on('todo-updated', (data) => {
-    socket.broadcast.emit('todo-updated', data);
-  });
-
-  // Handle todo created
-  socket.on('todo-created', (data) => {
-    socket.broadcast.emit('todo-created', data);
-  });
-
-  // Handle todo deleted
-  socket.on('todo-deleted', (data) => {
-    socket.broadcast.emit('todo-deleted', data);
-  });
-
-  // Handle disconnect
-  socket.on('disconnect', () => {
-    console.log(`User disconnected: ${socket.id}`);
-  });
-});
+app.use('/api/notifications', notificationRoutes);
+app.use('/api/trash', trashRoutes);
+app.use('/api/calendar', calendarRoutes);
+app.use('/api/teams', teamRoutes);
+app.use('/api/access-tokens', accessTokenRoutes);
+app.use('/api/webhooks', webhookRoutes);
+app.use('/api/saved-filters', savedFilterRoutes);
+app.use('/api/analytics', analyticsRoutes);
+
+// Socket.io authentication and room handling
+initRealtime(io);
 
 // Error handling middleware
 app.use(notFound);
@@ -115,11 +104,24 @@ server.listen(PORT, () => {
   console.log(`🚀 Server running on port ${PORT}`);
   console.log(`📊 Environment: ${process.env['NODE_ENV'] || 'development'}`);
   console.log(`🔗 Health check: http://localhost:${PORT}/health`);
+
+  // Fill in the sort ranks of todos saved before those columns existed
+  syncSortRanks().catch(error => {
+    console.error('Sync sort ranks error:', error);
+  });
+
+  // Start background jobs
+  startReminderScheduler(io);
+  startTrashPurger();
+  startWebhookDispatcher();
 });
 
 // Graceful shutdown
 process.on('SIGTERM', () => {
   console.log('SIGTERM received, shutting down gracefully');
+  stopReminderScheduler();
+  stopTrashPurger();
+  stopWebhookDispatcher();
   server.close(() => {
     console.log('Process terminated');
   });
@@ -1,6 +1,13 @@
 import { Request, Response, NextFunction } from 'express';
 import jwt from 'jsonwebtoken';
 import { PrismaClient } from '@prisma/client';
+import { isSessionActive } from '../services/sessions';
+import {
+  isPersonalAccessToken,
+  verifyPersonalAccessToken,
+  getRequiredScope,
+  hasScope
+} from '../services/accessTokens';
 
 const prisma = new PrismaClient();
 
@@ -13,11 +20,72 @@ declare global {
         email: string;
         name: string;
       };
+      sessionId?: string;
+      // Set when the request was authenticated with a personal access token
+      accessTokenScopes?: string[];
     }
   }
 }
 
-// Authentication middleware
+// Verify an access token and load its user and session. Returns null when the
+// session has been revoked or the user no longer exists.
+// Throws the jsonwebtoken errors for invalid or expired tokens.
+export const verifyAccessToken = async (token: string) => {
+  const jwtSecret = process.env['JWT_SECRET'];
+  if (!jwtSecret) {
+    throw new Error('JWT_SECRET not configured');
+  }
+
+  const decoded = jwt.verify(token, jwtSecret) as any;
+
+  if (!decoded.sessionId || !await isSessionActive(decoded.sessionId, decoded.userId)) {
+    return null;
+  }
+
+  const user = await prisma.user.findUnique({
+    where: { id: decoded.userId },
+    select: { id: true, email: true, name: true }
+  });
+
+  return user ? { user, sessionId: decoded.sessionId as string } : null;
+};
+
+// Personal access tokens only reach the endpoints their scopes allow
+const authenticateAccessToken = async (req: Request, res: Response, next: NextFunction, token: string) => {
+  const requiredScope = getRequiredScope(req);
+
+  if (!requiredScope) {
+    res.status(403).json({
+      success: false,
+      error: 'Personal access tokens cannot be used for this endpoint'
+    });
+    return;
+  }
+
+  const verified = await verifyPersonalAccessToken(token);
+
+  if (!verified) {
+    res.status(401).json({
+      success: false,
+      error: 'Access token invalid, expired or revoked'
+    });
+    return;
+  }
+
+  if (!hasScope(verified.scopes, requiredScope)) {
+    res.status(403).json({
+      success: false,
+      error: `Access token is missing the ${requiredScope} scope`
+    });
+    return;
+  }
+
+  req.user = verified.user;
+  req.accessTokenScopes = verified.scopes;
+  next();
+};
+
+// Authentication middleware (session JWTs and personal access tokens)
 export const authenticate = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
   try {
     const authHeader = req.headers.authorization;
@@ -31,29 +99,25 @@ export const authenticate = async (req: Request, res: Response, next: NextFuncti
     }
 
     const token = authHeader.substring(7); // Remove 'Bearer ' prefix
-    
-    const jwtSecret = process.env['JWT_SECRET'];
-    if (!jwtSecret) {
-      throw new Error('JWT_SECRET not configured');
-    }
 
-    const decoded = jwt.verify(token, jwtSecret) as any;
+    if (isPersonalAccessToken(token)) {
+      await authenticateAccessToken(req, res, next, token);
+      return;
+    }
     
-    // Verify user still exists
-    const user = await prisma.user.findUnique({
-      where: { id: decoded.userId },
-      select: { id: true, email: true, name: true }
-    });
+    // Verify the session is still active and the user still exists
+    const verified = await verifyAccessToken(token);
 
-    if (!user) {
+    if (!verified) {
       res.status(401).json({
         success: false,
-        error: 'User not found'
+        error: 'Session expired or revoked'
       });
       return;
     }
 
-    req.user = user;
+    req.user = verified.user;
+    req.sessionId = verified.sessionId;
     next();
   } catch (error) {
     if (error instanceof jwt.JsonWebTokenError) {
@@ -92,21 +156,11 @@ export const optionalAuth = async (req: Request, _res: Response, next: NextFunct
 
     const token = authHeader.substring(7);
     
-    const jwtSecret = process.env['JWT_SECRET'];
-    if (!jwtSecret) {
-      next();
-      return;
-    }
-
-    const decoded = jwt.verify(token, jwtSecret) as any;
-    
-    const user = await prisma.user.findUnique({
-      where: { id: decoded.userId },
-      select: { id: true, email: true, name: true }
-    });
+    const verified = await verifyAccessToken(token);
 
-    if (user) {
-      req.user = user;
+    if (verified) {
+      req.user = verified.user;
+      req.sessionId = verified.sessionId;
     }
     
     next();
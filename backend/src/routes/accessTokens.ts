@@ -0,0 +1,108 @@
+import { Router, Request, Response } from 'express';
+import { body, validationResult } from 'express-validator';
+import { authenticate } from '../middleware/auth';
+import {
+  ACCESS_TOKEN_SCOPES,
+  createAccessToken,
+  listAccessTokens,
+  revokeAccessToken
+} from '../services/accessTokens';
+
+const router = Router();
+
+// List personal access tokens and the scopes they can be given
+router.get('/', authenticate, async (req: Request, res: Response): Promise<void> => {
+  try {
+    const tokens = await listAccessTokens(req.user!.id);
+
+    res.json({
+      success: true,
+      data: {
+        tokens,
+        scopes: ACCESS_TOKEN_SCOPES
+      }
+    });
+  } catch (error) {
+    console.error('Get access tokens error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to fetch access tokens'
+    });
+  }
+});
+
+// Create a personal access token. The token itself is only returned here.
+router.post('/', authenticate, [
+  body('name').trim().isLength({ min: 1, max: 100 }),
+  body('scopes').isArray({ min: 1 }),
+  body('scopes.*').isIn(ACCESS_TOKEN_SCOPES as unknown as string[]),
+  body('expiresAt').optional({ nullable: true }).isISO8601()
+], async (req: Request, res: Response): Promise<void> => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      res.status(400).json({
+        success: false,
+        error: 'Validation failed',
+        details: errors.array()
+      });
+      return;
+    }
+
+    const { name, scopes, expiresAt } = req.body;
+
+    if (expiresAt && new Date(expiresAt) <= new Date()) {
+      res.status(400).json({
+        success: false,
+        error: 'Expiry date must be in the future'
+      });
+      return;
+    }
+
+    const { token, accessToken } = await createAccessToken(req.user!.id, {
+      name,
+      scopes,
+      expiresAt: expiresAt ? new Date(expiresAt) : null
+    });
+
+    res.status(201).json({
+      success: true,
+      message: 'Access token created',
+      data: { token, accessToken }
+    });
+  } catch (error) {
+    console.error('Create access token error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to create access token'
+    });
+  }
+});
+
+// Revoke a personal access token
+router.delete('/:id', authenticate, async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { count } = await revokeAccessToken(req.user!.id, req.params['id']);
+
+    if (count === 0) {
+      res.status(404).json({
+        success: false,
+        error: 'Access token not found'
+      });
+      return;
+    }
+
+    res.json({
+      success: true,
+      message: 'Access token revoked'
+    });
+  } catch (error) {
+    console.error('Revoke access token error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to revoke access token'
+    });
+  }
+});
+
+export default router;
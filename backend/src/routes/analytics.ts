@@ -0,0 +1,150 @@
+import { Router, Request, Response } from 'express';
+import { authenticate } from '../middleware/auth';
+import {
+  ANALYTICS_INTERVALS,
+  AnalyticsInterval,
+  parseAnalyticsRange,
+  getCompletedSeries,
+  getFlowTimes,
+  getOverdueSeries,
+  getBreakdown,
+  getBurndown
+} from '../services/analytics';
+
+const router = Router();
+
+// Scope and date range of a request (`categoryId`, `from` and `to` query
+// parameters). Sends the error response and returns null when invalid.
+const parseRequest = (req: Request, res: Response) => {
+  const { range, error } = parseAnalyticsRange(
+    req.query['from'] as string | undefined,
+    req.query['to'] as string | undefined
+  );
+
+  if (error) {
+    res.status(400).json({
+      success: false,
+      error
+    });
+    return null;
+  }
+
+  return {
+    scope: {
+      userId: req.user!.id,
+      categoryId: (req.query['categoryId'] as string) || undefined
+    },
+    range: range!
+  };
+};
+
+// Todos completed per day or week
+router.get('/completed', authenticate, async (req: Request, res: Response): Promise<void> => {
+  try {
+    const parsed = parseRequest(req, res);
+    if (!parsed) return;
+
+    const interval = ((req.query['interval'] as string) || 'day') as AnalyticsInterval;
+    if (!ANALYTICS_INTERVALS.includes(interval)) {
+      res.status(400).json({
+        success: false,
+        error: `Interval must be one of ${ANALYTICS_INTERVALS.join(', ')}`
+      });
+      return;
+    }
+
+    res.json({
+      success: true,
+      data: {
+        interval,
+        series: await getCompletedSeries(parsed.scope, parsed.range, interval)
+      }
+    });
+  } catch (error) {
+    console.error('Get completed analytics error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to get completed todos'
+    });
+  }
+});
+
+// Average and median lead and cycle time
+router.get('/flow', authenticate, async (req: Request, res: Response): Promise<void> => {
+  try {
+    const parsed = parseRequest(req, res);
+    if (!parsed) return;
+
+    res.json({
+      success: true,
+      data: await getFlowTimes(parsed.scope, parsed.range)
+    });
+  } catch (error) {
+    console.error('Get flow analytics error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to get lead and cycle time'
+    });
+  }
+});
+
+// Overdue todos at the end of each day
+router.get('/overdue', authenticate, async (req: Request, res: Response): Promise<void> => {
+  try {
+    const parsed = parseRequest(req, res);
+    if (!parsed) return;
+
+    res.json({
+      success: true,
+      data: {
+        series: await getOverdueSeries(parsed.scope, parsed.range)
+      }
+    });
+  } catch (error) {
+    console.error('Get overdue analytics error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to get overdue trend'
+    });
+  }
+});
+
+// Open and completed todos by category and priority
+router.get('/breakdown', authenticate, async (req: Request, res: Response): Promise<void> => {
+  try {
+    res.json({
+      success: true,
+      data: await getBreakdown({
+        userId: req.user!.id,
+        categoryId: (req.query['categoryId'] as string) || undefined
+      })
+    });
+  } catch (error) {
+    console.error('Get breakdown analytics error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to get breakdown'
+    });
+  }
+});
+
+// Burndown of a category, or of the todos due within the range
+router.get('/burndown', authenticate, async (req: Request, res: Response): Promise<void> => {
+  try {
+    const parsed = parseRequest(req, res);
+    if (!parsed) return;
+
+    res.json({
+      success: true,
+      data: await getBurndown(parsed.scope, parsed.range)
+    });
+  } catch (error) {
+    console.error('Get burndown analytics error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to get burndown'
+    });
+  }
+});
+
+export default router;
@@ -1,13 +1,67 @@
 import { Router, Request, Response } from 'express';
 import bcrypt from 'bcryptjs';
-import jwt, { SignOptions } from 'jsonwebtoken';
 import { PrismaClient } from '@prisma/client';
 import { body, validationResult } from 'express-validator';
+import rateLimit from 'express-rate-limit';
 import { authenticate } from '../middleware/auth';
+import { createSession, rotateSession, listSessions, revokeSessions } from '../services/sessions';
+import { consumeUserToken, USER_TOKEN_TYPES } from '../services/userTokens';
+import { sendPasswordResetEmail, sendVerificationEmail } from '../services/accountEmails';
+import {
+  startTwoFactorSetup,
+  verifyTwoFactorCode,
+  generateRecoveryCodes,
+  consumeRecoveryCode,
+  countRecoveryCodes,
+  disableTwoFactor,
+  createLoginChallenge,
+  startChallengeAttempt,
+  completeLoginChallenge
+} from '../services/twoFactor';
 
 const router = Router();
 const prisma = new PrismaClient();
 
+// Second login step, much stricter than the global limit since it guards a
+// six digit code
+const twoFactorLoginLimiter = rateLimit({
+  windowMs: 15 * 60 * 1000,
+  max: 10,
+  standardHeaders: true,
+  legacyHeaders: false,
+  message: {
+    success: false,
+    error: 'Too many authentication attempts, please try again later'
+  }
+});
+
+// Fields of the user returned after signing in
+const toAuthUser = (user: any) => ({
+  id: user.id,
+  email: user.email,
+  name: user.name,
+  avatar: user.avatar,
+  emailVerifiedAt: user.emailVerifiedAt,
+  createdAt: user.createdAt
+});
+
+// Check the password of the current user, sending 400 when it is wrong
+const requirePassword = async (req: Request, res: Response) => {
+  const user = await prisma.user.findUnique({
+    where: { id: req.user!.id }
+  });
+
+  if (!user || !await bcrypt.compare(req.body.password || '', user.password)) {
+    res.status(400).json({
+      success: false,
+      error: 'Password is incorrect'
+    });
+    return null;
+  }
+
+  return user;
+};
+
 // Register
 router.post('/register', [
   body('email').isEmail().normalizeEmail(),
@@ -56,28 +110,28 @@ router.post('/register', [
         email: true,
         name: true,
         avatar: true,
+        emailVerifiedAt: true,
         createdAt: true
       }
     });
 
-    // Generate JWT token
-    const jwtSecret = process.env['JWT_SECRET'];
-    if (!jwtSecret) {
-      throw new Error('JWT_SECRET not configured');
+    // Start a session with an access and a refresh token
+    const { token, refreshToken } = await createSession(user.id, req);
+
+    // A mail failure must not fail the registration, the user can ask for a new link
+    try {
+      await sendVerificationEmail(user);
+    } catch (mailError) {
+      console.error('Send verification email error:', mailError);
     }
-    
-    const token = jwt.sign(
-      { userId: user.id },
-      jwtSecret,
-      { expiresIn: process.env['JWT_EXPIRES_IN'] || '7d' } as SignOptions
-    );
 
     res.status(201).json({
       success: true,
       message: 'User created successfully',
       data: {
         user,
-        token
+        token,
+        refreshToken
       }
     });
   } catch (error) {
@@ -130,30 +184,29 @@ router.post('/login', [
       return;
     }
 
-    // Generate JWT token
-    const jwtSecret = process.env['JWT_SECRET'];
-    if (!jwtSecret) {
-      throw new Error('JWT_SECRET not configured');
+    // With 2FA enabled the client has to complete the second step first
+    if (user.twoFactorEnabledAt) {
+      res.json({
+        success: true,
+        message: 'Two-factor authentication code required',
+        data: {
+          twoFactorRequired: true,
+          challengeToken: await createLoginChallenge(user.id)
+        }
+      });
+      return;
     }
-    
-    const token = jwt.sign(
-      { userId: user.id },
-      jwtSecret,
-      { expiresIn: process.env['JWT_EXPIRES_IN'] || '7d' } as SignOptions
-    );
+
+    // Start a session with an access and a refresh token
+    const { token, refreshToken } = await createSession(user.id, req);
 
     res.json({
       success: true,
       message: 'Login successful',
       data: {
-        user: {
-          id: user.id,
-          email: user.email,
-          name: user.name,
-          avatar: user.avatar,
-          createdAt: user.createdAt
-        },
-        token
+        user: toAuthUser(user),
+        token,
+        refreshToken
       }
     });
   } catch (error) {
@@ -165,6 +218,571 @@ router.post('/login', [
   }
 });
 
+// Second login step: exchange the challenge token and a TOTP or recovery code for tokens.
+// Each challenge allows a handful of attempts before the login has to start over.
+router.post('/login/2fa', twoFactorLoginLimiter, [
+  body('challengeToken').isString().notEmpty(),
+  body('code').optional().isString(),
+  body('recoveryCode').optional().isString(),
+  body().custom(value => {
+    if (!value.code && !value.recoveryCode) {
+      throw new Error('A code or a recovery code is required');
+    }
+    return true;
+  })
+], async (req: Request, res: Response): Promise<void> => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      res.status(400).json({
+        success: false,
+        error: 'Validation failed',
+        details: errors.array()
+      });
+      return;
+    }
+
+    const { challengeToken, code, recoveryCode } = req.body;
+
+    const userId = await startChallengeAttempt(challengeToken);
+    const user = userId && await prisma.user.findUnique({
+      where: { id: userId }
+    });
+
+    if (!user || !user.twoFactorEnabledAt) {
+      res.status(401).json({
+        success: false,
+        error: 'Login attempt expired, please sign in again'
+      });
+      return;
+    }
+
+    const isValid = code
+      ? await verifyTwoFactorCode(user, code)
+      : await consumeRecoveryCode(user.id, recoveryCode);
+
+    if (!isValid) {
+      res.status(401).json({
+        success: false,
+        error: code ? 'Invalid authentication code' : 'Invalid recovery code'
+      });
+      return;
+    }
+
+    if (!await completeLoginChallenge(challengeToken)) {
+      res.status(401).json({
+        success: false,
+        error: 'Login attempt expired, please sign in again'
+      });
+      return;
+    }
+
+    const { token, refreshToken } = await createSession(user.id, req);
+
+    res.json({
+      success: true,
+      message: 'Login successful',
+      data: {
+        user: toAuthUser(user),
+        token,
+        refreshToken
+      }
+    });
+  } catch (error) {
+    console.error('Two-factor login error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Login failed'
+    });
+  }
+});
+
+// Exchange a refresh token for a new access token, rotating the refresh token
+router.post('/refresh', [
+  body('refreshToken').isString().notEmpty()
+], async (req: Request, res: Response): Promise<void> => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      res.status(400).json({
+        success: false,
+        error: 'Validation failed',
+        details: errors.array()
+      });
+      return;
+    }
+
+    const tokens = await rotateSession(req.body.refreshToken, req);
+
+    if (!tokens) {
+      res.status(401).json({
+        success: false,
+        error: 'Invalid refresh token'
+      });
+      return;
+    }
+
+    res.json({
+      success: true,
+      data: tokens
+    });
+  } catch (error) {
+    console.error('Refresh token error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to refresh token'
+    });
+  }
+});
+
+// Log out of the current session
+router.post('/logout', authenticate, async (req: Request, res: Response): Promise<void> => {
+  try {
+    await revokeSessions(req.user!.id, { id: req.sessionId });
+
+    res.json({
+      success: true,
+      message: 'Logged out successfully'
+    });
+  } catch (error) {
+    console.error('Logout error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to log out'
+    });
+  }
+});
+
+// Log out of every session, including the current one
+router.post('/logout-all', authenticate, async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { count } = await revokeSessions(req.user!.id);
+
+    res.json({
+      success: true,
+      message: `Logged out of ${count} sessions`
+    });
+  } catch (error) {
+    console.error('Logout everywhere error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to log out of all sessions'
+    });
+  }
+});
+
+// List active sessions (signed-in devices)
+router.get('/sessions', authenticate, async (req: Request, res: Response): Promise<void> => {
+  try {
+    const sessions = await listSessions(req.user!.id);
+
+    res.json({
+      success: true,
+      data: {
+        sessions: sessions.map(session => ({
+          ...session,
+          current: session.id === req.sessionId
+        }))
+      }
+    });
+  } catch (error) {
+    console.error('Get sessions error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to get sessions'
+    });
+  }
+});
+
+// Revoke a single session
+router.delete('/sessions/:id', authenticate, async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { count } = await revokeSessions(req.user!.id, { id: req.params['id'] });
+
+    if (count === 0) {
+      res.status(404).json({
+        success: false,
+        error: 'Session not found'
+      });
+      return;
+    }
+
+    res.json({
+      success: true,
+      message: 'Session revoked'
+    });
+  } catch (error) {
+    console.error('Revoke session error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to revoke session'
+    });
+  }
+});
+
+// Send a password reset link. The response is the same whether or not the
+// email belongs to an account, so it cannot be used to look up users.
+router.post('/forgot-password', [
+  body('email').isEmail().normalizeEmail()
+], async (req: Request, res: Response): Promise<void> => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      res.status(400).json({
+        success: false,
+        error: 'Validation failed',
+        details: errors.array()
+      });
+      return;
+    }
+
+    const user = await prisma.user.findUnique({
+      where: { email: req.body.email },
+      select: { id: true, email: true, name: true }
+    });
+
+    if (user) {
+      await sendPasswordResetEmail(user);
+    }
+
+    res.json({
+      success: true,
+      message: 'If an account exists for this email, a reset link has been sent'
+    });
+  } catch (error) {
+    console.error('Forgot password error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to send reset link'
+    });
+  }
+});
+
+// Choose a new password with a reset token, signing out every session
+router.post('/reset-password', [
+  body('token').isString().notEmpty(),
+  body('password').isLength({ min: 6 })
+], async (req: Request, res: Response): Promise<void> => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      res.status(400).json({
+        success: false,
+        error: 'Validation failed',
+        details: errors.array()
+      });
+      return;
+    }
+
+    const { token, password } = req.body;
+
+    const userId = await consumeUserToken(token, USER_TOKEN_TYPES.PASSWORD_RESET);
+    if (!userId) {
+      res.status(400).json({
+        success: false,
+        error: 'Reset link is invalid or has expired'
+      });
+      return;
+    }
+
+    const saltRounds = 12;
+    const hashedPassword = await bcrypt.hash(password, saltRounds);
+
+    await prisma.user.update({
+      where: { id: userId },
+      data: { password: hashedPassword }
+    });
+
+    // Following the emailed link also proves the address
+    await prisma.user.updateMany({
+      where: { id: userId, emailVerifiedAt: null },
+      data: { emailVerifiedAt: new Date() }
+    });
+
+    await revokeSessions(userId);
+
+    res.json({
+      success: true,
+      message: 'Password has been reset, please sign in'
+    });
+  } catch (error) {
+    console.error('Reset password error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to reset password'
+    });
+  }
+});
+
+// Confirm an email address with the token from the verification email
+router.get('/verify-email', async (req: Request, res: Response): Promise<void> => {
+  try {
+    const token = req.query['token'];
+
+    const userId = typeof token === 'string' && token
+      ? await consumeUserToken(token, USER_TOKEN_TYPES.EMAIL_VERIFICATION)
+      : null;
+
+    if (!userId) {
+      res.status(400).json({
+        success: false,
+        error: 'Verification link is invalid or has expired'
+      });
+      return;
+    }
+
+    await prisma.user.update({
+      where: { id: userId },
+      data: { emailVerifiedAt: new Date() }
+    });
+
+    res.json({
+      success: true,
+      message: 'Email verified successfully'
+    });
+  } catch (error) {
+    console.error('Verify email error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to verify email'
+    });
+  }
+});
+
+// Send a new verification email to the current user
+router.post('/verify-email/resend', authenticate, async (req: Request, res: Response): Promise<void> => {
+  try {
+    const user = await prisma.user.findUnique({
+      where: { id: req.user!.id },
+      select: { id: true, email: true, name: true, emailVerifiedAt: true }
+    });
+
+    if (!user) {
+      res.status(404).json({
+        success: false,
+        error: 'User not found'
+      });
+      return;
+    }
+
+    if (user.emailVerifiedAt) {
+      res.status(400).json({
+        success: false,
+        error: 'Email is already verified'
+      });
+      return;
+    }
+
+    await sendVerificationEmail(user);
+
+    res.json({
+      success: true,
+      message: 'Verification email sent'
+    });
+  } catch (error) {
+    console.error('Resend verification email error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to send verification email'
+    });
+  }
+});
+
+// Two-factor authentication status
+router.get('/2fa', authenticate, async (req: Request, res: Response): Promise<void> => {
+  try {
+    const user = await prisma.user.findUnique({
+      where: { id: req.user!.id },
+      select: { twoFactorEnabledAt: true }
+    });
+
+    res.json({
+      success: true,
+      data: {
+        enabled: !!user?.twoFactorEnabledAt,
+        enabledAt: user?.twoFactorEnabledAt || null,
+        recoveryCodesRemaining: user?.twoFactorEnabledAt ? await countRecoveryCodes(req.user!.id) : 0
+      }
+    });
+  } catch (error) {
+    console.error('Get two-factor status error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to get two-factor status'
+    });
+  }
+});
+
+// Start enrolling: returns the secret as an otpauth URI and QR code.
+// Nothing is enforced until the first code is confirmed.
+router.post('/2fa/setup', authenticate, async (req: Request, res: Response): Promise<void> => {
+  try {
+    const user = await prisma.user.findUnique({
+      where: { id: req.user!.id },
+      select: { id: true, email: true, twoFactorEnabledAt: true }
+    });
+
+    if (!user) {
+      res.status(404).json({
+        success: false,
+        error: 'User not found'
+      });
+      return;
+    }
+
+    if (user.twoFactorEnabledAt) {
+      res.status(400).json({
+        success: false,
+        error: 'Two-factor authentication is already enabled'
+      });
+      return;
+    }
+
+    const setup = await startTwoFactorSetup(user);
+
+    res.json({
+      success: true,
+      data: setup
+    });
+  } catch (error) {
+    console.error('Two-factor setup error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to start two-factor setup'
+    });
+  }
+});
+
+// Finish enrolling with a code from the authenticator app, returns the recovery codes
+router.post('/2fa/confirm', authenticate, [
+  body('code').isString().notEmpty()
+], async (req: Request, res: Response): Promise<void> => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      res.status(400).json({
+        success: false,
+        error: 'Validation failed',
+        details: errors.array()
+      });
+      return;
+    }
+
+    const user = await prisma.user.findUnique({
+      where: { id: req.user!.id }
+    });
+
+    if (!user || !user.twoFactorSecret || user.twoFactorEnabledAt) {
+      res.status(400).json({
+        success: false,
+        error: 'No two-factor setup in progress'
+      });
+      return;
+    }
+
+    if (!await verifyTwoFactorCode(user, req.body.code)) {
+      res.status(400).json({
+        success: false,
+        error: 'Invalid authentication code'
+      });
+      return;
+    }
+
+    await prisma.user.update({
+      where: { id: user.id },
+      data: { twoFactorEnabledAt: new Date() }
+    });
+    const recoveryCodes = await generateRecoveryCodes(user.id);
+
+    res.json({
+      success: true,
+      message: 'Two-factor authentication enabled',
+      data: { recoveryCodes }
+    });
+  } catch (error) {
+    console.error('Two-factor confirm error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to enable two-factor authentication'
+    });
+  }
+});
+
+// Replace the recovery codes, requires the password
+router.post('/2fa/recovery-codes', authenticate, [
+  body('password').notEmpty()
+], async (req: Request, res: Response): Promise<void> => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      res.status(400).json({
+        success: false,
+        error: 'Validation failed',
+        details: errors.array()
+      });
+      return;
+    }
+
+    const user = await requirePassword(req, res);
+    if (!user) return;
+
+    if (!user.twoFactorEnabledAt) {
+      res.status(400).json({
+        success: false,
+        error: 'Two-factor authentication is not enabled'
+      });
+      return;
+    }
+
+    const recoveryCodes = await generateRecoveryCodes(user.id);
+
+    res.json({
+      success: true,
+      message: 'New recovery codes generated',
+      data: { recoveryCodes }
+    });
+  } catch (error) {
+    console.error('Regenerate recovery codes error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to generate recovery codes'
+    });
+  }
+});
+
+// Turn two-factor authentication off, requires the password
+router.post('/2fa/disable', authenticate, [
+  body('password').notEmpty()
+], async (req: Request, res: Response): Promise<void> => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      res.status(400).json({
+        success: false,
+        error: 'Validation failed',
+        details: errors.array()
+      });
+      return;
+    }
+
+    const user = await requirePassword(req, res);
+    if (!user) return;
+
+    await disableTwoFactor(user.id);
+
+    res.json({
+      success: true,
+      message: 'Two-factor authentication disabled'
+    });
+  } catch (error) {
+    console.error('Disable two-factor error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to disable two-factor authentication'
+    });
+  }
+});
+
 // Get current user
 router.get('/me', authenticate, async (req: Request, res: Response): Promise<void> => {
   try {
@@ -175,6 +793,7 @@ router.get('/me', authenticate, async (req: Request, res: Response): Promise<voi
         email: true,
         name: true,
         avatar: true,
+        emailVerifiedAt: true,
         createdAt: true,
         updatedAt: true
       }
@@ -300,6 +919,9 @@ router.put('/password', authenticate, [
       data: { password: hashedNewPassword }
     });
 
+    // Sign out every other device, this one stays signed in
+    await revokeSessions(req.user!.id, { exceptSessionId: req.sessionId });
+
     res.json({
       success: true,
       message: 'Password changed successfully'
@@ -0,0 +1,213 @@
+import { Router, Request, Response } from 'express';
+import { PrismaClient } from '@prisma/client';
+import crypto from 'crypto';
+import { authenticate } from '../middleware/auth';
+import { buildCalendar, ICalComponent } from '../utils/ical';
+
+const router = Router();
+const prisma = new PrismaClient();
+
+const STATUSES = ['TODO', 'IN_PROGRESS', 'COMPLETED', 'CANCELLED'];
+
+// iCalendar PRIORITY runs from 1 (highest) to 9 (lowest)
+const PRIORITY_MAP: Record<string, number> = {
+  URGENT: 1,
+  HIGH: 3,
+  MEDIUM: 5,
+  LOW: 9
+};
+
+const VTODO_STATUS_MAP: Record<string, string> = {
+  TODO: 'NEEDS-ACTION',
+  IN_PROGRESS: 'IN-PROCESS',
+  COMPLETED: 'COMPLETED',
+  CANCELLED: 'CANCELLED'
+};
+
+const generateToken = () => crypto.randomBytes(24).toString('hex');
+
+const getFeedUrl = (req: Request, token: string) => {
+  return `${req.protocol}://${req.get('host')}${req.baseUrl}/${token}.ics`;
+};
+
+// Parse a comma separated query parameter, e.g. ?status=TODO,IN_PROGRESS
+const parseList = (value: unknown): string[] => {
+  const values = Array.isArray(value) ? value : [value];
+  return values
+    .filter((item): item is string => typeof item === 'string')
+    .flatMap(item => item.split(','))
+    .map(item => item.trim())
+    .filter(Boolean);
+};
+
+// Get the calendar feed settings of the authenticated user
+router.get('/feed', authenticate, async (req: Request, res: Response): Promise<void> => {
+  try {
+    const user = await prisma.user.findUnique({
+      where: { id: req.user!.id },
+      select: { calendarToken: true }
+    });
+
+    const token = user?.calendarToken || null;
+
+    res.json({
+      success: true,
+      data: {
+        token,
+        url: token ? getFeedUrl(req, token) : null
+      }
+    });
+  } catch (error) {
+    console.error('Get calendar feed error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to fetch calendar feed'
+    });
+  }
+});
+
+// Enable the feed or rotate its token, invalidating the previous URL
+router.post('/feed', authenticate, async (req: Request, res: Response): Promise<void> => {
+  try {
+    const token = generateToken();
+
+    await prisma.user.update({
+      where: { id: req.user!.id },
+      data: { calendarToken: token }
+    });
+
+    res.json({
+      success: true,
+      message: 'Calendar feed URL generated',
+      data: {
+        token,
+        url: getFeedUrl(req, token)
+      }
+    });
+  } catch (error) {
+    console.error('Rotate calendar token error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to generate calendar feed URL'
+    });
+  }
+});
+
+// Disable the feed
+router.delete('/feed', authenticate, async (req: Request, res: Response): Promise<void> => {
+  try {
+    await prisma.user.update({
+      where: { id: req.user!.id },
+      data: { calendarToken: null }
+    });
+
+    res.json({
+      success: true,
+      message: 'Calendar feed disabled'
+    });
+  } catch (error) {
+    console.error('Disable calendar feed error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to disable calendar feed'
+    });
+  }
+});
+
+// Public ICS feed of todos with a due date, authenticated by the secret token.
+// Optional filters: ?status=TODO,IN_PROGRESS, ?category=Work,Home and ?type=event
+// to publish events instead of tasks for calendar apps that don't show VTODO.
+router.get('/:token.ics', async (req: Request, res: Response): Promise<void> => {
+  try {
+    const user = await prisma.user.findUnique({
+      where: { calendarToken: req.params['token'] },
+      select: { id: true, name: true }
+    });
+
+    if (!user) {
+      res.status(404).json({
+        success: false,
+        error: 'Calendar feed not found'
+      });
+      return;
+    }
+
+    const statuses = parseList(req.query['status']).map(status => status.toUpperCase());
+    if (statuses.some(status => !STATUSES.includes(status))) {
+      res.status(400).json({
+        success: false,
+        error: `Status must be one of ${STATUSES.join(', ')}`
+      });
+      return;
+    }
+
+    const where: any = {
+      userId: user.id,
+      deletedAt: null,
+      dueDate: { not: null }
+    };
+
+    if (statuses.length > 0) {
+      where.status = { in: statuses };
+    }
+
+    const categories = parseList(req.query['category']);
+    if (categories.length > 0) {
+      where.categories = {
+        some: {
+          category: {
+            name: { in: categories },
+            deletedAt: null
+          }
+        }
+      };
+    }
+
+    const todos = await prisma.todo.findMany({
+      where,
+      include: {
+        categories: {
+          include: {
+            category: true
+          }
+        }
+      },
+      orderBy: { dueDate: 'asc' }
+    });
+
+    const component: ICalComponent = req.query['type'] === 'event' ? 'VEVENT' : 'VTODO';
+
+    const calendar = buildCalendar(
+      `${user.name}'s todos`,
+      component,
+      todos.map(todo => ({
+        uid: `${todo.id}@todo-app`,
+        summary: todo.title,
+        description: todo.description,
+        start: todo.dueDate!,
+        status: component === 'VTODO'
+          ? VTODO_STATUS_MAP[todo.status] || 'NEEDS-ACTION'
+          : todo.status === 'CANCELLED' ? 'CANCELLED' : 'CONFIRMED',
+        priority: PRIORITY_MAP[todo.priority] || 0,
+        categories: todo.categories
+          .filter(tc => !tc.category.deletedAt)
+          .map(tc => tc.category.name),
+        created: todo.createdAt,
+        lastModified: todo.updatedAt,
+        completed: todo.status === 'COMPLETED' ? todo.completedAt || todo.updatedAt : null
+      }))
+    );
+
+    res.setHeader('Content-Type', 'text/calendar; charset=utf-8');
+    res.setHeader('Content-Disposition', 'inline; filename="todos.ics"');
+    res.send(calendar);
+  } catch (error) {
+    console.error('Calendar feed error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to generate calendar feed'
+    });
+  }
+});
+
+export default router;
@@ -2,23 +2,83 @@ import { Router, Request, Response } from 'express';
 import { PrismaClient } from '@prisma/client';
 import { body, validationResult } from 'express-validator';
 import { authenticate } from '../middleware/auth';
+import { emitWebhookEvent } from '../services/webhooks';
+import { HISTORY_ACTIONS, TodoSnapshot, recordRevision, snapshotTodo } from '../services/todoHistory';
+import { publishTodos } from '../services/todoEvents';
 
 const router = Router();
 const prisma = new PrismaClient();
 
+type Transaction = Parameters<Parameters<typeof prisma.$transaction>[0]>[0];
+
+interface MovedTodo {
+  todoId: string;
+  before: TodoSnapshot | null;
+}
+
+// Add the todos of one category to another. Returns every todo of the first
+// category with its state from before, also those that already have the
+// other category: they are only left out of the insert, but still lose the
+// category they are moved from.
+const linkTodos = async (tx: Transaction, fromId: string, toId: string): Promise<MovedTodo[]> => {
+  const links = await tx.todoCategory.findMany({
+    where: { categoryId: fromId },
+    select: {
+      todoId: true,
+      todo: {
+        select: {
+          categories: { where: { categoryId: toId }, select: { categoryId: true } }
+        }
+      }
+    }
+  });
+
+  const moved: MovedTodo[] = [];
+  for (const link of links) {
+    moved.push({ todoId: link.todoId, before: await snapshotTodo(link.todoId, tx) });
+  }
+
+  await tx.todoCategory.createMany({
+    data: links
+      .filter(link => link.todo.categories.length === 0)
+      .map(link => ({ todoId: link.todoId, categoryId: toId }))
+  });
+
+  return moved;
+};
+
+// Record the history of moved todos once their old category is gone, so each
+// revision shows both categories changing
+const recordMoves = async (tx: Transaction, moved: MovedTodo[], userId: string) => {
+  for (const { todoId, before } of moved) {
+    await recordRevision(todoId, userId, HISTORY_ACTIONS.UPDATED, before, tx);
+  }
+  return moved.map(todo => todo.todoId);
+};
+
 // Get all categories
 router.get('/', authenticate, async (req: Request, res: Response): Promise<void> => {
   try {
     const userId = req.user!.id;
 
     const categories = await prisma.category.findMany({
-      where: { userId },
-      orderBy: { name: 'asc' }
+      where: { userId, deletedAt: null },
+      orderBy: { name: 'asc' },
+      include: {
+        _count: {
+          select: { todos: { where: { todo: { deletedAt: null } } } }
+        }
+      }
     });
 
     res.json({
       success: true,
-      data: { categories }
+      data: {
+        categories: categories.map(({ _count, ...category }) => ({
+          ...category,
+          todoCount: _count.todos
+        }))
+      }
     });
   } catch (error) {
     console.error('Get categories error:', error);
@@ -36,7 +96,7 @@ router.get('/:id', authenticate, async (req: Request, res: Response): Promise<vo
     const userId = req.user!.id;
 
     const category = await prisma.category.findFirst({
-      where: { id, userId }
+      where: { id, userId, deletedAt: null }
     });
 
     if (!category) {
@@ -83,7 +143,8 @@ router.post('/', authenticate, [
     const existingCategory = await prisma.category.findFirst({
       where: { 
         userId,
-        name: name
+        name: name,
+        deletedAt: null
       }
     });
 
@@ -103,6 +164,8 @@ router.post('/', authenticate, [
       }
     });
 
+    await emitWebhookEvent('category.created', { userId }, category);
+
     res.status(201).json({
       success: true,
       message: 'Category created successfully',
@@ -139,7 +202,7 @@ router.put('/:id', authenticate, [
 
     // Check if category exists and belongs to user
     const existingCategory = await prisma.category.findFirst({
-      where: { id, userId }
+      where: { id, userId, deletedAt: null }
     });
 
     if (!existingCategory) {
@@ -156,7 +219,8 @@ router.put('/:id', authenticate, [
         where: { 
           userId,
           name: name,
-          id: { not: id }
+          id: { not: id },
+          deletedAt: null
         }
       });
 
@@ -179,6 +243,8 @@ router.put('/:id', authenticate, [
       data: updateData
     });
 
+    await emitWebhookEvent('category.updated', { userId }, category);
+
     res.json({
       success: true,
       message: 'Category updated successfully',
@@ -193,15 +259,17 @@ router.put('/:id', authenticate, [
   }
 });
 
-// Delete category
+// Delete category (moves it to the trash, see routes/trash.ts). With the
+// `reassignTo` query parameter its todos are added to that category first.
 router.delete('/:id', authenticate, async (req: Request, res: Response): Promise<void> => {
   try {
     const { id } = req.params;
     const userId = req.user!.id;
+    const reassignTo = (req.query['reassignTo'] as string) || undefined;
 
     // Check if category exists and belongs to user
     const category = await prisma.category.findFirst({
-      where: { id, userId }
+      where: { id, userId, deletedAt: null }
     });
 
     if (!category) {
@@ -212,14 +280,36 @@ router.delete('/:id', authenticate, async (req: Request, res: Response): Promise
       return;
     }
 
-    // Delete category
-    await prisma.category.delete({
-      where: { id }
+    if (reassignTo !== undefined) {
+      const target = await prisma.category.findFirst({
+        where: { id: reassignTo, userId, deletedAt: null }
+      });
+
+      if (!target || target.id === id) {
+        res.status(400).json({
+          success: false,
+          error: 'Todos can only be reassigned to another of your categories'
+        });
+        return;
+      }
+    }
+
+    // Todo links are kept so a restore brings them back
+    const movedIds = await prisma.$transaction(async tx => {
+      const moved = reassignTo ? await linkTodos(tx, id, reassignTo) : [];
+      await tx.category.update({
+        where: { id },
+        data: { deletedAt: new Date() }
+      });
+      return recordMoves(tx, moved, userId);
     });
 
+    await emitWebhookEvent('category.deleted', { userId }, { id, name: category.name });
+    await publishTodos('todo-updated', movedIds);
+
     res.json({
       success: true,
-      message: 'Category deleted successfully'
+      message: 'Category moved to trash'
     });
   } catch (error) {
     console.error('Delete category error:', error);
@@ -230,4 +320,76 @@ router.delete('/:id', authenticate, async (req: Request, res: Response): Promise
   }
 });
 
+// Merge a category into another: its todos move to `targetId` and the
+// category itself is removed, all in one transaction
+router.post('/:id/merge', authenticate, [
+  body('targetId').isString().notEmpty().withMessage('Target category is required')
+], async (req: Request, res: Response): Promise<void> => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      res.status(400).json({
+        success: false,
+        error: 'Validation failed',
+        details: errors.array()
+      });
+      return;
+    }
+
+    const { id } = req.params;
+    const { targetId } = req.body;
+    const userId = req.user!.id;
+
+    if (targetId === id) {
+      res.status(400).json({
+        success: false,
+        error: 'A category cannot be merged into itself'
+      });
+      return;
+    }
+
+    const [source, target] = await Promise.all([
+      prisma.category.findFirst({ where: { id, userId, deletedAt: null } }),
+      prisma.category.findFirst({ where: { id: targetId, userId, deletedAt: null } })
+    ]);
+
+    if (!source || !target) {
+      res.status(404).json({
+        success: false,
+        error: 'Category not found'
+      });
+      return;
+    }
+
+    // Deleting the source also drops its links once they have been copied
+    const movedIds = await prisma.$transaction(async tx => {
+      const moved = await linkTodos(tx, id, targetId);
+      await tx.category.delete({ where: { id } });
+      return recordMoves(tx, moved, userId);
+    });
+
+    await emitWebhookEvent('category.deleted', { userId }, { id, name: source.name, mergedInto: targetId });
+    await publishTodos('todo-updated', movedIds);
+
+    const todoCount = await prisma.todoCategory.count({
+      where: { categoryId: targetId, todo: { deletedAt: null } }
+    });
+
+    res.json({
+      success: true,
+      message: 'Categories merged successfully',
+      data: {
+        category: { ...target, todoCount },
+        movedTodos: movedIds.length
+      }
+    });
+  } catch (error) {
+    console.error('Merge categories error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to merge categories'
+    });
+  }
+});
+
 export default router;
\ No newline at end of file
@@ -0,0 +1,171 @@
+import { Router, Request, Response } from 'express';
+import { PrismaClient } from '@prisma/client';
+import { body, validationResult } from 'express-validator';
+import { authenticate } from '../middleware/auth';
+
+const router = Router();
+const prisma = new PrismaClient();
+
+// Largest page of notifications a client can ask for
+const MAX_PAGE_SIZE = 100;
+
+// Get notifications with unread count
+router.get('/', authenticate, async (req: Request, res: Response): Promise<void> => {
+  try {
+    const userId = req.user!.id;
+    const page = Math.max(parseInt(req.query['page'] as string) || 1, 1);
+    const limit = Math.min(Math.max(parseInt(req.query['limit'] as string) || 20, 1), MAX_PAGE_SIZE);
+    const skip = (page - 1) * limit;
+
+    const where: any = { userId };
+    if (req.query['unread'] === 'true') {
+      where.read = false;
+    }
+
+    const [notifications, total, unreadCount] = await Promise.all([
+      prisma.notification.findMany({
+        where,
+        include: {
+          todo: {
+            select: { id: true, title: true, status: true, dueDate: true }
+          }
+        },
+        orderBy: { createdAt: 'desc' },
+        skip,
+        take: limit
+      }),
+      prisma.notification.count({ where }),
+      prisma.notification.count({ where: { userId, read: false } })
+    ]);
+
+    res.json({
+      success: true,
+      data: {
+        notifications,
+        unreadCount,
+        pagination: {
+          page,
+          limit,
+          total,
+          pages: Math.ceil(total / limit)
+        }
+      }
+    });
+  } catch (error) {
+    console.error('Get notifications error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to fetch notifications'
+    });
+  }
+});
+
+// Mark all notifications as read
+router.put('/read-all', authenticate, async (req: Request, res: Response): Promise<void> => {
+  try {
+    const result = await prisma.notification.updateMany({
+      where: { userId: req.user!.id, read: false },
+      data: { read: true, readAt: new Date() }
+    });
+
+    res.json({
+      success: true,
+      message: 'Notifications marked as read',
+      data: { updated: result.count }
+    });
+  } catch (error) {
+    console.error('Mark all notifications read error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to update notifications'
+    });
+  }
+});
+
+// Mark a notification as read or unread
+router.put('/:id', authenticate, [
+  body('read').isBoolean()
+], async (req: Request, res: Response): Promise<void> => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      res.status(400).json({
+        success: false,
+        error: 'Validation failed',
+        details: errors.array()
+      });
+      return;
+    }
+
+    const { id } = req.params;
+    const { read } = req.body;
+
+    const existingNotification = await prisma.notification.findFirst({
+      where: { id, userId: req.user!.id }
+    });
+
+    if (!existingNotification) {
+      res.status(404).json({
+        success: false,
+        error: 'Notification not found'
+      });
+      return;
+    }
+
+    const notification = await prisma.notification.update({
+      where: { id },
+      data: {
+        read,
+        readAt: read ? new Date() : null
+      }
+    });
+
+    res.json({
+      success: true,
+      message: 'Notification updated successfully',
+      data: { notification }
+    });
+  } catch (error) {
+    console.error('Update notification error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to update notification'
+    });
+  }
+});
+
+// Delete notification
+router.delete('/:id', authenticate, async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { id } = req.params;
+
+    const notification = await prisma.notification.findFirst({
+      where: { id, userId: req.user!.id }
+    });
+
+    if (!notification) {
+      res.status(404).json({
+        success: false,
+        error: 'Notification not found'
+      });
+      return;
+    }
+
+    await prisma.notification.delete({
+      where: { id }
+    });
+
+    res.json({
+      success: true,
+      message: 'Notification deleted successfully'
+    });
+  } catch (error) {
+    console.error('Delete notification error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to delete notification'
+    });
+  }
+});
+
+export default router;
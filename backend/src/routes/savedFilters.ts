@@ -0,0 +1,328 @@
+import { Router, Request, Response } from 'express';
+import { PrismaClient } from '@prisma/client';
+import { body, validationResult } from 'express-validator';
+import { authenticate } from '../middleware/auth';
+import { getMembership, hasTeamRole } from '../services/teamAccess';
+import { TODO_VIEWS, buildTodoWhere } from '../services/todoFilters';
+import { parseTodoSort } from '../services/todoSort';
+
+const router = Router();
+const prisma = new PrismaClient();
+
+const filterInclude = {
+  team: {
+    select: { id: true, name: true }
+  },
+  user: {
+    select: { id: true, name: true }
+  }
+};
+
+// Filters a user can see: their own personal filters and those of their teams
+const visibleWhere = (userId: string) => ({
+  OR: [
+    { userId, teamId: null },
+    { team: { members: { some: { userId } } } }
+  ]
+});
+
+const filterValidators = (optional: boolean) => {
+  const name = body('name').trim().isLength({ min: 1, max: 100 });
+  return [
+    optional ? name.optional() : name,
+    body('query').optional().isString().isLength({ max: 500 }),
+    body('view').optional().isIn(TODO_VIEWS),
+    body('sort').optional({ nullable: true }).isString().isLength({ max: 100 }),
+    body('teamId').optional({ nullable: true }).isString()
+  ];
+};
+
+// Check the query and sort parse and the user may share with the team.
+// Sends the error response and returns false otherwise.
+const checkFilterInput = async (req: Request, res: Response) => {
+  const userId = req.user!.id;
+  const { query, sort, teamId } = req.body;
+
+  if (query) {
+    const { error } = await buildTodoWhere(userId, { q: query });
+    if (error) {
+      res.status(400).json({
+        success: false,
+        error
+      });
+      return false;
+    }
+  }
+
+  if (sort) {
+    const { error } = parseTodoSort(sort);
+    if (error) {
+      res.status(400).json({
+        success: false,
+        error
+      });
+      return false;
+    }
+  }
+
+  if (teamId && !await getMembership(teamId, userId)) {
+    res.status(403).json({
+      success: false,
+      error: 'You are not a member of this team'
+    });
+    return false;
+  }
+
+  return true;
+};
+
+// The creator of a filter and the admins of its team can change it
+const canManageFilter = async (filter: { userId: string; teamId: string | null }, userId: string) => {
+  if (filter.userId === userId) return true;
+  if (!filter.teamId) return false;
+
+  const membership = await getMembership(filter.teamId, userId);
+  return hasTeamRole(membership?.role, 'ADMIN');
+};
+
+// Load a visible filter the caller may manage. Sends the error response and
+// returns null otherwise.
+const findManageableFilter = async (req: Request, res: Response) => {
+  const filter = await prisma.savedFilter.findFirst({
+    where: { id: req.params['id'], ...visibleWhere(req.user!.id) }
+  });
+
+  if (!filter) {
+    res.status(404).json({
+      success: false,
+      error: 'Saved filter not found'
+    });
+    return null;
+  }
+
+  if (!await canManageFilter(filter, req.user!.id)) {
+    res.status(403).json({
+      success: false,
+      error: 'You do not have permission to change this filter'
+    });
+    return null;
+  }
+
+  return filter;
+};
+
+// Get saved filters with the number of todos each one matches
+router.get('/', authenticate, async (req: Request, res: Response): Promise<void> => {
+  try {
+    const userId = req.user!.id;
+
+    const [filters, user, adminMemberships] = await Promise.all([
+      prisma.savedFilter.findMany({
+        where: visibleWhere(userId),
+        include: filterInclude,
+        orderBy: { createdAt: 'asc' }
+      }),
+      prisma.user.findUnique({
+        where: { id: userId },
+        select: { defaultFilterId: true }
+      }),
+      prisma.teamMember.findMany({
+        where: { userId, role: { in: ['OWNER', 'ADMIN'] } },
+        select: { teamId: true }
+      })
+    ]);
+
+    const adminTeamIds = adminMemberships.map(membership => membership.teamId);
+
+    const data = await Promise.all(filters.map(async filter => {
+      const { where } = await buildTodoWhere(userId, { q: filter.query, view: filter.view });
+      return {
+        ...filter,
+        count: where ? await prisma.todo.count({ where }) : null,
+        canManage: filter.userId === userId || (!!filter.teamId && adminTeamIds.includes(filter.teamId))
+      };
+    }));
+
+    // A pinned team filter stops being the default once the user leaves the team
+    const defaultFilterId = filters.some(filter => filter.id === user?.defaultFilterId)
+      ? user!.defaultFilterId
+      : null;
+
+    res.json({
+      success: true,
+      data: {
+        filters: data,
+        defaultFilterId
+      }
+    });
+  } catch (error) {
+    console.error('Get saved filters error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to fetch saved filters'
+    });
+  }
+});
+
+// Create a saved filter, personal or shared with a team
+router.post('/', authenticate, filterValidators(false), async (req: Request, res: Response): Promise<void> => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      res.status(400).json({
+        success: false,
+        error: 'Validation failed',
+        details: errors.array()
+      });
+      return;
+    }
+    if (!await checkFilterInput(req, res)) return;
+
+    const { name, query, view, sort, teamId } = req.body;
+
+    const filter = await prisma.savedFilter.create({
+      data: {
+        name,
+        query: query || '',
+        view: view || 'all',
+        sort: sort || null,
+        teamId: teamId || null,
+        userId: req.user!.id
+      },
+      include: filterInclude
+    });
+
+    res.status(201).json({
+      success: true,
+      message: 'Filter saved',
+      data: { filter: { ...filter, canManage: true } }
+    });
+  } catch (error) {
+    console.error('Create saved filter error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to save filter'
+    });
+  }
+});
+
+// Pin a saved filter as the default dashboard view, or unpin with null
+router.put('/default', authenticate, [
+  body('filterId').optional({ nullable: true }).isString()
+], async (req: Request, res: Response): Promise<void> => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      res.status(400).json({
+        success: false,
+        error: 'Validation failed',
+        details: errors.array()
+      });
+      return;
+    }
+
+    const userId = req.user!.id;
+    const filterId = req.body.filterId || null;
+
+    if (filterId) {
+      const filter = await prisma.savedFilter.findFirst({
+        where: { id: filterId, ...visibleWhere(userId) }
+      });
+
+      if (!filter) {
+        res.status(404).json({
+          success: false,
+          error: 'Saved filter not found'
+        });
+        return;
+      }
+    }
+
+    await prisma.user.update({
+      where: { id: userId },
+      data: { defaultFilterId: filterId }
+    });
+
+    res.json({
+      success: true,
+      message: filterId ? 'Default view updated' : 'Default view cleared',
+      data: { defaultFilterId: filterId }
+    });
+  } catch (error) {
+    console.error('Set default filter error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to update default view'
+    });
+  }
+});
+
+// Update a saved filter
+router.put('/:id', authenticate, filterValidators(true), async (req: Request, res: Response): Promise<void> => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      res.status(400).json({
+        success: false,
+        error: 'Validation failed',
+        details: errors.array()
+      });
+      return;
+    }
+
+    const existingFilter = await findManageableFilter(req, res);
+    if (!existingFilter) return;
+    if (!await checkFilterInput(req, res)) return;
+
+    const { name, query, view, sort, teamId } = req.body;
+
+    const filter = await prisma.savedFilter.update({
+      where: { id: existingFilter.id },
+      data: {
+        ...(name !== undefined && { name }),
+        ...(query !== undefined && { query }),
+        ...(view !== undefined && { view }),
+        ...(sort !== undefined && { sort: sort || null }),
+        ...(teamId !== undefined && { teamId: teamId || null })
+      },
+      include: filterInclude
+    });
+
+    res.json({
+      success: true,
+      message: 'Filter updated',
+      data: { filter: { ...filter, canManage: true } }
+    });
+  } catch (error) {
+    console.error('Update saved filter error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to update filter'
+    });
+  }
+});
+
+// Delete a saved filter
+router.delete('/:id', authenticate, async (req: Request, res: Response): Promise<void> => {
+  try {
+    const filter = await findManageableFilter(req, res);
+    if (!filter) return;
+
+    await prisma.savedFilter.delete({
+      where: { id: filter.id }
+    });
+
+    res.json({
+      success: true,
+      message: 'Filter deleted'
+    });
+  } catch (error) {
+    console.error('Delete saved filter error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to delete filter'
+    });
+  }
+});
+
+export default router;
@@ -0,0 +1,697 @@
+import { Router, Request, Response } from 'express';
+import { PrismaClient } from '@prisma/client';
+import { body, validationResult } from 'express-validator';
+import crypto from 'crypto';
+import { authenticate } from '../middleware/auth';
+import { TeamRole, hasTeamRole, outranks, getMembership } from '../services/teamAccess';
+import { joinTeamRoom, leaveTeamRoom, closeTeamRoom } from '../services/realtime';
+
+const router = Router();
+const prisma = new PrismaClient();
+
+const INVITATION_TTL_MS = 7 * 24 * 60 * 60 * 1000;
+
+const memberInclude = {
+  user: {
+    select: { id: true, name: true, email: true, avatar: true }
+  }
+};
+
+// Load the caller's membership and make sure it has at least `required`.
+// Sends the error response and returns null when access is denied.
+const requireMembership = async (req: Request, res: Response, required: TeamRole) => {
+  const membership = await getMembership(req.params['id'], req.user!.id);
+
+  if (!membership) {
+    res.status(404).json({
+      success: false,
+      error: 'Team not found'
+    });
+    return null;
+  }
+
+  if (!hasTeamRole(membership.role, required)) {
+    res.status(403).json({
+      success: false,
+      error: 'You do not have permission to do this'
+    });
+    return null;
+  }
+
+  return membership;
+};
+
+// Remove a membership together with the member's assignments on team todos
+const deleteMembership = async (membership: { id: string; teamId: string; userId: string }) => {
+  await prisma.$transaction([
+    prisma.todoAssignee.deleteMany({
+      where: { userId: membership.userId, todo: { teamId: membership.teamId } }
+    }),
+    prisma.teamMember.delete({
+      where: { id: membership.id }
+    })
+  ]);
+  leaveTeamRoom(membership.userId, membership.teamId);
+};
+
+// Get teams of the authenticated user
+router.get('/', authenticate, async (req: Request, res: Response): Promise<void> => {
+  try {
+    const memberships = await prisma.teamMember.findMany({
+      where: { userId: req.user!.id },
+      include: {
+        team: {
+          include: {
+            owner: {
+              select: { id: true, name: true, email: true }
+            },
+            _count: {
+              select: { members: true }
+            }
+          }
+        }
+      },
+      orderBy: { joinedAt: 'asc' }
+    });
+
+    res.json({
+      success: true,
+      data: {
+        teams: memberships.map(({ team, role, joinedAt }) => {
+          const { _count, ...rest } = team;
+          return {
+            ...rest,
+            role,
+            memberCount: _count.members,
+            joinedAt
+          };
+        })
+      }
+    });
+  } catch (error) {
+    console.error('Get teams error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to fetch teams'
+    });
+  }
+});
+
+// Create a team, the creator becomes its owner
+router.post('/', authenticate, [
+  body('name').trim().notEmpty().withMessage('Team name is required').isLength({ max: 100 }),
+  body('description').optional({ nullable: true }).isLength({ max: 500 })
+], async (req: Request, res: Response): Promise<void> => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      res.status(400).json({
+        success: false,
+        error: 'Validation failed',
+        details: errors.array()
+      });
+      return;
+    }
+
+    const { name, description } = req.body;
+    const userId = req.user!.id;
+
+    const team = await prisma.team.create({
+      data: {
+        name,
+        description,
+        ownerId: userId,
+        members: {
+          create: { userId, role: 'OWNER' }
+        }
+      },
+      include: {
+        members: {
+          include: memberInclude
+        }
+      }
+    });
+
+    joinTeamRoom(userId, team.id);
+
+    res.status(201).json({
+      success: true,
+      message: 'Team created successfully',
+      data: { team: { ...team, role: 'OWNER' } }
+    });
+  } catch (error) {
+    console.error('Create team error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to create team'
+    });
+  }
+});
+
+// Get pending invitations addressed to the authenticated user
+router.get('/invitations', authenticate, async (req: Request, res: Response): Promise<void> => {
+  try {
+    const invitations = await prisma.teamInvitation.findMany({
+      where: {
+        email: req.user!.email,
+        status: 'PENDING',
+        expiresAt: { gt: new Date() }
+      },
+      include: {
+        team: {
+          select: { id: true, name: true, description: true }
+        },
+        invitedBy: {
+          select: { id: true, name: true }
+        }
+      },
+      orderBy: { createdAt: 'desc' }
+    });
+
+    res.json({
+      success: true,
+      data: { invitations }
+    });
+  } catch (error) {
+    console.error('Get invitations error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to fetch invitations'
+    });
+  }
+});
+
+// Accept or decline an invitation
+const respondToInvitation = (accept: boolean) => async (req: Request, res: Response): Promise<void> => {
+  try {
+    const invitation = await prisma.teamInvitation.findUnique({
+      where: { token: req.params['token'] }
+    });
+
+    // Invitations can only be used by the address they were sent to
+    if (!invitation || invitation.email !== req.user!.email) {
+      res.status(404).json({
+        success: false,
+        error: 'Invitation not found'
+      });
+      return;
+    }
+
+    if (invitation.status !== 'PENDING' || invitation.expiresAt < new Date()) {
+      res.status(400).json({
+        success: false,
+        error: 'Invitation is no longer valid'
+      });
+      return;
+    }
+
+    await prisma.$transaction(async tx => {
+      await tx.teamInvitation.update({
+        where: { id: invitation.id },
+        data: { status: accept ? 'ACCEPTED' : 'DECLINED', respondedAt: new Date() }
+      });
+
+      if (accept && !await getMembership(invitation.teamId, req.user!.id, tx)) {
+        await tx.teamMember.create({
+          data: {
+            teamId: invitation.teamId,
+            userId: req.user!.id,
+            role: invitation.role
+          }
+        });
+      }
+    });
+
+    if (accept) {
+      joinTeamRoom(req.user!.id, invitation.teamId);
+    }
+
+    res.json({
+      success: true,
+      message: accept ? 'Invitation accepted' : 'Invitation declined',
+      data: { teamId: invitation.teamId }
+    });
+  } catch (error) {
+    console.error('Respond to invitation error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to respond to invitation'
+    });
+  }
+};
+
+router.post('/invitations/:token/accept', authenticate, respondToInvitation(true));
+router.post('/invitations/:token/decline', authenticate, respondToInvitation(false));
+
+// Get a team with its members
+router.get('/:id', authenticate, async (req: Request, res: Response): Promise<void> => {
+  try {
+    const membership = await requireMembership(req, res, 'MEMBER');
+    if (!membership) return;
+
+    const team = await prisma.team.findUnique({
+      where: { id: req.params['id'] },
+      include: {
+        owner: {
+          select: { id: true, name: true, email: true }
+        },
+        members: {
+          include: memberInclude,
+          orderBy: { joinedAt: 'asc' }
+        }
+      }
+    });
+
+    res.json({
+      success: true,
+      data: { team: { ...team, role: membership.role } }
+    });
+  } catch (error) {
+    console.error('Get team error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to fetch team'
+    });
+  }
+});
+
+// Update team details
+router.put('/:id', authenticate, [
+  body('name').optional().trim().notEmpty().isLength({ max: 100 }),
+  body('description').optional({ nullable: true }).isLength({ max: 500 })
+], async (req: Request, res: Response): Promise<void> => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      res.status(400).json({
+        success: false,
+        error: 'Validation failed',
+        details: errors.array()
+      });
+      return;
+    }
+
+    const membership = await requireMembership(req, res, 'ADMIN');
+    if (!membership) return;
+
+    const { name, description } = req.body;
+
+    const team = await prisma.team.update({
+      where: { id: req.params['id'] },
+      data: {
+        ...(name !== undefined && { name }),
+        ...(description !== undefined && { description })
+      }
+    });
+
+    res.json({
+      success: true,
+      message: 'Team updated successfully',
+      data: { team: { ...team, role: membership.role } }
+    });
+  } catch (error) {
+    console.error('Update team error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to update team'
+    });
+  }
+});
+
+// Delete a team
+router.delete('/:id', authenticate, async (req: Request, res: Response): Promise<void> => {
+  try {
+    const membership = await requireMembership(req, res, 'OWNER');
+    if (!membership) return;
+
+    await prisma.team.delete({
+      where: { id: req.params['id'] }
+    });
+    closeTeamRoom(req.params['id']);
+
+    res.json({
+      success: true,
+      message: 'Team deleted successfully'
+    });
+  } catch (error) {
+    console.error('Delete team error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to delete team'
+    });
+  }
+});
+
+// Get pending invitations of a team
+router.get('/:id/invitations', authenticate, async (req: Request, res: Response): Promise<void> => {
+  try {
+    const membership = await requireMembership(req, res, 'ADMIN');
+    if (!membership) return;
+
+    const invitations = await prisma.teamInvitation.findMany({
+      where: {
+        teamId: req.params['id'],
+        status: 'PENDING',
+        expiresAt: { gt: new Date() }
+      },
+      include: {
+        invitedBy: {
+          select: { id: true, name: true }
+        }
+      },
+      orderBy: { createdAt: 'desc' }
+    });
+
+    res.json({
+      success: true,
+      data: { invitations }
+    });
+  } catch (error) {
+    console.error('Get team invitations error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to fetch invitations'
+    });
+  }
+});
+
+// Invite someone by email. Inviting the same address again replaces the
+// pending invitation with a fresh token.
+router.post('/:id/invitations', authenticate, [
+  body('email').isEmail().normalizeEmail(),
+  body('role').optional().isIn(['ADMIN', 'MEMBER'])
+], async (req: Request, res: Response): Promise<void> => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      res.status(400).json({
+        success: false,
+        error: 'Validation failed',
+        details: errors.array()
+      });
+      return;
+    }
+
+    const membership = await requireMembership(req, res, 'ADMIN');
+    if (!membership) return;
+
+    const teamId = req.params['id'];
+    const { email } = req.body;
+    const role = req.body.role || 'MEMBER';
+
+    if (!outranks(membership.role, role)) {
+      res.status(403).json({
+        success: false,
+        error: 'You can only invite members with a lower role than yours'
+      });
+      return;
+    }
+
+    const invitee = await prisma.user.findUnique({
+      where: { email },
+      select: { id: true }
+    });
+
+    if (invitee && await getMembership(teamId, invitee.id)) {
+      res.status(400).json({
+        success: false,
+        error: 'User is already a member of this team'
+      });
+      return;
+    }
+
+    const team = await prisma.team.findUnique({
+      where: { id: teamId },
+      select: { name: true }
+    });
+
+    const invitation = await prisma.$transaction(async tx => {
+      await tx.teamInvitation.updateMany({
+        where: { teamId, email, status: 'PENDING' },
+        data: { status: 'REVOKED', respondedAt: new Date() }
+      });
+
+      const created = await tx.teamInvitation.create({
+        data: {
+          teamId,
+          email,
+          role,
+          token: crypto.randomBytes(24).toString('hex'),
+          expiresAt: new Date(Date.now() + INVITATION_TTL_MS),
+          invitedById: req.user!.id
+        }
+      });
+
+      // Registered users also get the invitation in their inbox
+      if (invitee) {
+        await tx.notification.create({
+          data: {
+            userId: invitee.id,
+            type: 'TEAM_INVITATION',
+            title: `${req.user!.name} invited you to join ${team!.name}`,
+            message: `You have been invited as ${role.toLowerCase()}.`
+          }
+        });
+      }
+
+      return created;
+    });
+
+    res.status(201).json({
+      success: true,
+      message: 'Invitation sent successfully',
+      data: { invitation }
+    });
+  } catch (error) {
+    console.error('Create invitation error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to send invitation'
+    });
+  }
+});
+
+// Revoke a pending invitation
+router.delete('/:id/invitations/:invitationId', authenticate, async (req: Request, res: Response): Promise<void> => {
+  try {
+    const membership = await requireMembership(req, res, 'ADMIN');
+    if (!membership) return;
+
+    const invitation = await prisma.teamInvitation.findFirst({
+      where: {
+        id: req.params['invitationId'],
+        teamId: req.params['id'],
+        status: 'PENDING'
+      }
+    });
+
+    if (!invitation) {
+      res.status(404).json({
+        success: false,
+        error: 'Invitation not found'
+      });
+      return;
+    }
+
+    await prisma.teamInvitation.update({
+      where: { id: invitation.id },
+      data: { status: 'REVOKED', respondedAt: new Date() }
+    });
+
+    res.json({
+      success: true,
+      message: 'Invitation revoked'
+    });
+  } catch (error) {
+    console.error('Revoke invitation error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to revoke invitation'
+    });
+  }
+});
+
+// Change the role of a member
+router.put('/:id/members/:userId', authenticate, [
+  body('role').isIn(['ADMIN', 'MEMBER']).withMessage('Role must be ADMIN or MEMBER, use the transfer endpoint to change the owner')
+], async (req: Request, res: Response): Promise<void> => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      res.status(400).json({
+        success: false,
+        error: 'Validation failed',
+        details: errors.array()
+      });
+      return;
+    }
+
+    const membership = await requireMembership(req, res, 'ADMIN');
+    if (!membership) return;
+
+    const target = await getMembership(req.params['id'], req.params['userId']);
+
+    if (!target) {
+      res.status(404).json({
+        success: false,
+        error: 'Member not found'
+      });
+      return;
+    }
+
+    const { role } = req.body;
+
+    if (!outranks(membership.role, target.role) || !outranks(membership.role, role)) {
+      res.status(403).json({
+        success: false,
+        error: 'You can only manage members with a lower role than yours'
+      });
+      return;
+    }
+
+    const member = await prisma.teamMember.update({
+      where: { id: target.id },
+      data: { role },
+      include: memberInclude
+    });
+
+    res.json({
+      success: true,
+      message: 'Member role updated',
+      data: { member }
+    });
+  } catch (error) {
+    console.error('Update member error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to update member'
+    });
+  }
+});
+
+// Remove a member from the team
+router.delete('/:id/members/:userId', authenticate, async (req: Request, res: Response): Promise<void> => {
+  try {
+    const membership = await requireMembership(req, res, 'ADMIN');
+    if (!membership) return;
+
+    const target = await getMembership(req.params['id'], req.params['userId']);
+
+    if (!target) {
+      res.status(404).json({
+        success: false,
+        error: 'Member not found'
+      });
+      return;
+    }
+
+    if (!outranks(membership.role, target.role)) {
+      res.status(403).json({
+        success: false,
+        error: 'You can only manage members with a lower role than yours'
+      });
+      return;
+    }
+
+    await deleteMembership(target);
+
+    res.json({
+      success: true,
+      message: 'Member removed from team'
+    });
+  } catch (error) {
+    console.error('Remove member error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to remove member'
+    });
+  }
+});
+
+// Leave a team
+router.post('/:id/leave', authenticate, async (req: Request, res: Response): Promise<void> => {
+  try {
+    const membership = await requireMembership(req, res, 'MEMBER');
+    if (!membership) return;
+
+    if (membership.role === 'OWNER') {
+      res.status(400).json({
+        success: false,
+        error: 'Transfer ownership or delete the team before leaving'
+      });
+      return;
+    }
+
+    await deleteMembership(membership);
+
+    res.json({
+      success: true,
+      message: 'You left the team'
+    });
+  } catch (error) {
+    console.error('Leave team error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to leave team'
+    });
+  }
+});
+
+// Transfer ownership to another member, the previous owner becomes an admin
+router.post('/:id/transfer', authenticate, [
+  body('userId').isString().notEmpty()
+], async (req: Request, res: Response): Promise<void> => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      res.status(400).json({
+        success: false,
+        error: 'Validation failed',
+        details: errors.array()
+      });
+      return;
+    }
+
+    const membership = await requireMembership(req, res, 'OWNER');
+    if (!membership) return;
+
+    const teamId = req.params['id'];
+    const target = await getMembership(teamId, req.body.userId);
+
+    if (!target || target.id === membership.id) {
+      res.status(400).json({
+        success: false,
+        error: 'New owner must be another member of the team'
+      });
+      return;
+    }
+
+    await prisma.$transaction([
+      prisma.teamMember.update({
+        where: { id: membership.id },
+        data: { role: 'ADMIN' }
+      }),
+      prisma.teamMember.update({
+        where: { id: target.id },
+        data: { role: 'OWNER' }
+      }),
+      prisma.team.update({
+        where: { id: teamId },
+        data: { ownerId: target.userId }
+      })
+    ]);
+
+    res.json({
+      success: true,
+      message: 'Ownership transferred'
+    });
+  } catch (error) {
+    console.error('Transfer ownership error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to transfer ownership'
+    });
+  }
+});
+
+export default router;
@@ -2,266 +2,1494 @@ import { Router, Request, Response } from 'express';
 import { PrismaClient } from '@prisma/client';
 import { body, validationResult } from 'express-validator';
 import { authenticate } from '../middleware/auth';
+import {
+  Recurrence,
+  validateRecurrence,
+  toRecurrenceRule,
+  parseRecurrenceRule,
+  getNextOccurrence
+} from '../utils/recurrence';
+import {
+  HISTORY_ACTIONS,
+  snapshotTodo,
+  recordRevision,
+  applySnapshot
+} from '../services/todoHistory';
+import {
+  IMPORT_FORMATS,
+  MAX_IMPORT_ROWS,
+  parseImportContent,
+  suggestMapping,
+  validateMapping,
+  importTodos
+} from '../services/todoImport';
+import { toCsv } from '../utils/csv';
+import { statusTimestamps } from '../utils/todoStatus';
+import {
+  accessibleTodoWhere,
+  canEditTodo,
+  canDeleteTodo,
+  getMembership,
+  validateAssignees
+} from '../services/teamAccess';
+import { emitTodoEvent } from '../services/realtime';
+import { emitWebhookEvent } from '../services/webhooks';
+import {
+  subtaskInclude,
+  dependencyInclude,
+  sharingInclude,
+  listInclude,
+  formatTodo,
+  publishTodos
+} from '../services/todoEvents';
+import { TODO_VIEWS, TodoListParams, buildTodoWhere } from '../services/todoFilters';
+import { topPosition } from '../services/todoPosition';
+import { DEFAULT_TODO_SORT, MAX_PAGE_SIZE, parseTodoSort, paginateTodos, sortRanks } from '../services/todoSort';
 
 const router = Router();
 const prisma = new PrismaClient();
 
+// Check whether `todoId` can be reached by following dependencies from `startId`.
+// Adding "todoId depends on startId" would then close a cycle.
+const dependsTransitively = async (startId: string, todoId: string): Promise<boolean> => {
+  const visited = new Set<string>();
+  let frontier = [startId];
+
+  while (frontier.length > 0) {
+    if (frontier.includes(todoId)) return true;
+    frontier.forEach(id => visited.add(id));
+
+    const edges = await prisma.todoDependency.findMany({
+      where: { todoId: { in: frontier } },
+      select: { dependsOnId: true }
+    });
+    frontier = [...new Set(edges.map(edge => edge.dependsOnId))].filter(id => !visited.has(id));
+  }
+
+  return false;
+};
+
+// Statuses that no longer block dependent todos
+const RESOLVED_STATUSES = ['COMPLETED', 'CANCELLED'];
+
+// Shared validator for the optional recurrence payload (null clears it)
+const recurrenceValidator = body('recurrence')
+  .optional({ nullable: true })
+  .custom(value => {
+    const error = validateRecurrence(value);
+    if (error) throw new Error(error);
+    return true;
+  });
+
+// Build the RRULE for a new or updated todo, anchoring monthly and yearly
+// rules to the due day so a short month doesn't move later occurrences
+const buildRecurrenceRule = (recurrence: Recurrence | null, dueDate: Date | null): string | null => {
+  if (!recurrence) return null;
+
+  if ((recurrence.frequency === 'MONTHLY' || recurrence.frequency === 'YEARLY') && !recurrence.byMonthDay && dueDate) {
+    return toRecurrenceRule({ ...recurrence, byMonthDay: dueDate.getUTCDate() });
+  }
+  return toRecurrenceRule(recurrence);
+};
+
+// Create the next occurrence of a recurring todo after it has been completed
+const spawnNextOccurrence = async (todo: any) => {
+  const recurrence = parseRecurrenceRule(todo.recurrenceRule);
+  if (!recurrence) return null;
+
+  const seriesId = todo.recurrenceSeriesId || todo.id;
+  const nextIndex = todo.recurrenceIndex + 1;
+
+  // Completing, reopening and completing again must not spawn a duplicate
+  const existing = await prisma.todo.findFirst({
+    where: { recurrenceSeriesId: seriesId, recurrenceIndex: nextIndex }
+  });
+  if (existing) return null;
+
+  const dueDate = getNextOccurrence(
+    recurrence,
+    todo.dueDate ? new Date(todo.dueDate) : new Date(),
+    todo.recurrenceIndex
+  );
+  if (!dueDate) return null;
+
+  const nextTodo = await prisma.$transaction(async tx => {
+    // The first todo of a series becomes its anchor
+    if (!todo.recurrenceSeriesId) {
+      await tx.todo.update({
+        where: { id: todo.id },
+        data: { recurrenceSeriesId: seriesId }
+      });
+    }
+
+    return tx.todo.create({
+      data: {
+        title: todo.title,
+        description: todo.description,
+        priority: todo.priority,
+        priorityRank: todo.priorityRank,
+        position: await topPosition(todo.userId, tx),
+        dueDate,
+        recurrenceRule: todo.recurrenceRule,
+        recurrenceSeriesId: seriesId,
+        recurrenceIndex: nextIndex,
+        userId: todo.userId,
+        teamId: todo.teamId,
+        assignees: {
+          create: (todo.assignees || []).map((assignee: any) => ({
+            userId: assignee.userId
+          }))
+        },
+        categories: {
+          create: todo.categories
+            .filter((tc: any) => !tc.category.deletedAt)
+            .map((tc: any) => ({
+              categoryId: tc.categoryId
+            }))
+        },
+        subtasks: {
+          create: todo.subtasks.map((subtask: any) => ({
+            title: subtask.title,
+            order: subtask.order
+          }))
+        }
+      },
+      include: {
+        categories: {
+          include: {
+            category: true
+          }
+        },
+        subtasks: subtaskInclude
+      }
+    });
+  });
+
+  return nextTodo;
+};
+
+// Build the where clause for the list filters, shared by the list and the export
+const buildTodoFilters = (req: Request) => buildTodoWhere(req.user!.id, req.query as TodoListParams);
+
 // Get all todos with pagination and filters
 router.get('/', authenticate, async (req: Request, res: Response): Promise<void> => {
   try {
-    const page = parseInt(req.query['page'] as string) || 1;
-    const limit = parseInt(req.query['limit'] as string) || 10;
+    const page = Math.max(parseInt(req.query['page'] as string) || 1, 1);
+    const limit = Math.min(Math.max(parseInt(req.query['limit'] as string) || 10, 1), MAX_PAGE_SIZE);
     const skip = (page - 1) * limit;
+    const cursor = req.query['cursor'] as string | undefined;
 
-    const where: any = {
-      userId: req.user!.id
-    };
+    if (req.query['view'] && !TODO_VIEWS.includes(req.query['view'] as string)) {
+      res.status(400).json({
+        success: false,
+        error: `View must be one of ${TODO_VIEWS.join(', ')}`
+      });
+      return;
+    }
+
+    const { where, error } = await buildTodoFilters(req);
+    if (error || !where) {
+      res.status(400).json({
+        success: false,
+        error
+      });
+      return;
+    }
+
+    const sort = parseTodoSort((req.query['sort'] as string) || DEFAULT_TODO_SORT);
+    if (sort.error) {
+      res.status(400).json({
+        success: false,
+        error: sort.error
+      });
+      return;
+    }
 
-    // Filter by status
-    if (req.query['status']) {
-      where.status = req.query['status'];
+    // Find the ids of the page in sort order, then load the todos themselves
+    const { page: todoPage, error: cursorError } = await paginateTodos(where, sort.keys, { limit, skip, cursor });
+    if (cursorError) {
+      res.status(400).json({
+        success: false,
+        error: cursorError
+      });
+      return;
     }
 
-    // Filter by priority
-    if (req.query['priority']) {
-      where.priority = req.query['priority'];
+    const todos = await prisma.todo.findMany({
+      where: { id: { in: todoPage!.ids } },
+      include: listInclude
+    });
+    const todosById = new Map(todos.map(todo => [todo.id, todo]));
+
+    res.json({
+      success: true,
+      data: {
+        todos: todoPage!.ids.filter(id => todosById.has(id)).map(id => formatTodo(todosById.get(id))),
+        pagination: {
+          page: cursor ? null : page,
+          limit,
+          total: todoPage!.total,
+          pages: Math.ceil(todoPage!.total / limit),
+          nextCursor: todoPage!.nextCursor
+        }
+      }
+    });
+  } catch (error) {
+    console.error('Get todos error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to fetch todos'
+    });
+  }
+});
+
+// Columns written by the export, readable again by the import
+const EXPORT_COLUMNS = [
+  'id',
+  'title',
+  'description',
+  'status',
+  'priority',
+  'dueDate',
+  'categories',
+  'recurrenceRule',
+  'createdAt',
+  'updatedAt'
+];
+
+// Export all todos matching the list filters as CSV or JSON
+router.get('/export', authenticate, async (req: Request, res: Response): Promise<void> => {
+  try {
+    const format = (req.query['format'] as string) || 'csv';
+
+    if (!IMPORT_FORMATS.includes(format as any)) {
+      res.status(400).json({
+        success: false,
+        error: `Format must be one of ${IMPORT_FORMATS.join(', ')}`
+      });
+      return;
     }
 
-    // Search in title and description
-    if (req.query['search']) {
-      where.OR = [
-        { title: { contains: req.query['search'] as string, mode: 'insensitive' } },
-        { description: { contains: req.query['search'] as string, mode: 'insensitive' } }
-      ];
+    const { where, error } = await buildTodoFilters(req);
+    if (error) {
+      res.status(400).json({
+        success: false,
+        error
+      });
+      return;
     }
 
-    // Filter by category
-    if (req.query['category']) {
-      where.categories = {
-        some: {
-          category: {
-            name: { contains: req.query['category'] as string, mode: 'insensitive' }
+    const todos = await prisma.todo.findMany({
+      where,
+      include: {
+        categories: {
+          include: {
+            category: true
           }
         }
-      };
+      },
+      orderBy: {
+        createdAt: 'desc'
+      }
+    });
+
+    const rows = todos.map(todo => ({
+      id: todo.id,
+      title: todo.title,
+      description: todo.description,
+      status: todo.status,
+      priority: todo.priority,
+      dueDate: todo.dueDate,
+      categories: todo.categories
+        .filter(tc => !tc.category.deletedAt)
+        .map(tc => tc.category.name),
+      recurrenceRule: todo.recurrenceRule,
+      createdAt: todo.createdAt,
+      updatedAt: todo.updatedAt
+    }));
+
+    const filename = `todos-${new Date().toISOString().slice(0, 10)}.${format}`;
+    res.setHeader('Content-Disposition', `attachment; filename="${filename}"`);
+
+    if (format === 'json') {
+      res.json({ todos: rows });
+      return;
     }
 
-    const [todos, total] = await Promise.all([
-      prisma.todo.findMany({
-        where,
-        include: {
-          categories: {
-            include: {
-              category: true
-            }
-          },
-          subtasks: true,
-          comments: {
-            include: {
-              user: {
-                select: {
-                  id: true,
-                  name: true,
-                  avatar: true
-                }
+    res.type('text/csv').send(toCsv(
+      EXPORT_COLUMNS,
+      rows.map(row => EXPORT_COLUMNS.map(column => {
+        const value = (row as any)[column];
+        return Array.isArray(value) ? value.join(';') : value;
+      }))
+    ));
+  } catch (error) {
+    console.error('Export todos error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to export todos'
+    });
+  }
+});
+
+// Get single todo by ID
+router.get('/:id', authenticate, async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { id } = req.params;
+
+    const todo = await prisma.todo.findFirst({
+      where: { 
+        id: id,
+        deletedAt: null,
+        ...accessibleTodoWhere(req.user!.id)
+      },
+      include: {
+        categories: {
+          include: {
+            category: true
+          }
+        },
+        subtasks: subtaskInclude,
+        comments: {
+          include: {
+            user: {
+              select: {
+                id: true,
+                name: true,
+                avatar: true
               }
             }
+          },
+          orderBy: {
+            createdAt: 'desc'
           }
         },
-        orderBy: {
-          createdAt: 'desc'
-        },
-        skip,
-        take: limit
-      }),
-      prisma.todo.count({ where })
-    ]);
+        ...dependencyInclude,
+        ...sharingInclude
+      }
+    });
+
+    if (!todo) {
+      res.status(404).json({
+        success: false,
+        error: 'Todo not found'
+      });
+      return;
+    }
 
     res.json({
       success: true,
       data: {
-        todos: todos.map(todo => ({
-          ...todo,
-          categories: todo.categories.map((tc: any) => tc.category)
-        })),
-        pagination: {
-          page,
-          limit,
-          total,
-          pages: Math.ceil(total / limit)
-        }
+        todo: formatTodo(todo)
       }
     });
   } catch (error) {
-    console.error('Get todos error:', error);
+    console.error('Get todo error:', error);
     res.status(500).json({
       success: false,
-      error: 'Failed to fetch todos'
+      error: 'Failed to fetch todo'
+    });
+  }
+});
+
+// Create new todo
+router.post('/', authenticate, [
+  body('title').notEmpty().withMessage('Title is required'),
+  body('description').optional(),
+  body('priority').optional().isIn(['LOW', 'MEDIUM', 'HIGH', 'URGENT']),
+  body('dueDate').optional().isISO8601(),
+  body('categoryIds').optional().isArray(),
+  body('teamId').optional({ nullable: true }).isString(),
+  body('assigneeIds').optional().isArray(),
+  recurrenceValidator
+], async (req: Request, res: Response): Promise<void> => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      res.status(400).json({
+        success: false,
+        error: 'Validation failed',
+        details: errors.array()
+      });
+      return;
+    }
+
+    const { title, description, priority, dueDate, categoryIds, recurrence } = req.body;
+    const teamId = req.body.teamId || null;
+    const assigneeIds: string[] = req.body.assigneeIds || [];
+
+    // Team todos can be created by any member of the team
+    if (teamId && !await getMembership(teamId, req.user!.id)) {
+      res.status(404).json({
+        success: false,
+        error: 'Team not found'
+      });
+      return;
+    }
+
+    const assigneeError = await validateAssignees(teamId, assigneeIds);
+    if (assigneeError) {
+      res.status(400).json({
+        success: false,
+        error: assigneeError
+      });
+      return;
+    }
+
+    const todoData: any = {
+      title,
+      description,
+      priority: priority || 'MEDIUM',
+      ...sortRanks({ priority: priority || 'MEDIUM' }),
+      position: await topPosition(req.user!.id),
+      dueDate: dueDate ? new Date(dueDate) : null,
+      recurrenceRule: buildRecurrenceRule(recurrence || null, dueDate ? new Date(dueDate) : null),
+      userId: req.user!.id,
+      teamId,
+      assignees: {
+        create: [...new Set(assigneeIds)].map(userId => ({ userId }))
+      }
+    };
+
+    // Add categories if provided
+    if (categoryIds && categoryIds.length > 0) {
+      todoData.categories = {
+        create: categoryIds.map((categoryId: string) => ({
+          categoryId
+        }))
+      };
+    }
+
+    const todo = await prisma.todo.create({
+      data: todoData,
+      include: {
+        categories: {
+          include: {
+            category: true
+          }
+        },
+        subtasks: subtaskInclude,
+        ...sharingInclude
+      }
+    });
+
+    await recordRevision(todo.id, req.user!.id, HISTORY_ACTIONS.CREATED, null);
+    await publishTodos('todo-created', [todo.id]);
+
+    res.status(201).json({
+      success: true,
+      message: 'Todo created successfully',
+      data: {
+        todo: formatTodo(todo)
+      }
+    });
+  } catch (error) {
+    console.error('Create todo error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to create todo'
+    });
+  }
+});
+
+// Import todos from CSV or JSON content.
+// Without a mapping the detected columns and a suggested mapping are returned so the
+// client can confirm them; `dryRun` validates every row without writing anything.
+router.post('/import', authenticate, [
+  body('format').isIn([...IMPORT_FORMATS]),
+  body('content').isString().notEmpty().withMessage('File content is required'),
+  body('mapping').optional().isObject(),
+  body('dryRun').optional().isBoolean()
+], async (req: Request, res: Response): Promise<void> => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      res.status(400).json({
+        success: false,
+        error: 'Validation failed',
+        details: errors.array()
+      });
+      return;
+    }
+
+    const { format, content, mapping, dryRun } = req.body;
+
+    const parsed = parseImportContent(format, content);
+    if (parsed.error) {
+      res.status(400).json({
+        success: false,
+        error: parsed.error
+      });
+      return;
+    }
+
+    if (parsed.rows.length > MAX_IMPORT_ROWS) {
+      res.status(400).json({
+        success: false,
+        error: `A file can contain at most ${MAX_IMPORT_ROWS} rows`
+      });
+      return;
+    }
+
+    if (!mapping) {
+      res.json({
+        success: true,
+        data: {
+          columns: parsed.columns,
+          mapping: suggestMapping(parsed.columns),
+          sample: parsed.rows.slice(0, 5),
+          total: parsed.rows.length
+        }
+      });
+      return;
+    }
+
+    const mappingError = validateMapping(mapping, parsed.columns);
+    if (mappingError) {
+      res.status(400).json({
+        success: false,
+        error: mappingError
+      });
+      return;
+    }
+
+    const report = await importTodos(req.user!.id, parsed.rows, mapping, !!dryRun, parsed.lines);
+
+    res.status(dryRun ? 200 : 201).json({
+      success: true,
+      message: dryRun
+        ? `${report.valid} of ${report.total} rows can be imported`
+        : `${report.imported} todos imported`,
+      data: { report }
+    });
+  } catch (error) {
+    console.error('Import todos error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to import todos'
+    });
+  }
+});
+
+// Actions supported by the bulk endpoint
+const BULK_ACTIONS = [
+  'SET_STATUS',
+  'SET_PRIORITY',
+  'SET_DUE_DATE',
+  'CLEAR_DUE_DATE',
+  'ADD_CATEGORIES',
+  'REMOVE_CATEGORIES',
+  'DELETE'
+];
+
+// Apply one action to many todos in a single transaction
+router.post('/bulk', authenticate, [
+  body('ids').isArray({ min: 1, max: 200 }).withMessage('Between 1 and 200 todo ids are required'),
+  body('ids.*').isString(),
+  body('action').isIn(BULK_ACTIONS),
+  body('value').custom((value, { req }) => {
+    switch (req.body.action) {
+      case 'SET_STATUS':
+        if (!['TODO', 'IN_PROGRESS', 'COMPLETED', 'CANCELLED'].includes(value)) {
+          throw new Error('Invalid status');
+        }
+        break;
+      case 'SET_PRIORITY':
+        if (!['LOW', 'MEDIUM', 'HIGH', 'URGENT'].includes(value)) {
+          throw new Error('Invalid priority');
+        }
+        break;
+      case 'SET_DUE_DATE':
+        if (typeof value !== 'string' || isNaN(new Date(value).getTime())) {
+          throw new Error('Invalid due date');
+        }
+        break;
+      case 'ADD_CATEGORIES':
+      case 'REMOVE_CATEGORIES':
+        if (!Array.isArray(value) || value.length === 0) {
+          throw new Error('Category ids are required');
+        }
+        break;
+    }
+    return true;
+  }),
+  body('ignoreBlockers').optional().isBoolean()
+], async (req: Request, res: Response): Promise<void> => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      res.status(400).json({
+        success: false,
+        error: 'Validation failed',
+        details: errors.array()
+      });
+      return;
+    }
+
+    const userId = req.user!.id;
+    const { action, value, ignoreBlockers } = req.body;
+    const ids: string[] = [...new Set<string>(req.body.ids)];
+
+    // Categories must belong to the user
+    let categoryIds: string[] = [];
+    if (action === 'ADD_CATEGORIES' || action === 'REMOVE_CATEGORIES') {
+      const categories = await prisma.category.findMany({
+        where: { id: { in: value }, userId, deletedAt: null },
+        select: { id: true }
+      });
+      categoryIds = categories.map(category => category.id);
+
+      if (categoryIds.length !== new Set(value).size) {
+        res.status(400).json({
+          success: false,
+          error: 'Category not found'
+        });
+        return;
+      }
+    }
+
+    const results: { id: string; success: boolean; error?: string }[] = [];
+    const completed: any[] = [];
+    const deleted: any[] = [];
+
+    await prisma.$transaction(async tx => {
+      const todos = await tx.todo.findMany({
+        where: { id: { in: ids }, deletedAt: null, ...accessibleTodoWhere(userId) },
+        include: {
+          dependencies: {
+            where: {
+              dependsOn: { status: { notIn: RESOLVED_STATUSES }, deletedAt: null }
+            },
+            select: { dependsOnId: true }
+          }
+        }
+      });
+      const todosById = new Map(todos.map(todo => [todo.id, todo]));
+
+      for (const id of ids) {
+        const todo = todosById.get(id);
+        if (!todo) {
+          results.push({ id, success: false, error: 'Todo not found' });
+          continue;
+        }
+
+        const allowed = action === 'DELETE'
+          ? await canDeleteTodo(todo, userId, tx)
+          : await canEditTodo(todo, userId, tx);
+        if (!allowed) {
+          results.push({ id, success: false, error: 'You do not have permission to modify this todo' });
+          continue;
+        }
+
+        const before = await snapshotTodo(id, tx);
+
+        switch (action) {
+          case 'SET_STATUS': {
+            const isStarting = value === 'IN_PROGRESS' || value === 'COMPLETED';
+            if (isStarting && value !== todo.status && !ignoreBlockers && todo.dependencies.length > 0) {
+              results.push({ id, success: false, error: 'Todo is blocked by open dependencies' });
+              continue;
+            }
+            await tx.todo.update({ where: { id }, data: { status: value, ...sortRanks({ status: value }), ...statusTimestamps(todo, value) } });
+            if (value === 'COMPLETED' && todo.status !== 'COMPLETED') {
+              completed.push(todo);
+            }
+            break;
+          }
+          case 'SET_PRIORITY':
+            await tx.todo.update({ where: { id }, data: { priority: value, ...sortRanks({ priority: value }) } });
+            break;
+          case 'SET_DUE_DATE':
+            await tx.todo.update({ where: { id }, data: { dueDate: new Date(value) } });
+            break;
+          case 'CLEAR_DUE_DATE':
+            await tx.todo.update({ where: { id }, data: { dueDate: null } });
+            break;
+          case 'ADD_CATEGORIES':
+            for (const categoryId of categoryIds) {
+              await tx.todoCategory.upsert({
+                where: { todoId_categoryId: { todoId: id, categoryId } },
+                update: {},
+                create: { todoId: id, categoryId }
+              });
+            }
+            break;
+          case 'REMOVE_CATEGORIES':
+            await tx.todoCategory.deleteMany({
+              where: { todoId: id, categoryId: { in: categoryIds } }
+            });
+            break;
+          case 'DELETE':
+            await tx.todo.update({ where: { id }, data: { deletedAt: new Date() } });
+            deleted.push(todo);
+            break;
+        }
+
+        const historyAction = action === 'DELETE' ? HISTORY_ACTIONS.DELETED : HISTORY_ACTIONS.UPDATED;
+        await recordRevision(id, userId, historyAction, before, tx);
+        results.push({ id, success: true });
+      }
+    });
+
+    if (action === 'DELETE') {
+      for (const todo of deleted) {
+        emitTodoEvent('todo-deleted', todo, todo.id);
+        await emitWebhookEvent('todo.deleted', todo, { id: todo.id, title: todo.title });
+      }
+    } else {
+      await publishTodos(
+        'todo-updated',
+        results.filter(result => result.success).map(result => result.id),
+        completed.map(todo => todo.id)
+      );
+    }
+
+    // Recurring todos spawn their next occurrence once the batch is committed
+    for (const todo of completed) {
+      const fullTodo = await prisma.todo.findUnique({
+        where: { id: todo.id },
+        include: {
+          categories: {
+            include: {
+              category: true
+            }
+          },
+          subtasks: subtaskInclude,
+          assignees: true
+        }
+      });
+      const nextTodo = fullTodo && await spawnNextOccurrence(fullTodo);
+      if (nextTodo) {
+        await recordRevision(nextTodo.id, userId, HISTORY_ACTIONS.CREATED, null);
+        await publishTodos('todo-created', [nextTodo.id]);
+      }
+    }
+
+    const succeeded = results.filter(result => result.success).length;
+
+    res.json({
+      success: true,
+      message: `${succeeded} of ${ids.length} todos updated`,
+      data: {
+        results,
+        summary: {
+          total: ids.length,
+          succeeded,
+          failed: ids.length - succeeded
+        }
+      }
+    });
+  } catch (error) {
+    console.error('Bulk todo error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to apply bulk action'
+    });
+  }
+});
+
+// Boards of other members follow along; the order alone isn't sent to webhooks
+const emitReordered = async (ids: string[]) => {
+  if (ids.length === 0) return;
+
+  const reordered = await prisma.todo.findMany({
+    where: { id: { in: ids } },
+    include: listInclude
+  });
+  for (const todo of reordered) {
+    emitTodoEvent('todo-updated', todo, formatTodo(todo));
+  }
+};
+
+// Number the todos of a board column 0, 1, 2... in their current order, keeping
+// their updatedAt. Returns the ids of the column.
+const respaceColumn = async (userId: string, status: string): Promise<string[]> => {
+  const column = await prisma.todo.findMany({
+    where: { status, deletedAt: null, ...accessibleTodoWhere(userId) },
+    select: { id: true, updatedAt: true },
+    orderBy: [{ position: 'asc' }, { id: 'asc' }]
+  });
+
+  await prisma.$transaction(
+    column.map((todo, index) => prisma.todo.update({
+      where: { id: todo.id },
+      data: { position: index, updatedAt: todo.updatedAt }
+    }))
+  );
+  return column.map(todo => todo.id);
+};
+
+// Position that puts a todo between the todos above and below it in a board
+// column, either of which is missing at the ends. Only when the two share a
+// position or have no room left between them is the column respaced first.
+// Returns null when a neighbour doesn't exist.
+const placeBetween = async (
+  userId: string,
+  status: string,
+  previousId: string | null,
+  nextId: string | null
+): Promise<{ position: number; respacedIds: string[] } | null> => {
+  const neighbourIds = [previousId, nextId].filter((id): id is string => !!id);
+  const loadPositions = async () => {
+    const neighbours = await prisma.todo.findMany({
+      where: { id: { in: neighbourIds }, deletedAt: null, ...accessibleTodoWhere(userId) },
+      select: { id: true, position: true }
+    });
+    const positions = new Map(neighbours.map(todo => [todo.id, todo.position]));
+    return neighbours.length === neighbourIds.length
+      ? { previous: previousId ? positions.get(previousId)! : null, next: nextId ? positions.get(nextId)! : null }
+      : null;
+  };
+
+  let positions = await loadPositions();
+  if (!positions) return null;
+  if (positions.previous === null) {
+    return { position: positions.next === null ? 0 : positions.next - 1, respacedIds: [] };
+  }
+  if (positions.next === null) {
+    return { position: positions.previous + 1, respacedIds: [] };
+  }
+
+  let middle = (positions.previous + positions.next) / 2;
+  if (middle > positions.previous && middle < positions.next) {
+    return { position: middle, respacedIds: [] };
+  }
+
+  const respacedIds = await respaceColumn(userId, status);
+  positions = (await loadPositions())!;
+  middle = (positions.previous! + positions.next!) / 2;
+  return { position: middle, respacedIds };
+};
+
+// Set the manual order of todos, e.g. a column of the board. The todos get
+// their index in `ids` as position. Moving a single todo is cheaper with
+// `previousId` and `nextId` on PUT /:id.
+router.post('/reorder', authenticate, [
+  body('ids').isArray({ min: 1, max: 500 }).withMessage('Between 1 and 500 todo ids are required'),
+  body('ids.*').isString()
+], async (req: Request, res: Response): Promise<void> => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      res.status(400).json({
+        success: false,
+        error: 'Validation failed',
+        details: errors.array()
+      });
+      return;
+    }
+
+    const userId = req.user!.id;
+    const ids: string[] = [...new Set<string>(req.body.ids)];
+
+    const todos = await prisma.todo.findMany({
+      where: {
+        id: { in: ids },
+        deletedAt: null,
+        ...accessibleTodoWhere(userId)
+      }
+    });
+
+    if (todos.length !== ids.length) {
+      res.status(404).json({
+        success: false,
+        error: 'Todo not found'
+      });
+      return;
+    }
+
+    for (const todo of todos) {
+      if (!await canEditTodo(todo, userId)) {
+        res.status(403).json({
+          success: false,
+          error: 'You do not have permission to modify this todo'
+        });
+        return;
+      }
+    }
+
+    // A new order isn't an edit of the todos, their updatedAt stays as it was
+    const updatedAts = new Map(todos.map(todo => [todo.id, todo.updatedAt]));
+    await prisma.$transaction(
+      ids.map((id, index) => prisma.todo.update({
+        where: { id },
+        data: { position: index, updatedAt: updatedAts.get(id) }
+      }))
+    );
+
+    await emitReordered(ids);
+
+    res.json({
+      success: true,
+      message: 'Todos reordered',
+      data: {
+        positions: ids.map((id, index) => ({ id, position: index }))
+      }
+    });
+  } catch (error) {
+    console.error('Reorder todos error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to reorder todos'
+    });
+  }
+});
+
+// Update todo
+router.put('/:id', authenticate, [
+  body('title').optional().notEmpty(),
+  body('description').optional(),
+  body('priority').optional().isIn(['LOW', 'MEDIUM', 'HIGH', 'URGENT']),
+  body('status').optional().isIn(['TODO', 'IN_PROGRESS', 'COMPLETED', 'CANCELLED']),
+  body('dueDate').optional({ nullable: true }).isISO8601(),
+  body('categoryIds').optional().isArray(),
+  body('teamId').optional({ nullable: true }).isString(),
+  body('assigneeIds').optional().isArray(),
+  recurrenceValidator,
+  body('ignoreBlockers').optional().isBoolean(),
+  body('previousId').optional({ nullable: true }).isString(),
+  body('nextId').optional({ nullable: true }).isString()
+], async (req: Request, res: Response): Promise<void> => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      res.status(400).json({
+        success: false,
+        error: 'Validation failed',
+        details: errors.array()
+      });
+      return;
+    }
+
+    const { id } = req.params;
+    const {
+      title,
+      description,
+      priority,
+      status,
+      dueDate,
+      categoryIds,
+      recurrence,
+      ignoreBlockers,
+      assigneeIds,
+      previousId,
+      nextId
+    } = req.body;
+
+    // Check if todo exists and is visible to the user
+    const existingTodo = await prisma.todo.findFirst({
+      where: { 
+        id: id,
+        deletedAt: null,
+        ...accessibleTodoWhere(req.user!.id)
+      }
+    });
+
+    if (!existingTodo) {
+      res.status(404).json({
+        success: false,
+        error: 'Todo not found'
+      });
+      return;
+    }
+
+    if (!await canEditTodo(existingTodo, req.user!.id)) {
+      res.status(403).json({
+        success: false,
+        error: 'You do not have permission to modify this todo'
+      });
+      return;
+    }
+
+    // Only the creator moves a todo between teams, and only into their own teams
+    const teamId = req.body.teamId !== undefined ? req.body.teamId || null : existingTodo.teamId;
+    if (teamId !== existingTodo.teamId) {
+      if (existingTodo.userId !== req.user!.id) {
+        res.status(403).json({
+          success: false,
+          error: 'Only the creator can change the team of a todo'
+        });
+        return;
+      }
+      if (teamId && !await getMembership(teamId, req.user!.id)) {
+        res.status(404).json({
+          success: false,
+          error: 'Team not found'
+        });
+        return;
+      }
+    }
+
+    if (assigneeIds !== undefined) {
+      const assigneeError = await validateAssignees(teamId, assigneeIds);
+      if (assigneeError) {
+        res.status(400).json({
+          success: false,
+          error: assigneeError
+        });
+        return;
+      }
+    }
+
+    // Todos can't be started or completed while their blockers are still open
+    const isStarting = status === 'IN_PROGRESS' || status === 'COMPLETED';
+    if (isStarting && status !== existingTodo.status && !ignoreBlockers) {
+      const openBlockers = await prisma.todoDependency.findMany({
+        where: {
+          todoId: id,
+          dependsOn: {
+            status: { notIn: RESOLVED_STATUSES },
+            deletedAt: null
+          }
+        },
+        include: {
+          dependsOn: {
+            select: { id: true, title: true, status: true }
+          }
+        }
+      });
+
+      if (openBlockers.length > 0) {
+        res.status(409).json({
+          success: false,
+          error: 'Todo is blocked by open dependencies',
+          details: openBlockers.map(dep => dep.dependsOn)
+        });
+        return;
+      }
+    }
+
+    // Moving the todo between its new neighbours on the board
+    let placement: { position: number; respacedIds: string[] } | null = null;
+    if (previousId !== undefined || nextId !== undefined) {
+      placement = await placeBetween(req.user!.id, status ?? existingTodo.status, previousId || null, nextId || null);
+      if (!placement) {
+        res.status(404).json({
+          success: false,
+          error: 'Neighbouring todo not found'
+        });
+        return;
+      }
+    }
+
+    const before = await snapshotTodo(id);
+
+    const updateData: any = {};
+    if (placement) updateData.position = placement.position;
+    if (title !== undefined) updateData.title = title;
+    if (description !== undefined) updateData.description = description;
+    if (priority !== undefined) Object.assign(updateData, { priority }, sortRanks({ priority }));
+    if (status !== undefined) Object.assign(updateData, { status }, sortRanks({ status }), statusTimestamps(existingTodo, status));
+    if (dueDate !== undefined) updateData.dueDate = dueDate ? new Date(dueDate) : null;
+    if (recurrence !== undefined) {
+      const effectiveDueDate = dueDate !== undefined ? updateData.dueDate : existingTodo.dueDate;
+      updateData.recurrenceRule = buildRecurrenceRule(recurrence, effectiveDueDate);
+    }
+    if (teamId !== existingTodo.teamId) updateData.teamId = teamId;
+
+    if (assigneeIds !== undefined) {
+      await prisma.todoAssignee.deleteMany({
+        where: { todoId: id }
+      });
+      updateData.assignees = {
+        create: [...new Set<string>(assigneeIds)].map(userId => ({ userId }))
+      };
+    } else if (teamId !== existingTodo.teamId) {
+      // Assignees outside the new team lose the todo
+      await prisma.todoAssignee.deleteMany({
+        where: {
+          todoId: id,
+          ...(teamId && { user: { teams: { none: { teamId } } } })
+        }
+      });
+    }
+
+    // Update categories if provided
+    if (categoryIds !== undefined) {
+      // Delete existing category relations
+      await prisma.todoCategory.deleteMany({
+        where: { todoId: id }
+      });
+
+      // Create new category relations
+      if (categoryIds.length > 0) {
+        updateData.categories = {
+          create: categoryIds.map((categoryId: string) => ({
+            categoryId
+          }))
+        };
+      }
+    }
+
+    // Only moved on the board: not an edit, so updatedAt and webhooks are left alone
+    const onlyMoved = !!placement && Object.keys(updateData).every(key => key === 'position');
+    if (onlyMoved) updateData.updatedAt = existingTodo.updatedAt;
+
+    const updatedTodo = await prisma.todo.update({
+      where: { id: id },
+      data: updateData,
+      include: {
+        categories: {
+          include: {
+            category: true
+          }
+        },
+        subtasks: subtaskInclude,
+        ...dependencyInclude,
+        ...sharingInclude
+      }
+    });
+
+    await recordRevision(id, req.user!.id, HISTORY_ACTIONS.UPDATED, before);
+
+    // Completing a recurring todo schedules its next occurrence
+    const justCompleted = status === 'COMPLETED' && existingTodo.status !== 'COMPLETED';
+    let nextTodo = null;
+    if (justCompleted) {
+      nextTodo = await spawnNextOccurrence(updatedTodo);
+      if (nextTodo) {
+        await recordRevision(nextTodo.id, req.user!.id, HISTORY_ACTIONS.CREATED, null);
+      }
+    }
+
+    // Members who lose access when a todo leaves its team are told it is gone
+    if (existingTodo.teamId && existingTodo.teamId !== updatedTodo.teamId) {
+      emitTodoEvent('todo-deleted', { userId: existingTodo.userId, teamId: existingTodo.teamId }, id);
+    }
+    if (onlyMoved) {
+      await emitReordered([id]);
+    } else {
+      await publishTodos('todo-updated', [id], justCompleted ? [id] : []);
+    }
+    await emitReordered((placement?.respacedIds || []).filter(respacedId => respacedId !== id));
+    if (nextTodo) {
+      await publishTodos('todo-created', [nextTodo.id]);
+    }
+
+    res.json({
+      success: true,
+      message: 'Todo updated successfully',
+      data: {
+        todo: formatTodo(updatedTodo),
+        ...(nextTodo && { nextTodo: formatTodo(nextTodo) })
+      }
+    });
+  } catch (error) {
+    console.error('Update todo error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to update todo'
+    });
+  }
+});
+
+// Delete todo (moves it to the trash, see routes/trash.ts)
+router.delete('/:id', authenticate, async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { id } = req.params;
+
+    // Check if todo exists and is visible to the user
+    const existingTodo = await prisma.todo.findFirst({
+      where: { 
+        id: id,
+        deletedAt: null,
+        ...accessibleTodoWhere(req.user!.id)
+      }
+    });
+
+    if (!existingTodo) {
+      res.status(404).json({
+        success: false,
+        error: 'Todo not found'
+      });
+      return;
+    }
+
+    if (!await canDeleteTodo(existingTodo, req.user!.id)) {
+      res.status(403).json({
+        success: false,
+        error: 'You do not have permission to delete this todo'
+      });
+      return;
+    }
+
+    const before = await snapshotTodo(id);
+
+    // Subtasks, comments and category links are kept so a restore brings them back
+    await prisma.todo.update({
+      where: { id: id },
+      data: { deletedAt: new Date() }
+    });
+
+    await recordRevision(id, req.user!.id, HISTORY_ACTIONS.DELETED, before);
+    emitTodoEvent('todo-deleted', existingTodo, id);
+    await emitWebhookEvent('todo.deleted', existingTodo, { id, title: existingTodo.title });
+
+    res.json({
+      success: true,
+      message: 'Todo moved to trash'
+    });
+  } catch (error) {
+    console.error('Delete todo error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to delete todo'
+    });
+  }
+});
+
+// Get dependencies of a todo
+router.get('/:id/dependencies', authenticate, async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { id } = req.params;
+
+    const todo = await prisma.todo.findFirst({
+      where: { 
+        id: id,
+        deletedAt: null,
+        ...accessibleTodoWhere(req.user!.id)
+      },
+      include: dependencyInclude
+    });
+
+    if (!todo) {
+      res.status(404).json({
+        success: false,
+        error: 'Todo not found'
+      });
+      return;
+    }
+
+    const { blockedBy, blocking } = formatTodo(todo);
+
+    res.json({
+      success: true,
+      data: { blockedBy, blocking }
+    });
+  } catch (error) {
+    console.error('Get dependencies error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to fetch dependencies'
+    });
+  }
+});
+
+// Add a dependency: the todo is blocked until `dependsOnId` is resolved
+router.post('/:id/dependencies', authenticate, [
+  body('dependsOnId').notEmpty().withMessage('Dependency todo is required')
+], async (req: Request, res: Response): Promise<void> => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      res.status(400).json({
+        success: false,
+        error: 'Validation failed',
+        details: errors.array()
+      });
+      return;
+    }
+
+    const { id } = req.params;
+    const { dependsOnId } = req.body;
+
+    if (id === dependsOnId) {
+      res.status(400).json({
+        success: false,
+        error: 'A todo cannot depend on itself'
+      });
+      return;
+    }
+
+    // Both todos must exist and be visible to the user
+    const todos = await prisma.todo.findMany({
+      where: {
+        id: { in: [id, dependsOnId] },
+        deletedAt: null,
+        ...accessibleTodoWhere(req.user!.id)
+      },
+      select: { id: true, userId: true, teamId: true }
+    });
+
+    if (todos.length !== 2) {
+      res.status(404).json({
+        success: false,
+        error: 'Todo not found'
+      });
+      return;
+    }
+
+    if (!await canEditTodo(todos.find(todo => todo.id === id)!, req.user!.id)) {
+      res.status(403).json({
+        success: false,
+        error: 'You do not have permission to modify this todo'
+      });
+      return;
+    }
+
+    if (await dependsTransitively(dependsOnId, id)) {
+      res.status(400).json({
+        success: false,
+        error: 'Dependency would create a cycle'
+      });
+      return;
+    }
+
+    const dependency = await prisma.todoDependency.upsert({
+      where: {
+        todoId_dependsOnId: { todoId: id, dependsOnId }
+      },
+      update: {},
+      create: { todoId: id, dependsOnId },
+      include: {
+        dependsOn: {
+          select: { id: true, title: true, status: true }
+        }
+      }
+    });
+
+    await publishTodos('todo-updated', [id, dependsOnId]);
+
+    res.status(201).json({
+      success: true,
+      message: 'Dependency added successfully',
+      data: { dependency: dependency.dependsOn }
+    });
+  } catch (error) {
+    console.error('Add dependency error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to add dependency'
     });
   }
 });
 
-// Get single todo by ID
-router.get('/:id', authenticate, async (req: Request, res: Response): Promise<void> => {
+// Remove a dependency
+router.delete('/:id/dependencies/:dependsOnId', authenticate, async (req: Request, res: Response): Promise<void> => {
   try {
-    const { id } = req.params;
+    const { id, dependsOnId } = req.params;
 
-    const todo = await prisma.todo.findFirst({
-      where: { 
-        id: id,
-        userId: req.user!.id 
+    const dependency = await prisma.todoDependency.findFirst({
+      where: {
+        todoId: id,
+        dependsOnId,
+        todo: {
+          deletedAt: null,
+          ...accessibleTodoWhere(req.user!.id)
+        }
       },
       include: {
-        categories: {
-          include: {
-            category: true
-          }
-        },
-        subtasks: true,
-        comments: {
-          include: {
-            user: {
-              select: {
-                id: true,
-                name: true,
-                avatar: true
-              }
-            }
-          },
-          orderBy: {
-            createdAt: 'desc'
-          }
+        todo: {
+          select: { id: true, userId: true, teamId: true }
         }
       }
     });
 
-    if (!todo) {
+    if (!dependency) {
       res.status(404).json({
         success: false,
-        error: 'Todo not found'
+        error: 'Dependency not found'
+      });
+      return;
+    }
+
+    if (!await canEditTodo(dependency.todo, req.user!.id)) {
+      res.status(403).json({
+        success: false,
+        error: 'You do not have permission to modify this todo'
       });
       return;
     }
 
+    await prisma.todoDependency.delete({
+      where: {
+        todoId_dependsOnId: { todoId: id, dependsOnId }
+      }
+    });
+
+    await publishTodos('todo-updated', [id, dependsOnId]);
+
     res.json({
       success: true,
-      data: {
-        todo: {
-          ...todo,
-          categories: todo.categories.map((tc: any) => tc.category)
-        }
-      }
+      message: 'Dependency removed successfully'
     });
   } catch (error) {
-    console.error('Get todo error:', error);
+    console.error('Remove dependency error:', error);
     res.status(500).json({
       success: false,
-      error: 'Failed to fetch todo'
+      error: 'Failed to remove dependency'
     });
   }
 });
 
-// Create new todo
-router.post('/', authenticate, [
-  body('title').notEmpty().withMessage('Title is required'),
-  body('description').optional(),
-  body('priority').optional().isIn(['LOW', 'MEDIUM', 'HIGH', 'URGENT']),
-  body('dueDate').optional().isISO8601(),
-  body('categoryIds').optional().isArray()
-], async (req: Request, res: Response): Promise<void> => {
+// Get change history of a todo
+router.get('/:id/history', authenticate, async (req: Request, res: Response): Promise<void> => {
   try {
-    const errors = validationResult(req);
-    if (!errors.isEmpty()) {
-      res.status(400).json({
+    const { id } = req.params;
+
+    const todo = await prisma.todo.findFirst({
+      where: { 
+        id: id,
+        ...accessibleTodoWhere(req.user!.id)
+      }
+    });
+
+    if (!todo) {
+      res.status(404).json({
         success: false,
-        error: 'Validation failed',
-        details: errors.array()
+        error: 'Todo not found'
       });
       return;
     }
 
-    const { title, description, priority, dueDate, categoryIds } = req.body;
-
-    const todoData: any = {
-      title,
-      description,
-      priority: priority || 'MEDIUM',
-      dueDate: dueDate ? new Date(dueDate) : null,
-      userId: req.user!.id
-    };
-
-    // Add categories if provided
-    if (categoryIds && categoryIds.length > 0) {
-      todoData.categories = {
-        create: categoryIds.map((categoryId: string) => ({
-          categoryId
-        }))
-      };
-    }
-
-    const todo = await prisma.todo.create({
-      data: todoData,
+    const revisions = await prisma.todoRevision.findMany({
+      where: { todoId: id },
       include: {
-        categories: {
-          include: {
-            category: true
+        actor: {
+          select: {
+            id: true,
+            name: true,
+            avatar: true
           }
-        },
-        subtasks: true
-      }
+        }
+      },
+      orderBy: { revision: 'desc' }
     });
 
-    res.status(201).json({
+    res.json({
       success: true,
-      message: 'Todo created successfully',
       data: {
-        todo: {
-          ...todo,
-          categories: todo.categories.map((tc: any) => tc.category)
-        }
+        revisions: revisions.map(revision => ({
+          ...revision,
+          changes: JSON.parse(revision.changes),
+          snapshot: JSON.parse(revision.snapshot)
+        }))
       }
     });
   } catch (error) {
-    console.error('Create todo error:', error);
+    console.error('Get todo history error:', error);
     res.status(500).json({
       success: false,
-      error: 'Failed to create todo'
+      error: 'Failed to fetch todo history'
     });
   }
 });
 
-// Update todo
-router.put('/:id', authenticate, [
-  body('title').optional().notEmpty(),
-  body('description').optional(),
-  body('priority').optional().isIn(['LOW', 'MEDIUM', 'HIGH', 'URGENT']),
-  body('status').optional().isIn(['TODO', 'IN_PROGRESS', 'COMPLETED', 'CANCELLED']),
-  body('dueDate').optional().isISO8601(),
-  body('categoryIds').optional().isArray()
-], async (req: Request, res: Response): Promise<void> => {
+// Revert a todo to the state of an earlier revision
+router.post('/:id/history/:revision/revert', authenticate, async (req: Request, res: Response): Promise<void> => {
   try {
-    const errors = validationResult(req);
-    if (!errors.isEmpty()) {
-      res.status(400).json({
-        success: false,
-        error: 'Validation failed',
-        details: errors.array()
-      });
-      return;
-    }
-
     const { id } = req.params;
-    const { title, description, priority, status, dueDate, categoryIds } = req.body;
+    const revisionNumber = parseInt(req.params['revision']);
 
-    // Check if todo exists and belongs to user
-    const existingTodo = await prisma.todo.findFirst({
+    const todo = await prisma.todo.findFirst({
       where: { 
         id: id,
-        userId: req.user!.id 
+        deletedAt: null,
+        ...accessibleTodoWhere(req.user!.id)
       }
     });
 
-    if (!existingTodo) {
+    if (!todo) {
       res.status(404).json({
         success: false,
         error: 'Todo not found'
@@ -269,76 +1497,94 @@ router.put('/:id', authenticate, [
       return;
     }
 
-    const updateData: any = {};
-    if (title !== undefined) updateData.title = title;
-    if (description !== undefined) updateData.description = description;
-    if (priority !== undefined) updateData.priority = priority;
-    if (status !== undefined) updateData.status = status;
-    if (dueDate !== undefined) updateData.dueDate = dueDate ? new Date(dueDate) : null;
-
-    // Update categories if provided
-    if (categoryIds !== undefined) {
-      // Delete existing category relations
-      await prisma.todoCategory.deleteMany({
-        where: { todoId: id }
+    if (!await canEditTodo(todo, req.user!.id)) {
+      res.status(403).json({
+        success: false,
+        error: 'You do not have permission to modify this todo'
       });
+      return;
+    }
 
-      // Create new category relations
-      if (categoryIds.length > 0) {
-        updateData.categories = {
-          create: categoryIds.map((categoryId: string) => ({
-            categoryId
-          }))
-        };
+    const revision = await prisma.todoRevision.findUnique({
+      where: {
+        todoId_revision: { todoId: id, revision: revisionNumber || 0 }
       }
+    });
+
+    if (!revision) {
+      res.status(404).json({
+        success: false,
+        error: 'Revision not found'
+      });
+      return;
     }
 
-    const updatedTodo = await prisma.todo.update({
+    await prisma.$transaction(async tx => {
+      const before = await snapshotTodo(id, tx);
+      await applySnapshot(id, JSON.parse(revision.snapshot), tx);
+      await recordRevision(id, req.user!.id, HISTORY_ACTIONS.REVERTED, before, tx);
+    });
+
+    const revertedTodo = await prisma.todo.findUnique({
       where: { id: id },
-      data: updateData,
       include: {
         categories: {
           include: {
             category: true
           }
         },
-        subtasks: true
+        subtasks: subtaskInclude,
+        ...dependencyInclude,
+        ...sharingInclude
       }
     });
 
+    await publishTodos('todo-updated', [id]);
+
     res.json({
       success: true,
-      message: 'Todo updated successfully',
+      message: `Todo reverted to revision ${revision.revision}`,
       data: {
-        todo: {
-          ...updatedTodo,
-          categories: updatedTodo?.categories.map((tc: any) => tc.category)
-        }
+        todo: formatTodo(revertedTodo)
       }
     });
   } catch (error) {
-    console.error('Update todo error:', error);
+    console.error('Revert todo error:', error);
     res.status(500).json({
       success: false,
-      error: 'Failed to update todo'
+      error: 'Failed to revert todo'
     });
   }
 });
 
-// Delete todo
-router.delete('/:id', authenticate, async (req: Request, res: Response): Promise<void> => {
+// Add subtask to todo
+router.post('/:id/subtasks', authenticate, [
+  body('title').notEmpty().withMessage('Subtask title is required')
+], async (req: Request, res: Response): Promise<void> => {
   try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      res.status(400).json({
+        success: false,
+        error: 'Validation failed',
+        details: errors.array()
+      });
+      return;
+    }
+
     const { id } = req.params;
+    const { title } = req.body;
 
     // Check if todo exists and belongs to user
-    const existingTodo = await prisma.todo.findFirst({
+    const todo = await prisma.todo.findFirst({
       where: { 
         id: id,
-        userId: req.user!.id 
+        deletedAt: null,
+        ...accessibleTodoWhere(req.user!.id)
       }
     });
 
-    if (!existingTodo) {
+    if (!todo) {
       res.status(404).json({
         success: false,
         error: 'Todo not found'
@@ -346,26 +1592,53 @@ router.delete('/:id', authenticate, async (req: Request, res: Response): Promise
       return;
     }
 
-    await prisma.todo.delete({
-      where: { id: id }
+    if (!await canEditTodo(todo, req.user!.id)) {
+      res.status(403).json({
+        success: false,
+        error: 'You do not have permission to modify this todo'
+      });
+      return;
+    }
+
+    const before = await snapshotTodo(id);
+
+    // New subtasks go to the end of the checklist
+    const last = await prisma.subtask.findFirst({
+      where: { todoId: id },
+      orderBy: { order: 'desc' },
+      select: { order: true }
     });
 
-    res.json({
+    const subtask = await prisma.subtask.create({
+      data: {
+        title,
+        todoId: id,
+        order: last ? last.order + 1 : 0
+      }
+    });
+
+    await recordRevision(id, req.user!.id, HISTORY_ACTIONS.UPDATED, before);
+    await publishTodos('todo-updated', [id]);
+
+    res.status(201).json({
       success: true,
-      message: 'Todo deleted successfully'
+      message: 'Subtask created successfully',
+      data: { subtask }
     });
   } catch (error) {
-    console.error('Delete todo error:', error);
+    console.error('Create subtask error:', error);
     res.status(500).json({
       success: false,
-      error: 'Failed to delete todo'
+      error: 'Failed to create subtask'
     });
   }
 });
 
-// Add subtask to todo
-router.post('/:id/subtasks', authenticate, [
-  body('title').notEmpty().withMessage('Subtask title is required')
+// Set the order of a todo's checklist. `ids` lists all of its subtasks, each
+// gets its index as order.
+router.post('/:id/subtasks/reorder', authenticate, [
+  body('ids').isArray({ min: 1 }).withMessage('Subtask ids are required'),
+  body('ids.*').isString()
 ], async (req: Request, res: Response): Promise<void> => {
   try {
     const errors = validationResult(req);
@@ -379,13 +1652,17 @@ router.post('/:id/subtasks', authenticate, [
     }
 
     const { id } = req.params;
-    const { title } = req.body;
+    const ids: string[] = [...new Set<string>(req.body.ids)];
 
     // Check if todo exists and belongs to user
     const todo = await prisma.todo.findFirst({
       where: { 
         id: id,
-        userId: req.user!.id 
+        deletedAt: null,
+        ...accessibleTodoWhere(req.user!.id)
+      },
+      include: {
+        subtasks: { select: { id: true } }
       }
     });
 
@@ -397,23 +1674,45 @@ router.post('/:id/subtasks', authenticate, [
       return;
     }
 
-    const subtask = await prisma.subtask.create({
-      data: {
-        title,
-        todoId: id
-      }
-    });
+    if (!await canEditTodo(todo, req.user!.id)) {
+      res.status(403).json({
+        success: false,
+        error: 'You do not have permission to modify this todo'
+      });
+      return;
+    }
 
-    res.status(201).json({
+    const subtaskIds = new Set(todo.subtasks.map(subtask => subtask.id));
+    if (ids.length !== subtaskIds.size || ids.some(subtaskId => !subtaskIds.has(subtaskId))) {
+      res.status(400).json({
+        success: false,
+        error: 'Ids must list every subtask of the todo'
+      });
+      return;
+    }
+
+    const before = await snapshotTodo(id);
+
+    const subtasks = await prisma.$transaction(
+      ids.map((subtaskId, index) => prisma.subtask.update({
+        where: { id: subtaskId },
+        data: { order: index }
+      }))
+    );
+
+    await recordRevision(id, req.user!.id, HISTORY_ACTIONS.UPDATED, before);
+    await publishTodos('todo-updated', [id]);
+
+    res.json({
       success: true,
-      message: 'Subtask created successfully',
-      data: { subtask }
+      message: 'Subtasks reordered',
+      data: { subtasks }
     });
   } catch (error) {
-    console.error('Create subtask error:', error);
+    console.error('Reorder subtasks error:', error);
     res.status(500).json({
       success: false,
-      error: 'Failed to create subtask'
+      error: 'Failed to reorder subtasks'
     });
   }
 });
@@ -442,8 +1741,12 @@ router.put('/subtasks/:subtaskId', authenticate, [
       where: { 
         id: subtaskId,
         todo: {
-          userId: req.user!.id
+          deletedAt: null,
+          ...accessibleTodoWhere(req.user!.id)
         }
+      },
+      include: {
+        todo: { select: { id: true, userId: true, teamId: true } }
       }
     });
 
@@ -455,15 +1758,28 @@ router.put('/subtasks/:subtaskId', authenticate, [
       return;
     }
 
+    if (!await canEditTodo(subtask.todo, req.user!.id)) {
+      res.status(403).json({
+        success: false,
+        error: 'You do not have permission to modify this todo'
+      });
+      return;
+    }
+
     const updateData: any = {};
     if (title !== undefined) updateData.title = title;
     if (completed !== undefined) updateData.completed = completed;
 
+    const before = await snapshotTodo(subtask.todoId);
+
     const updatedSubtask = await prisma.subtask.update({
       where: { id: subtaskId },
       data: updateData
     });
 
+    await recordRevision(subtask.todoId, req.user!.id, HISTORY_ACTIONS.UPDATED, before);
+    await publishTodos('todo-updated', [subtask.todoId]);
+
     res.json({
       success: true,
       message: 'Subtask updated successfully',
@@ -488,8 +1804,12 @@ router.delete('/subtasks/:subtaskId', authenticate, async (req: Request, res: Re
       where: { 
         id: subtaskId,
         todo: {
-          userId: req.user!.id
+          deletedAt: null,
+          ...accessibleTodoWhere(req.user!.id)
         }
+      },
+      include: {
+        todo: { select: { id: true, userId: true, teamId: true } }
       }
     });
 
@@ -501,10 +1821,23 @@ router.delete('/subtasks/:subtaskId', authenticate, async (req: Request, res: Re
       return;
     }
 
+    if (!await canEditTodo(subtask.todo, req.user!.id)) {
+      res.status(403).json({
+        success: false,
+        error: 'You do not have permission to modify this todo'
+      });
+      return;
+    }
+
+    const before = await snapshotTodo(subtask.todoId);
+
     await prisma.subtask.delete({
       where: { id: subtaskId }
     });
 
+    await recordRevision(subtask.todoId, req.user!.id, HISTORY_ACTIONS.UPDATED, before);
+    await publishTodos('todo-updated', [subtask.todoId]);
+
     res.json({
       success: true,
       message: 'Subtask deleted successfully'
@@ -540,7 +1873,8 @@ router.post('/:id/comments', authenticate, [
     const todo = await prisma.todo.findFirst({
       where: { 
         id: id,
-        userId: req.user!.id 
+        deletedAt: null,
+        ...accessibleTodoWhere(req.user!.id)
       }
     });
 
@@ -569,6 +1903,9 @@ router.post('/:id/comments', authenticate, [
       }
     });
 
+    emitTodoEvent('comment-added', todo, comment);
+    await emitWebhookEvent('comment.created', todo, { todoId: todo.id, comment });
+
     res.status(201).json({
       success: true,
       message: 'Comment added successfully',
@@ -0,0 +1,293 @@
+import { Router, Request, Response } from 'express';
+import { PrismaClient } from '@prisma/client';
+import { authenticate } from '../middleware/auth';
+import { getTrashRetentionDays } from '../services/trashPurger';
+import { HISTORY_ACTIONS, snapshotTodo, recordRevision } from '../services/todoHistory';
+import {
+  accessibleTodoWhere,
+  editableTodoWhere,
+  deletableTodoWhere,
+  canEditTodo,
+  canDeleteTodo
+} from '../services/teamAccess';
+import { formatTodo, listInclude, publishTodos } from '../services/todoEvents';
+
+const router = Router();
+const prisma = new PrismaClient();
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const getPurgeAt = (deletedAt: Date) => {
+  return new Date(deletedAt.getTime() + getTrashRetentionDays() * DAY_MS);
+};
+
+// List trashed todos and categories. Team todos show up for everyone who
+// could edit them, whoever deleted them.
+router.get('/', authenticate, async (req: Request, res: Response): Promise<void> => {
+  try {
+    const userId = req.user!.id;
+
+    const [todos, categories] = await Promise.all([
+      prisma.todo.findMany({
+        where: { deletedAt: { not: null }, ...editableTodoWhere(userId) },
+        include: {
+          categories: {
+            include: {
+              category: true
+            }
+          },
+          _count: {
+            select: { subtasks: true, comments: true }
+          }
+        },
+        orderBy: { deletedAt: 'desc' }
+      }),
+      prisma.category.findMany({
+        where: { userId, deletedAt: { not: null } },
+        include: {
+          _count: {
+            select: { todos: true }
+          }
+        },
+        orderBy: { deletedAt: 'desc' }
+      })
+    ]);
+
+    res.json({
+      success: true,
+      data: {
+        todos: todos.map(({ _count, ...todo }) => ({
+          ...todo,
+          categories: todo.categories.map((tc: any) => tc.category),
+          subtaskCount: _count.subtasks,
+          commentCount: _count.comments,
+          purgeAt: getPurgeAt(todo.deletedAt!)
+        })),
+        categories: categories.map(({ _count, ...category }) => ({
+          ...category,
+          todoCount: _count.todos,
+          purgeAt: getPurgeAt(category.deletedAt!)
+        })),
+        retentionDays: getTrashRetentionDays()
+      }
+    });
+  } catch (error) {
+    console.error('Get trash error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to fetch trash'
+    });
+  }
+});
+
+// Restore a todo together with its subtasks, comments and category links
+router.post('/todos/:id/restore', authenticate, async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { id } = req.params;
+
+    const todo = await prisma.todo.findFirst({
+      where: { id, deletedAt: { not: null }, ...accessibleTodoWhere(req.user!.id) }
+    });
+
+    if (!todo) {
+      res.status(404).json({
+        success: false,
+        error: 'Todo not found in trash'
+      });
+      return;
+    }
+
+    if (!await canEditTodo(todo, req.user!.id)) {
+      res.status(403).json({
+        success: false,
+        error: 'You do not have permission to restore this todo'
+      });
+      return;
+    }
+
+    const before = await snapshotTodo(id);
+
+    const restoredTodo = await prisma.todo.update({
+      where: { id },
+      data: { deletedAt: null },
+      include: listInclude
+    });
+
+    await recordRevision(id, req.user!.id, HISTORY_ACTIONS.RESTORED, before);
+    // To other clients and webhooks the todo comes back as a new one
+    await publishTodos('todo-created', [id]);
+
+    res.json({
+      success: true,
+      message: 'Todo restored successfully',
+      data: {
+        todo: formatTodo(restoredTodo)
+      }
+    });
+  } catch (error) {
+    console.error('Restore todo error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to restore todo'
+    });
+  }
+});
+
+// Restore a category together with its todo links
+router.post('/categories/:id/restore', authenticate, async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { id } = req.params;
+    const userId = req.user!.id;
+
+    const category = await prisma.category.findFirst({
+      where: { id, userId, deletedAt: { not: null } }
+    });
+
+    if (!category) {
+      res.status(404).json({
+        success: false,
+        error: 'Category not found in trash'
+      });
+      return;
+    }
+
+    // A new category may have taken the name in the meantime
+    const nameConflict = await prisma.category.findFirst({
+      where: { userId, name: category.name, deletedAt: null }
+    });
+
+    if (nameConflict) {
+      res.status(400).json({
+        success: false,
+        error: 'Category with this name already exists'
+      });
+      return;
+    }
+
+    const restoredCategory = await prisma.category.update({
+      where: { id },
+      data: { deletedAt: null }
+    });
+
+    res.json({
+      success: true,
+      message: 'Category restored successfully',
+      data: { category: restoredCategory }
+    });
+  } catch (error) {
+    console.error('Restore category error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to restore category'
+    });
+  }
+});
+
+// Permanently delete a trashed todo
+router.delete('/todos/:id', authenticate, async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { id } = req.params;
+
+    const todo = await prisma.todo.findFirst({
+      where: { id, deletedAt: { not: null }, ...accessibleTodoWhere(req.user!.id) }
+    });
+
+    if (!todo) {
+      res.status(404).json({
+        success: false,
+        error: 'Todo not found in trash'
+      });
+      return;
+    }
+
+    if (!await canDeleteTodo(todo, req.user!.id)) {
+      res.status(403).json({
+        success: false,
+        error: 'You do not have permission to delete this todo'
+      });
+      return;
+    }
+
+    await prisma.todo.delete({
+      where: { id }
+    });
+
+    res.json({
+      success: true,
+      message: 'Todo permanently deleted'
+    });
+  } catch (error) {
+    console.error('Purge todo error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to delete todo'
+    });
+  }
+});
+
+// Permanently delete a trashed category
+router.delete('/categories/:id', authenticate, async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { id } = req.params;
+
+    const category = await prisma.category.findFirst({
+      where: { id, userId: req.user!.id, deletedAt: { not: null } }
+    });
+
+    if (!category) {
+      res.status(404).json({
+        success: false,
+        error: 'Category not found in trash'
+      });
+      return;
+    }
+
+    await prisma.category.delete({
+      where: { id }
+    });
+
+    res.json({
+      success: true,
+      message: 'Category permanently deleted'
+    });
+  } catch (error) {
+    console.error('Purge category error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to delete category'
+    });
+  }
+});
+
+// Empty the trash: team todos go only for the creator and team admins
+router.delete('/', authenticate, async (req: Request, res: Response): Promise<void> => {
+  try {
+    const userId = req.user!.id;
+
+    const [todos, categories] = await prisma.$transaction([
+      prisma.todo.deleteMany({
+        where: { deletedAt: { not: null }, ...deletableTodoWhere(userId) }
+      }),
+      prisma.category.deleteMany({
+        where: { userId, deletedAt: { not: null } }
+      })
+    ]);
+
+    res.json({
+      success: true,
+      message: 'Trash emptied successfully',
+      data: {
+        todos: todos.count,
+        categories: categories.count
+      }
+    });
+  } catch (error) {
+    console.error('Empty trash error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to empty trash'
+    });
+  }
+});
+
+export default router;
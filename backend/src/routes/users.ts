@@ -13,23 +13,25 @@ router.get('/stats', authenticate, async (req: Request, res: Response) => {
     // Get todo statistics
     const todoStats = await prisma.todo.groupBy({
       by: ['status'],
-      where: { userId },
+      where: { userId, deletedAt: null },
       _count: { status: true }
     });
 
     // Get category statistics
     const categoryStats = await prisma.category.findMany({
-      where: { userId },
+      where: { userId, deletedAt: null },
       include: {
         _count: {
-          select: { todos: true }
+          select: {
+            todos: { where: { todo: { deletedAt: null } } }
+          }
         }
       }
     });
 
     // Get recent activity
     const recentTodos = await prisma.todo.findMany({
-      where: { userId },
+      where: { userId, deletedAt: null },
       orderBy: { updatedAt: 'desc' },
       take: 5,
       select: {
@@ -41,9 +43,9 @@ router.get('/stats', authenticate, async (req: Request, res: Response) => {
     });
 
     // Calculate completion rate
-    const totalTodos = await prisma.todo.count({ where: { userId } });
+    const totalTodos = await prisma.todo.count({ where: { userId, deletedAt: null } });
     const completedTodos = await prisma.todo.count({ 
-      where: { userId, status: 'COMPLETED' } 
+      where: { userId, status: 'COMPLETED', deletedAt: null } 
     });
     const completionRate = totalTodos > 0 ? (completedTodos / totalTodos) * 100 : 0;
 
@@ -0,0 +1,375 @@
+import { Router, Request, Response } from 'express';
+import { PrismaClient } from '@prisma/client';
+import { body, validationResult } from 'express-validator';
+import { authenticate } from '../middleware/auth';
+import { getMembership, hasTeamRole } from '../services/teamAccess';
+import {
+  WEBHOOK_EVENTS,
+  generateWebhookSecret,
+  parseEvents,
+  sendTestEvent,
+  replayDelivery,
+  checkWebhookUrl
+} from '../services/webhooks';
+
+const router = Router();
+const prisma = new PrismaClient();
+
+// Everything but the secret, which is only returned when it is created or rotated
+const webhookSelect = {
+  id: true,
+  url: true,
+  events: true,
+  description: true,
+  active: true,
+  createdAt: true,
+  updatedAt: true,
+  userId: true,
+  teamId: true,
+  team: {
+    select: { id: true, name: true }
+  },
+  deliveries: {
+    select: { id: true, event: true, status: true, createdAt: true },
+    orderBy: { createdAt: 'desc' as const },
+    take: 1
+  }
+};
+
+// Validators shared by create (required) and update (optional)
+const urlValidator = (optional: boolean) => {
+  const chain = body('url');
+  return (optional ? chain.optional() : chain)
+    .isURL({ protocols: ['http', 'https'], require_protocol: true, require_tld: false })
+    .bail()
+    .custom(async (url: string) => {
+      const problem = await checkWebhookUrl(url);
+      if (problem) {
+        throw new Error(problem);
+      }
+      return true;
+    });
+};
+
+const eventsValidator = (optional: boolean) => {
+  const chain = body('events');
+  return [
+    (optional ? chain.optional() : chain).isArray({ min: 1 }),
+    body('events.*').isIn(WEBHOOK_EVENTS as unknown as string[])
+  ];
+};
+
+// Personal webhooks of the user and the webhooks of teams they administer
+const manageableWhere = (userId: string) => ({
+  OR: [
+    { userId, teamId: null },
+    { team: { members: { some: { userId, role: { in: ['OWNER', 'ADMIN'] } } } } }
+  ]
+});
+
+const formatWebhook = <T extends { events: string; deliveries: unknown[] }>(webhook: T) => {
+  const { deliveries, ...rest } = webhook;
+  return {
+    ...rest,
+    events: parseEvents(webhook.events),
+    lastDelivery: deliveries[0] || null
+  };
+};
+
+// Load a webhook the caller may manage. Sends a 404 and returns null otherwise.
+const findWebhook = async (req: Request, res: Response) => {
+  const webhook = await prisma.webhook.findFirst({
+    where: { id: req.params['id'], ...manageableWhere(req.user!.id) }
+  });
+
+  if (!webhook) {
+    res.status(404).json({
+      success: false,
+      error: 'Webhook not found'
+    });
+    return null;
+  }
+
+  return webhook;
+};
+
+// Get webhooks and the events they can subscribe to
+router.get('/', authenticate, async (req: Request, res: Response): Promise<void> => {
+  try {
+    const webhooks = await prisma.webhook.findMany({
+      where: manageableWhere(req.user!.id),
+      select: webhookSelect,
+      orderBy: { createdAt: 'desc' }
+    });
+
+    res.json({
+      success: true,
+      data: {
+        webhooks: webhooks.map(formatWebhook),
+        events: WEBHOOK_EVENTS
+      }
+    });
+  } catch (error) {
+    console.error('Get webhooks error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to fetch webhooks'
+    });
+  }
+});
+
+// Create a webhook, personal or for a team the caller administers
+router.post('/', authenticate, [
+  urlValidator(false),
+  ...eventsValidator(false),
+  body('description').optional({ nullable: true }).trim().isLength({ max: 200 }),
+  body('teamId').optional({ nullable: true }).isString()
+], async (req: Request, res: Response): Promise<void> => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      res.status(400).json({
+        success: false,
+        error: 'Validation failed',
+        details: errors.array()
+      });
+      return;
+    }
+
+    const { url, events, description, teamId } = req.body;
+    const userId = req.user!.id;
+
+    if (teamId) {
+      const membership = await getMembership(teamId, userId);
+      if (!hasTeamRole(membership?.role, 'ADMIN')) {
+        res.status(403).json({
+          success: false,
+          error: 'Only team admins can add team webhooks'
+        });
+        return;
+      }
+    }
+
+    const secret = generateWebhookSecret();
+    const webhook = await prisma.webhook.create({
+      data: {
+        url,
+        events: Array.from(new Set<string>(events)).join(','),
+        description: description || null,
+        secret,
+        userId,
+        teamId: teamId || null
+      },
+      select: webhookSelect
+    });
+
+    res.status(201).json({
+      success: true,
+      message: 'Webhook created',
+      data: { webhook: formatWebhook(webhook), secret }
+    });
+  } catch (error) {
+    console.error('Create webhook error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to create webhook'
+    });
+  }
+});
+
+// Update a webhook
+router.put('/:id', authenticate, [
+  urlValidator(true),
+  ...eventsValidator(true),
+  body('description').optional({ nullable: true }).trim().isLength({ max: 200 }),
+  body('active').optional().isBoolean()
+], async (req: Request, res: Response): Promise<void> => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      res.status(400).json({
+        success: false,
+        error: 'Validation failed',
+        details: errors.array()
+      });
+      return;
+    }
+
+    const existingWebhook = await findWebhook(req, res);
+    if (!existingWebhook) return;
+
+    const { url, events, description, active } = req.body;
+
+    const webhook = await prisma.webhook.update({
+      where: { id: existingWebhook.id },
+      data: {
+        ...(url !== undefined && { url }),
+        ...(events !== undefined && { events: Array.from(new Set<string>(events)).join(',') }),
+        ...(description !== undefined && { description: description || null }),
+        ...(active !== undefined && { active })
+      },
+      select: webhookSelect
+    });
+
+    res.json({
+      success: true,
+      message: 'Webhook updated',
+      data: { webhook: formatWebhook(webhook) }
+    });
+  } catch (error) {
+    console.error('Update webhook error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to update webhook'
+    });
+  }
+});
+
+// Replace the signing secret. The new secret is only returned here, payloads
+// signed with the old one stop being sent right away.
+router.post('/:id/secret', authenticate, async (req: Request, res: Response): Promise<void> => {
+  try {
+    const webhook = await findWebhook(req, res);
+    if (!webhook) return;
+
+    const secret = generateWebhookSecret();
+    await prisma.webhook.update({
+      where: { id: webhook.id },
+      data: { secret }
+    });
+
+    res.json({
+      success: true,
+      message: 'Webhook secret rotated',
+      data: { secret }
+    });
+  } catch (error) {
+    console.error('Rotate webhook secret error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to rotate webhook secret'
+    });
+  }
+});
+
+// Delete a webhook and its delivery log
+router.delete('/:id', authenticate, async (req: Request, res: Response): Promise<void> => {
+  try {
+    const webhook = await findWebhook(req, res);
+    if (!webhook) return;
+
+    await prisma.webhook.delete({
+      where: { id: webhook.id }
+    });
+
+    res.json({
+      success: true,
+      message: 'Webhook deleted'
+    });
+  } catch (error) {
+    console.error('Delete webhook error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to delete webhook'
+    });
+  }
+});
+
+// Get the delivery log of a webhook, newest first
+router.get('/:id/deliveries', authenticate, async (req: Request, res: Response): Promise<void> => {
+  try {
+    const webhook = await findWebhook(req, res);
+    if (!webhook) return;
+
+    const page = parseInt(req.query['page'] as string) || 1;
+    const limit = Math.min(parseInt(req.query['limit'] as string) || 20, 100);
+    const where = { webhookId: webhook.id };
+
+    const [deliveries, total] = await Promise.all([
+      prisma.webhookDelivery.findMany({
+        where,
+        orderBy: { createdAt: 'desc' },
+        skip: (page - 1) * limit,
+        take: limit
+      }),
+      prisma.webhookDelivery.count({ where })
+    ]);
+
+    res.json({
+      success: true,
+      data: {
+        deliveries,
+        pagination: {
+          page,
+          limit,
+          total,
+          pages: Math.ceil(total / limit)
+        }
+      }
+    });
+  } catch (error) {
+    console.error('Get webhook deliveries error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to fetch deliveries'
+    });
+  }
+});
+
+// Send a logged delivery again
+router.post('/:id/deliveries/:deliveryId/replay', authenticate, async (req: Request, res: Response): Promise<void> => {
+  try {
+    const webhook = await findWebhook(req, res);
+    if (!webhook) return;
+
+    const delivery = await prisma.webhookDelivery.findFirst({
+      where: { id: req.params['deliveryId'], webhookId: webhook.id }
+    });
+
+    if (!delivery) {
+      res.status(404).json({
+        success: false,
+        error: 'Delivery not found'
+      });
+      return;
+    }
+
+    const replayed = await replayDelivery(webhook, delivery);
+
+    res.json({
+      success: true,
+      message: 'Delivery replayed',
+      data: { delivery: replayed }
+    });
+  } catch (error) {
+    console.error('Replay webhook delivery error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to replay delivery'
+    });
+  }
+});
+
+// Send a "ping" event to check the endpoint
+router.post('/:id/test', authenticate, async (req: Request, res: Response): Promise<void> => {
+  try {
+    const webhook = await findWebhook(req, res);
+    if (!webhook) return;
+
+    const delivery = await sendTestEvent(webhook);
+
+    res.json({
+      success: true,
+      message: delivery.status === 'SUCCEEDED' ? 'Test event delivered' : 'Test event failed',
+      data: { delivery }
+    });
+  } catch (error) {
+    console.error('Test webhook error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to send test event'
+    });
+  }
+});
+
+export default router;
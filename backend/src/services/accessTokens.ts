@@ -0,0 +1,135 @@
+// Personal access tokens for scripts and integrations
+// Tokens are opaque secrets with a recognizable prefix so `authenticate` can tell
+// them apart from session JWTs. Each one is limited to a set of scopes; a token
+// can only reach the routers listed in TOKEN_RESOURCES.
+import crypto from 'crypto';
+import { Request } from 'express';
+import prisma from '../utils/prisma';
+
+export const ACCESS_TOKEN_PREFIX = 'tdp_';
+
+export const ACCESS_TOKEN_SCOPES = [
+  'todos:read',
+  'todos:write',
+  'categories:read',
+  'categories:write'
+] as const;
+
+export type AccessTokenScope = typeof ACCESS_TOKEN_SCOPES[number];
+
+// Mount paths (see index.ts) that accept personal access tokens, and the scope
+// resource guarding them. Every other API rejects them.
+const TOKEN_RESOURCES: Record<string, string> = {
+  '/api/todos': 'todos',
+  '/api/categories': 'categories'
+};
+
+const READ_METHODS = ['GET', 'HEAD', 'OPTIONS'];
+
+// Don't write to the database on every request of a busy script
+const LAST_USED_RESOLUTION_MS = 60 * 1000;
+
+const hashToken = (token: string) => crypto.createHash('sha256').update(token).digest('hex');
+
+const publicFields = {
+  id: true,
+  name: true,
+  tokenPrefix: true,
+  scopes: true,
+  expiresAt: true,
+  lastUsedAt: true,
+  createdAt: true
+};
+
+const toPublicToken = <T extends { scopes: string }>(token: T) => ({
+  ...token,
+  scopes: token.scopes.split(',').filter(Boolean)
+});
+
+export const isPersonalAccessToken = (token: string) => token.startsWith(ACCESS_TOKEN_PREFIX);
+
+// Create a token, returning the plain secret once alongside its details
+export const createAccessToken = async (
+  userId: string,
+  data: { name: string; scopes: AccessTokenScope[]; expiresAt: Date | null }
+) => {
+  const token = ACCESS_TOKEN_PREFIX + crypto.randomBytes(32).toString('base64url');
+
+  const accessToken = await prisma.personalAccessToken.create({
+    data: {
+      userId,
+      name: data.name,
+      tokenHash: hashToken(token),
+      tokenPrefix: token.slice(0, ACCESS_TOKEN_PREFIX.length + 6),
+      scopes: Array.from(new Set(data.scopes)).join(','),
+      expiresAt: data.expiresAt
+    },
+    select: publicFields
+  });
+
+  return { token, accessToken: toPublicToken(accessToken) };
+};
+
+// Tokens of a user that have not been revoked, newest first. Expired tokens are
+// included so the user can see why a script stopped working.
+export const listAccessTokens = async (userId: string) => {
+  const tokens = await prisma.personalAccessToken.findMany({
+    where: { userId, revokedAt: null },
+    select: publicFields,
+    orderBy: { createdAt: 'desc' }
+  });
+
+  return tokens.map(toPublicToken);
+};
+
+export const revokeAccessToken = (userId: string, id: string) => {
+  return prisma.personalAccessToken.updateMany({
+    where: { id, userId, revokedAt: null },
+    data: { revokedAt: new Date() }
+  });
+};
+
+// Look up a token and its user, recording when it was last used.
+// Returns null for unknown, revoked or expired tokens.
+export const verifyPersonalAccessToken = async (token: string) => {
+  const accessToken = await prisma.personalAccessToken.findUnique({
+    where: { tokenHash: hashToken(token) },
+    include: {
+      user: {
+        select: { id: true, email: true, name: true }
+      }
+    }
+  });
+
+  const now = new Date();
+  if (!accessToken || accessToken.revokedAt || (accessToken.expiresAt && accessToken.expiresAt < now)) {
+    return null;
+  }
+
+  if (!accessToken.lastUsedAt || now.getTime() - accessToken.lastUsedAt.getTime() > LAST_USED_RESOLUTION_MS) {
+    await prisma.personalAccessToken.update({
+      where: { id: accessToken.id },
+      data: { lastUsedAt: now }
+    });
+  }
+
+  return {
+    user: accessToken.user,
+    scopes: accessToken.scopes.split(',').filter(Boolean)
+  };
+};
+
+// Scope a request needs: `<resource>:read` for safe methods, `<resource>:write`
+// otherwise. Null when the endpoint is not available to access tokens at all.
+export const getRequiredScope = (req: Request): string | null => {
+  const resource = TOKEN_RESOURCES[req.baseUrl];
+  if (!resource) return null;
+
+  return `${resource}:${READ_METHODS.includes(req.method) ? 'read' : 'write'}`;
+};
+
+// A write scope also grants reading the same resource
+export const hasScope = (scopes: string[], required: string) => {
+  const [resource, access] = required.split(':');
+  return scopes.includes(required) || (access === 'read' && scopes.includes(`${resource}:write`));
+};
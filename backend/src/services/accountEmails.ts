@@ -0,0 +1,36 @@
+// Account emails: password reset and email verification links
+// Links point at the frontend (APP_URL), which calls the API with the token.
+import { sendMail } from './mailer';
+import { issueUserToken, USER_TOKEN_TYPES } from './userTokens';
+
+const getAppUrl = () => (process.env['APP_URL'] || 'http://localhost:3000').replace(/\/$/, '');
+
+const escapeHtml = (value: string) => value
+  .replace(/&/g, '&amp;')
+  .replace(/</g, '&lt;')
+  .replace(/>/g, '&gt;')
+  .replace(/"/g, '&quot;');
+
+export const sendPasswordResetEmail = async (user: { id: string; email: string; name: string }) => {
+  const token = await issueUserToken(user.id, USER_TOKEN_TYPES.PASSWORD_RESET);
+  const link = `${getAppUrl()}/reset-password?token=${token}`;
+
+  await sendMail({
+    to: user.email,
+    subject: 'Reset your password',
+    text: `Hi ${user.name},\n\nUse the link below to choose a new password. It expires in one hour.\n\n${link}\n\nIf you did not ask for a password reset you can ignore this email.`,
+    html: `<p>Hi ${escapeHtml(user.name)},</p><p>Use the link below to choose a new password. It expires in one hour.</p><p><a href="${link}">Reset password</a></p><p>If you did not ask for a password reset you can ignore this email.</p>`
+  });
+};
+
+export const sendVerificationEmail = async (user: { id: string; email: string; name: string }) => {
+  const token = await issueUserToken(user.id, USER_TOKEN_TYPES.EMAIL_VERIFICATION);
+  const link = `${getAppUrl()}/verify-email?token=${token}`;
+
+  await sendMail({
+    to: user.email,
+    subject: 'Verify your email address',
+    text: `Hi ${user.name},\n\nPlease confirm your email address by opening the link below. It expires in 24 hours.\n\n${link}`,
+    html: `<p>Hi ${escapeHtml(user.name)},</p><p>Please confirm your email address by opening the link below. It expires in 24 hours.</p><p><a href="${link}">Verify email</a></p>`
+  });
+};
@@ -0,0 +1,101 @@
+import { getCompletedSeries } from './analytics';
+
+interface Row {
+  id: string;
+  userId: string;
+  team: { members: { userId: string }[] } | null;
+  categories: { categoryId: string }[];
+  status: string;
+  deletedAt: Date | null;
+  createdAt: Date;
+  updatedAt: Date;
+  completedAt: Date | null;
+}
+
+// An in-memory todo table that understands the subset of Prisma filters used
+// by the analytics queries
+let table: Row[] = [];
+
+type Where = Record<string, unknown>;
+
+const time = (value: unknown) => (value instanceof Date ? value.getTime() : value);
+
+const matchesValue = (value: unknown, condition: unknown): boolean => {
+  if (condition === null || condition instanceof Date || typeof condition !== 'object') {
+    return time(value) === time(condition);
+  }
+  if (Array.isArray(value)) {
+    return value.some(item => matches(item, (condition as Where).some as Where));
+  }
+  if (value instanceof Date || value === null) {
+    return Object.entries(condition).every(([operator, operand]) => {
+      if (value === null) return false;
+      if (operator === 'gte') return value >= (operand as Date);
+      if (operator === 'lt') return value < (operand as Date);
+      return false;
+    });
+  }
+  return matches(value as Where, condition as Where);
+};
+
+const matches = (row: Where, where: Where): boolean => Object.entries(where).every(([key, condition]) => {
+  if (key === 'AND') return (condition as Where[]).every(part => matches(row, part));
+  if (key === 'OR') return (condition as Where[]).some(part => matches(row, part));
+  return matchesValue(row[key], condition);
+});
+
+jest.mock('../utils/prisma', () => ({
+  __esModule: true,
+  default: {
+    todo: {
+      findMany: async ({ where }: { where: Where }) =>
+        table.filter(row => matches(row as unknown as Where, where))
+    }
+  }
+}));
+
+const day = (value: number, hour = 12) => new Date(2024, 4, value, hour);
+
+const todo = (id: string, fields: Partial<Row> = {}): Row => ({
+  id,
+  userId: 'user-1',
+  team: null,
+  categories: [],
+  status: 'COMPLETED',
+  deletedAt: null,
+  createdAt: day(1),
+  updatedAt: day(10),
+  completedAt: day(10),
+  ...fields
+});
+
+const range = { from: day(9, 0), to: day(11, 0) };
+
+beforeEach(() => {
+  table = [
+    todo('own'),
+    todo('legacy', { completedAt: null, updatedAt: day(11) }),
+    todo('team', { userId: 'user-3', team: { members: [{ userId: 'user-1' }] } }),
+    todo('other-user', { userId: 'user-2' }),
+    todo('other-team', { userId: 'user-2', team: { members: [{ userId: 'user-2' }] } }),
+    todo('deleted', { deletedAt: day(10) }),
+    todo('open', { status: 'TODO', completedAt: null }),
+    todo('outside', { completedAt: day(20) })
+  ];
+});
+
+describe('getCompletedSeries', () => {
+  it('counts only the completions of todos the user can access', async () => {
+    expect(await getCompletedSeries({ userId: 'user-1' }, range, 'day')).toEqual([
+      { date: '2024-05-09', count: 0 },
+      { date: '2024-05-10', count: 2 },
+      { date: '2024-05-11', count: 1 }
+    ]);
+  });
+
+  it('leaves out another user\'s completions within a category', async () => {
+    table.forEach(row => row.categories.push({ categoryId: 'work' }));
+    const series = await getCompletedSeries({ userId: 'user-2', categoryId: 'work' }, range, 'week');
+    expect(series).toEqual([{ date: '2024-05-06', count: 2 }]);
+  });
+});
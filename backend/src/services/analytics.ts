@@ -0,0 +1,272 @@
+// Todo analytics
+// Time series and aggregates over the todos a user can access. Days are in
+// server local time and weeks start on Monday. Todos completed before
+// `completedAt` was recorded count as completed at their last update.
+import { Prisma } from '@prisma/client';
+import prisma from '../utils/prisma';
+import { accessibleTodoWhere } from './teamAccess';
+
+export const ANALYTICS_INTERVALS = ['day', 'week'] as const;
+
+export type AnalyticsInterval = (typeof ANALYTICS_INTERVALS)[number];
+
+// Longest range a series can cover, and the default of the last 30 days
+export const MAX_ANALYTICS_DAYS = 366;
+const DEFAULT_RANGE_DAYS = 30;
+
+const PRIORITIES = ['LOW', 'MEDIUM', 'HIGH', 'URGENT'];
+
+const HOUR_MS = 60 * 60 * 1000;
+
+// Whole days from `from` to `to`, both included
+export interface AnalyticsRange {
+  from: Date;
+  to: Date;
+}
+
+interface AnalyticsScope {
+  userId: string;
+  categoryId?: string;
+}
+
+interface TimedTodo {
+  status: string;
+  createdAt: Date;
+  updatedAt: Date;
+  completedAt: Date | null;
+}
+
+const startOfDay = (date: Date) => new Date(date.getFullYear(), date.getMonth(), date.getDate());
+
+const addDays = (date: Date, days: number) => new Date(date.getFullYear(), date.getMonth(), date.getDate() + days);
+
+const startOfWeek = (date: Date) => addDays(startOfDay(date), -((date.getDay() + 6) % 7));
+
+const dateKey = (date: Date) =>
+  `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+
+// The days of a range, in order
+const eachDay = (range: AnalyticsRange): Date[] => {
+  const days: Date[] = [];
+  for (let day = startOfDay(range.from); day <= range.to; day = addDays(day, 1)) {
+    days.push(day);
+  }
+  return days;
+};
+
+// Parse the `from` and `to` dates (YYYY-MM-DD) of a request. Returns an error
+// message for invalid dates and ranges that are reversed or too long.
+export const parseAnalyticsRange = (
+  from: string | undefined,
+  to: string | undefined
+): { range: AnalyticsRange | null; error: string | null } => {
+  const parseDay = (value: string) => {
+    const match = /^(\d{4})-(\d{2})-(\d{2})$/.exec(value);
+    if (!match) return null;
+    const day = new Date(parseInt(match[1]), parseInt(match[2]) - 1, parseInt(match[3]));
+    return day.getMonth() === parseInt(match[2]) - 1 ? day : null;
+  };
+
+  const toDay = to ? parseDay(to) : startOfDay(new Date());
+  if (!toDay) return { range: null, error: `Invalid to date "${to}", use YYYY-MM-DD` };
+
+  const fromDay = from ? parseDay(from) : addDays(toDay, -(DEFAULT_RANGE_DAYS - 1));
+  if (!fromDay) return { range: null, error: `Invalid from date "${from}", use YYYY-MM-DD` };
+
+  if (fromDay > toDay) {
+    return { range: null, error: 'The from date must not be after the to date' };
+  }
+  if (eachDay({ from: fromDay, to: toDay }).length > MAX_ANALYTICS_DAYS) {
+    return { range: null, error: `Ranges cover at most ${MAX_ANALYTICS_DAYS} days` };
+  }
+
+  return { range: { from: fromDay, to: toDay }, error: null };
+};
+
+const todoWhere = (scope: AnalyticsScope): Prisma.TodoWhereInput => ({
+  deletedAt: null,
+  ...accessibleTodoWhere(scope.userId),
+  ...(scope.categoryId && { categories: { some: { categoryId: scope.categoryId } } })
+});
+
+const completedAtOf = (todo: TimedTodo): Date | null =>
+  todo.completedAt || (todo.status === 'COMPLETED' ? todo.updatedAt : null);
+
+// Todos completed in a range, falling back to the last update for older todos.
+// Its OR has to be combined with AND, spreading it would replace the access OR.
+const completedInRange = (range: AnalyticsRange): Prisma.TodoWhereInput => {
+  const window = { gte: startOfDay(range.from), lt: addDays(range.to, 1) };
+  return {
+    status: 'COMPLETED',
+    OR: [
+      { completedAt: window },
+      { completedAt: null, updatedAt: window }
+    ]
+  };
+};
+
+// Number of todos completed per day or week
+export const getCompletedSeries = async (
+  scope: AnalyticsScope,
+  range: AnalyticsRange,
+  interval: AnalyticsInterval
+) => {
+  const todos = await prisma.todo.findMany({
+    where: { AND: [todoWhere(scope), completedInRange(range)] },
+    select: { status: true, createdAt: true, updatedAt: true, completedAt: true }
+  });
+
+  const bucketOf = (date: Date) => dateKey(interval === 'week' ? startOfWeek(date) : startOfDay(date));
+  const counts = new Map<string, number>();
+  for (const day of eachDay(range)) {
+    counts.set(bucketOf(day), 0);
+  }
+  for (const todo of todos) {
+    const key = bucketOf(completedAtOf(todo)!);
+    counts.set(key, (counts.get(key) || 0) + 1);
+  }
+
+  return [...counts].map(([date, count]) => ({ date, count }));
+};
+
+const summarizeHours = (durations: number[]) => {
+  if (durations.length === 0) {
+    return { count: 0, averageHours: null, medianHours: null };
+  }
+  const sorted = [...durations].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  const median = sorted.length % 2 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2;
+  const round = (ms: number) => Math.round((ms / HOUR_MS) * 10) / 10;
+  return {
+    count: durations.length,
+    averageHours: round(durations.reduce((sum, ms) => sum + ms, 0) / durations.length),
+    medianHours: round(median)
+  };
+};
+
+// Lead time (created to completed) and cycle time (started to completed) of
+// the todos completed in a range. Only todos with recorded transitions count.
+export const getFlowTimes = async (scope: AnalyticsScope, range: AnalyticsRange) => {
+  const todos = await prisma.todo.findMany({
+    where: {
+      ...todoWhere(scope),
+      status: 'COMPLETED',
+      completedAt: { gte: startOfDay(range.from), lt: addDays(range.to, 1) }
+    },
+    select: { createdAt: true, startedAt: true, completedAt: true }
+  });
+
+  return {
+    leadTime: summarizeHours(todos.map(todo => todo.completedAt!.getTime() - todo.createdAt.getTime())),
+    cycleTime: summarizeHours(
+      todos
+        .filter(todo => todo.startedAt)
+        .map(todo => todo.completedAt!.getTime() - todo.startedAt!.getTime())
+    )
+  };
+};
+
+// Number of todos overdue at the end of each day. Cancelled todos are left out
+// as the moment they were cancelled isn't known.
+export const getOverdueSeries = async (scope: AnalyticsScope, range: AnalyticsRange) => {
+  const end = addDays(range.to, 1);
+  const todos = await prisma.todo.findMany({
+    where: {
+      ...todoWhere(scope),
+      status: { not: 'CANCELLED' },
+      dueDate: { lt: end },
+      createdAt: { lt: end }
+    },
+    select: { status: true, dueDate: true, createdAt: true, updatedAt: true, completedAt: true }
+  });
+
+  const now = new Date();
+  return eachDay(range).map(day => {
+    if (day > now) return { date: dateKey(day), count: null };
+    const endOfDay = addDays(day, 1) < now ? addDays(day, 1) : now;
+    const count = todos.filter(todo => {
+      const completedAt = completedAtOf(todo);
+      return todo.createdAt < endOfDay && todo.dueDate! < endOfDay && (!completedAt || completedAt >= endOfDay);
+    }).length;
+    return { date: dateKey(day), count };
+  });
+};
+
+// Current number of open and completed todos per category and per priority
+export const getBreakdown = async (scope: AnalyticsScope) => {
+  const todos = await prisma.todo.findMany({
+    where: { ...todoWhere(scope), status: { not: 'CANCELLED' } },
+    select: {
+      status: true,
+      priority: true,
+      categories: {
+        where: { category: { deletedAt: null } },
+        select: { category: { select: { id: true, name: true, color: true } } }
+      }
+    }
+  });
+
+  const byCategory = new Map<string, { id: string | null; name: string; color: string | null; open: number; completed: number }>();
+  const byPriority = new Map(PRIORITIES.map(priority => [priority, { priority, open: 0, completed: 0 }]));
+
+  for (const todo of todos) {
+    const key = todo.status === 'COMPLETED' ? 'completed' : 'open';
+
+    const priority = byPriority.get(todo.priority);
+    if (priority) priority[key]++;
+
+    const categories = todo.categories.length > 0
+      ? todo.categories.map(link => link.category)
+      : [{ id: null, name: 'Uncategorized', color: null }];
+    for (const category of categories) {
+      const id = category.id || '';
+      if (!byCategory.has(id)) {
+        byCategory.set(id, { ...category, open: 0, completed: 0 });
+      }
+      byCategory.get(id)![key]++;
+    }
+  }
+
+  return {
+    byCategory: [...byCategory.values()].sort((a, b) => b.open + b.completed - (a.open + a.completed)),
+    byPriority: [...byPriority.values()]
+  };
+};
+
+// Open todos left at the end of each day, next to an ideal line reaching zero
+// on the last day. The scope is the category when one is given, otherwise the
+// todos due within the range.
+export const getBurndown = async (scope: AnalyticsScope, range: AnalyticsRange) => {
+  const end = addDays(range.to, 1);
+  const todos = await prisma.todo.findMany({
+    where: {
+      ...todoWhere(scope),
+      status: { not: 'CANCELLED' },
+      createdAt: { lt: end },
+      ...(!scope.categoryId && { dueDate: { gte: startOfDay(range.from), lt: end } })
+    },
+    select: { status: true, createdAt: true, updatedAt: true, completedAt: true }
+  });
+
+  const now = new Date();
+  const days = eachDay(range);
+  const remainingAt = (moment: Date) =>
+    todos.filter(todo => {
+      const completedAt = completedAtOf(todo);
+      return todo.createdAt < moment && (!completedAt || completedAt >= moment);
+    }).length;
+
+  const start = remainingAt(addDays(days[0], 1));
+  return {
+    total: todos.length,
+    points: days.map((day, index) => {
+      const endOfDay = addDays(day, 1);
+      return {
+        date: dateKey(day),
+        // Days still to come have no actual value yet
+        remaining: day <= now ? remainingAt(endOfDay < now ? endOfDay : now) : null,
+        ideal: days.length > 1 ? Math.round((start * (1 - index / (days.length - 1))) * 10) / 10 : 0
+      };
+    })
+  };
+};
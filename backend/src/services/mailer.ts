@@ -0,0 +1,80 @@
+// Outgoing email
+// Messages go through a pluggable transport picked by MAIL_TRANSPORT:
+// `smtp` sends with nodemailer using the EMAIL_* settings, `file` writes each
+// message as JSON to MAIL_FILE_DIR and `console` logs it (the default when no
+// SMTP host is configured). Tests can swap the transport with setMailTransport.
+import fs from 'fs/promises';
+import path from 'path';
+import nodemailer from 'nodemailer';
+
+export interface MailMessage {
+  to: string;
+  subject: string;
+  text: string;
+  html?: string;
+}
+
+export interface MailTransport {
+  send(message: MailMessage & { from: string }): Promise<void>;
+}
+
+export const createSmtpTransport = (): MailTransport => {
+  const transporter = nodemailer.createTransport({
+    host: process.env['EMAIL_HOST'],
+    port: parseInt(process.env['EMAIL_PORT'] || '587'),
+    secure: process.env['EMAIL_SECURE'] === 'true',
+    auth: process.env['EMAIL_USER']
+      ? { user: process.env['EMAIL_USER'], pass: process.env['EMAIL_PASS'] }
+      : undefined
+  });
+
+  return {
+    send: async message => {
+      await transporter.sendMail(message);
+    }
+  };
+};
+
+export const createFileTransport = (dir: string): MailTransport => ({
+  send: async message => {
+    await fs.mkdir(dir, { recursive: true });
+    const fileName = `${Date.now()}-${message.to.replace(/[^a-z0-9@.-]/gi, '_')}.json`;
+    await fs.writeFile(
+      path.join(dir, fileName),
+      JSON.stringify({ ...message, date: new Date().toISOString() }, null, 2)
+    );
+  }
+});
+
+export const createConsoleTransport = (): MailTransport => ({
+  send: async message => {
+    console.log(`📧 Mail to ${message.to}: ${message.subject}\n${message.text}`);
+  }
+});
+
+const createDefaultTransport = (): MailTransport => {
+  const kind = process.env['MAIL_TRANSPORT'] || (process.env['EMAIL_HOST'] ? 'smtp' : 'console');
+
+  switch (kind) {
+    case 'smtp':
+      return createSmtpTransport();
+    case 'file':
+      return createFileTransport(process.env['MAIL_FILE_DIR'] || 'mail');
+    default:
+      return createConsoleTransport();
+  }
+};
+
+let transport: MailTransport | null = null;
+
+export const setMailTransport = (next: MailTransport | null): void => {
+  transport = next;
+};
+
+export const sendMail = async (message: MailMessage): Promise<void> => {
+  transport = transport || createDefaultTransport();
+  await transport.send({
+    from: process.env['EMAIL_FROM'] || 'noreply@todoapp.com',
+    ...message
+  });
+};
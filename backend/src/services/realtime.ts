@@ -0,0 +1,92 @@
+// Realtime updates over Socket.io
+// Sockets authenticate with the same JWT as the REST API and are placed in
+// their user room and the rooms of their teams. Change events are only ever
+// emitted by the server, after the REST handlers have persisted the change.
+import { Server as SocketIOServer, Socket } from 'socket.io';
+import { verifyAccessToken } from '../middleware/auth';
+import { getMembership, getTeamIds } from './teamAccess';
+
+export type TodoEvent = 'todo-created' | 'todo-updated' | 'todo-deleted' | 'comment-added';
+
+let io: SocketIOServer | null = null;
+
+const userRoom = (userId: string) => `user-${userId}`;
+const teamRoom = (teamId: string) => `team-${teamId}`;
+
+// Reject handshakes without a valid token for an existing user
+const authenticateSocket = async (socket: Socket, next: (error?: Error) => void) => {
+  try {
+    const token = socket.handshake.auth?.['token'];
+    const verified = typeof token === 'string' ? await verifyAccessToken(token) : null;
+
+    if (!verified) {
+      next(new Error('Authentication required'));
+      return;
+    }
+
+    socket.data.user = verified.user;
+    next();
+  } catch (error) {
+    next(new Error('Invalid token'));
+  }
+};
+
+const handleConnection = async (socket: Socket) => {
+  const userId: string = socket.data.user.id;
+
+  socket.join(userRoom(userId));
+  try {
+    const teamIds = await getTeamIds(userId);
+    socket.join(teamIds.map(teamRoom));
+  } catch (error) {
+    console.error('Socket team rooms error:', error);
+  }
+
+  // Rooms are joined on connect; this remains for clients that still ask explicitly.
+  // Requests for rooms of teams the user is not in are ignored.
+  socket.on('join-team-room', async (teamId: string) => {
+    try {
+      if (typeof teamId === 'string' && await getMembership(teamId, userId)) {
+        socket.join(teamRoom(teamId));
+      }
+    } catch (error) {
+      console.error('Join team room error:', error);
+    }
+  });
+
+  socket.on('leave-team-room', (teamId: string) => {
+    socket.leave(teamRoom(teamId));
+  });
+};
+
+export const initRealtime = (server: SocketIOServer): void => {
+  io = server;
+  server.use(authenticateSocket);
+  server.on('connection', handleConnection);
+};
+
+// Send a todo event to the creator of the todo and to its team
+export const emitTodoEvent = (
+  event: TodoEvent,
+  todo: { userId: string; teamId?: string | null },
+  payload: unknown
+): void => {
+  if (!io) return;
+
+  const rooms = [userRoom(todo.userId)];
+  if (todo.teamId) rooms.push(teamRoom(todo.teamId));
+  io.to(rooms).emit(event, payload);
+};
+
+// Keep the open sockets of a user in step with their team membership
+export const joinTeamRoom = (userId: string, teamId: string): void => {
+  io?.in(userRoom(userId)).socketsJoin(teamRoom(teamId));
+};
+
+export const leaveTeamRoom = (userId: string, teamId: string): void => {
+  io?.in(userRoom(userId)).socketsLeave(teamRoom(teamId));
+};
+
+export const closeTeamRoom = (teamId: string): void => {
+  io?.in(teamRoom(teamId)).socketsLeave(teamRoom(teamId));
+};
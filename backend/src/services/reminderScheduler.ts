@@ -0,0 +1,150 @@
+// Due-date reminder scheduler
+// Periodically scans open todos with a due date and creates persisted
+// notifications for the creator and assignees, pushing each one to their
+// socket room.
+import { Server as SocketIOServer } from 'socket.io';
+import prisma from '../utils/prisma';
+
+export const REMINDER_TYPES = {
+  BEFORE_DUE: 'REMINDER_BEFORE_DUE',
+  DUE: 'REMINDER_DUE',
+  OVERDUE: 'REMINDER_OVERDUE'
+} as const;
+
+const MINUTE_MS = 60 * 1000;
+
+const getConfig = () => ({
+  intervalMs: parseInt(process.env['REMINDER_INTERVAL_MS'] || '60000'),
+  leadMinutes: parseInt(process.env['REMINDER_LEAD_MINUTES'] || '60'),
+  overdueMinutes: parseInt(process.env['REMINDER_OVERDUE_MINUTES'] || '60'),
+  // How long after the overdue reminder was due a missed one is still sent,
+  // e.g. after the server was down
+  lookbackMinutes: parseInt(process.env['REMINDER_LOOKBACK_MINUTES'] || '1440')
+});
+
+let timer: NodeJS.Timeout | null = null;
+let running = false;
+
+// Decide which reminder (if any) a todo is due for right now
+const getReminderType = (dueDate: Date, now: Date, config: ReturnType<typeof getConfig>) => {
+  const diff = dueDate.getTime() - now.getTime();
+
+  if (diff > 0) {
+    return diff <= config.leadMinutes * MINUTE_MS ? REMINDER_TYPES.BEFORE_DUE : null;
+  }
+  if (-diff < config.overdueMinutes * MINUTE_MS) {
+    return REMINDER_TYPES.DUE;
+  }
+  return REMINDER_TYPES.OVERDUE;
+};
+
+const buildNotification = (type: string, todo: { title: string; dueDate: Date }) => {
+  switch (type) {
+    case REMINDER_TYPES.BEFORE_DUE:
+      return {
+        title: `"${todo.title}" is due soon`,
+        message: `Due at ${todo.dueDate.toISOString()}`
+      };
+    case REMINDER_TYPES.DUE:
+      return {
+        title: `"${todo.title}" is due now`,
+        message: `Due at ${todo.dueDate.toISOString()}`
+      };
+    default:
+      return {
+        title: `"${todo.title}" is overdue`,
+        message: `Was due at ${todo.dueDate.toISOString()}`
+      };
+  }
+};
+
+// Run a single scan, returns the number of notifications created
+export const runReminderScan = async (io?: SocketIOServer, now: Date = new Date()): Promise<number> => {
+  const config = getConfig();
+
+  const todos = await prisma.todo.findMany({
+    where: {
+      status: { notIn: ['COMPLETED', 'CANCELLED'] },
+      deletedAt: null,
+      // Todos overdue for longer than the lookback already had their reminder
+      dueDate: {
+        not: null,
+        gte: new Date(now.getTime() - (config.overdueMinutes + config.lookbackMinutes) * MINUTE_MS),
+        lte: new Date(now.getTime() + config.leadMinutes * MINUTE_MS)
+      }
+    },
+    select: {
+      id: true,
+      title: true,
+      dueDate: true,
+      userId: true,
+      assignees: { select: { userId: true } }
+    }
+  });
+
+  if (todos.length === 0) return 0;
+
+  // Reminders are sent once per todo, recipient, type and due date
+  const existing = await prisma.notification.findMany({
+    where: {
+      todoId: { in: todos.map(todo => todo.id) },
+      type: { in: Object.values(REMINDER_TYPES) }
+    },
+    select: { todoId: true, userId: true, type: true, scheduledFor: true }
+  });
+  const sent = new Set(
+    existing.map(n => `${n.todoId}:${n.userId}:${n.type}:${n.scheduledFor?.getTime()}`)
+  );
+
+  let created = 0;
+  for (const todo of todos) {
+    const dueDate = todo.dueDate!;
+    const type = getReminderType(dueDate, now, config);
+    if (!type) continue;
+
+    const recipients = new Set([todo.userId, ...todo.assignees.map(assignee => assignee.userId)]);
+    for (const userId of recipients) {
+      if (sent.has(`${todo.id}:${userId}:${type}:${dueDate.getTime()}`)) continue;
+
+      const notification = await prisma.notification.create({
+        data: {
+          type,
+          ...buildNotification(type, { title: todo.title, dueDate }),
+          scheduledFor: dueDate,
+          userId,
+          todoId: todo.id
+        }
+      });
+      created++;
+
+      io?.to(`user-${userId}`).emit('notification', notification);
+    }
+  }
+
+  return created;
+};
+
+export const startReminderScheduler = (io?: SocketIOServer): void => {
+  if (timer) return;
+
+  const { intervalMs } = getConfig();
+  timer = setInterval(async () => {
+    // Skip a tick rather than overlap with a slow scan
+    if (running) return;
+    running = true;
+    try {
+      await runReminderScan(io);
+    } catch (error) {
+      console.error('Reminder scan error:', error);
+    } finally {
+      running = false;
+    }
+  }, intervalMs);
+};
+
+export const stopReminderScheduler = (): void => {
+  if (timer) {
+    clearInterval(timer);
+    timer = null;
+  }
+};
@@ -0,0 +1,156 @@
+// Sessions, access tokens and rotating refresh tokens
+// Every login creates a session. The short-lived access token (JWT) carries the
+// session id, the refresh token is an opaque secret stored as a SHA-256 hash and
+// replaced on every refresh. The replaced token keeps working for a short grace
+// period so concurrent refreshes don't sign the user out; presenting it after that
+// means it was copied, and the whole session is revoked.
+import crypto from 'crypto';
+import jwt, { SignOptions } from 'jsonwebtoken';
+import { Request } from 'express';
+import prisma from '../utils/prisma';
+
+const DURATION_UNITS_MS: Record<string, number> = {
+  s: 1000,
+  m: 60 * 1000,
+  h: 60 * 60 * 1000,
+  d: 24 * 60 * 60 * 1000
+};
+
+// Parse durations such as "30d" or "15m" (plain numbers are seconds, like jsonwebtoken)
+const parseDuration = (value: string, fallbackMs: number): number => {
+  const match = /^(\d+)\s*([smhd])?$/.exec(value.trim());
+  if (!match) return fallbackMs;
+  return parseInt(match[1]) * DURATION_UNITS_MS[match[2] || 's'];
+};
+
+const getConfig = () => ({
+  accessExpiresIn: process.env['JWT_EXPIRES_IN'] || '15m',
+  refreshTtlMs: parseDuration(process.env['JWT_REFRESH_EXPIRES_IN'] || '30d', 30 * DURATION_UNITS_MS['d']),
+  refreshGraceMs: parseDuration(process.env['JWT_REFRESH_GRACE_PERIOD'] || '30s', 30 * DURATION_UNITS_MS['s'])
+});
+
+const hashToken = (token: string) => crypto.createHash('sha256').update(token).digest('hex');
+
+const generateRefreshToken = () => crypto.randomBytes(48).toString('base64url');
+
+const signAccessToken = (userId: string, sessionId: string) => {
+  const jwtSecret = process.env['JWT_SECRET'];
+  if (!jwtSecret) {
+    throw new Error('JWT_SECRET not configured');
+  }
+
+  return jwt.sign(
+    { userId, sessionId },
+    jwtSecret,
+    { expiresIn: getConfig().accessExpiresIn } as SignOptions
+  );
+};
+
+// Start a session for a user who just proved their identity
+export const createSession = async (userId: string, req: Request) => {
+  const refreshToken = generateRefreshToken();
+
+  const session = await prisma.session.create({
+    data: {
+      userId,
+      refreshTokenHash: hashToken(refreshToken),
+      userAgent: req.get('user-agent')?.slice(0, 500) || null,
+      ipAddress: req.ip || null,
+      expiresAt: new Date(Date.now() + getConfig().refreshTtlMs)
+    }
+  });
+
+  return {
+    token: signAccessToken(userId, session.id),
+    refreshToken
+  };
+};
+
+// Exchange a refresh token for a new token pair.
+// Returns null when the token is unknown, revoked or expired, and revokes the
+// session when a rotated token is used again after the grace period.
+export const rotateSession = async (refreshToken: string, req: Request, attempt = 1): Promise<{ token: string; refreshToken: string } | null> => {
+  const tokenHash = hashToken(refreshToken);
+  const session = await prisma.session.findFirst({
+    where: { OR: [{ refreshTokenHash: tokenHash }, { previousTokenHash: tokenHash }] }
+  });
+
+  if (!session || session.revokedAt || session.expiresAt < new Date()) {
+    return null;
+  }
+
+  const { refreshTtlMs, refreshGraceMs } = getConfig();
+  if (session.refreshTokenHash !== tokenHash) {
+    const inGracePeriod = !!session.rotatedAt && Date.now() - session.rotatedAt.getTime() <= refreshGraceMs;
+    if (!inGracePeriod) {
+      await prisma.session.update({
+        where: { id: session.id },
+        data: { revokedAt: new Date() }
+      });
+      return null;
+    }
+  }
+
+  const nextRefreshToken = generateRefreshToken();
+
+  // Only replace the token this request read, a concurrent refresh may have won
+  const { count } = await prisma.session.updateMany({
+    where: { id: session.id, refreshTokenHash: session.refreshTokenHash },
+    data: {
+      refreshTokenHash: hashToken(nextRefreshToken),
+      previousTokenHash: session.refreshTokenHash,
+      rotatedAt: new Date(),
+      lastUsedAt: new Date(),
+      ipAddress: req.ip || session.ipAddress,
+      expiresAt: new Date(Date.now() + refreshTtlMs)
+    }
+  });
+
+  if (count === 0) {
+    return attempt < 3 ? rotateSession(refreshToken, req, attempt + 1) : null;
+  }
+
+  return {
+    token: signAccessToken(session.userId, session.id),
+    refreshToken: nextRefreshToken
+  };
+};
+
+// Whether access tokens issued for this session are still accepted
+export const isSessionActive = async (sessionId: string, userId: string) => {
+  const session = await prisma.session.findUnique({
+    where: { id: sessionId },
+    select: { userId: true, revokedAt: true, expiresAt: true }
+  });
+
+  return !!session && session.userId === userId && !session.revokedAt && session.expiresAt > new Date();
+};
+
+// Active sessions of a user, most recently used first
+export const listSessions = (userId: string) => {
+  return prisma.session.findMany({
+    where: { userId, revokedAt: null, expiresAt: { gt: new Date() } },
+    select: {
+      id: true,
+      userAgent: true,
+      ipAddress: true,
+      createdAt: true,
+      lastUsedAt: true,
+      expiresAt: true
+    },
+    orderBy: { lastUsedAt: 'desc' }
+  });
+};
+
+// Revoke sessions of a user, all of them or all but `exceptSessionId`
+export const revokeSessions = (userId: string, options: { id?: string; exceptSessionId?: string } = {}) => {
+  return prisma.session.updateMany({
+    where: {
+      userId,
+      revokedAt: null,
+      ...(options.id && { id: options.id }),
+      ...(options.exceptSessionId && { id: { not: options.exceptSessionId } })
+    },
+    data: { revokedAt: new Date() }
+  });
+};
@@ -0,0 +1,116 @@
+// Team roles, membership and todo permission checks
+// Roles form a hierarchy OWNER > ADMIN > MEMBER: a member can only manage
+// members and invitations ranked strictly below their own role.
+import { Prisma, PrismaClient } from '@prisma/client';
+import prisma from '../utils/prisma';
+
+type Db = PrismaClient | Prisma.TransactionClient;
+
+export const TEAM_ROLES = ['OWNER', 'ADMIN', 'MEMBER'] as const;
+
+export type TeamRole = (typeof TEAM_ROLES)[number];
+
+const ROLE_RANK: Record<string, number> = {
+  OWNER: 3,
+  ADMIN: 2,
+  MEMBER: 1
+};
+
+// Whether `role` is at least `required`
+export const hasTeamRole = (role: string | null | undefined, required: TeamRole) => {
+  return !!role && (ROLE_RANK[role] || 0) >= ROLE_RANK[required];
+};
+
+// Whether a member with `actorRole` may manage someone holding `targetRole`
+export const outranks = (actorRole: string, targetRole: string) => {
+  return (ROLE_RANK[actorRole] || 0) > (ROLE_RANK[targetRole] || 0);
+};
+
+// Membership of a user in a team, or null when they don't belong to it
+export const getMembership = (teamId: string, userId: string, db: Db = prisma) => {
+  return db.teamMember.findUnique({
+    where: { teamId_userId: { teamId, userId } }
+  });
+};
+
+// Ids of every team the user belongs to
+export const getTeamIds = async (userId: string, db: Db = prisma) => {
+  const memberships = await db.teamMember.findMany({
+    where: { userId },
+    select: { teamId: true }
+  });
+  return memberships.map(membership => membership.teamId);
+};
+
+// Todos a user can see: their own and every todo of their teams
+export const accessibleTodoWhere = (userId: string) => ({
+  OR: [
+    { userId },
+    { team: { members: { some: { userId } } } }
+  ]
+});
+
+// Todos a user can edit, the query form of canEditTodo
+export const editableTodoWhere = (userId: string): Prisma.TodoWhereInput => ({
+  OR: [
+    { userId },
+    { team: { members: { some: { userId, role: { in: ['OWNER', 'ADMIN'] } } } } },
+    { team: { members: { some: { userId } } }, assignees: { some: { userId } } }
+  ]
+});
+
+// Todos a user can delete, the query form of canDeleteTodo
+export const deletableTodoWhere = (userId: string): Prisma.TodoWhereInput => ({
+  OR: [
+    { userId },
+    { team: { members: { some: { userId, role: { in: ['OWNER', 'ADMIN'] } } } } }
+  ]
+});
+
+// Team todos can be edited by their creator, their assignees and team admins
+export const canEditTodo = async (
+  todo: { userId: string; teamId: string | null; id: string },
+  userId: string,
+  db: Db = prisma
+) => {
+  if (todo.userId === userId) return true;
+  if (!todo.teamId) return false;
+
+  const membership = await getMembership(todo.teamId, userId, db);
+  if (!membership) return false;
+  if (hasTeamRole(membership.role, 'ADMIN')) return true;
+
+  const assignee = await db.todoAssignee.findUnique({
+    where: { todoId_userId: { todoId: todo.id, userId } }
+  });
+  return !!assignee;
+};
+
+// Only the creator and team admins can delete a team todo
+export const canDeleteTodo = async (
+  todo: { userId: string; teamId: string | null },
+  userId: string,
+  db: Db = prisma
+) => {
+  if (todo.userId === userId) return true;
+  if (!todo.teamId) return false;
+
+  const membership = await getMembership(todo.teamId, userId, db);
+  return hasTeamRole(membership?.role, 'ADMIN');
+};
+
+// Validate assignees for a todo: they must all belong to its team.
+// Returns an error message or null.
+export const validateAssignees = async (
+  teamId: string | null,
+  assigneeIds: string[],
+  db: Db = prisma
+): Promise<string | null> => {
+  if (assigneeIds.length === 0) return null;
+  if (!teamId) return 'Only team todos can have assignees';
+
+  const count = await db.teamMember.count({
+    where: { teamId, userId: { in: assigneeIds } }
+  });
+  return count === new Set(assigneeIds).size ? null : 'Assignees must be members of the team';
+};
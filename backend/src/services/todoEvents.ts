@@ -0,0 +1,121 @@
+// Todo payloads shared by the API, sockets and webhooks
+// Holds the relations loaded for a todo, the shape it is sent in and
+// publishTodos, which pushes changed todos to clients and webhooks.
+import { parseRecurrenceRule, getNextOccurrence } from '../utils/recurrence';
+import prisma from '../utils/prisma';
+import { emitTodoEvent } from './realtime';
+import { emitWebhookEvent } from './webhooks';
+
+// Due date of the occurrence following this one, if the todo repeats
+const getNextDueDate = (todo: any): Date | null => {
+  const recurrence = parseRecurrenceRule(todo.recurrenceRule);
+  if (!recurrence || !todo.dueDate) return null;
+
+  return getNextOccurrence(recurrence, new Date(todo.dueDate), todo.recurrenceIndex);
+};
+
+// Include for the "blocked by" / "blocking" relations of a todo
+export const dependencyInclude = {
+  dependencies: {
+    where: {
+      dependsOn: { deletedAt: null }
+    },
+    include: {
+      dependsOn: {
+        select: { id: true, title: true, status: true }
+      }
+    }
+  },
+  dependents: {
+    where: {
+      todo: { deletedAt: null }
+    },
+    include: {
+      todo: {
+        select: { id: true, title: true, status: true }
+      }
+    }
+  }
+};
+
+// Include for the team a todo is shared with and its assignees
+export const sharingInclude = {
+  team: {
+    select: { id: true, name: true }
+  },
+  assignees: {
+    include: {
+      user: {
+        select: { id: true, name: true, email: true, avatar: true }
+      }
+    }
+  }
+};
+
+// Shape a todo for API responses
+export const formatTodo = ({ dependencies, dependents, assignees, ...todo }: any) => ({
+  ...todo,
+  assignees: assignees ? assignees.map((assignee: any) => assignee.user) : [],
+  categories: todo.categories
+    ? todo.categories.filter((tc: any) => !tc.category.deletedAt).map((tc: any) => tc.category)
+    : [],
+  blockedBy: dependencies ? dependencies.map((dep: any) => dep.dependsOn) : [],
+  blocking: dependents ? dependents.map((dep: any) => dep.todo) : [],
+  ...(todo.subtasks && {
+    completedSubtasks: todo.subtasks.filter((subtask: any) => subtask.completed).length,
+    totalSubtasks: todo.subtasks.length
+  }),
+  recurrence: parseRecurrenceRule(todo.recurrenceRule),
+  nextDueDate: getNextDueDate(todo)
+});
+
+// Subtasks in checklist order
+export const subtaskInclude = {
+  orderBy: { order: 'asc' as const }
+};
+
+// Relations loaded for todo lists and for todos pushed over sockets
+export const listInclude = {
+  categories: {
+    include: {
+      category: true
+    }
+  },
+  subtasks: subtaskInclude,
+  comments: {
+    include: {
+      user: {
+        select: {
+          id: true,
+          name: true,
+          avatar: true
+        }
+      }
+    }
+  },
+  ...dependencyInclude,
+  ...sharingInclude
+};
+
+// Reload todos after a change and push them to their creator and team rooms
+// and webhooks. `completedIds` are the todos this change marked as completed.
+// Errors are logged rather than thrown, callers have already saved the change
+// and still answer the request.
+export const publishTodos = async (event: 'todo-created' | 'todo-updated', ids: string[], completedIds: string[] = []) => {
+  try {
+    const todos = await prisma.todo.findMany({
+      where: { id: { in: ids }, deletedAt: null },
+      include: listInclude
+    });
+    for (const todo of todos) {
+      const payload = formatTodo(todo);
+      emitTodoEvent(event, todo, payload);
+      await emitWebhookEvent(event === 'todo-created' ? 'todo.created' : 'todo.updated', todo, payload);
+      if (completedIds.includes(todo.id)) {
+        await emitWebhookEvent('todo.completed', todo, payload);
+      }
+    }
+  } catch (error) {
+    console.error('Publish todos error:', error);
+  }
+};
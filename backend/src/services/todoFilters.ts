@@ -0,0 +1,120 @@
+// Todo list filters
+// Turns the list parameters of GET /api/todos into a Prisma where clause. Shared
+// by the list, the export and the counts of saved filters.
+import { Prisma } from '@prisma/client';
+import prisma from '../utils/prisma';
+import { accessibleTodoWhere } from './teamAccess';
+import { parseTodoQuery } from '../utils/todoQuery';
+
+// Views of the todo list, `all` covers personal and team todos
+export const TODO_VIEWS = ['all', 'personal', 'assigned', 'team'];
+
+export interface TodoListParams {
+  view?: string;
+  teamId?: string;
+  status?: string;
+  priority?: string;
+  search?: string;
+  category?: string;
+  // Query language, see utils/todoQuery.ts
+  q?: string;
+  // Due date window, from inclusive and to exclusive, as ISO dates
+  dueFrom?: string;
+  dueTo?: string;
+}
+
+// Where clause for the todos of `userId` matching the parameters.
+// Returns an error message when the `q` query or a due date is invalid.
+export const buildTodoWhere = async (
+  userId: string,
+  params: TodoListParams
+): Promise<{ where: Prisma.TodoWhereInput | null; error: string | null }> => {
+  const conditions: Prisma.TodoWhereInput[] = [accessibleTodoWhere(userId)];
+  const where: Prisma.TodoWhereInput = {
+    deletedAt: null,
+    AND: conditions
+  };
+
+  // Filter by view
+  switch (params.view) {
+    case 'personal':
+      where.userId = userId;
+      where.teamId = null;
+      break;
+    case 'assigned':
+      where.assignees = { some: { userId } };
+      break;
+    case 'team':
+      where.teamId = { not: null };
+      break;
+  }
+
+  // Filter by team
+  if (params.teamId) {
+    where.teamId = params.teamId;
+  }
+
+  // Filter by status
+  if (params.status) {
+    where.status = params.status;
+  }
+
+  // Filter by priority
+  if (params.priority) {
+    where.priority = params.priority;
+  }
+
+  // Search in title and description (SQLite matches ASCII letters in any case)
+  if (params.search) {
+    conditions.push({
+      OR: [
+        { title: { contains: params.search } },
+        { description: { contains: params.search } }
+      ]
+    });
+  }
+
+  // Filter by category
+  if (params.category) {
+    where.categories = {
+      some: {
+        category: {
+          name: { contains: params.category }
+        }
+      }
+    };
+  }
+
+  // Filter by due date window
+  if (params.dueFrom || params.dueTo) {
+    const dueDate: Prisma.DateTimeNullableFilter = {};
+    for (const [param, operator] of [['dueFrom', 'gte'], ['dueTo', 'lt']] as const) {
+      const value = params[param];
+      if (!value) continue;
+      const date = new Date(value);
+      if (isNaN(date.getTime())) {
+        return { where: null, error: `Invalid ${param} date "${value}"` };
+      }
+      dueDate[operator] = date;
+    }
+    conditions.push({ dueDate });
+  }
+
+  // Query language
+  if (params.q) {
+    const categories = await prisma.category.findMany({
+      where: { userId, deletedAt: null },
+      select: { name: true }
+    });
+    const parsed = parseTodoQuery(params.q, {
+      userId,
+      categoryNames: categories.map(category => category.name)
+    });
+    if (parsed.error !== null) {
+      return { where: null, error: parsed.error };
+    }
+    conditions.push(parsed.where);
+  }
+
+  return { where, error: null };
+};
@@ -0,0 +1,229 @@
+// Todo change history
+// Every change to a todo is stored as a revision holding field-level diffs
+// and a snapshot of the resulting state, so any revision can be restored.
+import { Prisma, PrismaClient } from '@prisma/client';
+import prisma from '../utils/prisma';
+import { statusTimestamps } from '../utils/todoStatus';
+import { sortRanks } from './todoSort';
+
+type Db = PrismaClient | Prisma.TransactionClient;
+
+export const HISTORY_ACTIONS = {
+  CREATED: 'CREATED',
+  UPDATED: 'UPDATED',
+  DELETED: 'DELETED',
+  RESTORED: 'RESTORED',
+  REVERTED: 'REVERTED'
+} as const;
+
+export interface TodoSnapshot {
+  title: string;
+  description: string | null;
+  priority: string;
+  status: string;
+  dueDate: string | null;
+  recurrenceRule: string | null;
+  deleted: boolean;
+  categories: { id: string; name: string }[];
+  subtasks: { id: string; title: string; completed: boolean; order: number }[];
+}
+
+export interface FieldChange {
+  field: string;
+  from: any;
+  to: any;
+}
+
+const SCALAR_FIELDS: (keyof TodoSnapshot)[] = [
+  'title',
+  'description',
+  'priority',
+  'status',
+  'dueDate',
+  'recurrenceRule',
+  'deleted'
+];
+
+// Capture the current state of a todo, or null if it no longer exists
+export const snapshotTodo = async (todoId: string, db: Db = prisma): Promise<TodoSnapshot | null> => {
+  const todo = await db.todo.findUnique({
+    where: { id: todoId },
+    include: {
+      categories: {
+        include: {
+          category: {
+            select: { id: true, name: true, deletedAt: true }
+          }
+        }
+      },
+      subtasks: {
+        orderBy: { order: 'asc' }
+      }
+    }
+  });
+
+  if (!todo) return null;
+
+  return {
+    title: todo.title,
+    description: todo.description,
+    priority: todo.priority,
+    status: todo.status,
+    dueDate: todo.dueDate ? todo.dueDate.toISOString() : null,
+    recurrenceRule: todo.recurrenceRule,
+    deleted: !!todo.deletedAt,
+    categories: todo.categories
+      .filter(tc => !tc.category.deletedAt)
+      .map(tc => ({ id: tc.category.id, name: tc.category.name }))
+      .sort((a, b) => a.id.localeCompare(b.id)),
+    subtasks: todo.subtasks.map(subtask => ({
+      id: subtask.id,
+      title: subtask.title,
+      completed: subtask.completed,
+      order: subtask.order
+    }))
+  };
+};
+
+// Field-level differences between two snapshots
+export const diffSnapshots = (before: TodoSnapshot | null, after: TodoSnapshot): FieldChange[] => {
+  const changes: FieldChange[] = [];
+
+  for (const field of SCALAR_FIELDS) {
+    const to = after[field];
+    // A new todo only lists the fields it was created with
+    if (!before && (to === null || field === 'deleted')) continue;
+
+    const from = before ? before[field] : null;
+    if (from !== to) {
+      changes.push({ field, from, to });
+    }
+  }
+
+  const beforeCategories = before ? before.categories.map(c => c.name) : [];
+  const afterCategories = after.categories.map(c => c.name);
+  if (beforeCategories.join('\u0000') !== afterCategories.join('\u0000')) {
+    changes.push({ field: 'categories', from: beforeCategories, to: afterCategories });
+  }
+
+  const beforeSubtasks = new Map((before ? before.subtasks : []).map(s => [s.id, s]));
+  const afterSubtasks = new Map(after.subtasks.map(s => [s.id, s]));
+
+  for (const [id, subtask] of afterSubtasks) {
+    const previous = beforeSubtasks.get(id);
+    if (!previous) {
+      changes.push({ field: `subtasks.${id}`, from: null, to: subtask.title });
+      continue;
+    }
+    for (const key of ['title', 'completed', 'order'] as const) {
+      if (previous[key] !== subtask[key]) {
+        changes.push({ field: `subtasks.${id}.${key}`, from: previous[key], to: subtask[key] });
+      }
+    }
+  }
+  for (const [id, subtask] of beforeSubtasks) {
+    if (!afterSubtasks.has(id)) {
+      changes.push({ field: `subtasks.${id}`, from: subtask.title, to: null });
+    }
+  }
+
+  return changes;
+};
+
+// Record a revision comparing `before` with the todo's current state.
+// Updates that didn't change anything are not recorded.
+export const recordRevision = async (
+  todoId: string,
+  actorId: string,
+  action: string,
+  before: TodoSnapshot | null,
+  db: Db = prisma
+) => {
+  const after = await snapshotTodo(todoId, db);
+  if (!after) return null;
+
+  const changes = diffSnapshots(before, after);
+  if (changes.length === 0 && action === HISTORY_ACTIONS.UPDATED) {
+    return null;
+  }
+
+  const latest = await db.todoRevision.findFirst({
+    where: { todoId },
+    orderBy: { revision: 'desc' },
+    select: { revision: true }
+  });
+
+  return db.todoRevision.create({
+    data: {
+      todoId,
+      actorId,
+      action,
+      revision: (latest?.revision || 0) + 1,
+      changes: JSON.stringify(changes),
+      snapshot: JSON.stringify(after)
+    }
+  });
+};
+
+// Bring a todo back to the state stored in a snapshot
+export const applySnapshot = async (todoId: string, snapshot: TodoSnapshot, db: Db) => {
+  // Categories deleted since the snapshot was taken can't be linked again
+  const categories = await db.category.findMany({
+    where: {
+      id: { in: snapshot.categories.map(c => c.id) },
+      deletedAt: null
+    },
+    select: { id: true }
+  });
+
+  // Links to trashed categories are left alone so restoring the category keeps them
+  await db.todoCategory.deleteMany({
+    where: { todoId, category: { deletedAt: null } }
+  });
+
+  const current = await db.todo.findUnique({
+    where: { id: todoId },
+    select: { status: true, startedAt: true }
+  });
+
+  await db.todo.update({
+    where: { id: todoId },
+    data: {
+      title: snapshot.title,
+      description: snapshot.description,
+      priority: snapshot.priority,
+      status: snapshot.status,
+      ...sortRanks(snapshot),
+      ...(current && statusTimestamps(current, snapshot.status)),
+      dueDate: snapshot.dueDate ? new Date(snapshot.dueDate) : null,
+      recurrenceRule: snapshot.recurrenceRule,
+      categories: {
+        create: categories.map(category => ({ categoryId: category.id }))
+      }
+    }
+  });
+
+  // Subtasks are matched by id: removed ones come back, new ones go away
+  const keepIds = snapshot.subtasks.map(subtask => subtask.id);
+  await db.subtask.deleteMany({
+    where: { todoId, id: { notIn: keepIds } }
+  });
+
+  for (const subtask of snapshot.subtasks) {
+    await db.subtask.upsert({
+      where: { id: subtask.id },
+      update: {
+        title: subtask.title,
+        completed: subtask.completed,
+        order: subtask.order
+      },
+      create: {
+        id: subtask.id,
+        title: subtask.title,
+        completed: subtask.completed,
+        order: subtask.order,
+        todoId
+      }
+    });
+  }
+};
@@ -0,0 +1,293 @@
+// Todo import from CSV or JSON
+// Source columns are mapped onto todo fields, every row is validated on its own
+// and a dry run reports what would happen without writing anything.
+import prisma from '../utils/prisma';
+import { parseCsvRecords } from '../utils/csv';
+import { statusTimestamps } from '../utils/todoStatus';
+import { HISTORY_ACTIONS, recordRevision } from './todoHistory';
+import { publishTodos } from './todoEvents';
+import { sortRanks } from './todoSort';
+import { topPosition } from './todoPosition';
+
+export const IMPORT_FORMATS = ['csv', 'json'] as const;
+export const IMPORT_FIELDS = ['title', 'description', 'status', 'priority', 'dueDate', 'categories'] as const;
+export const MAX_IMPORT_ROWS = 1000;
+
+export type ImportField = (typeof IMPORT_FIELDS)[number];
+export type ImportMapping = Partial<Record<ImportField, string>>;
+
+export interface ImportRowError {
+  row: number;
+  // Line of the file the row starts on, CSV only
+  line?: number;
+  errors: string[];
+}
+
+const STATUSES = ['TODO', 'IN_PROGRESS', 'COMPLETED', 'CANCELLED'];
+const PRIORITIES = ['LOW', 'MEDIUM', 'HIGH', 'URGENT'];
+
+// Column names recognised when no mapping is given
+const FIELD_ALIASES: Record<ImportField, string[]> = {
+  title: ['title', 'name', 'task', 'summary'],
+  description: ['description', 'notes', 'details', 'body'],
+  status: ['status', 'state'],
+  priority: ['priority'],
+  dueDate: ['duedate', 'due', 'deadline', 'date'],
+  categories: ['categories', 'category', 'tags', 'labels']
+};
+
+const normalizeKey = (value: string) => value.toLowerCase().replace(/[^a-z0-9]/g, '');
+
+const normalizeEnum = (value: string) => value.trim().toUpperCase().replace(/[\s-]+/g, '_');
+
+// Read the uploaded content into named columns and rows
+export const parseImportContent = (
+  format: string,
+  content: string
+): { columns: string[]; rows: Record<string, string>[]; lines?: number[]; error?: string } => {
+  if (format === 'csv') {
+    const [header, ...records] = parseCsvRecords(content);
+    if (!header) {
+      return { columns: [], rows: [], error: 'The file is empty' };
+    }
+
+    const columns = header.fields.map(column => column.trim());
+    const rows = records.map(record => {
+      const row: Record<string, string> = {};
+      columns.forEach((column, index) => {
+        row[column] = record.fields[index] ?? '';
+      });
+      return row;
+    });
+    return { columns, rows, lines: records.map(record => record.line) };
+  }
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(content);
+  } catch (error) {
+    return { columns: [], rows: [], error: 'The file is not valid JSON' };
+  }
+
+  // Accept both a bare array and the `{ todos: [...] }` shape produced by the export
+  const items: unknown = Array.isArray(parsed) ? parsed : (parsed as { todos?: unknown } | null)?.todos;
+  if (!Array.isArray(items) || items.some(item => !item || typeof item !== 'object' || Array.isArray(item))) {
+    return { columns: [], rows: [], error: 'JSON must be an array of objects' };
+  }
+
+  const columns: string[] = [];
+  const rows = (items as Record<string, unknown>[]).map(item => {
+    const row: Record<string, string> = {};
+    for (const [key, value] of Object.entries(item)) {
+      if (!columns.includes(key)) columns.push(key);
+      if (Array.isArray(value)) {
+        // Category objects from the export carry their name
+        row[key] = value
+          .map((entry: unknown) => (entry && typeof entry === 'object' ? (entry as { name?: unknown }).name : entry))
+          .join(';');
+      } else {
+        row[key] = value === null || value === undefined ? '' : String(value);
+      }
+    }
+    return row;
+  });
+  return { columns, rows };
+};
+
+// Guess which column feeds which field from the column names
+export const suggestMapping = (columns: string[]): ImportMapping => {
+  const mapping: ImportMapping = {};
+
+  for (const field of IMPORT_FIELDS) {
+    const column = columns.find(candidate => FIELD_ALIASES[field].includes(normalizeKey(candidate)));
+    if (column) mapping[field] = column;
+  }
+
+  return mapping;
+};
+
+// Validate a mapping supplied by the client, returns an error message or null
+export const validateMapping = (mapping: unknown, columns: string[]): string | null => {
+  if (!mapping || typeof mapping !== 'object' || Array.isArray(mapping)) {
+    return 'Mapping must be an object';
+  }
+
+  const entries = Object.entries(mapping as Record<string, unknown>);
+  for (const [field, column] of entries) {
+    if (!IMPORT_FIELDS.includes(field as ImportField)) {
+      return `Unknown field "${field}"`;
+    }
+    if (column && !columns.includes(column as string)) {
+      return `Column "${column}" does not exist in the file`;
+    }
+  }
+
+  if (!entries.some(([field, column]) => field === 'title' && column)) {
+    return 'A column must be mapped to the title';
+  }
+  return null;
+};
+
+// Turn one source row into todo data, collecting every problem found
+const mapRow = (row: Record<string, string>, mapping: ImportMapping) => {
+  const errors: string[] = [];
+  const value = (field: ImportField) => (mapping[field] ? (row[mapping[field]!] ?? '').trim() : '');
+
+  const title = value('title');
+  if (!title) {
+    errors.push('Title is required');
+  } else if (title.length > 200) {
+    errors.push('Title must be less than 200 characters');
+  }
+
+  const description = value('description');
+  if (description.length > 1000) {
+    errors.push('Description must be less than 1000 characters');
+  }
+
+  let status = 'TODO';
+  if (value('status')) {
+    status = normalizeEnum(value('status'));
+    if (!STATUSES.includes(status)) {
+      errors.push(`Invalid status "${value('status')}"`);
+    }
+  }
+
+  let priority = 'MEDIUM';
+  if (value('priority')) {
+    priority = normalizeEnum(value('priority'));
+    if (!PRIORITIES.includes(priority)) {
+      errors.push(`Invalid priority "${value('priority')}"`);
+    }
+  }
+
+  let dueDate: Date | null = null;
+  if (value('dueDate')) {
+    dueDate = new Date(value('dueDate'));
+    if (isNaN(dueDate.getTime())) {
+      errors.push(`Invalid due date "${value('dueDate')}"`);
+    }
+  }
+
+  const categories = [...new Set(
+    value('categories')
+      .split(/[;,]/)
+      .map(name => name.trim())
+      .filter(Boolean)
+  )];
+  if (categories.some(name => name.length > 50)) {
+    errors.push('Category names must be less than 50 characters');
+  }
+
+  return {
+    errors,
+    todo: {
+      title,
+      description: description || null,
+      status,
+      priority,
+      dueDate,
+      categories
+    }
+  };
+};
+
+// Validate every row and, unless this is a dry run, create the todos.
+// Rows with errors are skipped and reported with their 1-based position among the
+// rows and, when `lines` is given, the line of the file they start on.
+export const importTodos = async (
+  userId: string,
+  rows: Record<string, string>[],
+  mapping: ImportMapping,
+  dryRun: boolean,
+  lines?: number[]
+) => {
+  const mapped = rows.map(row => mapRow(row, mapping));
+  const errors: ImportRowError[] = [];
+  mapped.forEach((result, index) => {
+    if (result.errors.length > 0) {
+      errors.push({ row: index + 1, line: lines?.[index], errors: result.errors });
+    }
+  });
+  const valid = mapped.filter(result => result.errors.length === 0).map(result => result.todo);
+
+  // Categories are matched by name, ignoring case, and created when missing
+  const existing = await prisma.category.findMany({
+    where: { userId, deletedAt: null },
+    select: { id: true, name: true }
+  });
+  const categoryIds = new Map(existing.map(category => [category.name.toLowerCase(), category.id]));
+
+  const newCategories: string[] = [];
+  for (const todo of valid) {
+    for (const name of todo.categories) {
+      const key = name.toLowerCase();
+      if (!categoryIds.has(key) && !newCategories.some(created => created.toLowerCase() === key)) {
+        newCategories.push(name);
+      }
+    }
+  }
+
+  const preview = valid.slice(0, 20).map(todo => ({
+    ...todo,
+    dueDate: todo.dueDate ? todo.dueDate.toISOString() : null
+  }));
+
+  if (dryRun) {
+    return {
+      dryRun,
+      total: rows.length,
+      imported: 0,
+      valid: valid.length,
+      failed: errors.length,
+      newCategories,
+      preview,
+      errors
+    };
+  }
+
+  const createdIds = await prisma.$transaction(async tx => {
+    for (const name of newCategories) {
+      const category = await tx.category.create({
+        data: { name, userId }
+      });
+      categoryIds.set(name.toLowerCase(), category.id);
+    }
+
+    // Imported todos go on top of the manual order, in the order of the file
+    const top = await topPosition(userId, tx);
+    const ids: string[] = [];
+    for (const [index, { categories, ...todo }] of valid.entries()) {
+      const created = await tx.todo.create({
+        data: {
+          ...todo,
+          ...sortRanks(todo),
+          position: top - valid.length + 1 + index,
+          ...statusTimestamps({ status: null, startedAt: null }, todo.status),
+          userId,
+          categories: {
+            create: categories.map(name => ({ categoryId: categoryIds.get(name.toLowerCase())! }))
+          }
+        }
+      });
+      ids.push(created.id);
+    }
+    return ids;
+  }, { timeout: 60000 });
+
+  for (const id of createdIds) {
+    await recordRevision(id, userId, HISTORY_ACTIONS.CREATED, null);
+  }
+  await publishTodos('todo-created', createdIds);
+
+  return {
+    dryRun,
+    total: rows.length,
+    imported: createdIds.length,
+    valid: valid.length,
+    failed: errors.length,
+    newCategories,
+    preview,
+    errors
+  };
+};
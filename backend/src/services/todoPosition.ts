@@ -0,0 +1,16 @@
+// Manual order of todos
+// Todos are ordered by `position`, lowest first, and new todos go on top.
+import { Prisma, PrismaClient } from '@prisma/client';
+import prisma from '../utils/prisma';
+import { accessibleTodoWhere } from './teamAccess';
+
+type Db = PrismaClient | Prisma.TransactionClient;
+
+// Position above every todo the user can see, for a todo created now
+export const topPosition = async (userId: string, db: Db = prisma): Promise<number> => {
+  const { _min: lowest } = await db.todo.aggregate({
+    where: { deletedAt: null, ...accessibleTodoWhere(userId) },
+    _min: { position: true }
+  });
+  return (lowest.position ?? 1) - 1;
+};
@@ -0,0 +1,171 @@
+import { paginateTodos, parseTodoSort, sortRanks, todoOrderBy } from './todoSort';
+
+interface Row {
+  id: string;
+  title: string;
+  dueDate: Date | null;
+  priorityRank: number;
+  statusRank: number;
+  createdAt: Date;
+  updatedAt: Date;
+  position: number;
+}
+
+// An in-memory todo table that understands the subset of Prisma queries used by
+// paginateTodos, compared the way SQLite compares
+let table: Row[] = [];
+
+type Value = Date | string | number | null;
+type Where = Record<string, unknown>;
+
+const compare = (a: Value, b: Value) => {
+  const left = a instanceof Date ? a.getTime() : a;
+  const right = b instanceof Date ? b.getTime() : b;
+  if (left === right) return 0;
+  return left! < right! ? -1 : 1;
+};
+
+const matches = (row: Row, where: Where): boolean => Object.entries(where).every(([key, condition]) => {
+  if (key === 'AND') return (condition as Where[]).every(part => matches(row, part));
+  if (key === 'OR') return (condition as Where[]).some(part => matches(row, part));
+
+  const value = row[key as keyof Row];
+  if (condition === null || condition instanceof Date || typeof condition !== 'object') {
+    return value === condition || (value !== null && condition !== null && compare(value, condition as Value) === 0);
+  }
+  return Object.entries(condition).every(([operator, operand]) => {
+    if (value === null || operand === null) return false;
+    const order = compare(value, operand as Value);
+    return operator === 'gt' ? order > 0 : operator === 'lt' ? order < 0 : false;
+  });
+});
+
+const sortRows = (rows: Row[], orderBy: Record<string, unknown>[]) => [...rows].sort((a, b) => {
+  for (const entry of orderBy) {
+    const [column, option] = Object.entries(entry)[0];
+    const { sort, nulls } = typeof option === 'string' ? { sort: option, nulls: 'first' } : option as { sort: string; nulls: string };
+    const left = a[column as keyof Row];
+    const right = b[column as keyof Row];
+    if (left === null || right === null) {
+      if (left === right) continue;
+      return (left === null) === (nulls === 'first') ? -1 : 1;
+    }
+    const order = compare(left, right);
+    if (order !== 0) return sort === 'desc' ? -order : order;
+  }
+  return 0;
+});
+
+jest.mock('../utils/prisma', () => ({
+  __esModule: true,
+  default: {
+    todo: {
+      count: async ({ where }: { where: Where }) => table.filter(row => matches(row, where)).length,
+      findMany: async ({ where, orderBy, skip, take }: { where: Where; orderBy: Where[]; skip: number; take: number }) =>
+        sortRows(table.filter(row => matches(row, where)), orderBy).slice(skip, skip + take)
+    }
+  }
+}));
+
+const created = new Date('2024-01-01T00:00:00.000Z');
+
+const todo = (id: string, fields: Partial<Row> = {}): Row => ({
+  id,
+  title: id,
+  dueDate: null,
+  priorityRank: 1,
+  statusRank: 0,
+  createdAt: created,
+  updatedAt: created,
+  position: 0,
+  ...fields
+});
+
+const day = (value: number) => new Date(Date.UTC(2024, 4, value));
+
+// Follow the cursors through every page of a sort
+const walk = async (sort: string, limit: number) => {
+  const { keys } = parseTodoSort(sort);
+  const ids: string[] = [];
+  let cursor: string | undefined;
+  do {
+    const { page } = await paginateTodos({}, keys, { limit, cursor });
+    ids.push(...page!.ids);
+    cursor = page!.nextCursor || undefined;
+  } while (cursor);
+  return ids;
+};
+
+beforeEach(() => {
+  table = [
+    todo('a', { priorityRank: 3, dueDate: day(20) }),
+    todo('b', { priorityRank: 1, dueDate: day(10) }),
+    todo('c', { priorityRank: 3, dueDate: null }),
+    todo('d', { priorityRank: 3, dueDate: day(5) }),
+    todo('e', { priorityRank: 0, dueDate: day(10) }),
+    todo('f', { priorityRank: 1, dueDate: null }),
+    todo('g', { priorityRank: 3, dueDate: day(5) })
+  ];
+});
+
+describe('sortRanks', () => {
+  it('ranks priority and status in their semantic order', () => {
+    expect(sortRanks({ priority: 'URGENT', status: 'IN_PROGRESS' })).toEqual({ priorityRank: 3, statusRank: 1 });
+    expect(sortRanks({ status: 'CANCELLED' })).toEqual({ statusRank: 3 });
+    expect(sortRanks({})).toEqual({});
+  });
+});
+
+describe('todoOrderBy', () => {
+  it('orders by the rank columns, due dates last and the id', () => {
+    expect(todoOrderBy(parseTodoSort('-priority,dueDate').keys)).toEqual([
+      { priorityRank: 'desc' },
+      { dueDate: { sort: 'asc', nulls: 'last' } },
+      { id: 'asc' }
+    ]);
+  });
+});
+
+describe('paginateTodos', () => {
+  it('pages through every todo once, in sort order', async () => {
+    expect(await walk('-priority,dueDate', 2)).toEqual(['d', 'g', 'a', 'c', 'b', 'f', 'e']);
+    expect(await walk('-dueDate', 3)).toEqual(['a', 'b', 'e', 'd', 'g', 'c', 'f']);
+  });
+
+  it('pages by offset as well', async () => {
+    const { keys } = parseTodoSort('dueDate');
+    const { page } = await paginateTodos({}, keys, { limit: 3, skip: 4 });
+    expect(page).toEqual({ ids: ['a', 'c', 'f'], total: 7, nextCursor: null });
+  });
+
+  it('continues after the last todo seen when todos are added between pages', async () => {
+    const { keys } = parseTodoSort('-priority,dueDate');
+    const first = await paginateTodos({}, keys, { limit: 3 });
+    expect(first.page!.ids).toEqual(['d', 'g', 'a']);
+
+    // One todo sorts before the cursor, one right after it and one at the end
+    table.push(
+      todo('aa', { priorityRank: 3, dueDate: day(1) }),
+      todo('ab', { priorityRank: 3, dueDate: day(20) }),
+      todo('zz', { priorityRank: 0, dueDate: null })
+    );
+    table = table.filter(row => row.id !== 'c');
+
+    const second = await paginateTodos({}, keys, { limit: 3, cursor: first.page!.nextCursor! });
+    expect(second.page!.ids).toEqual(['ab', 'b', 'f']);
+    const third = await paginateTodos({}, keys, { limit: 3, cursor: second.page!.nextCursor! });
+    expect(third.page).toEqual({ ids: ['e', 'zz'], total: 9, nextCursor: null });
+  });
+
+  it('rejects malformed cursors and cursors of another sort', async () => {
+    const { keys } = parseTodoSort('-priority');
+    const { page } = await paginateTodos({}, keys, { limit: 2 });
+
+    expect((await paginateTodos({}, parseTodoSort('priority').keys, { limit: 2, cursor: page!.nextCursor! })).error)
+      .toBe('Cursor was issued for a different sort');
+    expect((await paginateTodos({}, keys, { limit: 2, cursor: 'not-a-cursor' })).error).toBe('Invalid cursor');
+
+    const tampered = Buffer.from(JSON.stringify({ sort: '-priority', values: ['3'], id: 'a' })).toString('base64url');
+    expect((await paginateTodos({}, keys, { limit: 2, cursor: tampered })).error).toBe('Invalid cursor');
+  });
+});
@@ -0,0 +1,240 @@
+// Todo list sorting and cursor pagination
+// A sort is a comma separated list of fields, "-" in front sorts descending:
+//   -priority,dueDate    most urgent first, then soonest due
+// Priority and status sort in their semantic order (LOW < URGENT, TODO <
+// CANCELLED) through rank columns stored next to them, so lists are ordered and
+// paged by the database. Titles compare as stored, upper case before lower case.
+// Cursors encode the sort keys of the last todo of a page, so the next page
+// starts in the right place even when todos are added or removed meanwhile.
+import { Prisma } from '@prisma/client';
+import prisma from '../utils/prisma';
+
+export const TODO_SORT_FIELDS = ['dueDate', 'priority', 'status', 'title', 'createdAt', 'updatedAt', 'position'] as const;
+
+export type TodoSortField = (typeof TODO_SORT_FIELDS)[number];
+
+export const DEFAULT_TODO_SORT = '-createdAt';
+
+const MAX_SORT_KEYS = 4;
+
+// Largest page of todos a client can ask for
+export const MAX_PAGE_SIZE = 100;
+
+const PRIORITY_RANK: Record<string, number> = { LOW: 0, MEDIUM: 1, HIGH: 2, URGENT: 3 };
+const STATUS_RANK: Record<string, number> = { TODO: 0, IN_PROGRESS: 1, COMPLETED: 2, CANCELLED: 3 };
+
+// Column each sort field orders by
+const SORT_COLUMNS = {
+  dueDate: 'dueDate',
+  priority: 'priorityRank',
+  status: 'statusRank',
+  title: 'title',
+  createdAt: 'createdAt',
+  updatedAt: 'updatedAt',
+  position: 'position'
+} as const;
+
+type SortColumn = (typeof SORT_COLUMNS)[TodoSortField];
+
+const DATE_COLUMNS: SortColumn[] = ['dueDate', 'createdAt', 'updatedAt'];
+
+interface SortKey {
+  field: TodoSortField;
+  descending: boolean;
+}
+
+type SortValue = string | number | null;
+
+// Columns needed to order todos and build cursors
+export const todoSortSelect = {
+  id: true,
+  dueDate: true,
+  priorityRank: true,
+  statusRank: true,
+  title: true,
+  createdAt: true,
+  updatedAt: true,
+  position: true
+};
+
+type TodoSortRow = Prisma.TodoGetPayload<{ select: typeof todoSortSelect }>;
+
+interface Cursor {
+  sort: string;
+  values: SortValue[];
+  id: string;
+}
+
+// Rank columns to write along with a new priority or status
+export const sortRanks = (fields: { priority?: string; status?: string }) => ({
+  ...(fields.priority !== undefined && { priorityRank: PRIORITY_RANK[fields.priority] ?? 0 }),
+  ...(fields.status !== undefined && { statusRank: STATUS_RANK[fields.status] ?? 0 })
+});
+
+// Bring the rank columns of every todo in line with its priority and status,
+// for todos stored before the columns existed. Cheap when nothing is out of date.
+export const syncSortRanks = async (): Promise<number> => {
+  let updated = 0;
+  for (const [priority, priorityRank] of Object.entries(PRIORITY_RANK)) {
+    const { count } = await prisma.todo.updateMany({
+      where: { priority, priorityRank: { not: priorityRank } },
+      data: { priorityRank }
+    });
+    updated += count;
+  }
+  for (const [status, statusRank] of Object.entries(STATUS_RANK)) {
+    const { count } = await prisma.todo.updateMany({
+      where: { status, statusRank: { not: statusRank } },
+      data: { statusRank }
+    });
+    updated += count;
+  }
+  return updated;
+};
+
+// Parse a sort such as "-priority,dueDate". Returns an error message for
+// unknown or repeated fields.
+export const parseTodoSort = (sort: string): { keys: SortKey[]; error: string | null } => {
+  const keys: SortKey[] = [];
+
+  for (const item of sort.split(',').map(part => part.trim()).filter(Boolean)) {
+    const descending = item.startsWith('-');
+    const field = item.replace(/^[-+]/, '') as TodoSortField;
+
+    if (!TODO_SORT_FIELDS.includes(field)) {
+      return { keys: [], error: `Cannot sort by "${field}". Sort fields are ${TODO_SORT_FIELDS.join(', ')}` };
+    }
+    if (keys.some(key => key.field === field)) {
+      return { keys: [], error: `Sort field "${field}" is repeated` };
+    }
+    keys.push({ field, descending });
+  }
+
+  if (keys.length > MAX_SORT_KEYS) {
+    return { keys: [], error: `Sort by at most ${MAX_SORT_KEYS} fields` };
+  }
+
+  return { keys: keys.length > 0 ? keys : parseTodoSort(DEFAULT_TODO_SORT).keys, error: null };
+};
+
+// Order of the sort keys, todos without a due date last either way. Ties fall
+// back to the id so the order is total and cursors are unambiguous.
+export const todoOrderBy = (keys: SortKey[]): Prisma.TodoOrderByWithRelationInput[] => [
+  ...keys.map(key => {
+    const sort = key.descending ? Prisma.SortOrder.desc : Prisma.SortOrder.asc;
+    return key.field === 'dueDate'
+      ? { dueDate: { sort, nulls: Prisma.NullsOrder.last } }
+      : { [SORT_COLUMNS[key.field]]: sort };
+  }),
+  { id: Prisma.SortOrder.asc }
+];
+
+// Todos that come after the cursor in the order of `todoOrderBy`: equal on the
+// leading keys and past it on the next one, or equal on all and a greater id
+const afterCursorWhere = (keys: SortKey[], cursor: Cursor): Prisma.TodoWhereInput => {
+  const branches: Prisma.TodoWhereInput[] = [];
+  const equal: Prisma.TodoWhereInput[] = [];
+
+  keys.forEach((key, index) => {
+    const column = SORT_COLUMNS[key.field];
+    const value = DATE_COLUMNS.includes(column) && cursor.values[index] !== null
+      ? new Date(cursor.values[index]!)
+      : cursor.values[index];
+
+    // Nothing sorts past a missing due date, those come last
+    if (value !== null) {
+      const past: Prisma.TodoWhereInput = { [column]: { [key.descending ? 'lt' : 'gt']: value } };
+      branches.push({ AND: [...equal, column === 'dueDate' ? { OR: [past, { dueDate: null }] } : past] });
+    }
+    equal.push({ [column]: value });
+  });
+
+  branches.push({ AND: [...equal, { id: { gt: cursor.id } }] });
+  return { OR: branches };
+};
+
+const cursorValue = (row: TodoSortRow, field: TodoSortField): SortValue => {
+  const value = row[SORT_COLUMNS[field]];
+  return value instanceof Date ? value.toISOString() : value;
+};
+
+const normalizeSort = (keys: SortKey[]) =>
+  keys.map(key => `${key.descending ? '-' : ''}${key.field}`).join(',');
+
+const encodeCursor = (cursor: Cursor): string =>
+  Buffer.from(JSON.stringify(cursor)).toString('base64url');
+
+const decodeCursor = (value: string, keys: SortKey[]): Cursor | null => {
+  try {
+    const cursor = JSON.parse(Buffer.from(value, 'base64url').toString('utf8'));
+    if (typeof cursor?.sort !== 'string' || typeof cursor.id !== 'string' || !Array.isArray(cursor.values)) {
+      return null;
+    }
+
+    // Every value has to be of its column's type before it goes into a query
+    const valid = cursor.values.length === keys.length && keys.every((key: SortKey, index: number) => {
+      const column = SORT_COLUMNS[key.field];
+      const item: unknown = cursor.values[index];
+      if (DATE_COLUMNS.includes(column)) {
+        return (item === null && column === 'dueDate') || (typeof item === 'string' && !isNaN(new Date(item).getTime()));
+      }
+      return column === 'title' ? typeof item === 'string' : typeof item === 'number';
+    });
+    return valid ? cursor : null;
+  } catch {
+    return null;
+  }
+};
+
+export interface TodoPage {
+  ids: string[];
+  total: number;
+  nextCursor: string | null;
+}
+
+// Load one page of the todos matching `where`, either after `cursor` or at
+// offset `skip`. Returns an error message for a cursor that is malformed or
+// was issued for another sort.
+export const paginateTodos = async (
+  where: Prisma.TodoWhereInput,
+  keys: SortKey[],
+  options: { limit: number; skip?: number; cursor?: string }
+): Promise<{ page: TodoPage | null; error: string | null }> => {
+  const sort = normalizeSort(keys);
+
+  let cursor: Cursor | null = null;
+  if (options.cursor) {
+    cursor = decodeCursor(options.cursor, keys);
+    if (!cursor) {
+      return { page: null, error: 'Invalid cursor' };
+    }
+    if (cursor.sort !== sort) {
+      return { page: null, error: 'Cursor was issued for a different sort' };
+    }
+  }
+
+  const total = await prisma.todo.count({ where });
+  // One extra row tells whether there is a next page
+  const rows = await prisma.todo.findMany({
+    where: cursor ? { AND: [where, afterCursorWhere(keys, cursor)] } : where,
+    select: todoSortSelect,
+    orderBy: todoOrderBy(keys),
+    skip: cursor ? 0 : options.skip || 0,
+    take: options.limit + 1
+  });
+
+  const pageRows = rows.slice(0, options.limit);
+  const last = pageRows[pageRows.length - 1];
+  const hasMore = rows.length > options.limit;
+
+  return {
+    page: {
+      ids: pageRows.map(row => row.id),
+      total,
+      nextCursor: hasMore && last
+        ? encodeCursor({ sort, values: keys.map(key => cursorValue(last, key.field)), id: last.id })
+        : null
+    },
+    error: null
+  };
+};
@@ -0,0 +1,52 @@
+// Trash purger
+// Permanently deletes todos and categories that have been in the trash
+// longer than the configured retention period.
+import prisma from '../utils/prisma';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const DEFAULT_RETENTION_DAYS = 30;
+
+// Falls back to the default when TRASH_RETENTION_DAYS isn't a positive number
+export const getTrashRetentionDays = (): number => {
+  const days = parseInt(process.env['TRASH_RETENTION_DAYS'] || '');
+  return days > 0 ? days : DEFAULT_RETENTION_DAYS;
+};
+
+let timer: NodeJS.Timeout | null = null;
+
+// Delete expired trash, cascading to subtasks, comments and category links
+export const purgeExpiredTrash = async (now: Date = new Date()) => {
+  const cutoff = new Date(now.getTime() - getTrashRetentionDays() * DAY_MS);
+
+  const [todos, categories] = await prisma.$transaction([
+    prisma.todo.deleteMany({
+      where: { deletedAt: { lte: cutoff } }
+    }),
+    prisma.category.deleteMany({
+      where: { deletedAt: { lte: cutoff } }
+    })
+  ]);
+
+  return { todos: todos.count, categories: categories.count };
+};
+
+export const startTrashPurger = (): void => {
+  if (timer) return;
+
+  const intervalMs = parseInt(process.env['TRASH_PURGE_INTERVAL_MS'] || '3600000');
+  timer = setInterval(async () => {
+    try {
+      await purgeExpiredTrash();
+    } catch (error) {
+      console.error('Trash purge error:', error);
+    }
+  }, intervalMs);
+};
+
+export const stopTrashPurger = (): void => {
+  if (timer) {
+    clearInterval(timer);
+    timer = null;
+  }
+};
@@ -0,0 +1,111 @@
+// Two-factor authentication: TOTP verification, recovery codes and the
+// short-lived challenge token that links the two steps of a login.
+import crypto from 'crypto';
+import QRCode from 'qrcode';
+import prisma from '../utils/prisma';
+import { generateTotpSecret, buildOtpauthUri, verifyTotp } from '../utils/totp';
+import { issueUserToken, consumeUserToken, countUserTokenAttempt, USER_TOKEN_TYPES } from './userTokens';
+
+const RECOVERY_CODE_COUNT = 10;
+
+// Codes that can be tried against one challenge before the login has to start over
+const MAX_CHALLENGE_ATTEMPTS = 5;
+
+const getIssuer = () => process.env['TWO_FACTOR_ISSUER'] || 'Todo App';
+
+const hashCode = (code: string) => crypto.createHash('sha256').update(code).digest('hex');
+
+// Recovery codes are compared without dashes, spaces or case
+const normalizeRecoveryCode = (code: string) => code.replace(/[\s-]/g, '').toLowerCase();
+
+// Store a new pending secret and return what the authenticator app needs
+export const startTwoFactorSetup = async (user: { id: string; email: string }) => {
+  const secret = generateTotpSecret();
+  const otpauthUri = buildOtpauthUri(secret, user.email, getIssuer());
+
+  await prisma.user.update({
+    where: { id: user.id },
+    data: { twoFactorSecret: secret, twoFactorLastStep: null }
+  });
+
+  return {
+    secret,
+    otpauthUri,
+    qrCode: await QRCode.toDataURL(otpauthUri)
+  };
+};
+
+// Verify a TOTP code for the user, rejecting codes that were already used
+export const verifyTwoFactorCode = async (
+  user: { id: string; twoFactorSecret: string | null; twoFactorLastStep: number | null },
+  code: string
+): Promise<boolean> => {
+  if (!user.twoFactorSecret) return false;
+
+  const step = verifyTotp(user.twoFactorSecret, code);
+  if (step === null || (user.twoFactorLastStep !== null && step <= user.twoFactorLastStep)) {
+    return false;
+  }
+
+  await prisma.user.update({
+    where: { id: user.id },
+    data: { twoFactorLastStep: step }
+  });
+  return true;
+};
+
+// Replace the user's recovery codes, returning the new plain codes once
+export const generateRecoveryCodes = async (userId: string): Promise<string[]> => {
+  const codes = Array.from({ length: RECOVERY_CODE_COUNT }, () => {
+    const hex = crypto.randomBytes(5).toString('hex');
+    return `${hex.slice(0, 5)}-${hex.slice(5)}`;
+  });
+
+  await prisma.$transaction([
+    prisma.recoveryCode.deleteMany({ where: { userId } }),
+    prisma.recoveryCode.createMany({
+      data: codes.map(code => ({ userId, codeHash: hashCode(normalizeRecoveryCode(code)) }))
+    })
+  ]);
+
+  return codes;
+};
+
+// Use up a recovery code, returns whether it was valid
+export const consumeRecoveryCode = async (userId: string, code: string): Promise<boolean> => {
+  const { count } = await prisma.recoveryCode.updateMany({
+    where: { userId, codeHash: hashCode(normalizeRecoveryCode(code)), usedAt: null },
+    data: { usedAt: new Date() }
+  });
+  return count > 0;
+};
+
+export const countRecoveryCodes = (userId: string) => {
+  return prisma.recoveryCode.count({ where: { userId, usedAt: null } });
+};
+
+export const disableTwoFactor = (userId: string) => {
+  return prisma.$transaction([
+    prisma.recoveryCode.deleteMany({ where: { userId } }),
+    prisma.user.update({
+      where: { id: userId },
+      data: { twoFactorSecret: null, twoFactorEnabledAt: null, twoFactorLastStep: null }
+    })
+  ]);
+};
+
+// Token proving the password step of a login succeeded, valid for five minutes
+export const createLoginChallenge = (userId: string): Promise<string> => {
+  return issueUserToken(userId, USER_TOKEN_TYPES.TWO_FACTOR_CHALLENGE);
+};
+
+// Use one of the challenge's attempts, returns its user id or null once it is
+// expired, completed or out of attempts
+export const startChallengeAttempt = (token: string): Promise<string | null> => {
+  return countUserTokenAttempt(token, USER_TOKEN_TYPES.TWO_FACTOR_CHALLENGE, MAX_CHALLENGE_ATTEMPTS);
+};
+
+// Use up the challenge after a correct code, returns false when another request got there first
+export const completeLoginChallenge = async (token: string): Promise<boolean> => {
+  return !!(await consumeUserToken(token, USER_TOKEN_TYPES.TWO_FACTOR_CHALLENGE));
+};
@@ -0,0 +1,86 @@
+// Single-use tokens for password resets, email verification and the second step
+// of a two-factor login. Issuing a token invalidates the user's earlier unused
+// tokens of the same type.
+import crypto from 'crypto';
+import prisma from '../utils/prisma';
+
+export const USER_TOKEN_TYPES = {
+  PASSWORD_RESET: 'PASSWORD_RESET',
+  EMAIL_VERIFICATION: 'EMAIL_VERIFICATION',
+  TWO_FACTOR_CHALLENGE: 'TWO_FACTOR_CHALLENGE'
+} as const;
+
+export type UserTokenType = (typeof USER_TOKEN_TYPES)[keyof typeof USER_TOKEN_TYPES];
+
+const TOKEN_TTL_MS: Record<UserTokenType, number> = {
+  PASSWORD_RESET: 60 * 60 * 1000,
+  EMAIL_VERIFICATION: 24 * 60 * 60 * 1000,
+  TWO_FACTOR_CHALLENGE: 5 * 60 * 1000
+};
+
+const hashToken = (token: string) => crypto.createHash('sha256').update(token).digest('hex');
+
+// Create a token and return its plain value, which is only ever sent by email
+// or, for a login challenge, to the client that passed the password step
+export const issueUserToken = async (userId: string, type: UserTokenType): Promise<string> => {
+  const token = crypto.randomBytes(32).toString('base64url');
+
+  await prisma.$transaction([
+    prisma.userToken.updateMany({
+      where: { userId, type, usedAt: null },
+      data: { usedAt: new Date() }
+    }),
+    prisma.userToken.create({
+      data: {
+        userId,
+        type,
+        tokenHash: hashToken(token),
+        expiresAt: new Date(Date.now() + TOKEN_TTL_MS[type])
+      }
+    })
+  ]);
+
+  return token;
+};
+
+// Mark a token as used and return its user id, or null when it is unknown,
+// expired or already used. The conditional update makes concurrent use safe.
+export const consumeUserToken = async (token: string, type: UserTokenType): Promise<string | null> => {
+  const tokenHash = hashToken(token);
+  const now = new Date();
+
+  const { count } = await prisma.userToken.updateMany({
+    where: { tokenHash, type, usedAt: null, expiresAt: { gt: now } },
+    data: { usedAt: now }
+  });
+  if (count === 0) return null;
+
+  const userToken = await prisma.userToken.findUnique({
+    where: { tokenHash },
+    select: { userId: true }
+  });
+  return userToken?.userId || null;
+};
+
+// Count an attempt against a token without using it up and return its user id,
+// or null when it is unknown, expired, used or out of attempts. Counting before
+// the caller checks anything keeps parallel guesses within the limit.
+export const countUserTokenAttempt = async (
+  token: string,
+  type: UserTokenType,
+  maxAttempts: number
+): Promise<string | null> => {
+  const tokenHash = hashToken(token);
+
+  const { count } = await prisma.userToken.updateMany({
+    where: { tokenHash, type, usedAt: null, expiresAt: { gt: new Date() }, attempts: { lt: maxAttempts } },
+    data: { attempts: { increment: 1 } }
+  });
+  if (count === 0) return null;
+
+  const userToken = await prisma.userToken.findUnique({
+    where: { tokenHash },
+    select: { userId: true }
+  });
+  return userToken?.userId || null;
+};
@@ -0,0 +1,275 @@
+// Outgoing webhooks
+// Route handlers queue an event with emitWebhookEvent; every subscribed webhook
+// gets a delivery row which the dispatcher sends as a signed POST request,
+// retrying failures with exponential backoff. Endpoints must resolve to public
+// addresses, checked when a webhook is saved and again on the address every
+// delivery connects to.
+import crypto from 'crypto';
+import dns from 'dns';
+import http from 'http';
+import https from 'https';
+import net from 'net';
+import { Webhook, WebhookDelivery } from '@prisma/client';
+import prisma from '../utils/prisma';
+
+export const WEBHOOK_EVENTS = [
+  'todo.created',
+  'todo.updated',
+  'todo.completed',
+  'todo.deleted',
+  'comment.created',
+  'category.created',
+  'category.updated',
+  'category.deleted'
+] as const;
+
+export type WebhookEvent = typeof WEBHOOK_EVENTS[number];
+
+// Sent by "send test event", regardless of the webhook's event filter
+export const TEST_EVENT = 'ping';
+
+const MAX_ATTEMPTS = 6;
+const BACKOFF_BASE_MS = 30 * 1000; // 30s, 1m, 2m, 4m, 8m between attempts
+const REQUEST_TIMEOUT_MS = 10 * 1000;
+const BATCH_SIZE = 20;
+
+// Loopback, private, link-local, carrier-grade NAT, multicast and reserved ranges
+const BLOCKED_ADDRESSES = new net.BlockList();
+for (const [address, prefix] of [
+  ['0.0.0.0', 8], ['10.0.0.0', 8], ['100.64.0.0', 10], ['127.0.0.0', 8], ['169.254.0.0', 16],
+  ['172.16.0.0', 12], ['192.0.0.0', 24], ['192.168.0.0', 16], ['198.18.0.0', 15], ['224.0.0.0', 3]
+] as const) {
+  BLOCKED_ADDRESSES.addSubnet(address, prefix, 'ipv4');
+}
+for (const [address, prefix] of [['::', 127], ['fc00::', 7], ['fe80::', 10], ['ff00::', 8]] as const) {
+  BLOCKED_ADDRESSES.addSubnet(address, prefix, 'ipv6');
+}
+
+let timer: NodeJS.Timeout | null = null;
+let dispatching = false;
+
+export const generateWebhookSecret = () => `whsec_${crypto.randomBytes(24).toString('hex')}`;
+
+export const parseEvents = (events: string) => events.split(',').filter(Boolean);
+
+// Signature over "<timestamp>.<body>" so receivers can also reject old replays
+export const signPayload = (secret: string, timestamp: string, body: string) => {
+  return crypto.createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex');
+};
+
+const buildPayload = (event: string, data: unknown) => {
+  return JSON.stringify({ event, createdAt: new Date().toISOString(), data });
+};
+
+// IPv4 addresses mapped into IPv6 are matched against the IPv4 ranges by BlockList
+const isPublicAddress = (address: string) => {
+  return !BLOCKED_ADDRESSES.check(address, net.isIPv6(address) ? 'ipv6' : 'ipv4');
+};
+
+// Resolve the host of a webhook URL and return why it may not be called, or null
+// when every address it resolves to is public
+export const checkWebhookUrl = async (url: string): Promise<string | null> => {
+  let hostname: string;
+  try {
+    hostname = new URL(url).hostname.replace(/^\[|\]$/g, '');
+  } catch (error) {
+    return 'Invalid URL';
+  }
+
+  let addresses: dns.LookupAddress[];
+  try {
+    addresses = net.isIP(hostname)
+      ? [{ address: hostname, family: net.isIP(hostname) }]
+      : await dns.promises.lookup(hostname, { all: true, verbatim: true });
+  } catch (error) {
+    return `Could not resolve ${hostname}`;
+  }
+
+  if (addresses.length === 0 || !addresses.every(({ address }) => isPublicAddress(address))) {
+    return 'Webhook URLs must point to a public address';
+  }
+  return null;
+};
+
+// dns.lookup for delivery connections that fails for private addresses. The
+// check runs on the address the socket connects to, so a host that resolves
+// to something else after checkWebhookUrl still can't reach the internal network.
+const publicLookup: net.LookupFunction = (hostname, options, callback) => {
+  dns.lookup(hostname, options, (error, address, family) => {
+    if (error) {
+      callback(error, address, family);
+      return;
+    }
+    const addresses = typeof address === 'string' ? [address] : address.map(entry => entry.address);
+    if (!addresses.every(isPublicAddress)) {
+      callback(new Error('Webhook URLs must point to a public address'), address, family);
+      return;
+    }
+    callback(null, address, family);
+  });
+};
+
+// POST a payload and resolve with the response status. Redirects are not
+// followed, and only the status is kept: the body is never stored or shown.
+const postPayload = (url: string, headers: Record<string, string>, body: string): Promise<number> => {
+  return new Promise((resolve, reject) => {
+    const target = new URL(url);
+    const request = (target.protocol === 'https:' ? https : http).request(target, {
+      method: 'POST',
+      headers: { ...headers, 'Content-Length': Buffer.byteLength(body).toString() },
+      lookup: publicLookup
+    }, response => {
+      response.resume();
+      resolve(response.statusCode || 0);
+    });
+
+    request.setTimeout(REQUEST_TIMEOUT_MS, () => request.destroy(new Error('Request timed out')));
+    request.on('error', reject);
+    request.end(body);
+  });
+};
+
+// Queue an event for the personal webhooks of `userId` and, for team todos, the
+// webhooks of the team. Errors are logged and swallowed so that the request
+// which made the change still succeeds.
+export const emitWebhookEvent = async (
+  event: WebhookEvent,
+  target: { userId: string; teamId?: string | null },
+  data: unknown
+): Promise<void> => {
+  try {
+    const webhooks = await prisma.webhook.findMany({
+      where: {
+        active: true,
+        OR: [
+          { userId: target.userId, teamId: null },
+          ...(target.teamId ? [{ teamId: target.teamId }] : [])
+        ]
+      },
+      select: { id: true, events: true }
+    });
+
+    const subscribed = webhooks.filter(webhook => parseEvents(webhook.events).includes(event));
+    if (subscribed.length === 0) return;
+
+    const payload = buildPayload(event, data);
+    await prisma.webhookDelivery.createMany({
+      data: subscribed.map(webhook => ({ webhookId: webhook.id, event, payload }))
+    });
+
+    void dispatchPendingDeliveries();
+  } catch (error) {
+    console.error('Queue webhook event error:', error);
+  }
+};
+
+// Send one delivery and record the outcome, scheduling a retry on failure
+const attemptDelivery = async (delivery: WebhookDelivery & { webhook: Webhook }) => {
+  const now = new Date();
+  const attempts = delivery.attempts + 1;
+  const timestamp = Math.floor(now.getTime() / 1000).toString();
+
+  let responseStatus: number | null = null;
+  let error: string | null = null;
+
+  if (!delivery.webhook.active) {
+    error = 'Webhook is disabled';
+  } else {
+    // The host may have been pointed somewhere else since the webhook was saved
+    error = await checkWebhookUrl(delivery.webhook.url);
+  }
+
+  if (!error) {
+    try {
+      responseStatus = await postPayload(delivery.webhook.url, {
+        'Content-Type': 'application/json',
+        'User-Agent': 'TodoApp-Webhooks/1.0',
+        'X-Webhook-Event': delivery.event,
+        'X-Webhook-Delivery': delivery.id,
+        'X-Webhook-Timestamp': timestamp,
+        'X-Webhook-Signature': `sha256=${signPayload(delivery.webhook.secret, timestamp, delivery.payload)}`
+      }, delivery.payload);
+
+      // A redirect could lead anywhere, it counts as a failed delivery
+      if (responseStatus < 200 || responseStatus >= 300) {
+        error = `Endpoint responded with HTTP ${responseStatus}`;
+      }
+    } catch (requestError: any) {
+      error = requestError?.message || 'Request failed';
+    }
+  }
+
+  const giveUp = !delivery.webhook.active || attempts >= MAX_ATTEMPTS;
+
+  return prisma.webhookDelivery.update({
+    where: { id: delivery.id },
+    data: {
+      attempts,
+      lastAttemptAt: now,
+      responseStatus,
+      error,
+      status: !error ? 'SUCCEEDED' : giveUp ? 'FAILED' : 'PENDING',
+      nextAttemptAt: !error || giveUp ? null : new Date(now.getTime() + BACKOFF_BASE_MS * 2 ** (attempts - 1))
+    }
+  });
+};
+
+// Send every delivery that is due. Runs one batch at a time; a call made while
+// a batch is in flight is skipped and picked up by the next tick.
+export const dispatchPendingDeliveries = async (now: Date = new Date()): Promise<number> => {
+  if (dispatching) return 0;
+  dispatching = true;
+
+  try {
+    const deliveries = await prisma.webhookDelivery.findMany({
+      where: { status: 'PENDING', nextAttemptAt: { lte: now } },
+      include: { webhook: true },
+      orderBy: { nextAttemptAt: 'asc' },
+      take: BATCH_SIZE
+    });
+
+    for (const delivery of deliveries) {
+      await attemptDelivery(delivery);
+    }
+    return deliveries.length;
+  } catch (error) {
+    console.error('Dispatch webhooks error:', error);
+    return 0;
+  } finally {
+    dispatching = false;
+  }
+};
+
+// Create a delivery and send it right away, returning the recorded result.
+// Used for test events and replays, where the user is waiting for the outcome.
+const deliverNow = async (webhook: Webhook, event: string, payload: string) => {
+  const delivery = await prisma.webhookDelivery.create({
+    data: { webhookId: webhook.id, event, payload, nextAttemptAt: null }
+  });
+  return attemptDelivery({ ...delivery, webhook });
+};
+
+export const sendTestEvent = (webhook: Webhook) => {
+  return deliverNow(webhook, TEST_EVENT, buildPayload(TEST_EVENT, { webhookId: webhook.id }));
+};
+
+// Send a logged delivery again with its original payload, as a new delivery
+export const replayDelivery = (webhook: Webhook, delivery: WebhookDelivery) => {
+  return deliverNow(webhook, delivery.event, delivery.payload);
+};
+
+export const startWebhookDispatcher = (): void => {
+  if (timer) return;
+
+  const intervalMs = parseInt(process.env['WEBHOOK_DISPATCH_INTERVAL_MS'] || '15000');
+  timer = setInterval(() => {
+    void dispatchPendingDeliveries();
+  }, intervalMs);
+};
+
+export const stopWebhookDispatcher = (): void => {
+  if (timer) {
+    clearInterval(timer);
+    timer = null;
+  }
+};
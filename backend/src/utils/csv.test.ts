@@ -0,0 +1,51 @@
+import { parseCsv, parseCsvRecords, toCsv } from './csv';
+
+describe('toCsv', () => {
+  it('quotes fields with commas, quotes and line breaks', () => {
+    expect(toCsv(['a', 'b'], [['plain', 'with, comma'], ['say "hi"', 'two\nlines']])).toBe(
+      'a,b\r\nplain,"with, comma"\r\n"say ""hi""","two\nlines"\r\n'
+    );
+  });
+
+  it('writes empty values, numbers and dates', () => {
+    expect(toCsv(['a', 'b', 'c'], [[null, 3, new Date('2024-01-02T03:04:05.000Z')]])).toBe(
+      'a,b,c\r\n,3,2024-01-02T03:04:05.000Z\r\n'
+    );
+  });
+
+  it('prefixes values a spreadsheet would run as a formula', () => {
+    expect(toCsv(['a'], [['=SUM(A1)'], ['+1'], ['-1'], ['@cmd'], ['a=b']])).toBe(
+      "a\r\n'=SUM(A1)\r\n'+1\r\n'-1\r\n'@cmd\r\na=b\r\n"
+    );
+  });
+
+  it('prefixes values starting with a tab or carriage return', () => {
+    expect(toCsv(['a'], [['\t=1+1'], ['\r=1+1']])).toBe(
+      "a\r\n'\t=1+1\r\n\"'\r=1+1\"\r\n"
+    );
+  });
+});
+
+describe('parseCsv', () => {
+  it('round-trips what toCsv writes', () => {
+    const rows = [
+      ['plain', 'with, comma', 'say "hi"'],
+      ['two\r\nlines', '', '=HYPERLINK("x")'],
+      ['-5', "'quoted", '@user'],
+      ['\tindented', '\rreturn', 'plain']
+    ];
+    expect(parseCsv(toCsv(['a', 'b', 'c'], rows))).toEqual([['a', 'b', 'c'], ...rows]);
+  });
+
+  it('skips blank lines and strips the byte order mark', () => {
+    expect(parseCsv('\uFEFFa,b\n\n1,2\n,\n')).toEqual([['a', 'b'], ['1', '2']]);
+  });
+});
+
+describe('parseCsvRecords', () => {
+  it('reports the line each record starts on', () => {
+    const records = parseCsvRecords('title,notes\r\none,"multi\r\nline"\r\n\r\ntwo,x\nthree,y');
+    expect(records.map(record => record.line)).toEqual([1, 2, 5, 6]);
+    expect(records[1].fields).toEqual(['one', 'multi\r\nline']);
+  });
+});
@@ -0,0 +1,84 @@
+// Minimal RFC 4180 CSV reading and writing
+// Fields containing commas, quotes or line breaks are wrapped in double quotes,
+// with embedded quotes doubled. Fields that a spreadsheet would run as a formula
+// are written with a leading apostrophe, which is dropped again when reading.
+
+const FORMULA_PREFIX = /^[=+\-@\t\r]/;
+
+export interface CsvRecord {
+  // 1-based line the record starts on, quoted line breaks included
+  line: number;
+  fields: string[];
+}
+
+// Parse CSV text into records, skipping blank lines
+export const parseCsvRecords = (text: string): CsvRecord[] => {
+  const records: CsvRecord[] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+  let line = 1;
+  let rowLine = 1;
+
+  const endField = () => {
+    row.push(field.startsWith("'") && FORMULA_PREFIX.test(field.slice(1)) ? field.slice(1) : field);
+    field = '';
+  };
+
+  // Strip the byte order mark spreadsheet apps like to add
+  const input = text.charCodeAt(0) === 0xfeff ? text.slice(1) : text;
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+
+    if (inQuotes) {
+      if (char === '"') {
+        if (input[i + 1] === '"') {
+          field += '"';
+          i++;
+        } else {
+          inQuotes = false;
+        }
+      } else {
+        if (char === '\n' || (char === '\r' && input[i + 1] !== '\n')) line++;
+        field += char;
+      }
+      continue;
+    }
+
+    if (char === '"') {
+      inQuotes = true;
+    } else if (char === ',') {
+      endField();
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && input[i + 1] === '\n') i++;
+      endField();
+      if (row.some(value => value !== '')) records.push({ line: rowLine, fields: row });
+      row = [];
+      line++;
+      rowLine = line;
+    } else {
+      field += char;
+    }
+  }
+
+  endField();
+  if (row.some(value => value !== '')) records.push({ line: rowLine, fields: row });
+
+  return records;
+};
+
+// Parse CSV text into rows of fields, skipping blank lines
+export const parseCsv = (text: string): string[][] => parseCsvRecords(text).map(record => record.fields);
+
+const escapeField = (value: unknown): string => {
+  if (value === null || value === undefined) return '';
+  let text = value instanceof Date ? value.toISOString() : String(value);
+  if (FORMULA_PREFIX.test(text)) text = `'${text}`;
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+// Serialize a header row and data rows into CSV text
+export const toCsv = (header: string[], rows: unknown[][]): string => {
+  return [header, ...rows].map(row => row.map(escapeField).join(',')).join('\r\n') + '\r\n';
+};
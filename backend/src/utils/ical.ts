@@ -0,0 +1,111 @@
+// iCalendar (RFC 5545) serialization for the calendar feed
+// Lines are CRLF terminated and folded at 75 octets, text values are escaped.
+
+export type ICalComponent = 'VTODO' | 'VEVENT';
+
+export interface ICalEntry {
+  uid: string;
+  summary: string;
+  description?: string | null;
+  start: Date;
+  durationMinutes?: number;
+  status: string;
+  priority: number;
+  categories: string[];
+  created: Date;
+  lastModified: Date;
+  completed?: Date | null;
+}
+
+// Escape a TEXT value
+const escapeText = (value: string) => {
+  return value
+    .replace(/\\/g, '\\\\')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,')
+    .replace(/\r?\n/g, '\\n');
+};
+
+// UTC date-time in the basic format, e.g. 20240131T093000Z
+export const formatICalDate = (date: Date) => {
+  return date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+};
+
+// Fold a content line so no physical line is longer than 75 octets
+const foldLine = (line: string) => {
+  const parts: string[] = [];
+  let current = '';
+  let currentBytes = 0;
+
+  for (const char of line) {
+    const bytes = Buffer.byteLength(char);
+    // Continuation lines start with a space, which counts towards the limit
+    const limit = parts.length === 0 ? 75 : 74;
+    if (currentBytes + bytes > limit) {
+      parts.push(current);
+      current = '';
+      currentBytes = 0;
+    }
+    current += char;
+    currentBytes += bytes;
+  }
+  parts.push(current);
+
+  return parts.join('\r\n ');
+};
+
+const buildEntry = (component: ICalComponent, entry: ICalEntry, now: Date) => {
+  const lines = [
+    `BEGIN:${component}`,
+    `UID:${entry.uid}`,
+    `DTSTAMP:${formatICalDate(now)}`,
+    `CREATED:${formatICalDate(entry.created)}`,
+    `LAST-MODIFIED:${formatICalDate(entry.lastModified)}`,
+    `SUMMARY:${escapeText(entry.summary)}`
+  ];
+
+  if (entry.description) {
+    lines.push(`DESCRIPTION:${escapeText(entry.description)}`);
+  }
+
+  if (component === 'VTODO') {
+    lines.push(`DUE:${formatICalDate(entry.start)}`);
+    if (entry.completed) {
+      lines.push(`COMPLETED:${formatICalDate(entry.completed)}`);
+    }
+  } else {
+    lines.push(`DTSTART:${formatICalDate(entry.start)}`);
+    lines.push(`DURATION:PT${entry.durationMinutes || 30}M`);
+  }
+
+  lines.push(`STATUS:${entry.status}`);
+  lines.push(`PRIORITY:${entry.priority}`);
+
+  if (entry.categories.length > 0) {
+    lines.push(`CATEGORIES:${entry.categories.map(escapeText).join(',')}`);
+  }
+
+  lines.push(`END:${component}`);
+  return lines;
+};
+
+// Build a complete VCALENDAR document
+export const buildCalendar = (
+  name: string,
+  component: ICalComponent,
+  entries: ICalEntry[],
+  now: Date = new Date()
+) => {
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    'PRODID:-//Todo App//Calendar Feed//EN',
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    `X-WR-CALNAME:${escapeText(name)}`,
+    ...entries.flatMap(entry => buildEntry(component, entry, now)),
+    'END:VCALENDAR'
+  ];
+
+  return lines.map(foldLine).join('\r\n') + '\r\n';
+};
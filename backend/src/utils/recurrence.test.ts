@@ -0,0 +1,114 @@
+import {
+  getNextOccurrence,
+  parseRecurrenceRule,
+  toRecurrenceRule,
+  validateRecurrence,
+  Recurrence
+} from './recurrence';
+
+const utc = (value: string) => new Date(`${value}T09:00:00.000Z`);
+const day = (date: Date | null) => date && date.toISOString().slice(0, 10);
+
+// Follow a series for `steps` occurrences starting at `from`
+const series = (recurrence: Recurrence, from: string, steps: number) => {
+  const dates: (string | null)[] = [];
+  let current: Date | null = utc(from);
+  for (let index = 1; index <= steps && current; index++) {
+    current = getNextOccurrence(recurrence, current, index);
+    dates.push(day(current));
+  }
+  return dates;
+};
+
+describe('parseRecurrenceRule', () => {
+  it('parses every supported part', () => {
+    expect(parseRecurrenceRule('FREQ=WEEKLY;INTERVAL=2;BYDAY=MO,WE;COUNT=10')).toEqual({
+      frequency: 'WEEKLY',
+      interval: 2,
+      byWeekday: ['MO', 'WE'],
+      count: 10
+    });
+    expect(parseRecurrenceRule('FREQ=MONTHLY;BYMONTHDAY=31;UNTIL=2024-12-31T00:00:00.000Z')).toEqual({
+      frequency: 'MONTHLY',
+      interval: 1,
+      byMonthDay: 31,
+      until: '2024-12-31T00:00:00.000Z'
+    });
+  });
+
+  it('ignores unknown weekdays and rejects unknown frequencies', () => {
+    expect(parseRecurrenceRule('FREQ=WEEKLY;BYDAY=MO,XX')!.byWeekday).toEqual(['MO']);
+    expect(parseRecurrenceRule('FREQ=HOURLY')).toBeNull();
+    expect(parseRecurrenceRule('')).toBeNull();
+    expect(parseRecurrenceRule(null)).toBeNull();
+  });
+
+  it('round-trips through toRecurrenceRule', () => {
+    const recurrence: Recurrence = { frequency: 'WEEKLY', interval: 3, byWeekday: ['FR', 'MO'], count: 4 };
+    expect(toRecurrenceRule(recurrence)).toBe('FREQ=WEEKLY;INTERVAL=3;BYDAY=MO,FR;COUNT=4');
+    expect(parseRecurrenceRule(toRecurrenceRule(recurrence))).toEqual({ ...recurrence, byWeekday: ['MO', 'FR'] });
+  });
+});
+
+describe('validateRecurrence', () => {
+  it('accepts a valid rule', () => {
+    expect(validateRecurrence({ frequency: 'DAILY', interval: 2 })).toBeNull();
+  });
+
+  it('reports the first problem', () => {
+    expect(validateRecurrence(null)).toBe('Recurrence must be an object');
+    expect(validateRecurrence({ frequency: 'HOURLY' })).toMatch(/^Frequency must be one of/);
+    expect(validateRecurrence({ frequency: 'DAILY', interval: 0 })).toMatch(/^Interval/);
+    expect(validateRecurrence({ frequency: 'DAILY', byWeekday: ['MO'] })).toMatch(/weekly frequency/);
+    expect(validateRecurrence({ frequency: 'MONTHLY', byMonthDay: 32 })).toMatch(/^Month day/);
+    expect(validateRecurrence({ frequency: 'DAILY', count: 2, until: '2024-01-01' })).toMatch(/not both/);
+  });
+});
+
+describe('getNextOccurrence', () => {
+  it('steps daily and weekly by the interval', () => {
+    expect(series({ frequency: 'DAILY', interval: 3 }, '2024-01-30', 2)).toEqual(['2024-02-02', '2024-02-05']);
+    expect(series({ frequency: 'WEEKLY', interval: 2 }, '2024-01-01', 2)).toEqual(['2024-01-15', '2024-01-29']);
+  });
+
+  it('visits the selected weekdays of every other week', () => {
+    // 2024-01-01 is a Monday
+    expect(series({ frequency: 'WEEKLY', interval: 2, byWeekday: ['MO', 'WE'] }, '2024-01-01', 4)).toEqual([
+      '2024-01-03',
+      '2024-01-15',
+      '2024-01-17',
+      '2024-01-29'
+    ]);
+  });
+
+  it('keeps a month-end anchor through shorter months', () => {
+    expect(series({ frequency: 'MONTHLY', interval: 1, byMonthDay: 31 }, '2024-01-31', 4)).toEqual([
+      '2024-02-29',
+      '2024-03-31',
+      '2024-04-30',
+      '2024-05-31'
+    ]);
+  });
+
+  it('comes back to Feb 29 in the next leap year', () => {
+    expect(series({ frequency: 'YEARLY', interval: 1, byMonthDay: 29 }, '2024-02-29', 4)).toEqual([
+      '2025-02-28',
+      '2026-02-28',
+      '2027-02-28',
+      '2028-02-29'
+    ]);
+  });
+
+  it('keeps the time of day', () => {
+    const next = getNextOccurrence({ frequency: 'MONTHLY', interval: 1, byMonthDay: 15 }, new Date('2024-03-15T17:45:00.000Z'));
+    expect(next!.toISOString()).toBe('2024-04-15T17:45:00.000Z');
+  });
+
+  it('ends after COUNT occurrences or past UNTIL', () => {
+    expect(series({ frequency: 'DAILY', interval: 1, count: 3 }, '2024-01-01', 5)).toEqual(['2024-01-02', '2024-01-03', null]);
+    expect(series({ frequency: 'DAILY', interval: 1, until: '2024-01-02T23:59:59.000Z' }, '2024-01-01', 3)).toEqual([
+      '2024-01-02',
+      null
+    ]);
+  });
+});
@@ -0,0 +1,199 @@
+// Recurrence rules for repeating todos
+// Rules are stored on the todo as a subset of the iCalendar RRULE format,
+// e.g. "FREQ=WEEKLY;INTERVAL=2;BYDAY=MO,WE;COUNT=10"
+
+export const FREQUENCIES = ['DAILY', 'WEEKLY', 'MONTHLY', 'YEARLY'] as const;
+export const WEEKDAYS = ['SU', 'MO', 'TU', 'WE', 'TH', 'FR', 'SA'] as const;
+
+export type Frequency = (typeof FREQUENCIES)[number];
+export type Weekday = (typeof WEEKDAYS)[number];
+
+export interface Recurrence {
+  frequency: Frequency;
+  interval: number;
+  byWeekday?: Weekday[];
+  byMonthDay?: number;
+  count?: number;
+  until?: string;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const isIntegerBetween = (value: unknown, min: number, max: number): value is number => {
+  return typeof value === 'number' && Number.isInteger(value) && value >= min && value <= max;
+};
+
+// Validate a recurrence object sent by the client, returns an error message or null
+export const validateRecurrence = (input: unknown): string | null => {
+  if (!input || typeof input !== 'object') {
+    return 'Recurrence must be an object';
+  }
+  const rule = input as Record<string, unknown>;
+
+  if (!FREQUENCIES.includes(rule.frequency as Frequency)) {
+    return `Frequency must be one of ${FREQUENCIES.join(', ')}`;
+  }
+
+  if (rule.interval !== undefined && !isIntegerBetween(rule.interval, 1, 365)) {
+    return 'Interval must be an integer between 1 and 365';
+  }
+
+  if (rule.byWeekday !== undefined) {
+    if (!Array.isArray(rule.byWeekday) || rule.byWeekday.some(day => !WEEKDAYS.includes(day))) {
+      return `Weekdays must be a list of ${WEEKDAYS.join(', ')}`;
+    }
+    if (rule.byWeekday.length > 0 && rule.frequency !== 'WEEKLY') {
+      return 'Weekdays can only be used with a weekly frequency';
+    }
+  }
+
+  if (rule.byMonthDay !== undefined && !isIntegerBetween(rule.byMonthDay, 1, 31)) {
+    return 'Month day must be an integer between 1 and 31';
+  }
+
+  if (rule.count !== undefined && rule.count !== null && !isIntegerBetween(rule.count, 1, Infinity)) {
+    return 'Count must be a positive integer';
+  }
+
+  if (rule.until !== undefined && rule.until !== null) {
+    if (isNaN(new Date(rule.until as string).getTime())) {
+      return 'Until must be a valid date';
+    }
+  }
+
+  if (rule.count && rule.until) {
+    return 'Recurrence can end after a count or on a date, not both';
+  }
+
+  return null;
+};
+
+// Convert a recurrence object into an RRULE string
+export const toRecurrenceRule = (recurrence: Recurrence): string => {
+  const parts = [`FREQ=${recurrence.frequency}`, `INTERVAL=${recurrence.interval || 1}`];
+
+  if (recurrence.byWeekday && recurrence.byWeekday.length > 0) {
+    const days = WEEKDAYS.filter(day => recurrence.byWeekday!.includes(day));
+    parts.push(`BYDAY=${days.join(',')}`);
+  }
+  if (recurrence.byMonthDay) {
+    parts.push(`BYMONTHDAY=${recurrence.byMonthDay}`);
+  }
+  if (recurrence.count) {
+    parts.push(`COUNT=${recurrence.count}`);
+  }
+  if (recurrence.until) {
+    parts.push(`UNTIL=${new Date(recurrence.until).toISOString()}`);
+  }
+
+  return parts.join(';');
+};
+
+// Parse an RRULE string back into a recurrence object
+export const parseRecurrenceRule = (rule: string | null | undefined): Recurrence | null => {
+  if (!rule) return null;
+
+  const values: Record<string, string> = {};
+  for (const part of rule.split(';')) {
+    const [key, value] = part.split('=');
+    if (key && value) values[key.toUpperCase()] = value;
+  }
+
+  if (!FREQUENCIES.includes(values['FREQ'] as Frequency)) {
+    return null;
+  }
+
+  const recurrence: Recurrence = {
+    frequency: values['FREQ'] as Frequency,
+    interval: parseInt(values['INTERVAL']) || 1
+  };
+
+  if (values['BYDAY']) {
+    recurrence.byWeekday = values['BYDAY']
+      .split(',')
+      .filter(day => WEEKDAYS.includes(day as Weekday)) as Weekday[];
+  }
+  if (values['BYMONTHDAY']) recurrence.byMonthDay = parseInt(values['BYMONTHDAY']);
+  if (values['COUNT']) recurrence.count = parseInt(values['COUNT']);
+  if (values['UNTIL']) recurrence.until = values['UNTIL'];
+
+  return recurrence;
+};
+
+const daysInMonth = (year: number, month: number) => {
+  return new Date(Date.UTC(year, month + 1, 0)).getUTCDate();
+};
+
+// Move a date forward by whole months, keeping the anchor day where the month allows it
+const addMonths = (date: Date, months: number, anchorDay: number): Date => {
+  const result = new Date(date);
+  const target = date.getUTCMonth() + months;
+  const year = date.getUTCFullYear() + Math.floor(target / 12);
+  const month = ((target % 12) + 12) % 12;
+
+  result.setUTCFullYear(year, month, Math.min(anchorDay, daysInMonth(year, month)));
+  return result;
+};
+
+const startOfWeek = (date: Date) => {
+  const start = new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()));
+  return start.getTime() - start.getUTCDay() * DAY_MS;
+};
+
+// Calculate the occurrence following `from`.
+// `occurrence` is the 1-based position of `from` within the series; returns
+// null when the series has ended (COUNT reached or past UNTIL).
+export const getNextOccurrence = (
+  recurrence: Recurrence,
+  from: Date,
+  occurrence: number = 1
+): Date | null => {
+  if (recurrence.count && occurrence >= recurrence.count) {
+    return null;
+  }
+
+  const interval = recurrence.interval || 1;
+  let next: Date | null = null;
+
+  switch (recurrence.frequency) {
+    case 'DAILY':
+      next = new Date(from.getTime() + interval * DAY_MS);
+      break;
+
+    case 'WEEKLY': {
+      const weekdays = recurrence.byWeekday || [];
+      if (weekdays.length === 0) {
+        next = new Date(from.getTime() + interval * 7 * DAY_MS);
+        break;
+      }
+
+      // Walk forward day by day until we hit a selected weekday in an active week
+      const fromWeek = startOfWeek(from);
+      for (let offset = 1; offset <= interval * 7 + 7; offset++) {
+        const candidate = new Date(from.getTime() + offset * DAY_MS);
+        const weeksApart = Math.round((startOfWeek(candidate) - fromWeek) / (7 * DAY_MS));
+        if (weeksApart % interval === 0 && weekdays.includes(WEEKDAYS[candidate.getUTCDay()])) {
+          next = candidate;
+          break;
+        }
+      }
+      break;
+    }
+
+    case 'MONTHLY':
+      next = addMonths(from, interval, recurrence.byMonthDay || from.getUTCDate());
+      break;
+
+    case 'YEARLY':
+      next = addMonths(from, interval * 12, recurrence.byMonthDay || from.getUTCDate());
+      break;
+  }
+
+  if (!next) return null;
+
+  if (recurrence.until && next.getTime() > new Date(recurrence.until).getTime()) {
+    return null;
+  }
+
+  return next;
+};
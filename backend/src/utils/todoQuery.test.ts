@@ -0,0 +1,103 @@
+import { parseTodoQuery } from './todoQuery';
+
+// Wednesday 2024-05-15, 10:30 local time
+const now = new Date(2024, 4, 15, 10, 30);
+const userId = 'user-1';
+
+const parse = (query: string, categoryNames?: string[]) => parseTodoQuery(query, { userId, categoryNames, now });
+
+// Conditions of a query that is expected to parse
+const conditions = (query: string, categoryNames?: string[]) => {
+  const parsed = parse(query, categoryNames);
+  expect(parsed.error).toBeNull();
+  return parsed.where!.AND;
+};
+
+const errorOf = (query: string) => parse(query).error;
+
+describe('parseTodoQuery', () => {
+  it('matches everything for an empty query', () => {
+    expect(conditions('   ')).toEqual([]);
+  });
+
+  it('searches words and quoted phrases in title and description', () => {
+    expect(conditions('report "exact phrase"')).toEqual([
+      { OR: [{ title: { contains: 'report' } }, { description: { contains: 'report' } }] },
+      { OR: [{ title: { contains: 'exact phrase' } }, { description: { contains: 'exact phrase' } }] }
+    ]);
+  });
+
+  it('parses status lists with aliases', () => {
+    expect(conditions('status:todo,in-progress is:done')).toEqual([
+      { status: { in: ['TODO', 'IN_PROGRESS'] } },
+      { status: { in: ['COMPLETED'] } }
+    ]);
+  });
+
+  it('expands priority comparisons in their semantic order', () => {
+    expect(conditions('priority:>=high prio:<medium priority:low,urgent')).toEqual([
+      { priority: { in: ['HIGH', 'URGENT'] } },
+      { priority: { in: ['LOW'] } },
+      { priority: { in: ['LOW', 'URGENT'] } }
+    ]);
+  });
+
+  it('turns named, relative and ISO dates into ranges', () => {
+    const today = new Date(2024, 4, 15);
+    const tomorrow = new Date(2024, 4, 16);
+    expect(conditions('due:today')).toEqual([{ dueDate: { gte: today, lt: tomorrow } }]);
+    expect(conditions('due:<7d')).toEqual([{ dueDate: { lt: new Date(now.getTime() + 7 * 24 * 60 * 60 * 1000) } }]);
+    expect(conditions('created:>=-12h')).toEqual([{ createdAt: { gte: new Date(now.getTime() - 12 * 60 * 60 * 1000) } }]);
+    expect(conditions('updated:>2024-05-01')).toEqual([{ updatedAt: { gte: new Date(2024, 4, 2) } }]);
+  });
+
+  it('supports the due date keywords', () => {
+    expect(conditions('due:none due:any due:overdue')).toEqual([
+      { dueDate: null },
+      { dueDate: { not: null } },
+      { dueDate: { lt: now }, status: { notIn: ['COMPLETED', 'CANCELLED'] } }
+    ]);
+  });
+
+  it('matches categories by name, fixing up their case', () => {
+    expect(conditions('cat:"deep work" cat:work,HOME category:none', ['Deep Work', 'Home'])).toEqual([
+      { categories: { some: { category: { name: { in: ['Deep Work'] }, deletedAt: null } } } },
+      { categories: { some: { category: { name: { in: ['work', 'Home'] }, deletedAt: null } } } },
+      { categories: { none: {} } }
+    ]);
+  });
+
+  it('matches assignees by "me", "none" or a name', () => {
+    expect(conditions('assignee:me assignee:none assignee:ada')).toEqual([
+      { assignees: { some: { userId } } },
+      { assignees: { none: {} } },
+      { assignees: { some: { user: { OR: [{ name: { contains: 'ada' } }, { email: 'ada' }] } } } }
+    ]);
+  });
+
+  it('negates any term with a leading dash', () => {
+    expect(conditions('-cat:personal -draft')).toEqual([
+      { NOT: { categories: { some: { category: { name: { in: ['personal'] }, deletedAt: null } } } } },
+      { NOT: { OR: [{ title: { contains: 'draft' } }, { description: { contains: 'draft' } }] } }
+    ]);
+  });
+
+  it('treats a lone dash as a search word', () => {
+    expect(conditions('a - b')).toHaveLength(3);
+  });
+
+  it('reports syntax errors with their position', () => {
+    expect(errorOf('report owner:me')).toMatch(/^Unknown field "owner" at position 8\. Fields are status, /);
+    expect(errorOf('cat:"deep work')).toBe('Unclosed quote at position 5');
+    expect(errorOf('status: todo')).toBe('Missing value for "status" at position 1');
+  });
+
+  it('reports invalid values with their position', () => {
+    expect(errorOf('status:todo,later')).toMatch(/^Invalid status "later" at position 1\. Use todo, /);
+    expect(errorOf('x priority:critical')).toMatch(/^Invalid priority "critical" at position 3\./);
+    expect(errorOf('priority:>low,high')).toBe('A comparison takes a single priority at position 1');
+    expect(errorOf('due:soon')).toMatch(/^Invalid date "soon" at position 1\. .*overdue, none, any/);
+    expect(errorOf('created:2024-02-30')).toMatch(/^Invalid date "2024-02-30"/);
+    expect(errorOf('created:none')).not.toMatch(/overdue/);
+  });
+});
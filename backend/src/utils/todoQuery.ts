@@ -0,0 +1,285 @@
+// Todo search query language, parsed into a Prisma where clause
+// A query is a list of space separated terms which must all match:
+//   status:todo,in_progress    one of several values
+//   priority:>=high            comparisons on priority, due, created and updated
+//   due:<7d  due:today  due:none  due:2024-05-01   relative (h, d, w), named or ISO dates
+//   cat:work  assignee:me      categories by name, assignees ("me", "none" or a name)
+//   -cat:personal              "-" negates any term
+//   report "exact phrase"      words and phrases searched in title and description
+// Values containing spaces can be quoted: cat:"deep work".
+import { Prisma } from '@prisma/client';
+
+export const QUERY_FIELDS = ['status', 'priority', 'due', 'created', 'updated', 'cat', 'assignee'] as const;
+
+export type QueryField = (typeof QUERY_FIELDS)[number];
+
+const FIELD_ALIASES: Record<string, QueryField> = {
+  status: 'status',
+  is: 'status',
+  priority: 'priority',
+  prio: 'priority',
+  due: 'due',
+  created: 'created',
+  updated: 'updated',
+  cat: 'cat',
+  category: 'cat',
+  assignee: 'assignee'
+};
+
+const STATUSES = ['TODO', 'IN_PROGRESS', 'COMPLETED', 'CANCELLED'];
+const STATUS_ALIASES: Record<string, string> = { DONE: 'COMPLETED', CANCELED: 'CANCELLED' };
+const RESOLVED_STATUSES = ['COMPLETED', 'CANCELLED'];
+
+// Lowest to highest, for comparisons such as priority:>=high
+const PRIORITIES = ['LOW', 'MEDIUM', 'HIGH', 'URGENT'];
+
+const OPERATORS = ['>=', '<=', '>', '<', '='] as const;
+type Operator = (typeof OPERATORS)[number];
+
+const HOUR_MS = 60 * 60 * 1000;
+const UNIT_MS: Record<string, number> = { h: HOUR_MS, d: 24 * HOUR_MS, w: 7 * 24 * HOUR_MS };
+
+interface Term {
+  field: QueryField | null;
+  value: string;
+  negated: boolean;
+  position: number;
+}
+
+export type ParsedTodoQuery = { where: Prisma.TodoWhereInput; error: null } | { where: null; error: string };
+
+// Split a query into terms. Returns an error message for unclosed quotes,
+// unknown fields and fields without a value.
+const tokenize = (query: string): Term[] | string => {
+  const terms: Term[] = [];
+  let i = 0;
+
+  while (i < query.length) {
+    if (/\s/.test(query[i])) {
+      i++;
+      continue;
+    }
+
+    const position = i + 1;
+    let negated = false;
+    if (query[i] === '-' && i + 1 < query.length && !/\s/.test(query[i + 1])) {
+      negated = true;
+      i++;
+    }
+
+    let field: QueryField | null = null;
+    const fieldMatch = /^([a-z]+):/i.exec(query.slice(i));
+    if (fieldMatch) {
+      const name = fieldMatch[1].toLowerCase();
+      field = FIELD_ALIASES[name];
+      if (!field) {
+        return `Unknown field "${name}" at position ${position}. Fields are ${QUERY_FIELDS.join(', ')}`;
+      }
+      i += fieldMatch[0].length;
+    }
+
+    let value: string;
+    if (query[i] === '"') {
+      const end = query.indexOf('"', i + 1);
+      if (end === -1) {
+        return `Unclosed quote at position ${i + 1}`;
+      }
+      value = query.slice(i + 1, end);
+      i = end + 1;
+    } else {
+      const start = i;
+      while (i < query.length && !/\s/.test(query[i])) i++;
+      value = query.slice(start, i);
+    }
+
+    if (field && value.trim() === '') {
+      return `Missing value for "${field}" at position ${position}`;
+    }
+    if (value.trim() !== '') {
+      terms.push({ field, value, negated, position });
+    }
+  }
+
+  return terms;
+};
+
+// Leading comparison operator of a value, "=" when there is none
+const splitOperator = (value: string): [Operator, string] => {
+  const operator = OPERATORS.find(op => value.startsWith(op));
+  return operator ? [operator, value.slice(operator.length)] : ['=', value];
+};
+
+const splitList = (value: string) => value.split(',').map(item => item.trim());
+
+const startOfDay = (date: Date) => new Date(date.getFullYear(), date.getMonth(), date.getDate());
+
+const addDays = (date: Date, days: number) => new Date(date.getFullYear(), date.getMonth(), date.getDate() + days);
+
+// The moment or day a date value refers to, as the range [start, end).
+// Accepts today/tomorrow/yesterday, offsets from now such as 7d or -12h and
+// YYYY-MM-DD dates.
+const parseDateValue = (value: string, now: Date): { start: Date; end: Date } | null => {
+  const lower = value.toLowerCase();
+  const named: Record<string, number> = { yesterday: -1, today: 0, tomorrow: 1 };
+  if (lower in named) {
+    const start = addDays(startOfDay(now), named[lower]);
+    return { start, end: addDays(start, 1) };
+  }
+
+  const offset = /^([+-]?)(\d+)([hdw])$/.exec(lower);
+  if (offset) {
+    const ms = parseInt(offset[2]) * UNIT_MS[offset[3]] * (offset[1] === '-' ? -1 : 1);
+    const moment = new Date(now.getTime() + ms);
+    return { start: moment, end: new Date(moment.getTime() + 1) };
+  }
+
+  const date = /^(\d{4})-(\d{2})-(\d{2})$/.exec(value);
+  if (date) {
+    const start = new Date(parseInt(date[1]), parseInt(date[2]) - 1, parseInt(date[3]));
+    if (isNaN(start.getTime()) || start.getMonth() !== parseInt(date[2]) - 1) return null;
+    return { start, end: addDays(start, 1) };
+  }
+
+  return null;
+};
+
+// A condition for one term, or an error message
+type TermCondition = Prisma.TodoWhereInput | string;
+
+const compareDates = (operator: Operator, range: { start: Date; end: Date }): Prisma.DateTimeFilter => {
+  switch (operator) {
+    case '<': return { lt: range.start };
+    case '<=': return { lt: range.end };
+    case '>': return { gte: range.end };
+    case '>=': return { gte: range.start };
+    default: return { gte: range.start, lt: range.end };
+  }
+};
+
+const parseStatus = (term: Term): TermCondition => {
+  const statuses: string[] = [];
+  for (const item of splitList(term.value)) {
+    const upper = item.toUpperCase().replace(/-/g, '_');
+    const status = STATUS_ALIASES[upper] || upper;
+    if (!STATUSES.includes(status)) {
+      return `Invalid status "${item}" at position ${term.position}. Use ${STATUSES.map(s => s.toLowerCase()).join(', ')}`;
+    }
+    statuses.push(status);
+  }
+  return { status: { in: statuses } };
+};
+
+const parsePriority = (term: Term): TermCondition => {
+  const [operator, rest] = splitOperator(term.value);
+  const items = splitList(rest);
+  if (operator !== '=' && items.length > 1) {
+    return `A comparison takes a single priority at position ${term.position}`;
+  }
+
+  const priorities: string[] = [];
+  for (const item of items) {
+    const index = PRIORITIES.indexOf(item.toUpperCase());
+    if (index === -1) {
+      return `Invalid priority "${item}" at position ${term.position}. Use ${PRIORITIES.map(p => p.toLowerCase()).join(', ')}`;
+    }
+    switch (operator) {
+      case '>=': priorities.push(...PRIORITIES.slice(index)); break;
+      case '>': priorities.push(...PRIORITIES.slice(index + 1)); break;
+      case '<=': priorities.push(...PRIORITIES.slice(0, index + 1)); break;
+      case '<': priorities.push(...PRIORITIES.slice(0, index)); break;
+      default: priorities.push(PRIORITIES[index]);
+    }
+  }
+  return { priority: { in: priorities } };
+};
+
+const parseDate = (term: Term, column: 'dueDate' | 'createdAt' | 'updatedAt', now: Date): TermCondition => {
+  const [operator, rest] = splitOperator(term.value);
+  const lower = rest.toLowerCase();
+
+  if (column === 'dueDate' && operator === '=') {
+    if (lower === 'none') return { dueDate: null };
+    if (lower === 'any') return { dueDate: { not: null } };
+    if (lower === 'overdue') {
+      return { dueDate: { lt: now }, status: { notIn: RESOLVED_STATUSES } };
+    }
+  }
+
+  const range = parseDateValue(rest, now);
+  if (!range) {
+    const extra = column === 'dueDate' ? ', overdue, none, any' : '';
+    return `Invalid date "${rest}" at position ${term.position}. Use today, tomorrow, yesterday${extra}, an offset like 7d or -12h, or YYYY-MM-DD`;
+  }
+  return { [column]: compareDates(operator, range) };
+};
+
+const parseCategory = (term: Term, knownNames: Map<string, string>): Prisma.TodoWhereInput => {
+  if (term.value.toLowerCase() === 'none') {
+    return { categories: { none: {} } };
+  }
+
+  const names = splitList(term.value).map(name => knownNames.get(name.toLowerCase()) || name);
+  return {
+    categories: {
+      some: { category: { name: { in: names }, deletedAt: null } }
+    }
+  };
+};
+
+const parseAssignee = (term: Term, userId: string): Prisma.TodoWhereInput => {
+  const lower = term.value.toLowerCase();
+  if (lower === 'none') return { assignees: { none: {} } };
+  if (lower === 'me') return { assignees: { some: { userId } } };
+
+  return {
+    assignees: {
+      some: {
+        user: { OR: [{ name: { contains: term.value } }, { email: term.value }] }
+      }
+    }
+  };
+};
+
+const parseText = (term: Term): Prisma.TodoWhereInput => ({
+  OR: [
+    { title: { contains: term.value } },
+    { description: { contains: term.value } }
+  ]
+});
+
+// Parse a query into a where clause for todos. Category names are matched
+// exactly; `categoryNames` (usually the user's own) fixes up their case.
+export const parseTodoQuery = (
+  query: string,
+  options: { userId: string; categoryNames?: string[]; now?: Date }
+): ParsedTodoQuery => {
+  const now = options.now || new Date();
+  const tokens = tokenize(query);
+  if (typeof tokens === 'string') {
+    return { where: null, error: tokens };
+  }
+
+  const knownNames = new Map((options.categoryNames || []).map(name => [name.toLowerCase(), name]));
+  const conditions: Prisma.TodoWhereInput[] = [];
+
+  for (const term of tokens) {
+    let condition: TermCondition;
+    switch (term.field) {
+      case 'status': condition = parseStatus(term); break;
+      case 'priority': condition = parsePriority(term); break;
+      case 'due': condition = parseDate(term, 'dueDate', now); break;
+      case 'created': condition = parseDate(term, 'createdAt', now); break;
+      case 'updated': condition = parseDate(term, 'updatedAt', now); break;
+      case 'cat': condition = parseCategory(term, knownNames); break;
+      case 'assignee': condition = parseAssignee(term, options.userId); break;
+      default: condition = parseText(term);
+    }
+
+    if (typeof condition === 'string') {
+      return { where: null, error: condition };
+    }
+    conditions.push(term.negated ? { NOT: condition } : condition);
+  }
+
+  return { where: { AND: conditions }, error: null };
+};
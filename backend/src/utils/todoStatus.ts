@@ -0,0 +1,24 @@
+// Status transition timestamps of todos
+// `startedAt` is the first move to IN_PROGRESS since the todo was last open,
+// `completedAt` the move to COMPLETED. Analytics derive lead time (created to
+// completed) and cycle time (started to completed) from them.
+
+// Fields to write along with a status change of a todo
+export const statusTimestamps = (
+  todo: { status: string | null; startedAt: Date | null },
+  status: string,
+  now: Date = new Date()
+): { startedAt?: Date | null; completedAt?: Date | null } => {
+  if (todo.status === status) return {};
+
+  switch (status) {
+    case 'TODO':
+      return { startedAt: null, completedAt: null };
+    case 'IN_PROGRESS':
+      return { completedAt: null, ...(!todo.startedAt && { startedAt: now }) };
+    case 'COMPLETED':
+      return { completedAt: now };
+    default:
+      return { completedAt: null };
+  }
+};
@@ -0,0 +1,53 @@
+import { base32Decode, base32Encode, generateTotp, getTimeStep, verifyTotp } from './totp';
+
+// The SHA-1 seed of RFC 6238 appendix B, "12345678901234567890" in ASCII
+const RFC_SECRET = base32Encode(Buffer.from('12345678901234567890'));
+
+// Appendix B test vectors, cut down to the six digits authenticator apps show
+const RFC_VECTORS: [number, string][] = [
+  [59, '287082'],
+  [1111111109, '081804'],
+  [1111111111, '050471'],
+  [1234567890, '005924'],
+  [2000000000, '279037'],
+  [20000000000, '353130']
+];
+
+describe('base32', () => {
+  it('encodes the RFC seed the way authenticator apps expect', () => {
+    expect(RFC_SECRET).toBe('GEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQ');
+  });
+
+  it('decodes ignoring case, spaces and padding', () => {
+    expect(base32Decode('gezd gnbv gy3t qojq gezd gnbv gy3t qojq==').toString()).toBe('12345678901234567890');
+    expect(() => base32Decode('GEZ1')).toThrow('Invalid base32 character "1"');
+  });
+});
+
+describe('generateTotp', () => {
+  it.each(RFC_VECTORS)('matches the RFC 6238 vector at %i seconds', (seconds, code) => {
+    expect(generateTotp(RFC_SECRET, getTimeStep(seconds * 1000))).toBe(code);
+  });
+});
+
+describe('verifyTotp', () => {
+  const now = 1111111111 * 1000;
+
+  it('returns the step of a code within the drift window', () => {
+    const step = getTimeStep(now);
+    expect(verifyTotp(RFC_SECRET, '050471', 1, now)).toBe(step);
+    expect(verifyTotp(RFC_SECRET, generateTotp(RFC_SECRET, step - 1), 1, now)).toBe(step - 1);
+    expect(verifyTotp(RFC_SECRET, generateTotp(RFC_SECRET, step + 1), 1, now)).toBe(step + 1);
+  });
+
+  it('rejects codes outside the window and malformed input', () => {
+    const step = getTimeStep(now);
+    expect(verifyTotp(RFC_SECRET, generateTotp(RFC_SECRET, step - 2), 1, now)).toBeNull();
+    expect(verifyTotp(RFC_SECRET, '05047', 1, now)).toBeNull();
+    expect(verifyTotp(RFC_SECRET, 'abcdef', 1, now)).toBeNull();
+  });
+
+  it('accepts codes typed with a space', () => {
+    expect(verifyTotp(RFC_SECRET, '050 471', 1, now)).toBe(getTimeStep(now));
+  });
+});
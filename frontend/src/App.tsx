@@ -6,8 +6,20 @@ import socketService from '@/utils/socket';
 // Pages
 import LoginPage from '@/pages/LoginPage';
 import RegisterPage from '@/pages/RegisterPage';
+import ForgotPasswordPage from '@/pages/ForgotPasswordPage';
+import ResetPasswordPage from '@/pages/ResetPasswordPage';
+import VerifyEmailPage from '@/pages/VerifyEmailPage';
 import DashboardPage from '@/pages/DashboardPage';
 import ProfilePage from '@/pages/ProfilePage';
+import TrashPage from '@/pages/TrashPage';
+import TodosPage from '@/pages/TodosPage';
+import TodoDetailPage from '@/pages/TodoDetailPage';
+import TeamsPage from '@/pages/TeamsPage';
+import TeamDetailPage from '@/pages/TeamDetailPage';
+import BoardPage from '@/pages/BoardPage';
+import CalendarPage from '@/pages/CalendarPage';
+import AnalyticsPage from '@/pages/AnalyticsPage';
+import CategoriesPage from '@/pages/CategoriesPage';
 
 // Components
 import Layout from '@/components/Layout';
@@ -69,6 +81,18 @@ function App() {
             )
           }
         />
+        <Route
+          path="/forgot-password"
+          element={
+            isAuthenticated ? (
+              <Navigate to="/dashboard" replace />
+            ) : (
+              <ForgotPasswordPage />
+            )
+          }
+        />
+        <Route path="/reset-password" element={<ResetPasswordPage />} />
+        <Route path="/verify-email" element={<VerifyEmailPage />} />
 
         {/* Protected routes */}
         <Route
@@ -82,6 +106,15 @@ function App() {
           <Route index element={<Navigate to="/dashboard" replace />} />
           <Route path="dashboard" element={<DashboardPage />} />
           <Route path="profile" element={<ProfilePage />} />
+          <Route path="trash" element={<TrashPage />} />
+          <Route path="todos" element={<TodosPage />} />
+          <Route path="todos/:id" element={<TodoDetailPage />} />
+          <Route path="board" element={<BoardPage />} />
+          <Route path="calendar" element={<CalendarPage />} />
+          <Route path="analytics" element={<AnalyticsPage />} />
+          <Route path="categories" element={<CategoriesPage />} />
+          <Route path="teams" element={<TeamsPage />} />
+          <Route path="teams/:id" element={<TeamDetailPage />} />
         </Route>
 
         {/* Catch all route */}
@@ -0,0 +1,242 @@
+import React, { useEffect, useState } from 'react';
+import { KeyRound, Plus, Copy } from 'lucide-react';
+import { addDays, formatDistanceToNow } from 'date-fns';
+import { accessTokenApi } from '@/utils/api';
+import { AccessToken, AccessTokenScope } from '@/types';
+import LoadingSpinner from './LoadingSpinner';
+import toast from 'react-hot-toast';
+
+// Expiry choices in days, 0 meaning the token never expires
+const EXPIRY_OPTIONS = [
+  { days: 30, label: '30 days' },
+  { days: 90, label: '90 days' },
+  { days: 365, label: '1 year' },
+  { days: 0, label: 'No expiry' }
+];
+
+const isExpired = (token: AccessToken) => !!token.expiresAt && new Date(token.expiresAt) < new Date();
+
+const AccessTokenList: React.FC = () => {
+  const [tokens, setTokens] = useState<AccessToken[]>([]);
+  const [availableScopes, setAvailableScopes] = useState<AccessTokenScope[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [showForm, setShowForm] = useState(false);
+  const [name, setName] = useState('');
+  const [scopes, setScopes] = useState<AccessTokenScope[]>(['todos:read']);
+  const [expiryDays, setExpiryDays] = useState(30);
+  const [isCreating, setIsCreating] = useState(false);
+  const [newToken, setNewToken] = useState<string | null>(null);
+
+  useEffect(() => {
+    loadTokens();
+  }, []);
+
+  const loadTokens = async () => {
+    try {
+      setIsLoading(true);
+      const response = await accessTokenApi.getTokens();
+      setTokens(response.tokens);
+      setAvailableScopes(response.scopes);
+    } catch (error) {
+      toast.error('Failed to load access tokens');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const toggleScope = (scope: AccessTokenScope) => {
+    setScopes(scopes.includes(scope) ? scopes.filter(s => s !== scope) : [...scopes, scope]);
+  };
+
+  const resetForm = () => {
+    setShowForm(false);
+    setName('');
+    setScopes(['todos:read']);
+    setExpiryDays(30);
+  };
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    try {
+      setIsCreating(true);
+      const response = await accessTokenApi.createToken({
+        name: name.trim(),
+        scopes,
+        expiresAt: expiryDays ? addDays(new Date(), expiryDays).toISOString() : null
+      });
+      setTokens([response.accessToken, ...tokens]);
+      setNewToken(response.token);
+      resetForm();
+      toast.success('Access token created');
+    } catch (error: any) {
+      toast.error(error.response?.data?.error || 'Failed to create access token');
+    } finally {
+      setIsCreating(false);
+    }
+  };
+
+  const handleRevoke = async (token: AccessToken) => {
+    if (!confirm(`Revoke "${token.name}"? Scripts using it will stop working.`)) return;
+    try {
+      await accessTokenApi.revokeToken(token.id);
+      setTokens(tokens.filter(t => t.id !== token.id));
+      toast.success('Access token revoked');
+    } catch (error: any) {
+      toast.error(error.response?.data?.error || 'Failed to revoke access token');
+    }
+  };
+
+  const handleCopy = async () => {
+    try {
+      await navigator.clipboard.writeText(newToken!);
+      toast.success('Token copied');
+    } catch (error) {
+      toast.error('Failed to copy token');
+    }
+  };
+
+  return (
+    <div className="bg-white dark:bg-gray-800 rounded-lg shadow-sm p-6">
+      <div className="flex items-center justify-between mb-6">
+        <div>
+          <h2 className="text-lg font-semibold text-gray-900 dark:text-white">Personal Access Tokens</h2>
+          <p className="text-sm text-gray-600 dark:text-gray-400 mt-1">
+            Tokens let scripts and integrations use the API as you, limited to the scopes you choose.
+          </p>
+        </div>
+        {!showForm && (
+          <button onClick={() => setShowForm(true)} className="btn btn-primary btn-sm">
+            <Plus className="h-4 w-4 mr-2" />
+            New Token
+          </button>
+        )}
+      </div>
+
+      {/* The new token, shown once */}
+      {newToken && (
+        <div className="mb-6 p-4 rounded-lg bg-yellow-50 dark:bg-yellow-900/20 border border-yellow-200 dark:border-yellow-800">
+          <p className="text-sm text-yellow-800 dark:text-yellow-200 mb-3">
+            Copy your new token now. It will not be shown again.
+          </p>
+          <div className="flex space-x-2">
+            <input type="text" value={newToken} readOnly className="input w-full font-mono text-sm" />
+            <button onClick={handleCopy} className="btn btn-outline btn-sm">
+              <Copy className="h-4 w-4" />
+            </button>
+            <button onClick={() => setNewToken(null)} className="btn btn-primary btn-sm">
+              Done
+            </button>
+          </div>
+        </div>
+      )}
+
+      {showForm && (
+        <form onSubmit={handleCreate} className="mb-6 space-y-4 p-4 rounded-lg border border-gray-200 dark:border-gray-700">
+          <div>
+            <label htmlFor="tokenName" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+              Name
+            </label>
+            <input
+              id="tokenName"
+              type="text"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              className="input w-full"
+              placeholder="e.g. Backup script"
+              maxLength={100}
+              autoFocus
+            />
+          </div>
+
+          <div>
+            <span className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">Scopes</span>
+            <div className="grid grid-cols-2 gap-2">
+              {availableScopes.map((scope) => (
+                <label key={scope} className="flex items-center space-x-2 text-sm text-gray-700 dark:text-gray-300">
+                  <input
+                    type="checkbox"
+                    checked={scopes.includes(scope)}
+                    onChange={() => toggleScope(scope)}
+                    className="rounded border-gray-300 text-primary-600 focus:ring-primary-500"
+                  />
+                  <span className="font-mono">{scope}</span>
+                </label>
+              ))}
+            </div>
+          </div>
+
+          <div>
+            <label htmlFor="tokenExpiry" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+              Expiration
+            </label>
+            <select
+              id="tokenExpiry"
+              value={expiryDays}
+              onChange={(e) => setExpiryDays(parseInt(e.target.value))}
+              className="input w-full"
+            >
+              {EXPIRY_OPTIONS.map((option) => (
+                <option key={option.days} value={option.days}>{option.label}</option>
+              ))}
+            </select>
+          </div>
+
+          <div className="flex justify-end space-x-3">
+            <button type="button" onClick={resetForm} className="btn btn-outline btn-sm">
+              Cancel
+            </button>
+            <button
+              type="submit"
+              disabled={isCreating || !name.trim() || scopes.length === 0}
+              className="btn btn-primary btn-sm"
+            >
+              Create Token
+            </button>
+          </div>
+        </form>
+      )}
+
+      {isLoading ? (
+        <div className="flex justify-center py-4">
+          <LoadingSpinner />
+        </div>
+      ) : tokens.length === 0 ? (
+        <p className="text-sm text-gray-500 dark:text-gray-400">You have no access tokens.</p>
+      ) : (
+        <div className="divide-y divide-gray-200 dark:divide-gray-700">
+          {tokens.map((token) => (
+            <div key={token.id} className="flex items-center justify-between py-3">
+              <div className="flex items-center space-x-3 min-w-0">
+                <KeyRound className="h-5 w-5 text-gray-400 flex-shrink-0" />
+                <div className="min-w-0">
+                  <p className="text-sm font-medium text-gray-900 dark:text-white truncate">
+                    {token.name}
+                    <span className="ml-2 font-mono text-xs text-gray-500 dark:text-gray-400">{token.tokenPrefix}…</span>
+                    {isExpired(token) && (
+                      <span className="ml-2 inline-flex items-center px-2 py-0.5 rounded-full text-xs font-medium bg-red-100 text-red-800 dark:bg-red-900 dark:text-red-200">
+                        Expired
+                      </span>
+                    )}
+                  </p>
+                  <p className="text-xs text-gray-500 dark:text-gray-400">
+                    {token.scopes.join(', ')} ·{' '}
+                    {token.lastUsedAt
+                      ? `Used ${formatDistanceToNow(new Date(token.lastUsedAt), { addSuffix: true })}`
+                      : 'Never used'}
+                    {token.expiresAt && !isExpired(token) &&
+                      ` · Expires ${formatDistanceToNow(new Date(token.expiresAt), { addSuffix: true })}`}
+                  </p>
+                </div>
+              </div>
+              <button onClick={() => handleRevoke(token)} className="btn btn-outline btn-sm ml-4">
+                Revoke
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default AccessTokenList;
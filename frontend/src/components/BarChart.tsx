@@ -0,0 +1,42 @@
+import React from 'react';
+
+interface BarChartProps {
+  data: { label: string; value: number | null }[];
+  // Shown when hovering a bar, e.g. "completed"
+  unit?: string;
+  height?: number;
+}
+
+// Vertical bars for a time series, labels are thinned out to stay readable
+const BarChart: React.FC<BarChartProps> = ({ data, unit = '', height = 160 }) => {
+  const max = Math.max(1, ...data.map(point => point.value || 0));
+  const labelEvery = Math.ceil(data.length / 10);
+
+  return (
+    <div>
+      <div className="flex items-end space-x-1" style={{ height }}>
+        {data.map((point) => (
+          <div
+            key={point.label}
+            className="flex-1 h-full flex items-end"
+            title={`${point.label}: ${point.value ?? '–'} ${unit}`.trim()}
+          >
+            <div
+              className="w-full rounded-t bg-primary-500 dark:bg-primary-400 hover:bg-primary-600 transition-colors"
+              style={{ height: `${((point.value || 0) / max) * 100}%`, minHeight: point.value ? 2 : 0 }}
+            />
+          </div>
+        ))}
+      </div>
+      <div className="flex space-x-1 mt-1">
+        {data.map((point, index) => (
+          <div key={point.label} className="flex-1 text-center text-[10px] text-gray-500 dark:text-gray-400 truncate">
+            {index % labelEvery === 0 ? point.label : ''}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default BarChart;
@@ -0,0 +1,97 @@
+import React from 'react';
+import { Link } from 'react-router-dom';
+import { Calendar, Lock, Repeat } from 'lucide-react';
+import { Todo, Priority } from '@/types';
+import { isOverdue } from '@/utils/todo';
+
+interface BoardCardProps {
+  todo: Todo;
+  isDragging?: boolean;
+  onDragStart: (e: React.DragEvent<HTMLDivElement>, todo: Todo) => void;
+  onDragOver: (e: React.DragEvent<HTMLDivElement>, todo: Todo) => void;
+  onDragEnd: () => void;
+}
+
+// Compact todo card for the columns of the board
+const BoardCard: React.FC<BoardCardProps> = ({ todo, isDragging, onDragStart, onDragOver, onDragEnd }) => {
+  const getPriorityColor = (priority: Priority) => {
+    switch (priority) {
+      case 'URGENT':
+        return 'bg-red-100 text-red-800 dark:bg-red-900 dark:text-red-200';
+      case 'HIGH':
+        return 'bg-orange-100 text-orange-800 dark:bg-orange-900 dark:text-orange-200';
+      case 'MEDIUM':
+        return 'bg-yellow-100 text-yellow-800 dark:bg-yellow-900 dark:text-yellow-200';
+      case 'LOW':
+        return 'bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-200';
+      default:
+        return 'bg-gray-100 text-gray-800 dark:bg-gray-700 dark:text-gray-200';
+    }
+  };
+
+  const isBlocked = todo.blockedBy?.some(blocker => blocker.status !== 'COMPLETED' && blocker.status !== 'CANCELLED');
+
+  return (
+    <div
+      draggable
+      onDragStart={(e) => onDragStart(e, todo)}
+      onDragOver={(e) => onDragOver(e, todo)}
+      onDragEnd={onDragEnd}
+      className={`bg-white dark:bg-gray-800 rounded-lg border border-gray-200 dark:border-gray-700 p-3 cursor-grab active:cursor-grabbing hover:shadow-md transition-shadow ${
+        isDragging ? 'opacity-50' : ''
+      }`}
+    >
+      <div className="flex items-start justify-between">
+        <Link
+          to={`/todos/${todo.id}`}
+          draggable={false}
+          className="text-sm font-medium text-gray-900 dark:text-white hover:text-primary-600 dark:hover:text-primary-400"
+        >
+          {todo.title}
+        </Link>
+        {isBlocked && (
+          <span title="Blocked by open dependencies">
+            <Lock className="h-3 w-3 text-red-500 flex-shrink-0 ml-2 mt-1" />
+          </span>
+        )}
+      </div>
+
+      <div className="flex flex-wrap items-center gap-2 mt-2">
+        <span className={`inline-flex items-center px-2 py-0.5 rounded-full text-xs font-medium ${getPriorityColor(todo.priority)}`}>
+          {todo.priority}
+        </span>
+
+        {todo.dueDate && (
+          <span className={`flex items-center text-xs ${isOverdue(todo) ? 'text-red-600 dark:text-red-400' : 'text-gray-500 dark:text-gray-400'}`}>
+            <Calendar className="h-3 w-3 mr-1" />
+            {new Date(todo.dueDate).toLocaleDateString('en-US', { month: 'short', day: 'numeric' })}
+          </span>
+        )}
+
+        {todo.recurrence && <Repeat className="h-3 w-3 text-primary-600 dark:text-primary-400" />}
+
+        {todo.totalSubtasks > 0 && (
+          <span className="text-xs text-gray-500 dark:text-gray-400">
+            {todo.completedSubtasks}/{todo.totalSubtasks}
+          </span>
+        )}
+
+        {todo.assignees.length > 0 && (
+          <div className="flex -space-x-1 ml-auto">
+            {todo.assignees.slice(0, 3).map((assignee) => (
+              <div
+                key={assignee.id}
+                className="h-6 w-6 bg-primary-600 rounded-full border-2 border-white dark:border-gray-800 flex items-center justify-center text-xs font-medium text-white"
+                title={assignee.name}
+              >
+                {assignee.name.charAt(0).toUpperCase()}
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default BoardCard;
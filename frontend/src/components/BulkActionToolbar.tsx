@@ -0,0 +1,186 @@
+import React, { useEffect, useState } from 'react';
+import { X, Trash2, Calendar, Tag } from 'lucide-react';
+import { useTodoStore } from '@/store';
+import { todoApi, categoryApi } from '@/utils/api';
+import { BulkAction, BulkActionResult } from '@/types';
+import toast from 'react-hot-toast';
+
+interface BulkActionToolbarProps {
+  selectedIds: string[];
+  onClearSelection: () => void;
+  onComplete: (result: BulkActionResult) => void;
+}
+
+const BulkActionToolbar: React.FC<BulkActionToolbarProps> = ({ selectedIds, onClearSelection, onComplete }) => {
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [dueDate, setDueDate] = useState('');
+  const [categoryId, setCategoryId] = useState('');
+  const { categories, setCategories } = useTodoStore();
+
+  useEffect(() => {
+    if (categories.length === 0) {
+      loadCategories();
+    }
+  }, []);
+
+  const loadCategories = async () => {
+    try {
+      const response = await categoryApi.getCategories();
+      setCategories(response.categories);
+    } catch (error) {
+      console.error('Failed to load categories:', error);
+    }
+  };
+
+  const runAction = async (action: BulkAction, value?: string | string[], ignoreBlockers?: boolean) => {
+    try {
+      setIsSubmitting(true);
+      const result = await todoApi.bulkUpdate({ ids: selectedIds, action, value, ignoreBlockers });
+      const { succeeded, failed } = result.summary;
+
+      // Blocked todos can be retried once the user confirms
+      const blocked = result.results.filter(r => r.error === 'Todo is blocked by open dependencies');
+      if (blocked.length > 0 && action === 'SET_STATUS' && !ignoreBlockers) {
+        if (confirm(`${blocked.length} todo(s) are blocked by open dependencies. Update them anyway?`)) {
+          const retry = await todoApi.bulkUpdate({
+            ids: blocked.map(r => r.id),
+            action,
+            value,
+            ignoreBlockers: true,
+          });
+          toast.success(`${succeeded + retry.summary.succeeded} todo(s) updated`);
+          onComplete(result);
+          return;
+        }
+      }
+
+      if (failed > 0) {
+        toast.error(`${succeeded} updated, ${failed} failed`);
+      } else {
+        toast.success(action === 'DELETE' ? `${succeeded} todo(s) moved to trash` : `${succeeded} todo(s) updated`);
+      }
+      onComplete(result);
+    } catch (error: any) {
+      toast.error(error.response?.data?.error || 'Failed to apply bulk action');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleDelete = () => {
+    if (!confirm(`Move ${selectedIds.length} todo(s) to the trash?`)) return;
+    runAction('DELETE');
+  };
+
+  return (
+    <div className="flex flex-wrap items-center gap-2 p-3 bg-primary-50 dark:bg-primary-900/20 border border-primary-200 dark:border-primary-800 rounded-lg">
+      <span className="text-sm font-medium text-gray-900 dark:text-white mr-2">
+        {selectedIds.length} selected
+      </span>
+
+      {/* Status */}
+      <select
+        value=""
+        onChange={(e) => e.target.value && runAction('SET_STATUS', e.target.value)}
+        disabled={isSubmitting}
+        className="input py-1 text-sm w-auto"
+      >
+        <option value="">Set status…</option>
+        <option value="TODO">To Do</option>
+        <option value="IN_PROGRESS">In Progress</option>
+        <option value="COMPLETED">Completed</option>
+        <option value="CANCELLED">Cancelled</option>
+      </select>
+
+      {/* Priority */}
+      <select
+        value=""
+        onChange={(e) => e.target.value && runAction('SET_PRIORITY', e.target.value)}
+        disabled={isSubmitting}
+        className="input py-1 text-sm w-auto"
+      >
+        <option value="">Set priority…</option>
+        <option value="LOW">Low</option>
+        <option value="MEDIUM">Medium</option>
+        <option value="HIGH">High</option>
+        <option value="URGENT">Urgent</option>
+      </select>
+
+      {/* Due date */}
+      <div className="flex items-center gap-1">
+        <Calendar className="h-4 w-4 text-gray-400" />
+        <input
+          type="datetime-local"
+          value={dueDate}
+          onChange={(e) => setDueDate(e.target.value)}
+          disabled={isSubmitting}
+          className="input py-1 text-sm w-auto"
+        />
+        <button
+          onClick={() => runAction('SET_DUE_DATE', new Date(dueDate).toISOString())}
+          disabled={isSubmitting || !dueDate}
+          className="btn btn-outline btn-sm"
+        >
+          Set
+        </button>
+        <button
+          onClick={() => runAction('CLEAR_DUE_DATE')}
+          disabled={isSubmitting}
+          className="btn btn-outline btn-sm"
+        >
+          Clear
+        </button>
+      </div>
+
+      {/* Categories */}
+      {categories.length > 0 && (
+        <div className="flex items-center gap-1">
+          <Tag className="h-4 w-4 text-gray-400" />
+          <select
+            value={categoryId}
+            onChange={(e) => setCategoryId(e.target.value)}
+            disabled={isSubmitting}
+            className="input py-1 text-sm w-auto"
+          >
+            <option value="">Category…</option>
+            {categories.map((category) => (
+              <option key={category.id} value={category.id}>
+                {category.name}
+              </option>
+            ))}
+          </select>
+          <button
+            onClick={() => runAction('ADD_CATEGORIES', [categoryId])}
+            disabled={isSubmitting || !categoryId}
+            className="btn btn-outline btn-sm"
+          >
+            Add
+          </button>
+          <button
+            onClick={() => runAction('REMOVE_CATEGORIES', [categoryId])}
+            disabled={isSubmitting || !categoryId}
+            className="btn btn-outline btn-sm"
+          >
+            Remove
+          </button>
+        </div>
+      )}
+
+      <div className="flex items-center gap-2 ml-auto">
+        <button onClick={handleDelete} disabled={isSubmitting} className="btn btn-danger btn-sm">
+          <Trash2 className="h-4 w-4 mr-1" />
+          Delete
+        </button>
+        <button
+          onClick={onClearSelection}
+          className="p-1 text-gray-400 hover:text-gray-600 dark:hover:text-gray-300"
+          title="Clear selection"
+        >
+          <X className="h-4 w-4" />
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default BulkActionToolbar;
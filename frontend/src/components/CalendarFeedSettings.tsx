@@ -0,0 +1,170 @@
+import React, { useEffect, useState } from 'react';
+import { CalendarDays, Copy, RefreshCw } from 'lucide-react';
+import { calendarApi, categoryApi } from '@/utils/api';
+import { CalendarFeed } from '@/types';
+import { useTodoStore } from '@/store';
+import LoadingSpinner from './LoadingSpinner';
+import toast from 'react-hot-toast';
+
+const CalendarFeedSettings: React.FC = () => {
+  const [feed, setFeed] = useState<CalendarFeed | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [asEvents, setAsEvents] = useState(false);
+  const [openOnly, setOpenOnly] = useState(false);
+  const [category, setCategory] = useState('');
+  const { categories, setCategories } = useTodoStore();
+
+  useEffect(() => {
+    loadFeed();
+    if (categories.length === 0) {
+      loadCategories();
+    }
+  }, []);
+
+  const loadCategories = async () => {
+    try {
+      const response = await categoryApi.getCategories();
+      setCategories(response.categories);
+    } catch (error) {
+      console.error('Failed to load categories:', error);
+    }
+  };
+
+  const loadFeed = async () => {
+    try {
+      setIsLoading(true);
+      setFeed(await calendarApi.getFeed());
+    } catch (error) {
+      toast.error('Failed to load calendar feed');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleRotate = async () => {
+    if (feed?.token && !confirm('Generate a new URL? Calendars subscribed to the current URL will stop updating.')) return;
+    try {
+      setFeed(await calendarApi.rotateToken());
+      toast.success('Calendar feed URL generated');
+    } catch (error: any) {
+      toast.error(error.response?.data?.error || 'Failed to generate calendar feed URL');
+    }
+  };
+
+  const handleDisable = async () => {
+    if (!confirm('Disable the calendar feed? Subscribed calendars will stop updating.')) return;
+    try {
+      await calendarApi.disableFeed();
+      setFeed({ token: null, url: null });
+      toast.success('Calendar feed disabled');
+    } catch (error: any) {
+      toast.error(error.response?.data?.error || 'Failed to disable calendar feed');
+    }
+  };
+
+  // Filters are passed to the feed as query parameters
+  const getFeedUrl = () => {
+    if (!feed?.url) return '';
+    const params = new URLSearchParams();
+    if (asEvents) params.set('type', 'event');
+    if (openOnly) params.set('status', 'TODO,IN_PROGRESS');
+    if (category) params.set('category', category);
+    const query = params.toString();
+    return query ? `${feed.url}?${query}` : feed.url;
+  };
+
+  const handleCopy = async () => {
+    try {
+      await navigator.clipboard.writeText(getFeedUrl());
+      toast.success('Feed URL copied');
+    } catch (error) {
+      toast.error('Failed to copy URL');
+    }
+  };
+
+  return (
+    <div className="bg-white dark:bg-gray-800 rounded-lg shadow-sm p-6">
+      <h2 className="flex items-center text-lg font-semibold text-gray-900 dark:text-white mb-2">
+        <CalendarDays className="h-5 w-5 mr-2" />
+        Calendar Feed
+      </h2>
+      <p className="text-sm text-gray-600 dark:text-gray-400 mb-6">
+        Subscribe to this URL in your calendar app to see todos with a due date.
+        Anyone with the URL can read these todos, so keep it private.
+      </p>
+
+      {isLoading ? (
+        <div className="flex justify-center py-4">
+          <LoadingSpinner />
+        </div>
+      ) : feed?.url ? (
+        <div className="space-y-4">
+          <div className="flex space-x-2">
+            <input
+              type="text"
+              value={getFeedUrl()}
+              readOnly
+              className="input w-full font-mono text-xs"
+              onFocus={(e) => e.target.select()}
+            />
+            <button onClick={handleCopy} className="btn btn-outline btn-sm" title="Copy URL">
+              <Copy className="h-4 w-4" />
+            </button>
+          </div>
+
+          <div className="flex flex-wrap items-center gap-4">
+            <label className="flex items-center space-x-2 text-sm text-gray-700 dark:text-gray-300">
+              <input
+                type="checkbox"
+                checked={asEvents}
+                onChange={(e) => setAsEvents(e.target.checked)}
+                className="text-primary-600"
+              />
+              <span>Show as events</span>
+            </label>
+            <label className="flex items-center space-x-2 text-sm text-gray-700 dark:text-gray-300">
+              <input
+                type="checkbox"
+                checked={openOnly}
+                onChange={(e) => setOpenOnly(e.target.checked)}
+                className="text-primary-600"
+              />
+              <span>Open todos only</span>
+            </label>
+            {categories.length > 0 && (
+              <select
+                value={category}
+                onChange={(e) => setCategory(e.target.value)}
+                className="input py-1 text-sm w-auto"
+              >
+                <option value="">All categories</option>
+                {categories.map((c) => (
+                  <option key={c.id} value={c.name}>
+                    {c.name}
+                  </option>
+                ))}
+              </select>
+            )}
+          </div>
+
+          <div className="flex space-x-3">
+            <button onClick={handleRotate} className="btn btn-outline btn-sm">
+              <RefreshCw className="h-4 w-4 mr-2" />
+              Regenerate URL
+            </button>
+            <button onClick={handleDisable} className="btn btn-danger btn-sm">
+              Disable Feed
+            </button>
+          </div>
+        </div>
+      ) : (
+        <button onClick={handleRotate} className="btn btn-primary btn-sm">
+          <CalendarDays className="h-4 w-4 mr-2" />
+          Enable Calendar Feed
+        </button>
+      )}
+    </div>
+  );
+};
+
+export default CalendarFeedSettings;
@@ -2,10 +2,11 @@ import React, { useState, useEffect } from 'react';
 import { useForm } from 'react-hook-form';
 import { zodResolver } from '@hookform/resolvers/zod';
 import { z } from 'zod';
-import { X, Calendar, Tag, AlertCircle } from 'lucide-react';
+import { X, Calendar, Tag, AlertCircle, Users } from 'lucide-react';
 import { useTodoStore } from '@/store';
-import { todoApi, categoryApi } from '@/utils/api';
-import { CreateTodoData, Priority } from '@/types';
+import { todoApi, categoryApi, teamApi } from '@/utils/api';
+import { Priority, Recurrence, Team, TeamMember } from '@/types';
+import RecurrencePicker from './RecurrencePicker';
 import toast from 'react-hot-toast';
 
 const createTodoSchema = z.object({
@@ -25,6 +26,11 @@ interface CreateTodoModalProps {
 
 const CreateTodoModal: React.FC<CreateTodoModalProps> = ({ onClose, onSuccess }) => {
   const [isSubmitting, setIsSubmitting] = useState(false);
+  const [recurrence, setRecurrence] = useState<Recurrence | null>(null);
+  const [teams, setTeams] = useState<Team[]>([]);
+  const [teamId, setTeamId] = useState('');
+  const [members, setMembers] = useState<TeamMember[]>([]);
+  const [assigneeIds, setAssigneeIds] = useState<string[]>([]);
   const { categories, setCategories } = useTodoStore();
 
   const {
@@ -45,8 +51,18 @@ const CreateTodoModal: React.FC<CreateTodoModalProps> = ({ onClose, onSuccess })
 
   useEffect(() => {
     loadCategories();
+    loadTeams();
   }, []);
 
+  // Assignees are picked from the members of the selected team
+  useEffect(() => {
+    setAssigneeIds([]);
+    setMembers([]);
+    if (teamId) {
+      loadMembers(teamId);
+    }
+  }, [teamId]);
+
   const loadCategories = async () => {
     try {
       const response = await categoryApi.getCategories();
@@ -56,10 +72,28 @@ const CreateTodoModal: React.FC<CreateTodoModalProps> = ({ onClose, onSuccess })
     }
   };
 
+  const loadTeams = async () => {
+    try {
+      const response = await teamApi.getTeams();
+      setTeams(response.teams);
+    } catch (error) {
+      console.error('Failed to load teams:', error);
+    }
+  };
+
+  const loadMembers = async (id: string) => {
+    try {
+      const response = await teamApi.getTeam(id);
+      setMembers(response.members);
+    } catch (error) {
+      console.error('Failed to load team members:', error);
+    }
+  };
+
   const onSubmit = async (data: CreateTodoFormData) => {
     try {
       setIsSubmitting(true);
-      await todoApi.createTodo(data);
+      await todoApi.createTodo({ ...data, recurrence, teamId: teamId || null, assigneeIds });
       toast.success('Todo created successfully!');
       onSuccess();
     } catch (error: any) {
@@ -77,6 +111,12 @@ const CreateTodoModal: React.FC<CreateTodoModalProps> = ({ onClose, onSuccess })
     setValue('categoryIds', newIds);
   };
 
+  const toggleAssignee = (userId: string) => {
+    setAssigneeIds(assigneeIds.includes(userId)
+      ? assigneeIds.filter(id => id !== userId)
+      : [...assigneeIds, userId]);
+  };
+
   const priorityOptions: { value: Priority; label: string; color: string }[] = [
     { value: 'LOW', label: 'Low', color: 'text-green-600' },
     { value: 'MEDIUM', label: 'Medium', color: 'text-yellow-600' },
@@ -179,6 +219,14 @@ const CreateTodoModal: React.FC<CreateTodoModalProps> = ({ onClose, onSuccess })
             </div>
           </div>
 
+          {/* Recurrence */}
+          <div>
+            <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+              Repeat
+            </label>
+            <RecurrencePicker value={recurrence} onChange={setRecurrence} />
+          </div>
+
           {/* Categories */}
           {categories.length > 0 && (
             <div>
@@ -207,6 +255,55 @@ const CreateTodoModal: React.FC<CreateTodoModalProps> = ({ onClose, onSuccess })
             </div>
           )}
 
+          {/* Team */}
+          {teams.length > 0 && (
+            <div>
+              <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+                Team
+              </label>
+              <select
+                value={teamId}
+                onChange={(e) => setTeamId(e.target.value)}
+                className="input w-full"
+              >
+                <option value="">Personal (only me)</option>
+                {teams.map((team) => (
+                  <option key={team.id} value={team.id}>
+                    {team.name}
+                  </option>
+                ))}
+              </select>
+            </div>
+          )}
+
+          {/* Assignees */}
+          {members.length > 0 && (
+            <div>
+              <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+                Assignees
+              </label>
+              <div className="space-y-2 max-h-40 overflow-y-auto">
+                {members.map((member) => (
+                  <label
+                    key={member.userId}
+                    className="flex items-center space-x-2 p-2 border border-gray-200 dark:border-gray-600 rounded-lg cursor-pointer hover:bg-gray-50 dark:hover:bg-gray-700"
+                  >
+                    <input
+                      type="checkbox"
+                      checked={assigneeIds.includes(member.userId)}
+                      onChange={() => toggleAssignee(member.userId)}
+                      className="text-primary-600"
+                    />
+                    <Users className="h-4 w-4 text-gray-400" />
+                    <span className="text-sm text-gray-700 dark:text-gray-300">
+                      {member.user.name}
+                    </span>
+                  </label>
+                ))}
+              </div>
+            </div>
+          )}
+
           {/* Actions */}
           <div className="flex space-x-3 pt-4">
             <button
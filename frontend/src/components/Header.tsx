@@ -1,11 +1,23 @@
 import React from 'react';
-import { Menu, Bell, User, Moon, Sun } from 'lucide-react';
+import { Menu, User, Moon, Sun } from 'lucide-react';
 import { useAuthStore, useUIStore } from '@/store';
+import { authApi } from '@/utils/api';
+import NotificationDropdown from './NotificationDropdown';
 
 const Header: React.FC = () => {
   const { user, logout } = useAuthStore();
   const { theme, toggleTheme, sidebarOpen, toggleSidebar } = useUIStore();
 
+  const handleLogout = async () => {
+    // Revoke the session on the server, sign out locally either way
+    try {
+      await authApi.logout();
+    } catch (error) {
+      console.error('Failed to revoke session:', error);
+    }
+    logout();
+  };
+
   return (
     <header className="bg-white dark:bg-gray-800 border-b border-gray-200 dark:border-gray-700 px-6 py-4">
       <div className="flex items-center justify-between">
@@ -38,11 +50,7 @@ const Header: React.FC = () => {
           </button>
 
           {/* Notifications */}
-          <button className="p-2 rounded-md hover:bg-gray-100 dark:hover:bg-gray-700 transition-colors relative">
-            <Bell className="h-5 w-5 text-gray-600 dark:text-gray-300" />
-            {/* Notification badge */}
-            <span className="absolute -top-1 -right-1 h-3 w-3 bg-red-500 rounded-full"></span>
-          </button>
+          <NotificationDropdown />
 
           {/* User menu */}
           <div className="flex items-center space-x-3">
@@ -60,7 +68,7 @@ const Header: React.FC = () => {
             </div>
             
             <button
-              onClick={logout}
+              onClick={handleLogout}
               className="text-sm text-gray-600 dark:text-gray-300 hover:text-gray-900 dark:hover:text-white transition-colors"
             >
               Logout
@@ -0,0 +1,252 @@
+import React, { useState } from 'react';
+import { X, Upload, FileText, AlertCircle, CheckCircle } from 'lucide-react';
+import { todoApi } from '@/utils/api';
+import { ExportFormat, ImportAnalysis, ImportField, ImportMapping, ImportReport } from '@/types';
+import toast from 'react-hot-toast';
+
+interface ImportTodosModalProps {
+  onClose: () => void;
+  onSuccess: () => void;
+}
+
+type Step = 'upload' | 'mapping' | 'preview' | 'done';
+
+const fieldOptions: { value: ImportField; label: string }[] = [
+  { value: 'title', label: 'Title *' },
+  { value: 'description', label: 'Description' },
+  { value: 'status', label: 'Status' },
+  { value: 'priority', label: 'Priority' },
+  { value: 'dueDate', label: 'Due date' },
+  { value: 'categories', label: 'Categories' },
+];
+
+const ImportTodosModal: React.FC<ImportTodosModalProps> = ({ onClose, onSuccess }) => {
+  const [step, setStep] = useState<Step>('upload');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [fileName, setFileName] = useState('');
+  const [format, setFormat] = useState<ExportFormat>('csv');
+  const [content, setContent] = useState('');
+  const [analysis, setAnalysis] = useState<ImportAnalysis | null>(null);
+  const [mapping, setMapping] = useState<ImportMapping>({});
+  const [report, setReport] = useState<ImportReport | null>(null);
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+
+    const fileFormat: ExportFormat = file.name.toLowerCase().endsWith('.json') ? 'json' : 'csv';
+    try {
+      setIsSubmitting(true);
+      const text = await file.text();
+      const response = await todoApi.analyzeImport(fileFormat, text);
+      setFileName(file.name);
+      setFormat(fileFormat);
+      setContent(text);
+      setAnalysis(response);
+      setMapping(response.mapping);
+      setStep('mapping');
+    } catch (error: any) {
+      toast.error(error.response?.data?.error || 'Failed to read file');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const runImport = async (dryRun: boolean) => {
+    try {
+      setIsSubmitting(true);
+      const response = await todoApi.importTodos({ format, content, mapping, dryRun });
+      setReport(response.report);
+      setStep(dryRun ? 'preview' : 'done');
+      if (!dryRun) {
+        toast.success(`${response.report.imported} todos imported`);
+      }
+    } catch (error: any) {
+      toast.error(error.response?.data?.error || 'Failed to import todos');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const updateMapping = (field: ImportField, column: string) => {
+    setMapping((current) => {
+      const next = { ...current };
+      if (column) {
+        next[field] = column;
+      } else {
+        delete next[field];
+      }
+      return next;
+    });
+  };
+
+  const renderErrors = () => report && report.errors.length > 0 && (
+    <div>
+      <h3 className="text-sm font-medium text-red-600 dark:text-red-400 mb-2">
+        {report.errors.length} row(s) will be skipped
+      </h3>
+      <ul className="max-h-40 overflow-y-auto space-y-1 text-xs text-gray-600 dark:text-gray-400">
+        {report.errors.map((rowError) => (
+          <li key={rowError.row} className="flex items-start">
+            <AlertCircle className="h-3 w-3 mr-1 mt-0.5 text-red-500 flex-shrink-0" />
+            {rowError.line ? `Line ${rowError.line}` : `Row ${rowError.row}`}: {rowError.errors.join(', ')}
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+      <div className="bg-white dark:bg-gray-800 rounded-lg shadow-xl w-full max-w-2xl">
+        {/* Header */}
+        <div className="flex items-center justify-between p-6 border-b border-gray-200 dark:border-gray-700">
+          <h2 className="text-lg font-semibold text-gray-900 dark:text-white">
+            Import Todos
+          </h2>
+          <button
+            onClick={onClose}
+            className="p-2 hover:bg-gray-100 dark:hover:bg-gray-700 rounded-lg transition-colors"
+          >
+            <X className="h-5 w-5 text-gray-500" />
+          </button>
+        </div>
+
+        <div className="p-6 space-y-4">
+          {/* Upload */}
+          {step === 'upload' && (
+            <label className="flex flex-col items-center justify-center p-8 border-2 border-dashed border-gray-300 dark:border-gray-600 rounded-lg cursor-pointer hover:bg-gray-50 dark:hover:bg-gray-700">
+              <Upload className="h-8 w-8 text-gray-400 mb-2" />
+              <span className="text-sm text-gray-700 dark:text-gray-300">
+                {isSubmitting ? 'Reading file...' : 'Choose a CSV or JSON file'}
+              </span>
+              <input
+                type="file"
+                accept=".csv,.json,text/csv,application/json"
+                onChange={handleFileChange}
+                disabled={isSubmitting}
+                className="hidden"
+              />
+            </label>
+          )}
+
+          {/* Column mapping */}
+          {step === 'mapping' && analysis && (
+            <>
+              <p className="flex items-center text-sm text-gray-600 dark:text-gray-400">
+                <FileText className="h-4 w-4 mr-2" />
+                {fileName} · {analysis.total} rows
+              </p>
+              <div className="space-y-2">
+                {fieldOptions.map((field) => (
+                  <div key={field.value} className="grid grid-cols-2 gap-4 items-center">
+                    <label className="text-sm font-medium text-gray-700 dark:text-gray-300">
+                      {field.label}
+                    </label>
+                    <select
+                      value={mapping[field.value] || ''}
+                      onChange={(e) => updateMapping(field.value, e.target.value)}
+                      className="input w-full"
+                    >
+                      <option value="">Don't import</option>
+                      {analysis.columns.map((column) => (
+                        <option key={column} value={column}>
+                          {column}
+                        </option>
+                      ))}
+                    </select>
+                  </div>
+                ))}
+              </div>
+              <div className="flex space-x-3 pt-4">
+                <button onClick={() => setStep('upload')} className="btn btn-outline flex-1">
+                  Back
+                </button>
+                <button
+                  onClick={() => runImport(true)}
+                  disabled={isSubmitting || !mapping.title}
+                  className="btn btn-primary flex-1"
+                >
+                  {isSubmitting ? 'Checking...' : 'Preview'}
+                </button>
+              </div>
+            </>
+          )}
+
+          {/* Dry-run preview */}
+          {step === 'preview' && report && (
+            <>
+              <p className="text-sm text-gray-700 dark:text-gray-300">
+                {report.valid} of {report.total} rows can be imported.
+                {report.newCategories.length > 0 && (
+                  <> New categories: {report.newCategories.join(', ')}.</>
+                )}
+              </p>
+              {report.preview.length > 0 && (
+                <div className="max-h-60 overflow-auto border border-gray-200 dark:border-gray-700 rounded-lg">
+                  <table className="min-w-full text-xs">
+                    <thead className="bg-gray-50 dark:bg-gray-700 text-left text-gray-600 dark:text-gray-300">
+                      <tr>
+                        <th className="px-3 py-2">Title</th>
+                        <th className="px-3 py-2">Status</th>
+                        <th className="px-3 py-2">Priority</th>
+                        <th className="px-3 py-2">Due</th>
+                        <th className="px-3 py-2">Categories</th>
+                      </tr>
+                    </thead>
+                    <tbody className="divide-y divide-gray-200 dark:divide-gray-700 text-gray-900 dark:text-white">
+                      {report.preview.map((todo, index) => (
+                        <tr key={index}>
+                          <td className="px-3 py-2">{todo.title}</td>
+                          <td className="px-3 py-2">{todo.status.replace('_', ' ')}</td>
+                          <td className="px-3 py-2">{todo.priority}</td>
+                          <td className="px-3 py-2">
+                            {todo.dueDate ? new Date(todo.dueDate).toLocaleDateString() : '—'}
+                          </td>
+                          <td className="px-3 py-2">{todo.categories.join(', ') || '—'}</td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              )}
+              {renderErrors()}
+              <div className="flex space-x-3 pt-4">
+                <button onClick={() => setStep('mapping')} className="btn btn-outline flex-1">
+                  Back
+                </button>
+                <button
+                  onClick={() => runImport(false)}
+                  disabled={isSubmitting || report.valid === 0}
+                  className="btn btn-primary flex-1"
+                >
+                  {isSubmitting ? 'Importing...' : `Import ${report.valid} Todos`}
+                </button>
+              </div>
+            </>
+          )}
+
+          {/* Result */}
+          {step === 'done' && report && (
+            <>
+              <div className="text-center py-4">
+                <CheckCircle className="h-12 w-12 text-green-600 mx-auto mb-2" />
+                <p className="text-sm text-gray-700 dark:text-gray-300">
+                  Imported {report.imported} of {report.total} rows.
+                </p>
+              </div>
+              {renderErrors()}
+              <div className="flex pt-4">
+                <button onClick={onSuccess} className="btn btn-primary flex-1">
+                  Done
+                </button>
+              </div>
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ImportTodosModal;
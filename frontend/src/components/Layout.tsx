@@ -2,6 +2,7 @@ import React from 'react';
 import { Outlet } from 'react-router-dom';
 import Sidebar from './Sidebar';
 import Header from './Header';
+import TodoDetailDrawer from './TodoDetailDrawer';
 
 const Layout: React.FC = () => {
   return (
@@ -21,6 +22,9 @@ const Layout: React.FC = () => {
           </main>
         </div>
       </div>
+
+      {/* Todo detail drawer */}
+      <TodoDetailDrawer />
     </div>
   );
 };
@@ -0,0 +1,82 @@
+import React from 'react';
+
+interface LineSeries {
+  name: string;
+  // Tailwind stroke class, e.g. "stroke-red-500"
+  className: string;
+  // One value per label, null leaves a gap
+  values: (number | null)[];
+  dashed?: boolean;
+}
+
+interface LineChartProps {
+  labels: string[];
+  series: LineSeries[];
+  height?: number;
+}
+
+const WIDTH = 600;
+
+// Line chart drawn as SVG, scaled to the width of its container
+const LineChart: React.FC<LineChartProps> = ({ labels, series, height = 160 }) => {
+  const max = Math.max(1, ...series.flatMap(line => line.values.map(value => value || 0)));
+  const x = (index: number) => (labels.length > 1 ? (index / (labels.length - 1)) * WIDTH : WIDTH / 2);
+  const y = (value: number) => height - (value / max) * (height - 8) - 4;
+  const labelEvery = Math.ceil(labels.length / 8);
+
+  // Consecutive values form one path segment, nulls start a new one
+  const toPath = (values: (number | null)[]) =>
+    values
+      .map((value, index) => {
+        if (value === null) return '';
+        const command = index === 0 || values[index - 1] === null ? 'M' : 'L';
+        return `${command}${x(index).toFixed(1)},${y(value).toFixed(1)}`;
+      })
+      .join(' ');
+
+  return (
+    <div>
+      <div className="flex">
+        <div className="flex flex-col justify-between text-[10px] text-gray-500 dark:text-gray-400 pr-2" style={{ height }}>
+          <span>{max}</span>
+          <span>0</span>
+        </div>
+        <svg viewBox={`0 0 ${WIDTH} ${height}`} preserveAspectRatio="none" className="flex-1 overflow-visible" style={{ height }}>
+          <line x1={0} y1={y(0)} x2={WIDTH} y2={y(0)} className="stroke-gray-200 dark:stroke-gray-700" strokeWidth={1} />
+          {series.map((line) => (
+            <path
+              key={line.name}
+              d={toPath(line.values)}
+              fill="none"
+              className={line.className}
+              strokeWidth={2}
+              strokeDasharray={line.dashed ? '6 4' : undefined}
+              vectorEffect="non-scaling-stroke"
+            >
+              <title>{line.name}</title>
+            </path>
+          ))}
+        </svg>
+      </div>
+      <div className="flex justify-between mt-1 ml-6 text-[10px] text-gray-500 dark:text-gray-400">
+        {labels.filter((_, index) => index % labelEvery === 0).map((label) => (
+          <span key={label}>{label}</span>
+        ))}
+      </div>
+      {series.length > 1 && (
+        <div className="flex items-center space-x-4 mt-2 text-xs text-gray-600 dark:text-gray-400">
+          {series.map((line) => (
+            <span key={line.name} className="flex items-center space-x-1">
+              <svg width="16" height="4">
+                <line x1={0} y1={2} x2={16} y2={2} className={line.className} strokeWidth={2} strokeDasharray={line.dashed ? '4 2' : undefined} />
+              </svg>
+              <span>{line.name}</span>
+            </span>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default LineChart;
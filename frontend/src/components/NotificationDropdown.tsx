@@ -0,0 +1,167 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Bell, Check, CheckCheck, Trash2, Clock, AlertCircle, Users } from 'lucide-react';
+import { formatDistanceToNow } from 'date-fns';
+import { useNotificationStore } from '@/store';
+import { notificationApi } from '@/utils/api';
+import { InboxNotification } from '@/types';
+import toast from 'react-hot-toast';
+
+const NotificationDropdown: React.FC = () => {
+  const [isOpen, setIsOpen] = useState(false);
+  const containerRef = useRef<HTMLDivElement>(null);
+  const {
+    notifications,
+    unreadCount,
+    setNotifications,
+    markRead,
+    markAllRead,
+    removeNotification,
+  } = useNotificationStore();
+
+  useEffect(() => {
+    const loadNotifications = async () => {
+      try {
+        const response = await notificationApi.getNotifications({ limit: 20 });
+        setNotifications(response.notifications, response.unreadCount);
+      } catch (error) {
+        console.error('Failed to load notifications:', error);
+      }
+    };
+
+    loadNotifications();
+  }, [setNotifications]);
+
+  // Close when clicking outside
+  useEffect(() => {
+    if (!isOpen) return;
+
+    const handleClick = (event: MouseEvent) => {
+      if (containerRef.current && !containerRef.current.contains(event.target as Node)) {
+        setIsOpen(false);
+      }
+    };
+
+    document.addEventListener('mousedown', handleClick);
+    return () => document.removeEventListener('mousedown', handleClick);
+  }, [isOpen]);
+
+  const handleToggleRead = async (notification: InboxNotification) => {
+    const read = !notification.read;
+    markRead(notification.id, read);
+    try {
+      await notificationApi.markRead(notification.id, read);
+    } catch (error) {
+      markRead(notification.id, !read);
+      toast.error('Failed to update notification');
+    }
+  };
+
+  const handleMarkAllRead = async () => {
+    try {
+      await notificationApi.markAllRead();
+      markAllRead();
+    } catch (error) {
+      toast.error('Failed to update notifications');
+    }
+  };
+
+  const handleDelete = async (id: string) => {
+    try {
+      await notificationApi.deleteNotification(id);
+      removeNotification(id);
+    } catch (error) {
+      toast.error('Failed to delete notification');
+    }
+  };
+
+  const getTypeIcon = (notification: InboxNotification) => {
+    if (notification.type === 'REMINDER_OVERDUE') {
+      return <AlertCircle className="h-4 w-4 text-red-600" />;
+    }
+    if (notification.type === 'TEAM_INVITATION') {
+      return <Users className="h-4 w-4 text-primary-600" />;
+    }
+    return <Clock className="h-4 w-4 text-blue-600" />;
+  };
+
+  return (
+    <div className="relative" ref={containerRef}>
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className="p-2 rounded-md hover:bg-gray-100 dark:hover:bg-gray-700 transition-colors relative"
+      >
+        <Bell className="h-5 w-5 text-gray-600 dark:text-gray-300" />
+        {/* Notification badge */}
+        {unreadCount > 0 && (
+          <span className="absolute -top-1 -right-1 min-w-[1rem] h-4 px-1 bg-red-500 rounded-full text-[10px] font-medium text-white flex items-center justify-center">
+            {unreadCount > 99 ? '99+' : unreadCount}
+          </span>
+        )}
+      </button>
+
+      {isOpen && (
+        <div className="absolute right-0 mt-2 w-80 bg-white dark:bg-gray-800 rounded-lg shadow-xl border border-gray-200 dark:border-gray-700 z-50">
+          <div className="flex items-center justify-between px-4 py-3 border-b border-gray-200 dark:border-gray-700">
+            <h3 className="text-sm font-semibold text-gray-900 dark:text-white">
+              Notifications
+            </h3>
+            {unreadCount > 0 && (
+              <button
+                onClick={handleMarkAllRead}
+                className="flex items-center text-xs text-primary-600 hover:text-primary-700 dark:text-primary-400"
+              >
+                <CheckCheck className="h-3 w-3 mr-1" />
+                Mark all read
+              </button>
+            )}
+          </div>
+
+          <div className="max-h-96 overflow-y-auto">
+            {notifications.length === 0 ? (
+              <p className="px-4 py-8 text-center text-sm text-gray-500 dark:text-gray-400">
+                You're all caught up
+              </p>
+            ) : (
+              notifications.map((notification) => (
+                <div
+                  key={notification.id}
+                  className={`flex items-start space-x-3 px-4 py-3 border-b border-gray-100 dark:border-gray-700 last:border-b-0 ${
+                    notification.read ? '' : 'bg-primary-50 dark:bg-primary-900/20'
+                  }`}
+                >
+                  <div className="mt-0.5">{getTypeIcon(notification)}</div>
+                  <div className="flex-1 min-w-0">
+                    <p className="text-sm font-medium text-gray-900 dark:text-white">
+                      {notification.title}
+                    </p>
+                    <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">
+                      {formatDistanceToNow(new Date(notification.createdAt), { addSuffix: true })}
+                    </p>
+                  </div>
+                  <div className="flex items-center space-x-1">
+                    <button
+                      onClick={() => handleToggleRead(notification)}
+                      title={notification.read ? 'Mark as unread' : 'Mark as read'}
+                      className="p-1 rounded hover:bg-gray-100 dark:hover:bg-gray-700"
+                    >
+                      <Check className={`h-3 w-3 ${notification.read ? 'text-gray-400' : 'text-primary-600'}`} />
+                    </button>
+                    <button
+                      onClick={() => handleDelete(notification.id)}
+                      title="Delete"
+                      className="p-1 rounded hover:bg-gray-100 dark:hover:bg-gray-700"
+                    >
+                      <Trash2 className="h-3 w-3 text-gray-400" />
+                    </button>
+                  </div>
+                </div>
+              ))
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default NotificationDropdown;
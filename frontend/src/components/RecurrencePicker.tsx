@@ -0,0 +1,160 @@
+import React from 'react';
+import { Repeat } from 'lucide-react';
+import { Recurrence, RecurrenceFrequency, Weekday } from '@/types';
+import { weekdayOptions, describeRecurrence } from '@/utils/recurrence';
+
+interface RecurrencePickerProps {
+  value: Recurrence | null;
+  onChange: (value: Recurrence | null) => void;
+}
+
+type EndType = 'never' | 'count' | 'until';
+
+const frequencyOptions: { value: RecurrenceFrequency; label: string; unit: string }[] = [
+  { value: 'DAILY', label: 'Daily', unit: 'day(s)' },
+  { value: 'WEEKLY', label: 'Weekly', unit: 'week(s)' },
+  { value: 'MONTHLY', label: 'Monthly', unit: 'month(s)' },
+  { value: 'YEARLY', label: 'Yearly', unit: 'year(s)' },
+];
+
+const RecurrencePicker: React.FC<RecurrencePickerProps> = ({ value, onChange }) => {
+  const endType: EndType = value?.count ? 'count' : value?.until ? 'until' : 'never';
+
+  const handleFrequencyChange = (frequency: string) => {
+    if (!frequency) {
+      onChange(null);
+      return;
+    }
+    onChange({
+      frequency: frequency as RecurrenceFrequency,
+      interval: value?.interval || 1,
+      count: value?.count,
+      until: value?.until,
+    });
+  };
+
+  const update = (changes: Partial<Recurrence>) => {
+    if (value) {
+      onChange({ ...value, ...changes });
+    }
+  };
+
+  const toggleWeekday = (day: Weekday) => {
+    const current = value?.byWeekday || [];
+    update({
+      byWeekday: current.includes(day)
+        ? current.filter((d) => d !== day)
+        : [...current, day],
+    });
+  };
+
+  const handleEndTypeChange = (type: EndType) => {
+    update({
+      count: type === 'count' ? value?.count || 5 : undefined,
+      until: type === 'until' ? value?.until || new Date().toISOString().slice(0, 10) : undefined,
+    });
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="relative">
+        <Repeat className="absolute left-3 top-1/2 transform -translate-y-1/2 h-4 w-4 text-gray-400" />
+        <select
+          value={value?.frequency || ''}
+          onChange={(e) => handleFrequencyChange(e.target.value)}
+          className="input w-full pl-10"
+        >
+          <option value="">Does not repeat</option>
+          {frequencyOptions.map((option) => (
+            <option key={option.value} value={option.value}>
+              {option.label}
+            </option>
+          ))}
+        </select>
+      </div>
+
+      {value && (
+        <div className="p-3 border border-gray-200 dark:border-gray-600 rounded-lg space-y-3">
+          {/* Interval */}
+          <div className="flex items-center space-x-2 text-sm text-gray-700 dark:text-gray-300">
+            <span>Every</span>
+            <input
+              type="number"
+              min={1}
+              max={365}
+              value={value.interval}
+              onChange={(e) => update({ interval: Math.max(1, parseInt(e.target.value) || 1) })}
+              className="input w-20"
+            />
+            <span>
+              {frequencyOptions.find((option) => option.value === value.frequency)?.unit}
+            </span>
+          </div>
+
+          {/* Weekdays */}
+          {value.frequency === 'WEEKLY' && (
+            <div className="flex flex-wrap gap-1">
+              {weekdayOptions.map((option) => {
+                const selected = value.byWeekday?.includes(option.value);
+                return (
+                  <button
+                    key={option.value}
+                    type="button"
+                    onClick={() => toggleWeekday(option.value)}
+                    className={`px-2 py-1 rounded-md text-xs font-medium border transition-colors ${
+                      selected
+                        ? 'bg-primary-600 border-primary-600 text-white'
+                        : 'border-gray-300 dark:border-gray-600 text-gray-700 dark:text-gray-300 hover:bg-gray-50 dark:hover:bg-gray-700'
+                    }`}
+                  >
+                    {option.label}
+                  </button>
+                );
+              })}
+            </div>
+          )}
+
+          {/* End condition */}
+          <div className="flex items-center space-x-2 text-sm text-gray-700 dark:text-gray-300">
+            <span>Ends</span>
+            <select
+              value={endType}
+              onChange={(e) => handleEndTypeChange(e.target.value as EndType)}
+              className="input w-32"
+            >
+              <option value="never">Never</option>
+              <option value="count">After</option>
+              <option value="until">On date</option>
+            </select>
+            {endType === 'count' && (
+              <>
+                <input
+                  type="number"
+                  min={1}
+                  value={value.count}
+                  onChange={(e) => update({ count: Math.max(1, parseInt(e.target.value) || 1) })}
+                  className="input w-20"
+                />
+                <span>times</span>
+              </>
+            )}
+            {endType === 'until' && (
+              <input
+                type="date"
+                value={value.until?.slice(0, 10)}
+                onChange={(e) => update({ until: e.target.value })}
+                className="input flex-1"
+              />
+            )}
+          </div>
+
+          <p className="text-xs text-gray-500 dark:text-gray-400">
+            {describeRecurrence(value)}
+          </p>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default RecurrencePicker;
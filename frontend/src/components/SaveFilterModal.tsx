@@ -0,0 +1,143 @@
+import React, { useEffect, useState } from 'react';
+import { X } from 'lucide-react';
+import { savedFilterApi, teamApi } from '@/utils/api';
+import { useSavedFilterStore } from '@/store';
+import { SavedFilterData, Team } from '@/types';
+import toast from 'react-hot-toast';
+
+interface SaveFilterModalProps {
+  filter: Omit<SavedFilterData, 'name'>;
+  onClose: () => void;
+}
+
+// Save the current todo list filters as a named smart list
+const SaveFilterModal: React.FC<SaveFilterModalProps> = ({ filter, onClose }) => {
+  const [name, setName] = useState('');
+  const [teamId, setTeamId] = useState('');
+  const [pinAsDefault, setPinAsDefault] = useState(false);
+  const [teams, setTeams] = useState<Team[]>([]);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const { addSavedFilter, setDefaultFilterId } = useSavedFilterStore();
+
+  useEffect(() => {
+    loadTeams();
+  }, []);
+
+  const loadTeams = async () => {
+    try {
+      const response = await teamApi.getTeams();
+      setTeams(response.teams);
+    } catch (error) {
+      console.error('Failed to load teams:', error);
+    }
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    try {
+      setIsSubmitting(true);
+      const savedFilter = await savedFilterApi.createFilter({
+        ...filter,
+        name: name.trim(),
+        teamId: teamId || null,
+      });
+      addSavedFilter(savedFilter);
+      if (pinAsDefault) {
+        await savedFilterApi.setDefault(savedFilter.id);
+        setDefaultFilterId(savedFilter.id);
+      }
+      toast.success('Filter saved');
+      onClose();
+    } catch (error: any) {
+      toast.error(error.response?.data?.error || 'Failed to save filter');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+      <div className="bg-white dark:bg-gray-800 rounded-lg shadow-xl w-full max-w-md">
+        {/* Header */}
+        <div className="flex items-center justify-between p-6 border-b border-gray-200 dark:border-gray-700">
+          <h2 className="text-lg font-semibold text-gray-900 dark:text-white">
+            Save Filter
+          </h2>
+          <button
+            onClick={onClose}
+            className="p-2 hover:bg-gray-100 dark:hover:bg-gray-700 rounded-lg transition-colors"
+          >
+            <X className="h-5 w-5 text-gray-500" />
+          </button>
+        </div>
+
+        {/* Form */}
+        <form onSubmit={handleSubmit} className="p-6 space-y-4">
+          <div>
+            <label htmlFor="filterName" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+              Name *
+            </label>
+            <input
+              id="filterName"
+              type="text"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              className="input w-full"
+              placeholder="e.g. Urgent this week"
+              maxLength={100}
+              autoFocus
+            />
+          </div>
+
+          <div>
+            <span className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">Filter</span>
+            <p className="text-sm font-mono text-gray-600 dark:text-gray-400 break-words">
+              {filter.query || 'All todos'}
+              {filter.view && filter.view !== 'all' && ` · ${filter.view} view`}
+            </p>
+          </div>
+
+          {teams.length > 0 && (
+            <div>
+              <label htmlFor="filterTeam" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+                Share with
+              </label>
+              <select
+                id="filterTeam"
+                value={teamId}
+                onChange={(e) => setTeamId(e.target.value)}
+                className="input w-full"
+              >
+                <option value="">Only me</option>
+                {teams.map((team) => (
+                  <option key={team.id} value={team.id}>{team.name}</option>
+                ))}
+              </select>
+            </div>
+          )}
+
+          <label className="flex items-center space-x-2 text-sm text-gray-700 dark:text-gray-300">
+            <input
+              type="checkbox"
+              checked={pinAsDefault}
+              onChange={(e) => setPinAsDefault(e.target.checked)}
+              className="rounded border-gray-300 text-primary-600 focus:ring-primary-500"
+            />
+            <span>Use as my default dashboard view</span>
+          </label>
+
+          <div className="flex justify-end space-x-3 pt-2">
+            <button type="button" onClick={onClose} className="btn btn-outline">
+              Cancel
+            </button>
+            <button type="submit" disabled={isSubmitting || !name.trim()} className="btn btn-primary">
+              Save
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+};
+
+export default SaveFilterModal;
@@ -0,0 +1,137 @@
+import React, { useEffect, useRef } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { Filter, Pin, Trash2, Users } from 'lucide-react';
+import { useSavedFilterStore, useTodoStore } from '@/store';
+import { savedFilterApi } from '@/utils/api';
+import { SavedFilter } from '@/types';
+import toast from 'react-hot-toast';
+
+// Delay before refreshing counts after the todos in the store change
+const COUNT_REFRESH_DELAY_MS = 1000;
+
+// Saved filters ("smart lists") in the sidebar with the number of matching todos
+const SavedFilterList: React.FC = () => {
+  const navigate = useNavigate();
+  const { todos, filters, setFilters } = useTodoStore();
+  const { savedFilters, defaultFilterId, setSavedFilters, setDefaultFilterId, removeSavedFilter } = useSavedFilterStore();
+  const refreshTimer = useRef<ReturnType<typeof setTimeout>>();
+
+  // Todos are created, edited and deleted through the store, so refreshing when
+  // it changes keeps the counts live
+  useEffect(() => {
+    clearTimeout(refreshTimer.current);
+    refreshTimer.current = setTimeout(loadFilters, COUNT_REFRESH_DELAY_MS);
+    return () => clearTimeout(refreshTimer.current);
+  }, [todos]);
+
+  const loadFilters = async () => {
+    try {
+      const response = await savedFilterApi.getFilters();
+      setSavedFilters(response.filters, response.defaultFilterId);
+    } catch (error) {
+      console.error('Failed to load saved filters:', error);
+    }
+  };
+
+  const isActive = (filter: SavedFilter) =>
+    (filters.q || '') === filter.query && (filters.view || 'all') === filter.view;
+
+  const handleApply = (filter: SavedFilter) => {
+    setFilters({
+      q: filter.query || undefined,
+      view: filter.view,
+      sort: filter.sort || undefined,
+    });
+    navigate('/dashboard');
+  };
+
+  const handleTogglePin = async (filter: SavedFilter) => {
+    const filterId = defaultFilterId === filter.id ? null : filter.id;
+    try {
+      await savedFilterApi.setDefault(filterId);
+      setDefaultFilterId(filterId);
+      toast.success(filterId ? `"${filter.name}" is now your default view` : 'Default view cleared');
+    } catch (error: any) {
+      toast.error(error.response?.data?.error || 'Failed to update default view');
+    }
+  };
+
+  const handleDelete = async (filter: SavedFilter) => {
+    if (!confirm(`Delete the saved filter "${filter.name}"?`)) return;
+
+    try {
+      await savedFilterApi.deleteFilter(filter.id);
+      removeSavedFilter(filter.id);
+      toast.success('Filter deleted');
+    } catch (error: any) {
+      toast.error(error.response?.data?.error || 'Failed to delete filter');
+    }
+  };
+
+  if (savedFilters.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="mt-8">
+      <h3 className="px-3 mb-2 text-xs font-semibold uppercase tracking-wider text-gray-500 dark:text-gray-400">
+        Smart Lists
+      </h3>
+      <ul className="space-y-1">
+        {savedFilters.map((filter) => {
+          const isDefault = defaultFilterId === filter.id;
+          return (
+            <li key={filter.id} className="group relative">
+              <button
+                onClick={() => handleApply(filter)}
+                title={filter.query || 'All todos'}
+                className={`w-full flex items-center space-x-3 px-3 py-2 rounded-lg text-left transition-colors ${
+                  isActive(filter)
+                    ? 'bg-primary-100 dark:bg-primary-900 text-primary-700 dark:text-primary-300'
+                    : 'text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700'
+                }`}
+              >
+                <Filter className="h-4 w-4 flex-shrink-0" />
+                <span className="flex-1 text-sm truncate">{filter.name}</span>
+                {isDefault && (
+                  <span title="Default view" className="group-hover:invisible">
+                    <Pin className="h-3 w-3 text-primary-600 dark:text-primary-400" />
+                  </span>
+                )}
+                {filter.team && (
+                  <span title={`Shared with ${filter.team.name}`} className="group-hover:invisible">
+                    <Users className="h-3 w-3 text-gray-400" />
+                  </span>
+                )}
+                <span className="text-xs text-gray-500 dark:text-gray-400 group-hover:invisible">
+                  {filter.count ?? '–'}
+                </span>
+              </button>
+
+              <div className="absolute right-2 top-1/2 -translate-y-1/2 flex items-center space-x-1 invisible group-hover:visible">
+                <button
+                  onClick={() => handleTogglePin(filter)}
+                  className="p-1 rounded text-gray-400 hover:text-gray-600 dark:hover:text-gray-200"
+                  title={isDefault ? 'Unpin default view' : 'Pin as default view'}
+                >
+                  <Pin className="h-3 w-3" />
+                </button>
+                {filter.canManage && (
+                  <button
+                    onClick={() => handleDelete(filter)}
+                    className="p-1 rounded text-gray-400 hover:text-red-600"
+                    title="Delete filter"
+                  >
+                    <Trash2 className="h-3 w-3" />
+                  </button>
+                )}
+              </div>
+            </li>
+          );
+        })}
+      </ul>
+    </div>
+  );
+};
+
+export default SavedFilterList;
@@ -0,0 +1,122 @@
+import React, { useEffect, useState } from 'react';
+import { Monitor, Smartphone, LogOut } from 'lucide-react';
+import { formatDistanceToNow } from 'date-fns';
+import { authApi } from '@/utils/api';
+import { useAuthStore } from '@/store';
+import { Session } from '@/types';
+import LoadingSpinner from './LoadingSpinner';
+import toast from 'react-hot-toast';
+
+// Short "Browser on OS" label from a user agent string
+const describeUserAgent = (userAgent?: string | null) => {
+  if (!userAgent) return 'Unknown device';
+
+  const browser = ['Edg', 'Firefox', 'Chrome', 'Safari'].find(name => userAgent.includes(name));
+  const os = ['Windows', 'Android', 'iPhone', 'iPad', 'Mac OS', 'Linux'].find(name => userAgent.includes(name));
+  const browserName = browser === 'Edg' ? 'Edge' : browser;
+
+  if (!browserName && !os) return userAgent.slice(0, 60);
+  return [browserName || 'Unknown browser', os && `on ${os === 'Mac OS' ? 'macOS' : os}`].filter(Boolean).join(' ');
+};
+
+const isMobile = (userAgent?: string | null) => !!userAgent && /Android|iPhone|iPad|Mobile/.test(userAgent);
+
+const SessionList: React.FC = () => {
+  const [sessions, setSessions] = useState<Session[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const { logout } = useAuthStore();
+
+  useEffect(() => {
+    loadSessions();
+  }, []);
+
+  const loadSessions = async () => {
+    try {
+      setIsLoading(true);
+      const response = await authApi.getSessions();
+      setSessions(response.sessions);
+    } catch (error) {
+      toast.error('Failed to load sessions');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleRevoke = async (session: Session) => {
+    try {
+      await authApi.revokeSession(session.id);
+      setSessions(sessions.filter(s => s.id !== session.id));
+      toast.success('Session revoked');
+    } catch (error: any) {
+      toast.error(error.response?.data?.error || 'Failed to revoke session');
+    }
+  };
+
+  const handleLogoutAll = async () => {
+    if (!confirm('Log out of all devices, including this one?')) return;
+    try {
+      await authApi.logoutAll();
+      logout();
+      toast.success('Logged out everywhere');
+    } catch (error: any) {
+      toast.error(error.response?.data?.error || 'Failed to log out of all devices');
+    }
+  };
+
+  return (
+    <div className="bg-white dark:bg-gray-800 rounded-lg shadow-sm p-6">
+      <div className="flex items-center justify-between mb-6">
+        <div>
+          <h2 className="text-lg font-semibold text-gray-900 dark:text-white">Sessions</h2>
+          <p className="text-sm text-gray-600 dark:text-gray-400 mt-1">
+            Devices that are signed in to your account.
+          </p>
+        </div>
+        <button onClick={handleLogoutAll} className="btn btn-outline btn-sm">
+          <LogOut className="h-4 w-4 mr-2" />
+          Log Out Everywhere
+        </button>
+      </div>
+
+      {isLoading ? (
+        <div className="flex justify-center py-4">
+          <LoadingSpinner />
+        </div>
+      ) : (
+        <div className="divide-y divide-gray-200 dark:divide-gray-700">
+          {sessions.map((session) => {
+            const Icon = isMobile(session.userAgent) ? Smartphone : Monitor;
+            return (
+              <div key={session.id} className="flex items-center justify-between py-3">
+                <div className="flex items-center space-x-3 min-w-0">
+                  <Icon className="h-5 w-5 text-gray-400 flex-shrink-0" />
+                  <div className="min-w-0">
+                    <p className="text-sm font-medium text-gray-900 dark:text-white truncate">
+                      {describeUserAgent(session.userAgent)}
+                      {session.current && (
+                        <span className="ml-2 inline-flex items-center px-2 py-0.5 rounded-full text-xs font-medium bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-200">
+                          This device
+                        </span>
+                      )}
+                    </p>
+                    <p className="text-xs text-gray-500 dark:text-gray-400">
+                      {session.ipAddress && `${session.ipAddress} · `}
+                      Active {formatDistanceToNow(new Date(session.lastUsedAt), { addSuffix: true })}
+                    </p>
+                  </div>
+                </div>
+                {!session.current && (
+                  <button onClick={() => handleRevoke(session)} className="btn btn-outline btn-sm ml-4">
+                    Revoke
+                  </button>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default SessionList;
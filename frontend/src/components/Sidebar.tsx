@@ -3,13 +3,16 @@ import { NavLink } from 'react-router-dom';
 import { 
   LayoutDashboard, 
   CheckSquare, 
+  KanbanSquare,
   Tag, 
   Users, 
   Settings,
   BarChart3,
-  Calendar
+  Calendar,
+  Trash2
 } from 'lucide-react';
 import { useUIStore } from '@/store';
+import SavedFilterList from './SavedFilterList';
 
 const Sidebar: React.FC = () => {
   const { sidebarOpen } = useUIStore();
@@ -17,11 +20,13 @@ const Sidebar: React.FC = () => {
   const navigation = [
     { name: 'Dashboard', href: '/dashboard', icon: LayoutDashboard },
     { name: 'Todos', href: '/todos', icon: CheckSquare },
+    { name: 'Board', href: '/board', icon: KanbanSquare },
     { name: 'Categories', href: '/categories', icon: Tag },
     { name: 'Calendar', href: '/calendar', icon: Calendar },
     { name: 'Analytics', href: '/analytics', icon: BarChart3 },
     { name: 'Teams', href: '/teams', icon: Users },
     { name: 'Settings', href: '/settings', icon: Settings },
+    { name: 'Trash', href: '/trash', icon: Trash2 },
   ];
 
   return (
@@ -66,6 +71,9 @@ const Sidebar: React.FC = () => {
           })}
         </nav>
 
+        {/* Saved filters */}
+        {sidebarOpen && <SavedFilterList />}
+
         {/* Quick stats */}
         {sidebarOpen && (
           <div className="mt-8 p-4 bg-gray-50 dark:bg-gray-700 rounded-lg">
@@ -1,14 +1,22 @@
 import React from 'react';
-import { CheckCircle, Circle, Clock, AlertCircle, Calendar, Tag } from 'lucide-react';
+import { CheckCircle, Circle, Clock, AlertCircle, Calendar, Tag, Repeat, Lock, ArrowRight, Users, Trash2 } from 'lucide-react';
+import { useTodoStore } from '@/store';
 import { Todo, Priority, Status } from '@/types';
+import { describeRecurrence } from '@/utils/recurrence';
+import { isOverdue } from '@/utils/todo';
 
 interface TodoCardProps {
   todo: Todo;
   onUpdate?: (todo: Todo) => void;
   onDelete?: (id: string) => void;
+  selectable?: boolean;
+  selected?: boolean;
+  onSelectChange?: (id: string, selected: boolean) => void;
 }
 
-const TodoCard: React.FC<TodoCardProps> = ({ todo, onUpdate, onDelete }) => {
+const TodoCard: React.FC<TodoCardProps> = ({ todo, onUpdate, onDelete, selectable, selected, onSelectChange }) => {
+  const { openTodo } = useTodoStore();
+
   const getStatusIcon = (status: Status) => {
     switch (status) {
       case 'COMPLETED':
@@ -58,24 +66,47 @@ const TodoCard: React.FC<TodoCardProps> = ({ todo, onUpdate, onDelete }) => {
     });
   };
 
-  const isOverdue = (dueDate: string | undefined) => {
-    if (!dueDate) return false;
-    return new Date(dueDate) < new Date() && todo.status !== 'COMPLETED';
-  };
+  const isResolved = (status: Status) => status === 'COMPLETED' || status === 'CANCELLED';
 
   return (
-    <div className="bg-white dark:bg-gray-800 rounded-lg border border-gray-200 dark:border-gray-700 p-4 hover:shadow-md transition-shadow">
+    <div className={`bg-white dark:bg-gray-800 rounded-lg border p-4 hover:shadow-md transition-shadow ${selected ? 'border-primary-500 dark:border-primary-400' : 'border-gray-200 dark:border-gray-700'}`}>
       <div className="flex items-start justify-between">
         <div className="flex items-start space-x-3 flex-1">
-          {/* Status icon */}
-          <div className="mt-1">
-            {getStatusIcon(todo.status)}
-          </div>
+          {/* Selection */}
+          {selectable && (
+            <input
+              type="checkbox"
+              checked={!!selected}
+              onChange={(e) => onSelectChange?.(todo.id, e.target.checked)}
+              className="mt-1.5 h-4 w-4 rounded border-gray-300 text-primary-600 focus:ring-primary-500"
+              aria-label={`Select ${todo.title}`}
+            />
+          )}
+
+          {/* Status icon, toggles completion when the card can be updated */}
+          {onUpdate ? (
+            <button
+              onClick={() => onUpdate({ ...todo, status: todo.status === 'COMPLETED' ? 'TODO' : 'COMPLETED' })}
+              className="mt-1 rounded-full hover:opacity-75 transition-opacity"
+              title={todo.status === 'COMPLETED' ? 'Mark as not done' : 'Mark as done'}
+            >
+              {getStatusIcon(todo.status)}
+            </button>
+          ) : (
+            <div className="mt-1">
+              {getStatusIcon(todo.status)}
+            </div>
+          )}
 
           {/* Content */}
           <div className="flex-1 min-w-0">
             <h3 className="text-sm font-medium text-gray-900 dark:text-white truncate">
-              {todo.title}
+              <button
+                onClick={() => openTodo(todo)}
+                className="max-w-full truncate text-left hover:text-primary-600 dark:hover:text-primary-400"
+              >
+                {todo.title}
+              </button>
             </h3>
             
             {todo.description && (
@@ -98,12 +129,23 @@ const TodoCard: React.FC<TodoCardProps> = ({ todo, onUpdate, onDelete }) => {
 
               {/* Due date */}
               {todo.dueDate && (
-                <div className={`flex items-center text-xs ${isOverdue(todo.dueDate) ? 'text-red-600 dark:text-red-400' : 'text-gray-500 dark:text-gray-400'}`}>
+                <div className={`flex items-center text-xs ${isOverdue(todo) ? 'text-red-600 dark:text-red-400' : 'text-gray-500 dark:text-gray-400'}`}>
                   <Calendar className="h-3 w-3 mr-1" />
                   {formatDate(todo.dueDate)}
                 </div>
               )}
 
+              {/* Recurrence */}
+              {todo.recurrence && (
+                <div
+                  className="flex items-center text-xs text-primary-600 dark:text-primary-400"
+                  title={describeRecurrence(todo.recurrence)}
+                >
+                  <Repeat className="h-3 w-3 mr-1" />
+                  {todo.nextDueDate ? `Next: ${formatDate(todo.nextDueDate)}` : 'Repeats'}
+                </div>
+              )}
+
               {/* Subtasks progress */}
               {todo.totalSubtasks > 0 && (
                 <div className="text-xs text-gray-500 dark:text-gray-400">
@@ -129,17 +171,78 @@ const TodoCard: React.FC<TodoCardProps> = ({ todo, onUpdate, onDelete }) => {
                 </div>
               </div>
             )}
+
+            {/* Dependencies */}
+            {((todo.blockedBy?.length ?? 0) > 0 || (todo.blocking?.length ?? 0) > 0) && (
+              <div className="flex flex-wrap items-center gap-1 mt-2">
+                {todo.blockedBy?.map((blocker) => (
+                  <span
+                    key={blocker.id}
+                    className={`inline-flex items-center px-2 py-1 rounded-full text-xs font-medium ${
+                      isResolved(blocker.status)
+                        ? 'bg-gray-100 text-gray-500 line-through dark:bg-gray-700 dark:text-gray-400'
+                        : 'bg-red-100 text-red-800 dark:bg-red-900 dark:text-red-200'
+                    }`}
+                    title="Blocked by"
+                  >
+                    <Lock className="h-3 w-3 mr-1" />
+                    {blocker.title}
+                  </span>
+                ))}
+                {todo.blocking?.map((dependent) => (
+                  <span
+                    key={dependent.id}
+                    className="inline-flex items-center px-2 py-1 rounded-full text-xs font-medium bg-orange-100 text-orange-800 dark:bg-orange-900 dark:text-orange-200"
+                    title="Blocking"
+                  >
+                    <ArrowRight className="h-3 w-3 mr-1" />
+                    {dependent.title}
+                  </span>
+                ))}
+              </div>
+            )}
           </div>
         </div>
 
         {/* Actions */}
         <div className="flex items-center space-x-2 ml-4">
+          {/* Team and assignees */}
+          {todo.team && (
+            <span className="inline-flex items-center px-2 py-1 rounded-full text-xs font-medium bg-primary-100 text-primary-800 dark:bg-primary-900 dark:text-primary-200">
+              <Users className="h-3 w-3 mr-1" />
+              {todo.team.name}
+            </span>
+          )}
+          {todo.assignees?.length > 0 && (
+            <div className="flex -space-x-1">
+              {todo.assignees.map((assignee) => (
+                <div
+                  key={assignee.id}
+                  className="h-6 w-6 bg-primary-600 rounded-full border-2 border-white dark:border-gray-800 flex items-center justify-center text-xs font-medium text-white"
+                  title={assignee.name}
+                >
+                  {assignee.name.charAt(0).toUpperCase()}
+                </div>
+              ))}
+            </div>
+          )}
+
           {/* Comments count */}
           {todo.comments.length > 0 && (
             <div className="text-xs text-gray-500 dark:text-gray-400">
               {todo.comments.length} comments
             </div>
           )}
+
+          {onDelete && (
+            <button
+              onClick={() => onDelete(todo.id)}
+              className="p-1 rounded text-gray-400 hover:text-red-600 dark:hover:text-red-400"
+              title="Move to trash"
+            >
+              <Trash2 className="h-4 w-4" />
+            </button>
+          )}
         </div>
       </div>
     </div>
@@ -0,0 +1,499 @@
+import React, { useEffect, useState } from 'react';
+import { Link, useLocation } from 'react-router-dom';
+import { X, ExternalLink, Calendar, Tag, GripVertical, Trash2, Plus, Send, CheckSquare, MessageSquare } from 'lucide-react';
+import { format, formatDistanceToNow, parseISO } from 'date-fns';
+import { useAuthStore, useTodoStore } from '@/store';
+import { todoApi, categoryApi } from '@/utils/api';
+import { Comment, Priority, Status, Subtask, Todo, UpdateTodoData } from '@/types';
+import toast from 'react-hot-toast';
+
+const statusOptions: { value: Status; label: string }[] = [
+  { value: 'TODO', label: 'To do' },
+  { value: 'IN_PROGRESS', label: 'In progress' },
+  { value: 'COMPLETED', label: 'Completed' },
+  { value: 'CANCELLED', label: 'Cancelled' },
+];
+
+const priorityOptions: { value: Priority; label: string }[] = [
+  { value: 'LOW', label: 'Low' },
+  { value: 'MEDIUM', label: 'Medium' },
+  { value: 'HIGH', label: 'High' },
+  { value: 'URGENT', label: 'Urgent' },
+];
+
+// Subtasks and comments not saved yet carry a temporary id, counted so two
+// added in the same moment don't share one
+let pendingCount = 0;
+const pendingId = () => `pending-${++pendingCount}`;
+const isPending = (id: string) => id.startsWith('pending-');
+
+// Side panel to edit the todo opened from a TodoCard. Changes show right away
+// in the store and are rolled back when the server rejects them.
+const TodoDetailDrawer: React.FC = () => {
+  const {
+    activeTodo: todo,
+    categories,
+    closeTodo,
+    updateTodo,
+    setCategories,
+    addSubtask,
+    updateSubtask,
+    removeSubtask,
+    setSubtasks,
+    addComment,
+    updateComment,
+    removeComment,
+  } = useTodoStore();
+  const { user } = useAuthStore();
+  const location = useLocation();
+  const [title, setTitle] = useState('');
+  const [description, setDescription] = useState('');
+  const [newSubtask, setNewSubtask] = useState('');
+  const [newComment, setNewComment] = useState('');
+  const [draggedId, setDraggedId] = useState<string | null>(null);
+
+  const todoId = todo?.id;
+
+  // Refresh the todo when the drawer opens, the list may hold an older copy
+  useEffect(() => {
+    if (!todoId) return;
+    setNewSubtask('');
+    setNewComment('');
+
+    const loadTodo = async () => {
+      try {
+        const fresh = await todoApi.getTodo(todoId);
+        updateTodo(fresh.id, fresh);
+      } catch (error) {
+        console.error('Failed to load todo:', error);
+      }
+    };
+
+    loadTodo();
+  }, [todoId, updateTodo]);
+
+  useEffect(() => {
+    if (!todoId || categories.length > 0) return;
+
+    const loadCategories = async () => {
+      try {
+        const response = await categoryApi.getCategories();
+        setCategories(response.categories);
+      } catch (error) {
+        console.error('Failed to load categories:', error);
+      }
+    };
+
+    loadCategories();
+  }, [todoId, categories.length, setCategories]);
+
+  useEffect(() => {
+    setTitle(todo?.title || '');
+    setDescription(todo?.description || '');
+  }, [todoId, todo?.title, todo?.description]);
+
+  useEffect(() => {
+    closeTodo();
+  }, [location.pathname, closeTodo]);
+
+  useEffect(() => {
+    if (!todoId) return;
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') closeTodo();
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [todoId, closeTodo]);
+
+  if (!todo) return null;
+
+  // Show `changes` right away, save `data` and restore the previous values of
+  // the changed fields if saving fails
+  const saveTodo = async (data: UpdateTodoData, changes: Partial<Todo>) => {
+    const previous = Object.fromEntries(
+      Object.keys(changes).map((key) => [key, todo[key as keyof Todo]])
+    ) as Partial<Todo>;
+
+    updateTodo(todo.id, changes);
+    try {
+      const saved = await todoApi.updateTodo(todo.id, data);
+      updateTodo(saved.id, saved);
+    } catch (error: any) {
+      updateTodo(todo.id, previous);
+      toast.error(error.response?.data?.error || 'Failed to update todo');
+    }
+  };
+
+  const handleTitleBlur = () => {
+    const trimmed = title.trim();
+    if (!trimmed) {
+      setTitle(todo.title);
+      return;
+    }
+    if (trimmed !== todo.title) {
+      saveTodo({ title: trimmed }, { title: trimmed });
+    }
+  };
+
+  const handleDescriptionBlur = () => {
+    if (description !== (todo.description || '')) {
+      saveTodo({ description }, { description });
+    }
+  };
+
+  const handleDueDateChange = (value: string) => {
+    const dueDate = value ? new Date(value).toISOString() : null;
+    saveTodo({ dueDate }, { dueDate: dueDate || undefined });
+  };
+
+  const toggleCategory = (categoryId: string) => {
+    const selected = todo.categories.some((category) => category.id === categoryId)
+      ? todo.categories.filter((category) => category.id !== categoryId)
+      : [...todo.categories, ...categories.filter((category) => category.id === categoryId)];
+    saveTodo({ categoryIds: selected.map((category) => category.id) }, { categories: selected });
+  };
+
+  const handleAddSubtask = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const subtaskTitle = newSubtask.trim();
+    if (!subtaskTitle) return;
+
+    const now = new Date().toISOString();
+    const pending: Subtask = {
+      id: pendingId(),
+      title: subtaskTitle,
+      completed: false,
+      order: todo.subtasks.length,
+      createdAt: now,
+      updatedAt: now,
+      todoId: todo.id,
+    };
+
+    setNewSubtask('');
+    addSubtask(todo.id, pending);
+    try {
+      const saved = await todoApi.addSubtask(todo.id, { title: subtaskTitle });
+      updateSubtask(todo.id, pending.id, saved);
+    } catch (error: any) {
+      removeSubtask(todo.id, pending.id);
+      toast.error(error.response?.data?.error || 'Failed to add subtask');
+    }
+  };
+
+  const handleToggleSubtask = async (subtask: Subtask) => {
+    updateSubtask(todo.id, subtask.id, { completed: !subtask.completed });
+    try {
+      await todoApi.updateSubtask(subtask.id, { completed: !subtask.completed });
+    } catch (error: any) {
+      updateSubtask(todo.id, subtask.id, { completed: subtask.completed });
+      toast.error(error.response?.data?.error || 'Failed to update subtask');
+    }
+  };
+
+  const handleDeleteSubtask = async (subtask: Subtask) => {
+    const previous = todo.subtasks;
+    removeSubtask(todo.id, subtask.id);
+    try {
+      await todoApi.deleteSubtask(subtask.id);
+    } catch (error: any) {
+      setSubtasks(todo.id, previous);
+      toast.error(error.response?.data?.error || 'Failed to delete subtask');
+    }
+  };
+
+  // Dropping a subtask moves it to the position of the subtask it lands on
+  const handleSubtaskDrop = async (target: Subtask) => {
+    const dragged = todo.subtasks.find((subtask) => subtask.id === draggedId);
+    setDraggedId(null);
+    if (!dragged || dragged.id === target.id) return;
+
+    const previous = todo.subtasks;
+    const reordered = previous.filter((subtask) => subtask.id !== dragged.id);
+    reordered.splice(previous.indexOf(target), 0, dragged);
+
+    setSubtasks(todo.id, reordered.map((subtask, index) => ({ ...subtask, order: index })));
+    try {
+      await todoApi.reorderSubtasks(todo.id, reordered.map((subtask) => subtask.id));
+    } catch (error: any) {
+      setSubtasks(todo.id, previous);
+      toast.error(error.response?.data?.error || 'Failed to reorder subtasks');
+    }
+  };
+
+  const handleAddComment = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const content = newComment.trim();
+    if (!content || !user) return;
+
+    const now = new Date().toISOString();
+    const pending: Comment = {
+      id: pendingId(),
+      content,
+      createdAt: now,
+      updatedAt: now,
+      userId: user.id,
+      todoId: todo.id,
+      user: { id: user.id, name: user.name, avatar: user.avatar },
+    };
+
+    setNewComment('');
+    addComment(todo.id, pending);
+    try {
+      const saved = await todoApi.addComment(todo.id, { content });
+      updateComment(todo.id, pending.id, saved);
+    } catch (error: any) {
+      removeComment(todo.id, pending.id);
+      setNewComment(content);
+      toast.error(error.response?.data?.error || 'Failed to add comment');
+    }
+  };
+
+  const hasPendingSubtasks = todo.subtasks.some((subtask) => isPending(subtask.id));
+
+  return (
+    <div className="fixed inset-0 z-40 flex justify-end">
+      <div className="absolute inset-0 bg-black bg-opacity-30" onClick={closeTodo} />
+
+      <div className="relative w-full max-w-lg h-full bg-white dark:bg-gray-800 shadow-xl flex flex-col">
+        {/* Header */}
+        <div className="flex items-start justify-between p-6 border-b border-gray-200 dark:border-gray-700">
+          <input
+            type="text"
+            value={title}
+            onChange={(e) => setTitle(e.target.value)}
+            onBlur={handleTitleBlur}
+            onKeyDown={(e) => e.key === 'Enter' && e.currentTarget.blur()}
+            maxLength={200}
+            className="flex-1 text-lg font-semibold text-gray-900 dark:text-white bg-transparent border-0 rounded focus:ring-2 focus:ring-primary-500 px-1 -ml-1"
+            aria-label="Title"
+          />
+          <div className="flex items-center space-x-1 ml-4">
+            <Link
+              to={`/todos/${todo.id}`}
+              className="p-2 hover:bg-gray-100 dark:hover:bg-gray-700 rounded-lg transition-colors"
+              title="Open page"
+            >
+              <ExternalLink className="h-5 w-5 text-gray-500" />
+            </Link>
+            <button
+              onClick={closeTodo}
+              className="p-2 hover:bg-gray-100 dark:hover:bg-gray-700 rounded-lg transition-colors"
+              title="Close"
+            >
+              <X className="h-5 w-5 text-gray-500" />
+            </button>
+          </div>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-6 space-y-6">
+          {/* Fields */}
+          <div className="grid grid-cols-2 gap-4">
+            <label className="block text-sm font-medium text-gray-700 dark:text-gray-300">
+              Status
+              <select
+                value={todo.status}
+                onChange={(e) => saveTodo({ status: e.target.value as Status }, { status: e.target.value as Status })}
+                className="input w-full mt-1"
+              >
+                {statusOptions.map((option) => (
+                  <option key={option.value} value={option.value}>{option.label}</option>
+                ))}
+              </select>
+            </label>
+            <label className="block text-sm font-medium text-gray-700 dark:text-gray-300">
+              Priority
+              <select
+                value={todo.priority}
+                onChange={(e) => saveTodo({ priority: e.target.value as Priority }, { priority: e.target.value as Priority })}
+                className="input w-full mt-1"
+              >
+                {priorityOptions.map((option) => (
+                  <option key={option.value} value={option.value}>{option.label}</option>
+                ))}
+              </select>
+            </label>
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+              Due Date
+            </label>
+            <div className="flex items-center space-x-2">
+              <div className="relative flex-1">
+                <Calendar className="absolute left-3 top-1/2 transform -translate-y-1/2 h-4 w-4 text-gray-400" />
+                <input
+                  type="datetime-local"
+                  value={todo.dueDate ? format(parseISO(todo.dueDate), "yyyy-MM-dd'T'HH:mm") : ''}
+                  onChange={(e) => handleDueDateChange(e.target.value)}
+                  className="input w-full pl-10"
+                />
+              </div>
+              {todo.dueDate && (
+                <button onClick={() => handleDueDateChange('')} className="btn btn-outline btn-sm">
+                  Clear
+                </button>
+              )}
+            </div>
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+              Description
+            </label>
+            <textarea
+              value={description}
+              onChange={(e) => setDescription(e.target.value)}
+              onBlur={handleDescriptionBlur}
+              rows={4}
+              maxLength={1000}
+              className="input w-full resize-none"
+              placeholder="Add a description"
+            />
+          </div>
+
+          {categories.length > 0 && (
+            <div>
+              <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+                Categories
+              </label>
+              <div className="flex flex-wrap gap-2">
+                {categories.map((category) => {
+                  const selected = todo.categories.some((c) => c.id === category.id);
+                  return (
+                    <button
+                      key={category.id}
+                      onClick={() => toggleCategory(category.id)}
+                      className={`inline-flex items-center px-2 py-1 rounded-full text-xs font-medium border transition-colors ${
+                        selected ? 'border-transparent' : 'border-gray-200 dark:border-gray-600 text-gray-600 dark:text-gray-400'
+                      }`}
+                      style={selected ? { backgroundColor: `${category.color}20`, color: category.color } : undefined}
+                    >
+                      <Tag className="h-3 w-3 mr-1" />
+                      {category.name}
+                    </button>
+                  );
+                })}
+              </div>
+            </div>
+          )}
+
+          {/* Subtasks */}
+          <div>
+            <h3 className="flex items-center text-sm font-semibold text-gray-900 dark:text-white mb-2">
+              <CheckSquare className="h-4 w-4 mr-2" />
+              Subtasks
+              {todo.subtasks.length > 0 && (
+                <span className="ml-2 text-xs font-normal text-gray-500 dark:text-gray-400">
+                  {todo.subtasks.filter((subtask) => subtask.completed).length}/{todo.subtasks.length}
+                </span>
+              )}
+            </h3>
+            <ul className="space-y-1">
+              {todo.subtasks.map((subtask) => (
+                <li
+                  key={subtask.id}
+                  draggable={!hasPendingSubtasks}
+                  onDragStart={(e) => {
+                    e.dataTransfer.effectAllowed = 'move';
+                    setDraggedId(subtask.id);
+                  }}
+                  onDragOver={(e) => draggedId && e.preventDefault()}
+                  onDrop={(e) => {
+                    e.preventDefault();
+                    handleSubtaskDrop(subtask);
+                  }}
+                  onDragEnd={() => setDraggedId(null)}
+                  className={`group flex items-center space-x-2 p-1 rounded hover:bg-gray-50 dark:hover:bg-gray-700 ${
+                    draggedId === subtask.id ? 'opacity-50' : ''
+                  }`}
+                >
+                  <GripVertical className="h-4 w-4 text-gray-300 dark:text-gray-600 cursor-grab" />
+                  <input
+                    type="checkbox"
+                    checked={subtask.completed}
+                    disabled={isPending(subtask.id)}
+                    onChange={() => handleToggleSubtask(subtask)}
+                    className="h-4 w-4 rounded border-gray-300 text-primary-600 focus:ring-primary-500"
+                  />
+                  <span className={`flex-1 text-sm ${subtask.completed ? 'line-through text-gray-400' : 'text-gray-700 dark:text-gray-300'}`}>
+                    {subtask.title}
+                  </span>
+                  {!isPending(subtask.id) && (
+                    <button
+                      onClick={() => handleDeleteSubtask(subtask)}
+                      className="p-1 rounded text-gray-400 hover:text-red-600 dark:hover:text-red-400 opacity-0 group-hover:opacity-100"
+                      title="Delete subtask"
+                    >
+                      <Trash2 className="h-3 w-3" />
+                    </button>
+                  )}
+                </li>
+              ))}
+            </ul>
+            <form onSubmit={handleAddSubtask} className="flex items-center space-x-2 mt-2">
+              <input
+                type="text"
+                value={newSubtask}
+                onChange={(e) => setNewSubtask(e.target.value)}
+                className="input flex-1 py-1 text-sm"
+                placeholder="Add a subtask"
+              />
+              <button type="submit" disabled={!newSubtask.trim()} className="btn btn-outline btn-sm">
+                <Plus className="h-4 w-4" />
+              </button>
+            </form>
+          </div>
+
+          {/* Comments */}
+          <div>
+            <h3 className="flex items-center text-sm font-semibold text-gray-900 dark:text-white mb-2">
+              <MessageSquare className="h-4 w-4 mr-2" />
+              Comments
+            </h3>
+            <form onSubmit={handleAddComment} className="mb-4">
+              <textarea
+                value={newComment}
+                onChange={(e) => setNewComment(e.target.value)}
+                rows={2}
+                className="input w-full resize-none text-sm"
+                placeholder="Write a comment"
+              />
+              <div className="flex justify-end mt-2">
+                <button type="submit" disabled={!newComment.trim()} className="btn btn-primary btn-sm">
+                  <Send className="h-4 w-4 mr-2" />
+                  Post
+                </button>
+              </div>
+            </form>
+            {todo.comments.length === 0 ? (
+              <p className="text-sm text-gray-500 dark:text-gray-400">No comments yet.</p>
+            ) : (
+              <ul className="space-y-4">
+                {todo.comments.map((comment) => (
+                  <li key={comment.id} className={`flex space-x-3 ${isPending(comment.id) ? 'opacity-60' : ''}`}>
+                    <div className="h-8 w-8 flex-shrink-0 bg-primary-600 rounded-full flex items-center justify-center text-sm font-medium text-white">
+                      {comment.user.name.charAt(0).toUpperCase()}
+                    </div>
+                    <div className="flex-1 min-w-0">
+                      <div className="flex items-baseline space-x-2">
+                        <span className="text-sm font-medium text-gray-900 dark:text-white">{comment.user.name}</span>
+                        <span className="text-xs text-gray-500 dark:text-gray-400">
+                          {isPending(comment.id) ? 'Posting…' : formatDistanceToNow(parseISO(comment.createdAt), { addSuffix: true })}
+                        </span>
+                      </div>
+                      <p className="text-sm text-gray-700 dark:text-gray-300 whitespace-pre-wrap break-words">
+                        {comment.content}
+                      </p>
+                    </div>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default TodoDetailDrawer;
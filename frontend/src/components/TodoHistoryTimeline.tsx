@@ -0,0 +1,158 @@
+import React, { useEffect, useState } from 'react';
+import { History, RotateCcw, User } from 'lucide-react';
+import { formatDistanceToNow } from 'date-fns';
+import { todoApi } from '@/utils/api';
+import { FieldChange, Todo, TodoRevision } from '@/types';
+import LoadingSpinner from './LoadingSpinner';
+import toast from 'react-hot-toast';
+
+interface TodoHistoryTimelineProps {
+  todoId: string;
+  onReverted?: (todo: Todo) => void;
+}
+
+const actionLabels: Record<TodoRevision['action'], string> = {
+  CREATED: 'created this todo',
+  UPDATED: 'updated',
+  DELETED: 'moved this todo to the trash',
+  RESTORED: 'restored this todo',
+  REVERTED: 'reverted',
+};
+
+const fieldLabels: Record<string, string> = {
+  title: 'Title',
+  description: 'Description',
+  priority: 'Priority',
+  status: 'Status',
+  dueDate: 'Due date',
+  recurrenceRule: 'Repeat',
+  categories: 'Categories',
+  deleted: 'In trash',
+};
+
+const formatValue = (field: string, value: any): string => {
+  if (value === null || value === undefined || value === '') return '—';
+  if (Array.isArray(value)) return value.length > 0 ? value.join(', ') : '—';
+  if (field === 'dueDate') return new Date(value).toLocaleString();
+  if (typeof value === 'boolean') return value ? 'Yes' : 'No';
+  return String(value).replace('_', ' ');
+};
+
+const TodoHistoryTimeline: React.FC<TodoHistoryTimelineProps> = ({ todoId, onReverted }) => {
+  const [revisions, setRevisions] = useState<TodoRevision[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+
+  useEffect(() => {
+    loadHistory();
+  }, [todoId]);
+
+  const loadHistory = async () => {
+    try {
+      setIsLoading(true);
+      const response = await todoApi.getHistory(todoId);
+      setRevisions(response.revisions);
+    } catch (error) {
+      toast.error('Failed to load history');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleRevert = async (revision: TodoRevision) => {
+    if (!confirm(`Revert this todo to revision ${revision.revision}?`)) return;
+    try {
+      const response = await todoApi.revertTodo(todoId, revision.revision);
+      toast.success(`Reverted to revision ${revision.revision}`);
+      onReverted?.(response.todo);
+      loadHistory();
+    } catch (error: any) {
+      toast.error(error.response?.data?.error || 'Failed to revert todo');
+    }
+  };
+
+  // Subtask changes are keyed by id, look the title up in the snapshots
+  const describeChange = (change: FieldChange, revision: TodoRevision) => {
+    if (change.field.startsWith('subtasks.')) {
+      const [, subtaskId, key] = change.field.split('.');
+      const subtask = (revision.snapshot.subtasks || []).find((s: any) => s.id === subtaskId);
+      const title = subtask?.title || change.from || change.to;
+
+      if (!key) {
+        return change.to === null ? `Removed subtask "${change.from}"` : `Added subtask "${change.to}"`;
+      }
+      if (key === 'completed') {
+        return `${change.to ? 'Checked' : 'Unchecked'} subtask "${title}"`;
+      }
+      if (key === 'title') {
+        return `Renamed subtask "${change.from}" to "${change.to}"`;
+      }
+      return `Reordered subtask "${title}"`;
+    }
+
+    const label = fieldLabels[change.field] || change.field;
+    return `${label}: ${formatValue(change.field, change.from)} → ${formatValue(change.field, change.to)}`;
+  };
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center py-8">
+        <LoadingSpinner />
+      </div>
+    );
+  }
+
+  if (revisions.length === 0) {
+    return (
+      <div className="text-center py-8">
+        <History className="h-8 w-8 text-gray-400 mx-auto mb-2" />
+        <p className="text-sm text-gray-500 dark:text-gray-400">No history recorded yet</p>
+      </div>
+    );
+  }
+
+  return (
+    <ol className="relative border-l border-gray-200 dark:border-gray-700 ml-3 space-y-6">
+      {revisions.map((revision, index) => (
+        <li key={revision.id} className="ml-6">
+          <span className="absolute -left-3 flex items-center justify-center h-6 w-6 rounded-full bg-primary-100 dark:bg-primary-900">
+            <User className="h-3 w-3 text-primary-600 dark:text-primary-300" />
+          </span>
+          <div className="flex items-start justify-between">
+            <div>
+              <p className="text-sm text-gray-900 dark:text-white">
+                <span className="font-medium">{revision.actor.name}</span>{' '}
+                {actionLabels[revision.action]}
+                {revision.action === 'REVERTED' && ' to an earlier revision'}
+              </p>
+              <p className="text-xs text-gray-500 dark:text-gray-400">
+                Revision {revision.revision} ·{' '}
+                {formatDistanceToNow(new Date(revision.createdAt), { addSuffix: true })}
+              </p>
+            </div>
+            {index > 0 && (
+              <button
+                onClick={() => handleRevert(revision)}
+                className="btn btn-outline btn-sm"
+                title="Revert to this revision"
+              >
+                <RotateCcw className="h-3 w-3 mr-1" />
+                Revert
+              </button>
+            )}
+          </div>
+          {revision.changes.length > 0 && (
+            <ul className="mt-2 space-y-1">
+              {revision.changes.map((change, changeIndex) => (
+                <li key={changeIndex} className="text-xs text-gray-600 dark:text-gray-400">
+                  {describeChange(change, revision)}
+                </li>
+              ))}
+            </ul>
+          )}
+        </li>
+      ))}
+    </ol>
+  );
+};
+
+export default TodoHistoryTimeline;
@@ -0,0 +1,262 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Search, X, HelpCircle } from 'lucide-react';
+import { useTodoStore } from '@/store';
+import { categoryApi } from '@/utils/api';
+
+interface TodoSearchBarProps {
+  value: string;
+  onSearch: (query: string) => void;
+  placeholder?: string;
+}
+
+interface Suggestion {
+  label: string;
+  description?: string;
+  // Text that replaces the term being typed
+  insert: string;
+  // Field names are completed without a trailing space so a value can follow
+  isField?: boolean;
+}
+
+// Fields of the query language (see backend utils/todoQuery.ts)
+const FIELDS: { name: string; description: string }[] = [
+  { name: 'status', description: 'todo, in_progress, completed, cancelled' },
+  { name: 'priority', description: 'low to urgent, or a comparison like >=high' },
+  { name: 'due', description: 'today, <7d, overdue, none or YYYY-MM-DD' },
+  { name: 'cat', description: 'category name, or none' },
+  { name: 'assignee', description: 'me, none or a name' },
+  { name: 'created', description: 'today, >=-7d or YYYY-MM-DD' },
+  { name: 'updated', description: 'today, >=-7d or YYYY-MM-DD' },
+];
+
+const FIELD_ALIASES: Record<string, string> = { is: 'status', prio: 'priority', category: 'cat' };
+
+const FIELD_VALUES: Record<string, string[]> = {
+  status: ['todo', 'in_progress', 'completed', 'cancelled'],
+  priority: ['low', 'medium', 'high', 'urgent', '>=high', '<=medium'],
+  due: ['today', 'tomorrow', 'overdue', 'none', 'any', '<7d', '<=today', '>today'],
+  assignee: ['me', 'none'],
+  created: ['today', 'yesterday', '>=-7d', '>=-30d'],
+  updated: ['today', 'yesterday', '>=-7d', '>=-30d'],
+};
+
+const quoteIfNeeded = (value: string) => (/[\s,"]/.test(value) ? `"${value.replace(/"/g, '')}"` : value);
+
+// The term being typed before the cursor: optional "-", optional "field:" and
+// the (possibly quoted) value typed so far
+const TERM_PATTERN = /(-?)(?:([a-z]+):)?("[^"]*|[^\s"]*)$/i;
+
+const TodoSearchBar: React.FC<TodoSearchBarProps> = ({ value, onSearch, placeholder }) => {
+  const [query, setQuery] = useState(value);
+  const [cursor, setCursor] = useState(value.length);
+  const [isOpen, setIsOpen] = useState(false);
+  const [highlighted, setHighlighted] = useState(0);
+  // Enter picks a suggestion only after moving through the list with the arrows
+  const [navigated, setNavigated] = useState(false);
+  const [showHelp, setShowHelp] = useState(false);
+  const inputRef = useRef<HTMLInputElement>(null);
+  const { categories, setCategories } = useTodoStore();
+
+  useEffect(() => {
+    setQuery(value);
+  }, [value]);
+
+  useEffect(() => {
+    if (categories.length === 0) {
+      loadCategories();
+    }
+  }, []);
+
+  const loadCategories = async () => {
+    try {
+      const response = await categoryApi.getCategories();
+      setCategories(response.categories);
+    } catch (error) {
+      console.error('Failed to load categories:', error);
+    }
+  };
+
+  const beforeCursor = query.slice(0, cursor);
+  const term = TERM_PATTERN.exec(beforeCursor)!;
+  const termStart = beforeCursor.length - term[0].length;
+  const [, negation, typedField, typedValue] = term;
+
+  const getSuggestions = (): Suggestion[] => {
+    if (typedField === undefined) {
+      const partial = typedValue.toLowerCase();
+      if (partial.startsWith('"')) return [];
+      return FIELDS
+        .filter(field => field.name.startsWith(partial))
+        .map(field => ({
+          label: `${field.name}:`,
+          description: field.description,
+          insert: `${negation}${field.name}:`,
+          isField: true,
+        }));
+    }
+
+    const field = FIELD_ALIASES[typedField.toLowerCase()] || typedField.toLowerCase();
+    const values = field === 'cat'
+      ? ['none', ...categories.map(category => category.name)]
+      : FIELD_VALUES[field] || [];
+
+    // Comma separated lists complete their last item
+    const listStart = typedValue.lastIndexOf(',') + 1;
+    const prefix = typedValue.slice(0, listStart);
+    const partial = typedValue.slice(listStart).replace(/^"/, '').toLowerCase();
+
+    return values
+      .filter(option => option.toLowerCase().startsWith(partial) && option.toLowerCase() !== partial)
+      .slice(0, 8)
+      .map(option => ({
+        label: option,
+        insert: `${negation}${typedField}:${prefix}${quoteIfNeeded(option)}`,
+      }));
+  };
+
+  const suggestions = isOpen ? getSuggestions() : [];
+
+  const updateQuery = (nextQuery: string, nextCursor: number) => {
+    setQuery(nextQuery);
+    setCursor(nextCursor);
+    setHighlighted(0);
+    setNavigated(false);
+    requestAnimationFrame(() => {
+      inputRef.current?.setSelectionRange(nextCursor, nextCursor);
+    });
+  };
+
+  const applySuggestion = (suggestion: Suggestion) => {
+    const insert = suggestion.isField ? suggestion.insert : `${suggestion.insert} `;
+    const rest = query.slice(cursor).replace(/^\S*/, '');
+    updateQuery(query.slice(0, termStart) + insert + rest.replace(/^\s+/, ''), termStart + insert.length);
+    setIsOpen(true);
+    inputRef.current?.focus();
+  };
+
+  const submit = () => {
+    setIsOpen(false);
+    onSearch(query.trim());
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (suggestions.length > 0) {
+      if (e.key === 'ArrowDown') {
+        e.preventDefault();
+        setHighlighted(navigated ? (highlighted + 1) % suggestions.length : 0);
+        setNavigated(true);
+        return;
+      }
+      if (e.key === 'ArrowUp') {
+        e.preventDefault();
+        setHighlighted((highlighted - 1 + suggestions.length) % suggestions.length);
+        setNavigated(true);
+        return;
+      }
+      if (e.key === 'Tab' || (e.key === 'Enter' && navigated)) {
+        e.preventDefault();
+        applySuggestion(suggestions[Math.min(highlighted, suggestions.length - 1)]);
+        return;
+      }
+    }
+
+    if (e.key === 'Enter') {
+      e.preventDefault();
+      submit();
+    } else if (e.key === 'Escape') {
+      setIsOpen(false);
+    }
+  };
+
+  const handleClear = () => {
+    updateQuery('', 0);
+    onSearch('');
+  };
+
+  return (
+    <div className="relative">
+      <div className="relative">
+        <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-gray-400" />
+        <input
+          ref={inputRef}
+          type="text"
+          value={query}
+          onChange={(e) => {
+            setQuery(e.target.value);
+            setCursor(e.target.selectionStart ?? e.target.value.length);
+            setHighlighted(0);
+            setNavigated(false);
+            setIsOpen(true);
+          }}
+          onSelect={(e) => setCursor(e.currentTarget.selectionStart ?? query.length)}
+          onFocus={() => setIsOpen(true)}
+          onBlur={() => setIsOpen(false)}
+          onKeyDown={handleKeyDown}
+          className="input w-full pl-9 pr-16 font-mono text-sm"
+          placeholder={placeholder || 'Search, e.g. status:todo priority:>=high due:<7d cat:work'}
+          spellCheck={false}
+          autoComplete="off"
+        />
+        <div className="absolute right-2 top-1/2 -translate-y-1/2 flex items-center space-x-1">
+          {query && (
+            <button
+              type="button"
+              onClick={handleClear}
+              className="p-1 text-gray-400 hover:text-gray-600 dark:hover:text-gray-200"
+              title="Clear search"
+            >
+              <X className="h-4 w-4" />
+            </button>
+          )}
+          <button
+            type="button"
+            onClick={() => setShowHelp(!showHelp)}
+            className="p-1 text-gray-400 hover:text-gray-600 dark:hover:text-gray-200"
+            title="Search syntax"
+          >
+            <HelpCircle className="h-4 w-4" />
+          </button>
+        </div>
+      </div>
+
+      {suggestions.length > 0 && (
+        <ul className="absolute z-20 mt-1 w-full bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-700 rounded-md shadow-lg py-1 max-h-64 overflow-y-auto">
+          {suggestions.map((suggestion, index) => (
+            <li key={suggestion.insert}>
+              <button
+                type="button"
+                // Keep focus in the input so its blur doesn't close the list first
+                onMouseDown={(e) => {
+                  e.preventDefault();
+                  applySuggestion(suggestion);
+                }}
+                className={`w-full flex items-center justify-between px-3 py-1.5 text-left text-sm ${
+                  navigated && index === highlighted
+                    ? 'bg-primary-50 text-primary-800 dark:bg-primary-900 dark:text-primary-200'
+                    : 'text-gray-700 dark:text-gray-300 hover:bg-gray-50 dark:hover:bg-gray-700'
+                }`}
+              >
+                <span className="font-mono">{suggestion.label}</span>
+                {suggestion.description && (
+                  <span className="ml-4 text-xs text-gray-500 dark:text-gray-400 truncate">{suggestion.description}</span>
+                )}
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {showHelp && (
+        <div className="mt-2 p-3 rounded-md bg-gray-50 dark:bg-gray-900 text-xs text-gray-600 dark:text-gray-400 space-y-1">
+          <p>Terms are separated by spaces and must all match. Prefix a term with <code>-</code> to exclude it.</p>
+          <p><code>status:todo,in_progress</code> matches any of several values.</p>
+          <p><code>priority:&gt;=high</code>, <code>due:&lt;7d</code> and <code>created:&gt;=2024-01-01</code> compare values.</p>
+          <p><code>due:overdue</code>, <code>due:none</code>, <code>cat:none</code> and <code>assignee:me</code> are shortcuts.</p>
+          <p>Other words and <code>"exact phrases"</code> are searched in titles and descriptions.</p>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default TodoSearchBar;
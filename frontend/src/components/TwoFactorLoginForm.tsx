@@ -0,0 +1,97 @@
+import React, { useState } from 'react';
+import { Loader2, ShieldCheck } from 'lucide-react';
+import { authApi } from '@/utils/api';
+import { AuthResponse } from '@/types';
+import toast from 'react-hot-toast';
+
+interface TwoFactorLoginFormProps {
+  challengeToken: string;
+  onSuccess: (response: AuthResponse) => void;
+  onCancel: () => void;
+}
+
+// Second step of signing in to an account with two-factor authentication
+const TwoFactorLoginForm: React.FC<TwoFactorLoginFormProps> = ({ challengeToken, onSuccess, onCancel }) => {
+  const [useRecoveryCode, setUseRecoveryCode] = useState(false);
+  const [code, setCode] = useState('');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    try {
+      setIsSubmitting(true);
+      const response = await authApi.verifyTwoFactorLogin(
+        useRecoveryCode
+          ? { challengeToken, recoveryCode: code.trim() }
+          : { challengeToken, code: code.trim() }
+      );
+      onSuccess(response);
+    } catch (error: any) {
+      toast.error(error.response?.data?.error || 'Verification failed');
+      setCode('');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <form className="mt-8 space-y-6" onSubmit={handleSubmit}>
+      <div className="text-center">
+        <ShieldCheck className="h-10 w-10 text-primary-600 mx-auto mb-2" />
+        <p className="text-sm text-gray-600 dark:text-gray-400">
+          {useRecoveryCode
+            ? 'Enter one of your recovery codes. Each code can only be used once.'
+            : 'Enter the 6-digit code from your authenticator app.'}
+        </p>
+      </div>
+
+      <input
+        type="text"
+        value={code}
+        onChange={(e) => setCode(e.target.value)}
+        className="input w-full text-center text-lg tracking-widest font-mono"
+        placeholder={useRecoveryCode ? 'xxxxx-xxxxx' : '123456'}
+        autoComplete="one-time-code"
+        inputMode={useRecoveryCode ? 'text' : 'numeric'}
+        autoFocus
+      />
+
+      <button
+        type="submit"
+        disabled={isSubmitting || !code.trim()}
+        className="btn btn-primary w-full btn-lg"
+      >
+        {isSubmitting ? (
+          <>
+            <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+            Verifying...
+          </>
+        ) : (
+          'Verify'
+        )}
+      </button>
+
+      <div className="flex justify-between text-sm">
+        <button
+          type="button"
+          onClick={() => {
+            setUseRecoveryCode(!useRecoveryCode);
+            setCode('');
+          }}
+          className="font-medium text-primary-600 hover:text-primary-500 dark:text-primary-400"
+        >
+          {useRecoveryCode ? 'Use authenticator code' : 'Use a recovery code'}
+        </button>
+        <button
+          type="button"
+          onClick={onCancel}
+          className="text-gray-600 hover:text-gray-900 dark:text-gray-400 dark:hover:text-white"
+        >
+          Back to sign in
+        </button>
+      </div>
+    </form>
+  );
+};
+
+export default TwoFactorLoginForm;
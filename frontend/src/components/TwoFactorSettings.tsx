@@ -0,0 +1,218 @@
+import React, { useEffect, useState } from 'react';
+import { ShieldCheck, ShieldOff, Copy, KeyRound } from 'lucide-react';
+import { authApi } from '@/utils/api';
+import { TwoFactorSetup, TwoFactorStatus } from '@/types';
+import LoadingSpinner from './LoadingSpinner';
+import toast from 'react-hot-toast';
+
+// Which password-protected action the password field is shown for
+type PasswordAction = 'disable' | 'regenerate' | null;
+
+const TwoFactorSettings: React.FC = () => {
+  const [status, setStatus] = useState<TwoFactorStatus | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [setup, setSetup] = useState<TwoFactorSetup | null>(null);
+  const [code, setCode] = useState('');
+  const [recoveryCodes, setRecoveryCodes] = useState<string[] | null>(null);
+  const [passwordAction, setPasswordAction] = useState<PasswordAction>(null);
+  const [password, setPassword] = useState('');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  useEffect(() => {
+    loadStatus();
+  }, []);
+
+  const loadStatus = async () => {
+    try {
+      setIsLoading(true);
+      setStatus(await authApi.getTwoFactorStatus());
+    } catch (error) {
+      toast.error('Failed to load two-factor settings');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleStartSetup = async () => {
+    try {
+      setSetup(await authApi.setupTwoFactor());
+      setCode('');
+    } catch (error: any) {
+      toast.error(error.response?.data?.error || 'Failed to start two-factor setup');
+    }
+  };
+
+  const handleConfirm = async (e: React.FormEvent) => {
+    e.preventDefault();
+    try {
+      setIsSubmitting(true);
+      const response = await authApi.confirmTwoFactor(code.trim());
+      setRecoveryCodes(response.recoveryCodes);
+      setSetup(null);
+      toast.success('Two-factor authentication enabled');
+      loadStatus();
+    } catch (error: any) {
+      toast.error(error.response?.data?.error || 'Failed to enable two-factor authentication');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handlePasswordAction = async (e: React.FormEvent) => {
+    e.preventDefault();
+    try {
+      setIsSubmitting(true);
+      if (passwordAction === 'disable') {
+        await authApi.disableTwoFactor(password);
+        setRecoveryCodes(null);
+        toast.success('Two-factor authentication disabled');
+      } else {
+        const response = await authApi.regenerateRecoveryCodes(password);
+        setRecoveryCodes(response.recoveryCodes);
+        toast.success('New recovery codes generated');
+      }
+      setPasswordAction(null);
+      setPassword('');
+      loadStatus();
+    } catch (error: any) {
+      toast.error(error.response?.data?.error || 'Something went wrong');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleCopyCodes = async () => {
+    try {
+      await navigator.clipboard.writeText(recoveryCodes!.join('\n'));
+      toast.success('Recovery codes copied');
+    } catch (error) {
+      toast.error('Failed to copy recovery codes');
+    }
+  };
+
+  return (
+    <div className="bg-white dark:bg-gray-800 rounded-lg shadow-sm p-6">
+      <h2 className="flex items-center text-lg font-semibold text-gray-900 dark:text-white mb-2">
+        <ShieldCheck className="h-5 w-5 mr-2" />
+        Two-Factor Authentication
+      </h2>
+      <p className="text-sm text-gray-600 dark:text-gray-400 mb-6">
+        Require a code from an authenticator app in addition to your password when signing in.
+      </p>
+
+      {isLoading ? (
+        <div className="flex justify-center py-4">
+          <LoadingSpinner />
+        </div>
+      ) : (
+        <div className="space-y-6">
+          {/* Recovery codes, shown once after they are generated */}
+          {recoveryCodes && (
+            <div className="p-4 rounded-lg bg-yellow-50 dark:bg-yellow-900/20 border border-yellow-200 dark:border-yellow-800">
+              <p className="text-sm text-yellow-800 dark:text-yellow-200 mb-3">
+                Save these recovery codes somewhere safe. Each one signs you in once if you lose
+                your authenticator. They will not be shown again.
+              </p>
+              <div className="grid grid-cols-2 gap-2 font-mono text-sm text-gray-900 dark:text-white mb-3">
+                {recoveryCodes.map((recoveryCode) => (
+                  <span key={recoveryCode}>{recoveryCode}</span>
+                ))}
+              </div>
+              <div className="flex space-x-3">
+                <button onClick={handleCopyCodes} className="btn btn-outline btn-sm">
+                  <Copy className="h-4 w-4 mr-2" />
+                  Copy
+                </button>
+                <button onClick={() => setRecoveryCodes(null)} className="btn btn-primary btn-sm">
+                  I saved them
+                </button>
+              </div>
+            </div>
+          )}
+
+          {status?.enabled ? (
+            <>
+              <p className="text-sm text-gray-700 dark:text-gray-300">
+                Enabled · {status.recoveryCodesRemaining} recovery codes left
+              </p>
+
+              {passwordAction ? (
+                <form onSubmit={handlePasswordAction} className="flex space-x-2">
+                  <input
+                    type="password"
+                    value={password}
+                    onChange={(e) => setPassword(e.target.value)}
+                    className="input w-full"
+                    placeholder="Confirm with your password"
+                    autoFocus
+                  />
+                  <button type="submit" disabled={isSubmitting || !password} className="btn btn-primary btn-sm">
+                    {passwordAction === 'disable' ? 'Disable' : 'Generate'}
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => {
+                      setPasswordAction(null);
+                      setPassword('');
+                    }}
+                    className="btn btn-outline btn-sm"
+                  >
+                    Cancel
+                  </button>
+                </form>
+              ) : (
+                <div className="flex space-x-3">
+                  <button onClick={() => setPasswordAction('regenerate')} className="btn btn-outline btn-sm">
+                    <KeyRound className="h-4 w-4 mr-2" />
+                    New Recovery Codes
+                  </button>
+                  <button onClick={() => setPasswordAction('disable')} className="btn btn-danger btn-sm">
+                    <ShieldOff className="h-4 w-4 mr-2" />
+                    Disable
+                  </button>
+                </div>
+              )}
+            </>
+          ) : setup ? (
+            <form onSubmit={handleConfirm} className="space-y-4">
+              <p className="text-sm text-gray-700 dark:text-gray-300">
+                Scan the QR code with your authenticator app, then enter the code it shows.
+              </p>
+              <div className="flex flex-col sm:flex-row items-center sm:items-start gap-4">
+                <img src={setup.qrCode} alt="Two-factor QR code" className="h-40 w-40 bg-white p-2 rounded-lg" />
+                <div className="min-w-0 text-sm">
+                  <p className="text-gray-600 dark:text-gray-400">Can't scan it? Enter this key instead:</p>
+                  <p className="font-mono break-all text-gray-900 dark:text-white mt-1">{setup.secret}</p>
+                </div>
+              </div>
+              <div className="flex space-x-2">
+                <input
+                  type="text"
+                  value={code}
+                  onChange={(e) => setCode(e.target.value)}
+                  className="input w-full font-mono tracking-widest"
+                  placeholder="123456"
+                  inputMode="numeric"
+                  autoComplete="one-time-code"
+                />
+                <button type="submit" disabled={isSubmitting || !code.trim()} className="btn btn-primary btn-sm">
+                  Confirm
+                </button>
+                <button type="button" onClick={() => setSetup(null)} className="btn btn-outline btn-sm">
+                  Cancel
+                </button>
+              </div>
+            </form>
+          ) : (
+            <button onClick={handleStartSetup} className="btn btn-primary btn-sm">
+              <ShieldCheck className="h-4 w-4 mr-2" />
+              Enable Two-Factor Authentication
+            </button>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default TwoFactorSettings;
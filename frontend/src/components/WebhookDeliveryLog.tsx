@@ -0,0 +1,141 @@
+import React, { useEffect, useState } from 'react';
+import { RotateCcw } from 'lucide-react';
+import { formatDistanceToNow } from 'date-fns';
+import { webhookApi } from '@/utils/api';
+import { WebhookDelivery, WebhookDeliveryStatus } from '@/types';
+import LoadingSpinner from './LoadingSpinner';
+import toast from 'react-hot-toast';
+
+interface WebhookDeliveryLogProps {
+  webhookId: string;
+  // Changing this reloads the log, e.g. after a test event was sent
+  refreshKey: number;
+}
+
+const PAGE_SIZE = 10;
+
+const STATUS_STYLES: Record<WebhookDeliveryStatus, string> = {
+  SUCCEEDED: 'bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-200',
+  PENDING: 'bg-yellow-100 text-yellow-800 dark:bg-yellow-900 dark:text-yellow-200',
+  FAILED: 'bg-red-100 text-red-800 dark:bg-red-900 dark:text-red-200'
+};
+
+const formatPayload = (payload: string) => {
+  try {
+    return JSON.stringify(JSON.parse(payload), null, 2);
+  } catch (error) {
+    return payload;
+  }
+};
+
+const WebhookDeliveryLog: React.FC<WebhookDeliveryLogProps> = ({ webhookId, refreshKey }) => {
+  const [deliveries, setDeliveries] = useState<WebhookDelivery[]>([]);
+  const [page, setPage] = useState(1);
+  const [pages, setPages] = useState(1);
+  const [isLoading, setIsLoading] = useState(true);
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+
+  useEffect(() => {
+    loadDeliveries();
+  }, [webhookId, page, refreshKey]);
+
+  const loadDeliveries = async () => {
+    try {
+      setIsLoading(true);
+      const response = await webhookApi.getDeliveries(webhookId, { page, limit: PAGE_SIZE });
+      setDeliveries(response.deliveries);
+      setPages(Math.max(response.pagination.pages, 1));
+    } catch (error) {
+      toast.error('Failed to load deliveries');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleReplay = async (delivery: WebhookDelivery) => {
+    try {
+      const replayed = await webhookApi.replayDelivery(webhookId, delivery.id);
+      if (replayed.status === 'SUCCEEDED') {
+        toast.success('Delivery replayed');
+      } else {
+        toast.error(replayed.error || 'Replay failed');
+      }
+      if (page === 1) {
+        loadDeliveries();
+      } else {
+        setPage(1);
+      }
+    } catch (error: any) {
+      toast.error(error.response?.data?.error || 'Failed to replay delivery');
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <div className="flex justify-center py-4">
+        <LoadingSpinner />
+      </div>
+    );
+  }
+
+  if (deliveries.length === 0) {
+    return <p className="text-sm text-gray-500 dark:text-gray-400 py-2">No deliveries yet.</p>;
+  }
+
+  return (
+    <div>
+      <div className="divide-y divide-gray-200 dark:divide-gray-700">
+        {deliveries.map((delivery) => (
+          <div key={delivery.id} className="py-2">
+            <div className="flex items-center justify-between">
+              <button
+                onClick={() => setExpandedId(expandedId === delivery.id ? null : delivery.id)}
+                className="flex items-center space-x-2 min-w-0 text-left"
+              >
+                <span className={`inline-flex items-center px-2 py-0.5 rounded-full text-xs font-medium ${STATUS_STYLES[delivery.status]}`}>
+                  {delivery.status.toLowerCase()}
+                </span>
+                <span className="text-sm font-mono text-gray-900 dark:text-white">{delivery.event}</span>
+                <span className="text-xs text-gray-500 dark:text-gray-400 truncate">
+                  {formatDistanceToNow(new Date(delivery.createdAt), { addSuffix: true })}
+                  {delivery.responseStatus && ` · HTTP ${delivery.responseStatus}`}
+                  {delivery.attempts > 1 && ` · ${delivery.attempts} attempts`}
+                  {delivery.status === 'PENDING' && delivery.nextAttemptAt &&
+                    ` · retry ${formatDistanceToNow(new Date(delivery.nextAttemptAt), { addSuffix: true })}`}
+                </span>
+              </button>
+              <button onClick={() => handleReplay(delivery)} className="btn btn-outline btn-sm ml-4" title="Replay">
+                <RotateCcw className="h-4 w-4" />
+              </button>
+            </div>
+
+            {expandedId === delivery.id && (
+              <div className="mt-2 space-y-2">
+                {delivery.error && (
+                  <p className="text-xs text-red-600 dark:text-red-400">{delivery.error}</p>
+                )}
+                <pre className="text-xs bg-gray-50 dark:bg-gray-900 text-gray-800 dark:text-gray-200 rounded p-2 overflow-x-auto max-h-60">
+                  {formatPayload(delivery.payload)}
+                </pre>
+              </div>
+            )}
+          </div>
+        ))}
+      </div>
+
+      {pages > 1 && (
+        <div className="flex items-center justify-between pt-2">
+          <button onClick={() => setPage(page - 1)} disabled={page <= 1} className="btn btn-outline btn-sm">
+            Newer
+          </button>
+          <span className="text-xs text-gray-500 dark:text-gray-400">Page {page} of {pages}</span>
+          <button onClick={() => setPage(page + 1)} disabled={page >= pages} className="btn btn-outline btn-sm">
+            Older
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default WebhookDeliveryLog;
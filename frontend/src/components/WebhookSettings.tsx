@@ -0,0 +1,329 @@
+import React, { useEffect, useState } from 'react';
+import { Webhook as WebhookIcon, Plus, Send, Trash2, Copy, List, RefreshCw } from 'lucide-react';
+import { webhookApi, teamApi } from '@/utils/api';
+import { Team, Webhook, WebhookEvent } from '@/types';
+import WebhookDeliveryLog from './WebhookDeliveryLog';
+import LoadingSpinner from './LoadingSpinner';
+import toast from 'react-hot-toast';
+
+const DEFAULT_EVENTS: WebhookEvent[] = ['todo.created', 'todo.completed', 'comment.created'];
+
+const WebhookSettings: React.FC = () => {
+  const [webhooks, setWebhooks] = useState<Webhook[]>([]);
+  const [availableEvents, setAvailableEvents] = useState<WebhookEvent[]>([]);
+  const [adminTeams, setAdminTeams] = useState<Team[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [showForm, setShowForm] = useState(false);
+  const [url, setUrl] = useState('');
+  const [description, setDescription] = useState('');
+  const [teamId, setTeamId] = useState('');
+  const [events, setEvents] = useState<WebhookEvent[]>(DEFAULT_EVENTS);
+  const [isCreating, setIsCreating] = useState(false);
+  // A secret just created or rotated, shown once
+  const [newSecret, setNewSecret] = useState<{ webhookId: string; secret: string } | null>(null);
+  const [logWebhookId, setLogWebhookId] = useState<string | null>(null);
+  const [logRefreshKey, setLogRefreshKey] = useState(0);
+
+  useEffect(() => {
+    loadWebhooks();
+  }, []);
+
+  const loadWebhooks = async () => {
+    try {
+      setIsLoading(true);
+      const [webhookResponse, teamResponse] = await Promise.all([
+        webhookApi.getWebhooks(),
+        teamApi.getTeams()
+      ]);
+      setWebhooks(webhookResponse.webhooks);
+      setAvailableEvents(webhookResponse.events);
+      setAdminTeams(teamResponse.teams.filter(team => team.role === 'OWNER' || team.role === 'ADMIN'));
+    } catch (error) {
+      toast.error('Failed to load webhooks');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const toggleEvent = (event: WebhookEvent) => {
+    setEvents(events.includes(event) ? events.filter(e => e !== event) : [...events, event]);
+  };
+
+  const resetForm = () => {
+    setShowForm(false);
+    setUrl('');
+    setDescription('');
+    setTeamId('');
+    setEvents(DEFAULT_EVENTS);
+  };
+
+  const replaceWebhook = (webhook: Webhook) => {
+    setWebhooks(webhooks.map(w => (w.id === webhook.id ? webhook : w)));
+  };
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    try {
+      setIsCreating(true);
+      const { webhook, secret } = await webhookApi.createWebhook({
+        url: url.trim(),
+        events,
+        description: description.trim() || null,
+        teamId: teamId || null
+      });
+      setWebhooks([webhook, ...webhooks]);
+      setNewSecret({ webhookId: webhook.id, secret });
+      resetForm();
+      toast.success('Webhook created');
+    } catch (error: any) {
+      toast.error(error.response?.data?.error || 'Failed to create webhook');
+    } finally {
+      setIsCreating(false);
+    }
+  };
+
+  const handleToggleActive = async (webhook: Webhook) => {
+    try {
+      replaceWebhook(await webhookApi.updateWebhook(webhook.id, { active: !webhook.active }));
+    } catch (error: any) {
+      toast.error(error.response?.data?.error || 'Failed to update webhook');
+    }
+  };
+
+  const handleTest = async (webhook: Webhook) => {
+    try {
+      const delivery = await webhookApi.sendTestEvent(webhook.id);
+      if (delivery.status === 'SUCCEEDED') {
+        toast.success('Test event delivered');
+      } else {
+        toast.error(delivery.error || 'Test event failed');
+      }
+      setLogRefreshKey(logRefreshKey + 1);
+    } catch (error: any) {
+      toast.error(error.response?.data?.error || 'Failed to send test event');
+    }
+  };
+
+  const handleDelete = async (webhook: Webhook) => {
+    if (!confirm(`Delete the webhook for ${webhook.url}?`)) return;
+    try {
+      await webhookApi.deleteWebhook(webhook.id);
+      setWebhooks(webhooks.filter(w => w.id !== webhook.id));
+      toast.success('Webhook deleted');
+    } catch (error: any) {
+      toast.error(error.response?.data?.error || 'Failed to delete webhook');
+    }
+  };
+
+  const handleRotateSecret = async (webhook: Webhook) => {
+    if (!confirm(`Rotate the secret of ${webhook.url}? Payloads are signed with the new secret right away.`)) return;
+    try {
+      setNewSecret({ webhookId: webhook.id, secret: await webhookApi.rotateSecret(webhook.id) });
+    } catch (error: any) {
+      toast.error(error.response?.data?.error || 'Failed to rotate secret');
+    }
+  };
+
+  const handleCopySecret = async (secret: string) => {
+    try {
+      await navigator.clipboard.writeText(secret);
+      toast.success('Secret copied');
+    } catch (error) {
+      toast.error('Failed to copy secret');
+    }
+  };
+
+  return (
+    <div className="bg-white dark:bg-gray-800 rounded-lg shadow-sm p-6">
+      <div className="flex items-center justify-between mb-6">
+        <div>
+          <h2 className="text-lg font-semibold text-gray-900 dark:text-white">Webhooks</h2>
+          <p className="text-sm text-gray-600 dark:text-gray-400 mt-1">
+            Send todo and category events to other tools. Payloads are signed with the webhook secret.
+          </p>
+        </div>
+        {!showForm && (
+          <button onClick={() => setShowForm(true)} className="btn btn-primary btn-sm">
+            <Plus className="h-4 w-4 mr-2" />
+            New Webhook
+          </button>
+        )}
+      </div>
+
+      {showForm && (
+        <form onSubmit={handleCreate} className="mb-6 space-y-4 p-4 rounded-lg border border-gray-200 dark:border-gray-700">
+          <div>
+            <label htmlFor="webhookUrl" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+              Payload URL
+            </label>
+            <input
+              id="webhookUrl"
+              type="url"
+              value={url}
+              onChange={(e) => setUrl(e.target.value)}
+              className="input w-full"
+              placeholder="https://example.com/hooks/todos"
+              autoFocus
+            />
+          </div>
+
+          <div>
+            <label htmlFor="webhookDescription" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+              Description
+            </label>
+            <input
+              id="webhookDescription"
+              type="text"
+              value={description}
+              onChange={(e) => setDescription(e.target.value)}
+              className="input w-full"
+              placeholder="Optional"
+              maxLength={200}
+            />
+          </div>
+
+          {adminTeams.length > 0 && (
+            <div>
+              <label htmlFor="webhookTeam" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+                Events from
+              </label>
+              <select
+                id="webhookTeam"
+                value={teamId}
+                onChange={(e) => setTeamId(e.target.value)}
+                className="input w-full"
+              >
+                <option value="">My todos and categories</option>
+                {adminTeams.map((team) => (
+                  <option key={team.id} value={team.id}>Team: {team.name}</option>
+                ))}
+              </select>
+            </div>
+          )}
+
+          <div>
+            <span className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">Events</span>
+            <div className="grid grid-cols-2 gap-2">
+              {availableEvents.map((event) => (
+                <label key={event} className="flex items-center space-x-2 text-sm text-gray-700 dark:text-gray-300">
+                  <input
+                    type="checkbox"
+                    checked={events.includes(event)}
+                    onChange={() => toggleEvent(event)}
+                    className="rounded border-gray-300 text-primary-600 focus:ring-primary-500"
+                  />
+                  <span className="font-mono">{event}</span>
+                </label>
+              ))}
+            </div>
+          </div>
+
+          <div className="flex justify-end space-x-3">
+            <button type="button" onClick={resetForm} className="btn btn-outline btn-sm">
+              Cancel
+            </button>
+            <button
+              type="submit"
+              disabled={isCreating || !url.trim() || events.length === 0}
+              className="btn btn-primary btn-sm"
+            >
+              Create Webhook
+            </button>
+          </div>
+        </form>
+      )}
+
+      {isLoading ? (
+        <div className="flex justify-center py-4">
+          <LoadingSpinner />
+        </div>
+      ) : webhooks.length === 0 ? (
+        <p className="text-sm text-gray-500 dark:text-gray-400">You have no webhooks.</p>
+      ) : (
+        <div className="divide-y divide-gray-200 dark:divide-gray-700">
+          {webhooks.map((webhook) => (
+            <div key={webhook.id} className="py-3">
+              <div className="flex items-center justify-between">
+                <div className="flex items-center space-x-3 min-w-0">
+                  <WebhookIcon className={`h-5 w-5 flex-shrink-0 ${webhook.active ? 'text-primary-600' : 'text-gray-400'}`} />
+                  <div className="min-w-0">
+                    <p className="text-sm font-medium text-gray-900 dark:text-white truncate">
+                      {webhook.url}
+                      <span className="ml-2 inline-flex items-center px-2 py-0.5 rounded-full text-xs font-medium bg-gray-100 text-gray-700 dark:bg-gray-700 dark:text-gray-300">
+                        {webhook.team ? webhook.team.name : 'Personal'}
+                      </span>
+                      {!webhook.active && (
+                        <span className="ml-2 text-xs text-gray-500 dark:text-gray-400">Paused</span>
+                      )}
+                    </p>
+                    <p className="text-xs text-gray-500 dark:text-gray-400 truncate">
+                      {webhook.description && `${webhook.description} · `}
+                      {webhook.events.join(', ')}
+                      {webhook.lastDelivery && ` · last delivery ${webhook.lastDelivery.status.toLowerCase()}`}
+                    </p>
+                  </div>
+                </div>
+                <div className="flex items-center space-x-2 ml-4">
+                  <button onClick={() => handleTest(webhook)} className="btn btn-outline btn-sm" title="Send test event">
+                    <Send className="h-4 w-4" />
+                  </button>
+                  <button
+                    onClick={() => setLogWebhookId(logWebhookId === webhook.id ? null : webhook.id)}
+                    className="btn btn-outline btn-sm"
+                    title="Delivery log"
+                  >
+                    <List className="h-4 w-4" />
+                  </button>
+                  <button onClick={() => handleToggleActive(webhook)} className="btn btn-outline btn-sm">
+                    {webhook.active ? 'Pause' : 'Resume'}
+                  </button>
+                  <button onClick={() => handleDelete(webhook)} className="btn btn-danger btn-sm" title="Delete">
+                    <Trash2 className="h-4 w-4" />
+                  </button>
+                </div>
+              </div>
+
+              {/* Signing secret, only known right after it was created or rotated */}
+              {newSecret?.webhookId === webhook.id ? (
+                <div className="mt-2 ml-8 p-3 rounded-lg bg-yellow-50 dark:bg-yellow-900/20 border border-yellow-200 dark:border-yellow-800">
+                  <p className="text-xs text-yellow-800 dark:text-yellow-200 mb-2">
+                    Copy the signing secret now. It will not be shown again.
+                  </p>
+                  <div className="flex space-x-2">
+                    <input type="text" value={newSecret.secret} readOnly className="input w-full font-mono text-xs" />
+                    <button onClick={() => handleCopySecret(newSecret.secret)} className="btn btn-outline btn-sm" title="Copy secret">
+                      <Copy className="h-4 w-4" />
+                    </button>
+                    <button onClick={() => setNewSecret(null)} className="btn btn-primary btn-sm">
+                      Done
+                    </button>
+                  </div>
+                </div>
+              ) : (
+                <div className="flex items-center space-x-2 mt-2 ml-8">
+                  <span className="text-xs text-gray-500 dark:text-gray-400">Secret</span>
+                  <code className="text-xs font-mono text-gray-700 dark:text-gray-300">••••••••••••••••</code>
+                  <button
+                    onClick={() => handleRotateSecret(webhook)}
+                    className="text-gray-400 hover:text-gray-600 dark:hover:text-gray-200"
+                    title="Rotate secret"
+                  >
+                    <RefreshCw className="h-4 w-4" />
+                  </button>
+                </div>
+              )}
+
+              {logWebhookId === webhook.id && (
+                <div className="mt-3 ml-8">
+                  <WebhookDeliveryLog webhookId={webhook.id} refreshKey={logRefreshKey} />
+                </div>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default WebhookSettings;
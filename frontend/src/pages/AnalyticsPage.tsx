@@ -0,0 +1,289 @@
+import React, { useEffect, useState } from 'react';
+import { Clock, CheckCircle, Timer, AlertCircle } from 'lucide-react';
+import { format, parseISO, subDays } from 'date-fns';
+import { analyticsApi, categoryApi } from '@/utils/api';
+import { AnalyticsBreakdown, AnalyticsInterval, AnalyticsPoint, Burndown, Category, FlowTimes } from '@/types';
+import LoadingSpinner from '@/components/LoadingSpinner';
+import BarChart from '@/components/BarChart';
+import LineChart from '@/components/LineChart';
+import toast from 'react-hot-toast';
+
+const RANGE_PRESETS = [7, 30, 90];
+
+const toDateInput = (date: Date) => format(date, 'yyyy-MM-dd');
+
+// Durations under two days read best in hours
+const formatHours = (hours: number | null) => {
+  if (hours === null) return '–';
+  return hours < 48 ? `${hours} h` : `${Math.round((hours / 24) * 10) / 10} d`;
+};
+
+const formatDay = (date: string) => format(parseISO(date), 'MMM d');
+
+const AnalyticsPage: React.FC = () => {
+  const [from, setFrom] = useState(() => toDateInput(subDays(new Date(), 29)));
+  const [to, setTo] = useState(() => toDateInput(new Date()));
+  const [interval, setCompletedInterval] = useState<AnalyticsInterval>('day');
+  const [categoryId, setCategoryId] = useState('');
+  const [categories, setCategories] = useState<Category[]>([]);
+  const [completed, setCompleted] = useState<AnalyticsPoint[]>([]);
+  const [flowTimes, setFlowTimes] = useState<FlowTimes | null>(null);
+  const [overdue, setOverdue] = useState<AnalyticsPoint[]>([]);
+  const [breakdown, setBreakdown] = useState<AnalyticsBreakdown | null>(null);
+  const [burndown, setBurndown] = useState<Burndown | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+
+  useEffect(() => {
+    loadCategories();
+  }, []);
+
+  useEffect(() => {
+    loadAnalytics();
+  }, [from, to, interval, categoryId]);
+
+  const loadCategories = async () => {
+    try {
+      const response = await categoryApi.getCategories();
+      setCategories(response.categories);
+    } catch (error) {
+      console.error('Failed to load categories:', error);
+    }
+  };
+
+  const loadAnalytics = async () => {
+    const query = { from, to, categoryId: categoryId || undefined };
+    try {
+      setIsLoading(true);
+      const [completedSeries, flow, overdueSeries, breakdownData, burndownData] = await Promise.all([
+        analyticsApi.getCompleted({ ...query, interval }),
+        analyticsApi.getFlowTimes(query),
+        analyticsApi.getOverdue(query),
+        analyticsApi.getBreakdown({ categoryId: query.categoryId }),
+        analyticsApi.getBurndown(query),
+      ]);
+      setCompleted(completedSeries);
+      setFlowTimes(flow);
+      setOverdue(overdueSeries);
+      setBreakdown(breakdownData);
+      setBurndown(burndownData);
+    } catch (error: any) {
+      toast.error(error.response?.data?.error || 'Failed to load analytics');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const applyPreset = (days: number) => {
+    setFrom(toDateInput(subDays(new Date(), days - 1)));
+    setTo(toDateInput(new Date()));
+  };
+
+  const totalCompleted = completed.reduce((sum, point) => sum + (point.count || 0), 0);
+  const currentOverdue = [...overdue].reverse().find(point => point.count !== null)?.count ?? 0;
+  const selectedCategory = categories.find(category => category.id === categoryId);
+
+  const renderBreakdownRow = (label: string, open: number, done: number, max: number, color?: string | null) => (
+    <div key={label}>
+      <div className="flex justify-between text-xs text-gray-600 dark:text-gray-400 mb-1">
+        <span className="flex items-center space-x-1">
+          {color && <span className="h-2 w-2 rounded-full" style={{ backgroundColor: color }} />}
+          <span>{label}</span>
+        </span>
+        <span>{done} done · {open} open</span>
+      </div>
+      <div className="flex h-2 rounded-full bg-gray-100 dark:bg-gray-700 overflow-hidden">
+        <div className="bg-green-500" style={{ width: `${(done / max) * 100}%` }} />
+        <div className="bg-primary-400" style={{ width: `${(open / max) * 100}%` }} />
+      </div>
+    </div>
+  );
+
+  const statCards = [
+    { label: 'Completed', value: String(totalCompleted), icon: CheckCircle, color: 'text-green-600 dark:text-green-400', background: 'bg-green-100 dark:bg-green-900' },
+    { label: 'Overdue now', value: String(currentOverdue), icon: AlertCircle, color: 'text-red-600 dark:text-red-400', background: 'bg-red-100 dark:bg-red-900' },
+    {
+      label: 'Avg. lead time',
+      value: formatHours(flowTimes?.leadTime.averageHours ?? null),
+      hint: flowTimes && `median ${formatHours(flowTimes.leadTime.medianHours)} · ${flowTimes.leadTime.count} todos`,
+      icon: Clock,
+      color: 'text-blue-600 dark:text-blue-400',
+      background: 'bg-blue-100 dark:bg-blue-900',
+    },
+    {
+      label: 'Avg. cycle time',
+      value: formatHours(flowTimes?.cycleTime.averageHours ?? null),
+      hint: flowTimes && `median ${formatHours(flowTimes.cycleTime.medianHours)} · ${flowTimes.cycleTime.count} todos`,
+      icon: Timer,
+      color: 'text-yellow-600 dark:text-yellow-400',
+      background: 'bg-yellow-100 dark:bg-yellow-900',
+    },
+  ];
+
+  return (
+    <div className="space-y-6">
+      {/* Filters */}
+      <div className="bg-white dark:bg-gray-800 rounded-lg shadow-sm p-6">
+        <div className="flex flex-wrap items-end justify-between gap-4">
+          <div>
+            <h1 className="text-2xl font-bold text-gray-900 dark:text-white">Analytics</h1>
+            <p className="text-gray-600 dark:text-gray-400 mt-1">
+              Throughput, flow and progress of your todos{selectedCategory ? ` in ${selectedCategory.name}` : ''}.
+            </p>
+          </div>
+          <div className="flex flex-wrap items-end gap-3">
+            <div className="flex items-center space-x-1">
+              {RANGE_PRESETS.map((days) => (
+                <button
+                  key={days}
+                  onClick={() => applyPreset(days)}
+                  className="px-3 py-1 rounded-full text-xs font-medium text-gray-600 hover:bg-gray-100 dark:text-gray-400 dark:hover:bg-gray-700"
+                >
+                  {days}d
+                </button>
+              ))}
+            </div>
+            <label className="text-xs text-gray-600 dark:text-gray-400">
+              From
+              <input type="date" value={from} max={to} onChange={(e) => e.target.value && setFrom(e.target.value)} className="input block mt-1 py-1 text-sm" />
+            </label>
+            <label className="text-xs text-gray-600 dark:text-gray-400">
+              To
+              <input type="date" value={to} min={from} onChange={(e) => e.target.value && setTo(e.target.value)} className="input block mt-1 py-1 text-sm" />
+            </label>
+            <label className="text-xs text-gray-600 dark:text-gray-400">
+              Category
+              <select value={categoryId} onChange={(e) => setCategoryId(e.target.value)} className="input block mt-1 py-1 text-sm">
+                <option value="">All categories</option>
+                {categories.map((category) => (
+                  <option key={category.id} value={category.id}>{category.name}</option>
+                ))}
+              </select>
+            </label>
+          </div>
+        </div>
+      </div>
+
+      {isLoading && !breakdown ? (
+        <div className="flex items-center justify-center h-64">
+          <LoadingSpinner size="lg" />
+        </div>
+      ) : (
+        <>
+          {/* Stats cards */}
+          <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-6">
+            {statCards.map((card) => {
+              const Icon = card.icon;
+              return (
+                <div key={card.label} className="bg-white dark:bg-gray-800 rounded-lg shadow-sm p-6">
+                  <div className="flex items-center">
+                    <div className={`p-2 rounded-lg ${card.background}`}>
+                      <Icon className={`h-6 w-6 ${card.color}`} />
+                    </div>
+                    <div className="ml-4">
+                      <p className="text-sm font-medium text-gray-600 dark:text-gray-400">{card.label}</p>
+                      <p className="text-2xl font-bold text-gray-900 dark:text-white">{card.value}</p>
+                      {card.hint && <p className="text-xs text-gray-500 dark:text-gray-400">{card.hint}</p>}
+                    </div>
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+
+          <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+            {/* Completed */}
+            <div className="bg-white dark:bg-gray-800 rounded-lg shadow-sm p-6">
+              <div className="flex items-center justify-between mb-4">
+                <h2 className="text-lg font-semibold text-gray-900 dark:text-white">Completed</h2>
+                <div className="flex items-center space-x-1">
+                  {(['day', 'week'] as AnalyticsInterval[]).map((option) => (
+                    <button
+                      key={option}
+                      onClick={() => setCompletedInterval(option)}
+                      className={`px-3 py-1 rounded-full text-xs font-medium transition-colors ${
+                        interval === option
+                          ? 'bg-primary-100 text-primary-800 dark:bg-primary-900 dark:text-primary-200'
+                          : 'text-gray-600 hover:bg-gray-100 dark:text-gray-400 dark:hover:bg-gray-700'
+                      }`}
+                    >
+                      Per {option}
+                    </button>
+                  ))}
+                </div>
+              </div>
+              <BarChart
+                data={completed.map(point => ({ label: formatDay(point.date), value: point.count }))}
+                unit="completed"
+              />
+            </div>
+
+            {/* Overdue trend */}
+            <div className="bg-white dark:bg-gray-800 rounded-lg shadow-sm p-6">
+              <h2 className="text-lg font-semibold text-gray-900 dark:text-white mb-4">Overdue</h2>
+              <LineChart
+                labels={overdue.map(point => formatDay(point.date))}
+                series={[{ name: 'Overdue todos', className: 'stroke-red-500', values: overdue.map(point => point.count) }]}
+              />
+            </div>
+
+            {/* Burndown */}
+            {burndown && (
+              <div className="bg-white dark:bg-gray-800 rounded-lg shadow-sm p-6">
+                <h2 className="text-lg font-semibold text-gray-900 dark:text-white">Burndown</h2>
+                <p className="text-xs text-gray-500 dark:text-gray-400 mb-4">
+                  {selectedCategory
+                    ? `All ${burndown.total} todos in ${selectedCategory.name}`
+                    : `The ${burndown.total} todos due in this range`}
+                </p>
+                <LineChart
+                  labels={burndown.points.map(point => formatDay(point.date))}
+                  series={[
+                    { name: 'Remaining', className: 'stroke-primary-500', values: burndown.points.map(point => point.remaining) },
+                    { name: 'Ideal', className: 'stroke-gray-400', values: burndown.points.map(point => point.ideal), dashed: true },
+                  ]}
+                />
+              </div>
+            )}
+
+            {/* Breakdown */}
+            {breakdown && (
+              <div className="bg-white dark:bg-gray-800 rounded-lg shadow-sm p-6">
+                <h2 className="text-lg font-semibold text-gray-900 dark:text-white mb-4">Breakdown</h2>
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+                  <div className="space-y-3">
+                    <h3 className="text-sm font-medium text-gray-700 dark:text-gray-300">By priority</h3>
+                    {breakdown.byPriority.map((row) =>
+                      renderBreakdownRow(
+                        row.priority.charAt(0) + row.priority.slice(1).toLowerCase(),
+                        row.open,
+                        row.completed,
+                        Math.max(1, ...breakdown.byPriority.map(item => item.open + item.completed))
+                      )
+                    )}
+                  </div>
+                  <div className="space-y-3">
+                    <h3 className="text-sm font-medium text-gray-700 dark:text-gray-300">By category</h3>
+                    {breakdown.byCategory.length === 0 && (
+                      <p className="text-xs text-gray-500 dark:text-gray-400">No todos yet.</p>
+                    )}
+                    {breakdown.byCategory.map((row) =>
+                      renderBreakdownRow(
+                        row.name,
+                        row.open,
+                        row.completed,
+                        Math.max(1, ...breakdown.byCategory.map(item => item.open + item.completed)),
+                        row.color
+                      )
+                    )}
+                  </div>
+                </div>
+              </div>
+            )}
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default AnalyticsPage;
@@ -0,0 +1,253 @@
+import React, { useEffect, useState } from 'react';
+import { Settings2 } from 'lucide-react';
+import { useTodoStore, useBoardStore } from '@/store';
+import { todoApi } from '@/utils/api';
+import { Status, Todo } from '@/types';
+import LoadingSpinner from '@/components/LoadingSpinner';
+import BoardCard from '@/components/BoardCard';
+import toast from 'react-hot-toast';
+
+const COLUMNS: { status: Status; label: string; accent: string }[] = [
+  { status: 'TODO', label: 'To Do', accent: 'bg-gray-400' },
+  { status: 'IN_PROGRESS', label: 'In Progress', accent: 'bg-blue-500' },
+  { status: 'COMPLETED', label: 'Completed', accent: 'bg-green-500' },
+  { status: 'CANCELLED', label: 'Cancelled', accent: 'bg-red-500' },
+];
+
+// Todos loaded per request while filling the board
+const PAGE_SIZE = 100;
+
+interface DropTarget {
+  status: Status;
+  index: number;
+}
+
+// Same order as the "position" sort of the API
+const byPosition = (a: Todo, b: Todo) =>
+  a.position - b.position || (a.id < b.id ? -1 : a.id > b.id ? 1 : 0);
+
+const BoardPage: React.FC = () => {
+  const { todos, setTodos, updateTodo } = useTodoStore();
+  const { wipLimits, setWipLimit } = useBoardStore();
+  const [isLoading, setIsLoading] = useState(true);
+  const [draggingId, setDraggingId] = useState<string | null>(null);
+  const [dropTarget, setDropTarget] = useState<DropTarget | null>(null);
+  const [editingLimit, setEditingLimit] = useState<Status | null>(null);
+
+  useEffect(() => {
+    loadTodos();
+  }, []);
+
+  // Todos created, updated or deleted elsewhere arrive through the socket
+  // service, which keeps the todo store and so the board up to date
+  const loadTodos = async () => {
+    try {
+      setIsLoading(true);
+      const allTodos: Todo[] = [];
+      let cursor: string | undefined;
+      do {
+        const response = await todoApi.getTodos({ limit: PAGE_SIZE, sort: 'position', cursor });
+        allTodos.push(...response.todos);
+        cursor = response.pagination.nextCursor || undefined;
+      } while (cursor);
+      setTodos(allTodos);
+    } catch (error) {
+      toast.error('Failed to load todos');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const getColumnTodos = (status: Status) =>
+    todos.filter(todo => todo.status === status).sort(byPosition);
+
+  const handleDragStart = (e: React.DragEvent<HTMLDivElement>, todo: Todo) => {
+    e.dataTransfer.effectAllowed = 'move';
+    e.dataTransfer.setData('text/plain', todo.id);
+    setDraggingId(todo.id);
+  };
+
+  // Dropping on the upper half of a card places the todo before it
+  const handleCardDragOver = (e: React.DragEvent<HTMLDivElement>, todo: Todo) => {
+    e.preventDefault();
+    e.stopPropagation();
+    const rect = e.currentTarget.getBoundingClientRect();
+    const columnTodos = getColumnTodos(todo.status).filter(t => t.id !== draggingId);
+    const index = columnTodos.findIndex(t => t.id === todo.id);
+    const after = e.clientY > rect.top + rect.height / 2;
+    setDropTarget({ status: todo.status, index: index + (after ? 1 : 0) });
+  };
+
+  const handleColumnDragOver = (e: React.DragEvent<HTMLDivElement>, status: Status) => {
+    e.preventDefault();
+    if (dropTarget?.status !== status) {
+      setDropTarget({ status, index: getColumnTodos(status).filter(t => t.id !== draggingId).length });
+    }
+  };
+
+  const handleDragEnd = () => {
+    setDraggingId(null);
+    setDropTarget(null);
+  };
+
+  const handleDrop = async (e: React.DragEvent<HTMLDivElement>) => {
+    e.preventDefault();
+    const todo = todos.find(t => t.id === e.dataTransfer.getData('text/plain'));
+    const target = dropTarget;
+    handleDragEnd();
+    if (!todo || !target) return;
+
+    const columnTodos = getColumnTodos(target.status).filter(t => t.id !== todo.id);
+    const statusChanged = todo.status !== target.status;
+
+    const limit = wipLimits[target.status];
+    if (statusChanged && limit && columnTodos.length >= limit) {
+      const label = COLUMNS.find(column => column.status === target.status)!.label;
+      toast.error(`${label} is at its WIP limit of ${limit}`);
+      return;
+    }
+
+    const previous = columnTodos[target.index - 1];
+    const next = columnTodos[target.index];
+    if (!statusChanged && getColumnTodos(target.status)[target.index]?.id === todo.id) {
+      return;
+    }
+
+    // Move the card right away, the server answers with its final position.
+    // Only this todo changes, so only this todo is put back if the move fails.
+    const position = previous && next
+      ? (previous.position + next.position) / 2
+      : previous ? previous.position + 1 : next ? next.position - 1 : 0;
+    updateTodo(todo.id, { status: target.status, position });
+
+    try {
+      const moved = await todoApi.updateTodo(todo.id, {
+        ...(statusChanged && { status: target.status }),
+        previousId: previous?.id || null,
+        nextId: next?.id || null
+      });
+      updateTodo(todo.id, moved);
+    } catch (error: any) {
+      updateTodo(todo.id, { status: todo.status, position: todo.position });
+      toast.error(error.response?.data?.error || 'Failed to move todo');
+    }
+  };
+
+  const handleLimitChange = (status: Status, value: string) => {
+    const limit = parseInt(value);
+    setWipLimit(status, isNaN(limit) ? null : limit);
+  };
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <LoadingSpinner size="lg" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h1 className="text-2xl font-bold text-gray-900 dark:text-white">Board</h1>
+        <p className="text-gray-600 dark:text-gray-400 mt-1">
+          Drag todos between columns to change their status, or within a column to reorder them.
+        </p>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 xl:grid-cols-4 gap-4 items-start">
+        {COLUMNS.map((column) => {
+          const columnTodos = getColumnTodos(column.status);
+          const limit = wipLimits[column.status];
+          const overLimit = !!limit && columnTodos.length > limit;
+          const atLimit = !!limit && columnTodos.length >= limit;
+          const isTarget = dropTarget?.status === column.status;
+
+          return (
+            <div
+              key={column.status}
+              onDragOver={(e) => handleColumnDragOver(e, column.status)}
+              onDrop={handleDrop}
+              className={`rounded-lg p-3 transition-colors ${
+                overLimit
+                  ? 'bg-red-50 dark:bg-red-900/20'
+                  : isTarget
+                    ? 'bg-primary-50 dark:bg-primary-900/20'
+                    : 'bg-gray-100 dark:bg-gray-800/50'
+              }`}
+            >
+              {/* Column header */}
+              <div className="flex items-center justify-between mb-3">
+                <div className="flex items-center space-x-2">
+                  <span className={`h-2 w-2 rounded-full ${column.accent}`} />
+                  <h2 className="text-sm font-semibold text-gray-900 dark:text-white">{column.label}</h2>
+                  <span
+                    className={`text-xs font-medium ${
+                      overLimit ? 'text-red-600 dark:text-red-400' : atLimit ? 'text-orange-600 dark:text-orange-400' : 'text-gray-500 dark:text-gray-400'
+                    }`}
+                    title={limit ? `WIP limit ${limit}` : undefined}
+                  >
+                    {columnTodos.length}{limit ? ` / ${limit}` : ''}
+                  </span>
+                </div>
+                {editingLimit === column.status ? (
+                  <input
+                    type="number"
+                    min={0}
+                    defaultValue={limit || ''}
+                    onBlur={(e) => {
+                      handleLimitChange(column.status, e.target.value);
+                      setEditingLimit(null);
+                    }}
+                    onKeyDown={(e) => {
+                      if (e.key === 'Enter') e.currentTarget.blur();
+                      if (e.key === 'Escape') setEditingLimit(null);
+                    }}
+                    className="input w-20 py-1 text-xs"
+                    placeholder="No limit"
+                    aria-label={`WIP limit for ${column.label}`}
+                    autoFocus
+                  />
+                ) : (
+                  <button
+                    onClick={() => setEditingLimit(column.status)}
+                    className="p-1 rounded text-gray-400 hover:text-gray-600 dark:hover:text-gray-200"
+                    title="Set WIP limit"
+                  >
+                    <Settings2 className="h-4 w-4" />
+                  </button>
+                )}
+              </div>
+
+              {/* Cards */}
+              <div className="space-y-2 min-h-[4rem]">
+                {columnTodos.map((todo) => (
+                  <React.Fragment key={todo.id}>
+                    {isTarget && draggingId && columnTodos.filter(t => t.id !== draggingId).indexOf(todo) === dropTarget!.index && (
+                      <div className="h-1 rounded bg-primary-500" />
+                    )}
+                    <BoardCard
+                      todo={todo}
+                      isDragging={todo.id === draggingId}
+                      onDragStart={handleDragStart}
+                      onDragOver={handleCardDragOver}
+                      onDragEnd={handleDragEnd}
+                    />
+                  </React.Fragment>
+                ))}
+                {isTarget && draggingId && dropTarget!.index >= columnTodos.filter(t => t.id !== draggingId).length && (
+                  <div className="h-1 rounded bg-primary-500" />
+                )}
+                {columnTodos.length === 0 && !isTarget && (
+                  <p className="text-xs text-center text-gray-500 dark:text-gray-400 py-4">No todos</p>
+                )}
+              </div>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
+
+export default BoardPage;
@@ -0,0 +1,382 @@
+import React, { useEffect, useState } from 'react';
+import { Link } from 'react-router-dom';
+import { ChevronLeft, ChevronRight } from 'lucide-react';
+import {
+  addDays,
+  addMonths,
+  addWeeks,
+  eachDayOfInterval,
+  endOfMonth,
+  endOfWeek,
+  format,
+  isSameDay,
+  isSameMonth,
+  isToday,
+  startOfDay,
+  startOfMonth,
+  startOfWeek,
+} from 'date-fns';
+import { useTodoStore } from '@/store';
+import { todoApi } from '@/utils/api';
+import { isOverdue } from '@/utils/todo';
+import { Todo } from '@/types';
+import LoadingSpinner from '@/components/LoadingSpinner';
+import toast from 'react-hot-toast';
+
+type CalendarView = 'month' | 'week' | 'agenda';
+
+// Days covered by the agenda
+const AGENDA_DAYS = 30;
+
+// Todos shown in a day of the month view before "+N more"
+const MONTH_DAY_LIMIT = 3;
+
+// Todos loaded per request while filling the visible window
+const PAGE_SIZE = 100;
+
+const WEEK_OPTIONS = { weekStartsOn: 1 } as const;
+
+const viewOptions: { value: CalendarView; label: string }[] = [
+  { value: 'month', label: 'Month' },
+  { value: 'week', label: 'Week' },
+  { value: 'agenda', label: 'Agenda' },
+];
+
+// First and last day shown by a view around `anchor`
+const getRange = (view: CalendarView, anchor: Date) => {
+  switch (view) {
+    case 'month':
+      return {
+        start: startOfWeek(startOfMonth(anchor), WEEK_OPTIONS),
+        end: endOfWeek(endOfMonth(anchor), WEEK_OPTIONS),
+      };
+    case 'week':
+      return { start: startOfWeek(anchor, WEEK_OPTIONS), end: endOfWeek(anchor, WEEK_OPTIONS) };
+    default:
+      return { start: startOfDay(anchor), end: addDays(startOfDay(anchor), AGENDA_DAYS - 1) };
+  }
+};
+
+const shiftAnchor = (view: CalendarView, anchor: Date, step: number) => {
+  switch (view) {
+    case 'month':
+      return addMonths(anchor, step);
+    case 'week':
+      return addWeeks(anchor, step);
+    default:
+      return addDays(anchor, step * AGENDA_DAYS);
+  }
+};
+
+const getPriorityDot = (todo: Todo) => {
+  switch (todo.priority) {
+    case 'URGENT':
+      return 'bg-red-500';
+    case 'HIGH':
+      return 'bg-orange-500';
+    case 'MEDIUM':
+      return 'bg-yellow-500';
+    default:
+      return 'bg-green-500';
+  }
+};
+
+const CalendarPage: React.FC = () => {
+  const { todos, setTodos, updateTodo } = useTodoStore();
+  const [view, setView] = useState<CalendarView>('month');
+  const [anchor, setAnchor] = useState(() => new Date());
+  const [isLoading, setIsLoading] = useState(true);
+  const [dropDay, setDropDay] = useState<Date | null>(null);
+  const [expandedDay, setExpandedDay] = useState<Date | null>(null);
+
+  const range = getRange(view, anchor);
+  const days = eachDayOfInterval(range);
+
+  const rangeStart = range.start.getTime();
+  const rangeEnd = range.end.getTime();
+
+  // Only the todos due within the visible window are loaded. When the window
+  // changes again before a load finishes, that load's result is dropped.
+  useEffect(() => {
+    let isCurrent = true;
+
+    const loadTodos = async () => {
+      try {
+        setIsLoading(true);
+        const windowTodos: Todo[] = [];
+        let cursor: string | undefined;
+        do {
+          const response = await todoApi.getTodos({
+            limit: PAGE_SIZE,
+            sort: 'dueDate,-priority',
+            dueFrom: new Date(rangeStart).toISOString(),
+            dueTo: addDays(rangeEnd, 1).toISOString(),
+            cursor,
+          });
+          if (!isCurrent) return;
+          windowTodos.push(...response.todos);
+          cursor = response.pagination.nextCursor || undefined;
+        } while (cursor);
+        setTodos(windowTodos);
+      } catch (error) {
+        if (isCurrent) toast.error('Failed to load todos');
+      } finally {
+        if (isCurrent) setIsLoading(false);
+      }
+    };
+
+    loadTodos();
+    return () => {
+      isCurrent = false;
+    };
+  }, [rangeStart, rangeEnd, setTodos]);
+
+  const getDayTodos = (day: Date) =>
+    todos
+      .filter(todo => todo.dueDate && isSameDay(new Date(todo.dueDate), day))
+      .sort((a, b) => new Date(a.dueDate!).getTime() - new Date(b.dueDate!).getTime());
+
+  // Moving a todo to another day keeps its time of day
+  const handleReschedule = async (todoId: string, day: Date) => {
+    const todo = todos.find(t => t.id === todoId);
+    if (!todo?.dueDate || isSameDay(new Date(todo.dueDate), day)) return;
+
+    const previousDueDate = todo.dueDate;
+    const current = new Date(todo.dueDate);
+    const dueDate = new Date(day.getFullYear(), day.getMonth(), day.getDate(), current.getHours(), current.getMinutes()).toISOString();
+
+    updateTodo(todo.id, { dueDate });
+    try {
+      await todoApi.updateTodo(todo.id, { dueDate });
+      toast.success(`Moved to ${format(day, 'EEE, MMM d')}`);
+    } catch (error: any) {
+      updateTodo(todo.id, { dueDate: previousDueDate });
+      toast.error(error.response?.data?.error || 'Failed to reschedule todo');
+    }
+  };
+
+  const dayDropProps = (day: Date) => ({
+    onDragOver: (e: React.DragEvent) => {
+      e.preventDefault();
+      if (!dropDay || !isSameDay(dropDay, day)) setDropDay(day);
+    },
+    onDragLeave: () => setDropDay(null),
+    onDrop: (e: React.DragEvent) => {
+      e.preventDefault();
+      setDropDay(null);
+      handleReschedule(e.dataTransfer.getData('text/plain'), day);
+    },
+  });
+
+  const renderTodo = (todo: Todo) => {
+    const overdue = isOverdue(todo);
+    const resolved = todo.status === 'COMPLETED' || todo.status === 'CANCELLED';
+    return (
+      <div
+        key={todo.id}
+        draggable
+        onDragStart={(e) => {
+          e.dataTransfer.effectAllowed = 'move';
+          e.dataTransfer.setData('text/plain', todo.id);
+        }}
+        className={`flex items-center space-x-1 px-1.5 py-0.5 rounded text-xs cursor-grab active:cursor-grabbing ${
+          overdue
+            ? 'bg-red-100 text-red-800 dark:bg-red-900 dark:text-red-200'
+            : 'bg-white text-gray-800 dark:bg-gray-700 dark:text-gray-200'
+        }`}
+        title={`${todo.title} · ${format(new Date(todo.dueDate!), 'p')}${overdue ? ' · overdue' : ''}`}
+      >
+        <span className={`h-1.5 w-1.5 rounded-full flex-shrink-0 ${getPriorityDot(todo)}`} />
+        <Link
+          to={`/todos/${todo.id}`}
+          draggable={false}
+          className={`truncate hover:underline ${resolved ? 'line-through opacity-60' : ''}`}
+        >
+          {todo.title}
+        </Link>
+      </div>
+    );
+  };
+
+  const getTitle = () => {
+    if (view === 'month') return format(anchor, 'MMMM yyyy');
+    const sameYear = range.start.getFullYear() === range.end.getFullYear();
+    return `${format(range.start, sameYear ? 'MMM d' : 'MMM d, yyyy')} – ${format(range.end, 'MMM d, yyyy')}`;
+  };
+
+  const renderMonth = () => (
+    <div className="grid grid-cols-7 border-t border-l border-gray-200 dark:border-gray-700">
+      {days.slice(0, 7).map((day) => (
+        <div
+          key={`head-${day.toISOString()}`}
+          className="px-2 py-1 text-xs font-medium text-gray-500 dark:text-gray-400 border-r border-b border-gray-200 dark:border-gray-700"
+        >
+          {format(day, 'EEE')}
+        </div>
+      ))}
+      {days.map((day) => {
+        const dayTodos = getDayTodos(day);
+        const isExpanded = expandedDay && isSameDay(expandedDay, day);
+        const visibleTodos = isExpanded ? dayTodos : dayTodos.slice(0, MONTH_DAY_LIMIT);
+        return (
+          <div
+            key={day.toISOString()}
+            {...dayDropProps(day)}
+            className={`min-h-[6rem] p-1 border-r border-b border-gray-200 dark:border-gray-700 space-y-1 ${
+              dropDay && isSameDay(dropDay, day)
+                ? 'bg-primary-50 dark:bg-primary-900/30'
+                : isSameMonth(day, anchor)
+                  ? 'bg-gray-50 dark:bg-gray-800'
+                  : 'bg-gray-100 dark:bg-gray-900'
+            }`}
+          >
+            <div className={`text-xs text-right ${
+              isToday(day)
+                ? 'font-bold text-primary-600 dark:text-primary-400'
+                : isSameMonth(day, anchor)
+                  ? 'text-gray-700 dark:text-gray-300'
+                  : 'text-gray-400 dark:text-gray-600'
+            }`}>
+              {format(day, 'd')}
+            </div>
+            {visibleTodos.map(renderTodo)}
+            {dayTodos.length > MONTH_DAY_LIMIT && (
+              <button
+                onClick={() => setExpandedDay(isExpanded ? null : day)}
+                className="text-xs text-primary-600 dark:text-primary-400 hover:underline"
+              >
+                {isExpanded ? 'Show less' : `+${dayTodos.length - MONTH_DAY_LIMIT} more`}
+              </button>
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+
+  const renderWeek = () => (
+    <div className="grid grid-cols-7 gap-2">
+      {days.map((day) => (
+        <div
+          key={day.toISOString()}
+          {...dayDropProps(day)}
+          className={`min-h-[20rem] rounded-lg p-2 space-y-1 ${
+            dropDay && isSameDay(dropDay, day) ? 'bg-primary-50 dark:bg-primary-900/30' : 'bg-gray-50 dark:bg-gray-800'
+          }`}
+        >
+          <div className={`text-sm mb-2 ${
+            isToday(day) ? 'font-bold text-primary-600 dark:text-primary-400' : 'font-medium text-gray-700 dark:text-gray-300'
+          }`}>
+            {format(day, 'EEE d')}
+          </div>
+          {getDayTodos(day).map(renderTodo)}
+        </div>
+      ))}
+    </div>
+  );
+
+  const renderAgenda = () => {
+    const agendaDays = days.filter(day => getDayTodos(day).length > 0);
+    if (agendaDays.length === 0) {
+      return (
+        <p className="text-center py-12 text-gray-600 dark:text-gray-400">Nothing due in these {AGENDA_DAYS} days.</p>
+      );
+    }
+
+    return (
+      <div className="divide-y divide-gray-200 dark:divide-gray-700">
+        {agendaDays.map((day) => (
+          <div key={day.toISOString()} className="py-3 flex">
+            <div className={`w-32 flex-shrink-0 text-sm ${
+              isToday(day) ? 'font-bold text-primary-600 dark:text-primary-400' : 'font-medium text-gray-700 dark:text-gray-300'
+            }`}>
+              {format(day, 'EEE, MMM d')}
+            </div>
+            <ul className="flex-1 space-y-2">
+              {getDayTodos(day).map((todo) => (
+                <li key={todo.id} className="flex items-center space-x-3 text-sm">
+                  <span className="w-16 text-xs text-gray-500 dark:text-gray-400">{format(new Date(todo.dueDate!), 'p')}</span>
+                  <span className={`h-2 w-2 rounded-full ${getPriorityDot(todo)}`} />
+                  <Link
+                    to={`/todos/${todo.id}`}
+                    className={`flex-1 truncate hover:text-primary-600 dark:hover:text-primary-400 ${
+                      isOverdue(todo) ? 'text-red-600 dark:text-red-400' : 'text-gray-900 dark:text-white'
+                    } ${todo.status === 'COMPLETED' || todo.status === 'CANCELLED' ? 'line-through opacity-60' : ''}`}
+                  >
+                    {todo.title}
+                  </Link>
+                  <span className="text-xs text-gray-500 dark:text-gray-400">{todo.status.replace('_', ' ')}</span>
+                </li>
+              ))}
+            </ul>
+          </div>
+        ))}
+      </div>
+    );
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="bg-white dark:bg-gray-800 rounded-lg shadow-sm p-6">
+        {/* Toolbar */}
+        <div className="flex flex-wrap items-center justify-between gap-4 mb-6">
+          <div className="flex items-center space-x-2">
+            <button
+              onClick={() => setAnchor(shiftAnchor(view, anchor, -1))}
+              className="btn btn-outline btn-sm"
+              aria-label="Previous"
+            >
+              <ChevronLeft className="h-4 w-4" />
+            </button>
+            <button onClick={() => setAnchor(new Date())} className="btn btn-outline btn-sm">
+              Today
+            </button>
+            <button
+              onClick={() => setAnchor(shiftAnchor(view, anchor, 1))}
+              className="btn btn-outline btn-sm"
+              aria-label="Next"
+            >
+              <ChevronRight className="h-4 w-4" />
+            </button>
+            <h1 className="text-xl font-bold text-gray-900 dark:text-white ml-2">{getTitle()}</h1>
+          </div>
+          <div className="flex items-center space-x-1">
+            {viewOptions.map((option) => (
+              <button
+                key={option.value}
+                onClick={() => setView(option.value)}
+                className={`px-3 py-1 rounded-full text-xs font-medium transition-colors ${
+                  view === option.value
+                    ? 'bg-primary-100 text-primary-800 dark:bg-primary-900 dark:text-primary-200'
+                    : 'text-gray-600 hover:bg-gray-100 dark:text-gray-400 dark:hover:bg-gray-700'
+                }`}
+              >
+                {option.label}
+              </button>
+            ))}
+          </div>
+        </div>
+
+        {isLoading ? (
+          <div className="flex items-center justify-center h-64">
+            <LoadingSpinner size="lg" />
+          </div>
+        ) : view === 'month' ? (
+          renderMonth()
+        ) : view === 'week' ? (
+          renderWeek()
+        ) : (
+          renderAgenda()
+        )}
+
+        {view !== 'agenda' && !isLoading && (
+          <p className="mt-4 text-xs text-gray-500 dark:text-gray-400">
+            Drag a todo to another day to reschedule it.
+          </p>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default CalendarPage;
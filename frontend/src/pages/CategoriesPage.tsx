@@ -0,0 +1,346 @@
+import React, { useEffect, useState } from 'react';
+import { Link } from 'react-router-dom';
+import { Plus, Tag, Pencil, Trash2, GitMerge, X } from 'lucide-react';
+import { useTodoStore } from '@/store';
+import { categoryApi } from '@/utils/api';
+import { Category } from '@/types';
+import LoadingSpinner from '@/components/LoadingSpinner';
+import toast from 'react-hot-toast';
+
+const DEFAULT_COLOR = '#3B82F6';
+
+const PRESET_COLORS = ['#3B82F6', '#10B981', '#F59E0B', '#EF4444', '#8B5CF6', '#EC4899', '#14B8A6', '#6B7280'];
+
+// Delete or merge in progress, picked from the row menu
+type CategoryAction = { type: 'delete' | 'merge'; category: Category };
+
+interface ColorPickerProps {
+  value: string;
+  onChange: (color: string) => void;
+}
+
+// Preset swatches plus the browser's own picker for any other color
+const ColorPicker: React.FC<ColorPickerProps> = ({ value, onChange }) => (
+  <div className="flex items-center space-x-1">
+    {PRESET_COLORS.map((color) => (
+      <button
+        key={color}
+        type="button"
+        onClick={() => onChange(color)}
+        className={`h-5 w-5 rounded-full border-2 ${
+          value.toUpperCase() === color ? 'border-gray-900 dark:border-white' : 'border-transparent'
+        }`}
+        style={{ backgroundColor: color }}
+        title={color}
+      />
+    ))}
+    <input
+      type="color"
+      value={value}
+      onChange={(e) => onChange(e.target.value.toUpperCase())}
+      className="h-6 w-6 p-0 border-0 bg-transparent cursor-pointer"
+      title="Custom color"
+    />
+  </div>
+);
+
+const CategoriesPage: React.FC = () => {
+  const { categories, setCategories, addCategory, updateCategory, removeCategory } = useTodoStore();
+  const [isLoading, setIsLoading] = useState(true);
+  const [newName, setNewName] = useState('');
+  const [newColor, setNewColor] = useState(DEFAULT_COLOR);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editName, setEditName] = useState('');
+  const [colorEditingId, setColorEditingId] = useState<string | null>(null);
+  const [action, setAction] = useState<CategoryAction | null>(null);
+  const [targetId, setTargetId] = useState('');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  useEffect(() => {
+    loadCategories();
+  }, []);
+
+  const loadCategories = async () => {
+    try {
+      setIsLoading(true);
+      const response = await categoryApi.getCategories();
+      setCategories(response.categories);
+    } catch (error) {
+      toast.error('Failed to load categories');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const name = newName.trim();
+    if (!name) return;
+
+    try {
+      const category = await categoryApi.createCategory({ name, color: newColor });
+      addCategory({ ...category, todoCount: 0 });
+      setNewName('');
+      toast.success('Category created');
+    } catch (error: any) {
+      toast.error(error.response?.data?.error || 'Failed to create category');
+    }
+  };
+
+  const startRename = (category: Category) => {
+    setEditingId(category.id);
+    setEditName(category.name);
+  };
+
+  const handleRename = async (category: Category) => {
+    const name = editName.trim();
+    setEditingId(null);
+    if (!name || name === category.name) return;
+
+    updateCategory(category.id, { name });
+    try {
+      await categoryApi.updateCategory(category.id, { name });
+    } catch (error: any) {
+      updateCategory(category.id, { name: category.name });
+      toast.error(error.response?.data?.error || 'Failed to rename category');
+    }
+  };
+
+  const handleColorChange = async (category: Category, color: string) => {
+    if (color === category.color) return;
+
+    updateCategory(category.id, { color });
+    try {
+      await categoryApi.updateCategory(category.id, { color });
+    } catch (error: any) {
+      updateCategory(category.id, { color: category.color });
+      toast.error(error.response?.data?.error || 'Failed to update color');
+    }
+  };
+
+  const openAction = (type: CategoryAction['type'], category: Category) => {
+    setAction({ type, category });
+    setTargetId(type === 'merge' ? categories.find(c => c.id !== category.id)?.id || '' : '');
+  };
+
+  const handleConfirmAction = async () => {
+    if (!action) return;
+    const { type, category } = action;
+
+    try {
+      setIsSubmitting(true);
+      if (type === 'merge') {
+        const result = await categoryApi.mergeCategories(category.id, targetId);
+        removeCategory(category.id);
+        updateCategory(result.category.id, { todoCount: result.category.todoCount });
+        toast.success(`Merged ${category.name} into ${result.category.name}`);
+      } else {
+        await categoryApi.deleteCategory(category.id, targetId || undefined);
+        removeCategory(category.id);
+        if (targetId) {
+          // The reassigned count is only known to the server
+          loadCategories();
+        }
+        toast.success('Category moved to trash');
+      }
+      setAction(null);
+    } catch (error: any) {
+      toast.error(error.response?.data?.error || `Failed to ${type} category`);
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const otherCategories = action ? categories.filter(category => category.id !== action.category.id) : [];
+
+  return (
+    <div className="max-w-3xl mx-auto space-y-6">
+      <div>
+        <h1 className="text-2xl font-bold text-gray-900 dark:text-white">Categories</h1>
+        <p className="text-gray-600 dark:text-gray-400 mt-1">
+          Rename, recolor, merge and delete the categories of your todos.
+        </p>
+      </div>
+
+      {/* New category */}
+      <form onSubmit={handleCreate} className="bg-white dark:bg-gray-800 rounded-lg shadow-sm p-6 flex flex-wrap items-center gap-3">
+        <input
+          type="text"
+          value={newName}
+          onChange={(e) => setNewName(e.target.value)}
+          maxLength={50}
+          className="input flex-1 min-w-[12rem]"
+          placeholder="New category name"
+        />
+        <ColorPicker value={newColor} onChange={setNewColor} />
+        <button type="submit" disabled={!newName.trim()} className="btn btn-primary">
+          <Plus className="h-4 w-4 mr-2" />
+          Add
+        </button>
+      </form>
+
+      {/* Categories */}
+      <div className="bg-white dark:bg-gray-800 rounded-lg shadow-sm">
+        {isLoading && categories.length === 0 ? (
+          <div className="flex items-center justify-center h-32">
+            <LoadingSpinner size="lg" />
+          </div>
+        ) : categories.length === 0 ? (
+          <div className="text-center py-12">
+            <Tag className="h-12 w-12 text-gray-400 mx-auto mb-4" />
+            <p className="text-gray-600 dark:text-gray-400">No categories yet.</p>
+          </div>
+        ) : (
+          <ul className="divide-y divide-gray-200 dark:divide-gray-700">
+            {categories.map((category) => (
+              <li key={category.id} className="group p-4">
+                <div className="flex items-center space-x-3">
+                  <button
+                    onClick={() => setColorEditingId(colorEditingId === category.id ? null : category.id)}
+                    className="h-5 w-5 rounded-full flex-shrink-0"
+                    style={{ backgroundColor: category.color }}
+                    title="Change color"
+                  />
+
+                  {editingId === category.id ? (
+                    <input
+                      type="text"
+                      value={editName}
+                      onChange={(e) => setEditName(e.target.value)}
+                      onBlur={() => handleRename(category)}
+                      onKeyDown={(e) => {
+                        if (e.key === 'Enter') e.currentTarget.blur();
+                        if (e.key === 'Escape') setEditingId(null);
+                      }}
+                      maxLength={50}
+                      className="input flex-1 py-1"
+                      autoFocus
+                    />
+                  ) : (
+                    <button
+                      onClick={() => startRename(category)}
+                      className="flex-1 text-left text-sm font-medium text-gray-900 dark:text-white"
+                      title="Rename"
+                    >
+                      {category.name}
+                    </button>
+                  )}
+
+                  <Link
+                    to={`/todos?category=${encodeURIComponent(category.name)}`}
+                    className="text-xs text-gray-500 dark:text-gray-400 hover:text-primary-600 dark:hover:text-primary-400"
+                  >
+                    {category.todoCount ?? 0} {category.todoCount === 1 ? 'todo' : 'todos'}
+                  </Link>
+
+                  <div className="flex items-center space-x-1 opacity-0 group-hover:opacity-100 transition-opacity">
+                    <button
+                      onClick={() => startRename(category)}
+                      className="p-1 rounded text-gray-400 hover:text-gray-600 dark:hover:text-gray-200"
+                      title="Rename"
+                    >
+                      <Pencil className="h-4 w-4" />
+                    </button>
+                    {categories.length > 1 && (
+                      <button
+                        onClick={() => openAction('merge', category)}
+                        className="p-1 rounded text-gray-400 hover:text-gray-600 dark:hover:text-gray-200"
+                        title="Merge into another category"
+                      >
+                        <GitMerge className="h-4 w-4" />
+                      </button>
+                    )}
+                    <button
+                      onClick={() => openAction('delete', category)}
+                      className="p-1 rounded text-gray-400 hover:text-red-600 dark:hover:text-red-400"
+                      title="Delete"
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </button>
+                  </div>
+                </div>
+
+                {colorEditingId === category.id && (
+                  <div className="mt-3 ml-8">
+                    <ColorPicker value={category.color} onChange={(color) => handleColorChange(category, color)} />
+                  </div>
+                )}
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+
+      {/* Delete and merge dialog */}
+      {action && (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+          <div className="bg-white dark:bg-gray-800 rounded-lg shadow-xl w-full max-w-md">
+            <div className="flex items-center justify-between p-6 border-b border-gray-200 dark:border-gray-700">
+              <h2 className="text-lg font-semibold text-gray-900 dark:text-white">
+                {action.type === 'merge' ? `Merge ${action.category.name}` : `Delete ${action.category.name}`}
+              </h2>
+              <button
+                onClick={() => setAction(null)}
+                className="p-2 hover:bg-gray-100 dark:hover:bg-gray-700 rounded-lg transition-colors"
+              >
+                <X className="h-5 w-5 text-gray-500" />
+              </button>
+            </div>
+
+            <div className="p-6 space-y-4">
+              {action.type === 'merge' ? (
+                <>
+                  <p className="text-sm text-gray-600 dark:text-gray-400">
+                    All todos in {action.category.name} move to the category below, then {action.category.name} is
+                    removed. This cannot be undone.
+                  </p>
+                  <label className="block text-sm font-medium text-gray-700 dark:text-gray-300">
+                    Merge into
+                    <select value={targetId} onChange={(e) => setTargetId(e.target.value)} className="input w-full mt-1">
+                      {otherCategories.map((category) => (
+                        <option key={category.id} value={category.id}>{category.name}</option>
+                      ))}
+                    </select>
+                  </label>
+                </>
+              ) : (
+                <>
+                  <p className="text-sm text-gray-600 dark:text-gray-400">
+                    {action.category.name} moves to the trash
+                    {action.category.todoCount ? ` and is removed from ${action.category.todoCount} todos` : ''}.
+                  </p>
+                  {!!action.category.todoCount && otherCategories.length > 0 && (
+                    <label className="block text-sm font-medium text-gray-700 dark:text-gray-300">
+                      Move its todos to
+                      <select value={targetId} onChange={(e) => setTargetId(e.target.value)} className="input w-full mt-1">
+                        <option value="">No other category</option>
+                        {otherCategories.map((category) => (
+                          <option key={category.id} value={category.id}>{category.name}</option>
+                        ))}
+                      </select>
+                    </label>
+                  )}
+                </>
+              )}
+
+              <div className="flex space-x-3 pt-2">
+                <button type="button" onClick={() => setAction(null)} className="btn btn-outline flex-1">
+                  Cancel
+                </button>
+                <button
+                  onClick={handleConfirmAction}
+                  disabled={isSubmitting || (action.type === 'merge' && !targetId)}
+                  className={`btn flex-1 ${action.type === 'merge' ? 'btn-primary' : 'btn-danger'}`}
+                >
+                  {action.type === 'merge' ? 'Merge' : 'Delete'}
+                </button>
+              </div>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default CategoriesPage;
@@ -1,42 +1,129 @@
-import React, { useEffect } from 'react';
-import { Plus, CheckCircle, Circle, Clock, AlertCircle } from 'lucide-react';
-import { useTodoStore, useAuthStore } from '@/store';
-import { todoApi, userApi } from '@/utils/api';
+import React, { useCallback, useEffect } from 'react';
+import { Link } from 'react-router-dom';
+import { Plus, CheckCircle, Circle, Clock, AlertCircle, Upload, Download, Bookmark } from 'lucide-react';
+import { useTodoStore, useAuthStore, useSavedFilterStore } from '@/store';
+import { todoApi, userApi, savedFilterApi } from '@/utils/api';
 import LoadingSpinner from '@/components/LoadingSpinner';
 import TodoCard from '@/components/TodoCard';
 import CreateTodoModal from '@/components/CreateTodoModal';
+import BulkActionToolbar from '@/components/BulkActionToolbar';
+import ImportTodosModal from '@/components/ImportTodosModal';
+import TodoSearchBar from '@/components/TodoSearchBar';
+import SaveFilterModal from '@/components/SaveFilterModal';
+import { ExportFormat, TodoView } from '@/types';
 import toast from 'react-hot-toast';
 
+const loadUserStats = async () => {
+  try {
+    await userApi.getStats();
+  } catch (error) {
+    console.error('Failed to load user stats:', error);
+  }
+};
+
 const DashboardPage: React.FC = () => {
-  const { todos, isLoading, setTodos, setLoading } = useTodoStore();
+  const { todos, isLoading, filters, setTodos, setLoading, setFilters } = useTodoStore();
   const { user } = useAuthStore();
   const [showCreateModal, setShowCreateModal] = React.useState(false);
+  const [showImportModal, setShowImportModal] = React.useState(false);
+  const [showSaveFilterModal, setShowSaveFilterModal] = React.useState(false);
+  const [selectedIds, setSelectedIds] = React.useState<string[]>([]);
+  const { defaultApplied, setSavedFilters, setDefaultApplied } = useSavedFilterStore();
+  const view = filters.view || 'all';
 
   useEffect(() => {
-    loadTodos();
     loadUserStats();
   }, []);
 
-  const loadTodos = async () => {
+  // The pinned saved filter is applied once per session, and only when no
+  // other filter has been chosen yet
+  useEffect(() => {
+    if (defaultApplied) return;
+
+    const applyDefaultFilter = async () => {
+      try {
+        const response = await savedFilterApi.getFilters();
+        setSavedFilters(response.filters, response.defaultFilterId);
+
+        const defaultFilter = response.filters.find(filter => filter.id === response.defaultFilterId);
+        const { filters: currentFilters } = useTodoStore.getState();
+        if (defaultFilter && !currentFilters.q && !currentFilters.view) {
+          setFilters({
+            q: defaultFilter.query || undefined,
+            view: defaultFilter.view,
+            sort: defaultFilter.sort || undefined,
+          });
+        }
+      } catch (error) {
+        console.error('Failed to load saved filters:', error);
+      } finally {
+        setDefaultApplied(true);
+      }
+    };
+
+    applyDefaultFilter();
+  }, [defaultApplied, setSavedFilters, setFilters, setDefaultApplied]);
+
+  const loadTodos = useCallback(async () => {
     try {
       setLoading(true);
-      const response = await todoApi.getTodos({ limit: 10 });
+      const response = await todoApi.getTodos({ limit: 10, view, q: filters.q, sort: filters.sort });
       setTodos(response.todos);
     } catch (error: any) {
-      toast.error('Failed to load todos');
+      // Invalid search queries come back as 400 with a message pointing at the problem
+      toast.error(error.response?.status === 400 ? error.response.data.error : 'Failed to load todos');
     } finally {
       setLoading(false);
     }
-  };
+  }, [view, filters.q, filters.sort, setLoading, setTodos]);
+
+  useEffect(() => {
+    if (!defaultApplied) return;
+    setSelectedIds([]);
+    loadTodos();
+  }, [defaultApplied, loadTodos]);
 
-  const loadUserStats = async () => {
+  const handleExport = async (format: ExportFormat) => {
     try {
-      await userApi.getStats();
+      const blob = await todoApi.exportTodos(format, { q: filters.q });
+      const url = URL.createObjectURL(blob);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = `todos-${new Date().toISOString().slice(0, 10)}.${format}`;
+      link.click();
+      URL.revokeObjectURL(url);
     } catch (error) {
-      console.error('Failed to load user stats:', error);
+      toast.error('Failed to export todos');
     }
   };
 
+  const handleSelectChange = (id: string, selected: boolean) => {
+    setSelectedIds(ids => selected ? [...ids, id] : ids.filter(selectedId => selectedId !== id));
+  };
+
+  const viewOptions: { value: TodoView; label: string }[] = [
+    { value: 'all', label: 'All' },
+    { value: 'assigned', label: 'Assigned to me' },
+    { value: 'team', label: 'Team' },
+  ];
+
+  const sortOptions: { value: string; label: string }[] = [
+    { value: '-createdAt', label: 'Newest' },
+    { value: 'dueDate,-priority', label: 'Due date' },
+    { value: '-priority,dueDate', label: 'Priority' },
+    { value: 'status,-priority', label: 'Status' },
+    { value: 'title', label: 'Title' },
+    { value: '-updatedAt', label: 'Recently updated' },
+    { value: 'position', label: 'Manual' },
+  ];
+
+  const recentTodos = todos.slice(0, 5);
+  const allSelected = recentTodos.length > 0 && recentTodos.every(todo => selectedIds.includes(todo.id));
+
+  const handleSelectAll = () => {
+    setSelectedIds(allSelected ? [] : recentTodos.map(todo => todo.id));
+  };
+
   const getStatusIcon = (status: string) => {
     switch (status) {
       case 'COMPLETED':
@@ -129,19 +216,104 @@ const DashboardPage: React.FC = () => {
       <div className="bg-white dark:bg-gray-800 rounded-lg shadow-sm">
         <div className="p-6 border-b border-gray-200 dark:border-gray-700">
           <div className="flex items-center justify-between">
-            <h2 className="text-lg font-semibold text-gray-900 dark:text-white">Recent Todos</h2>
-            <button
-              onClick={() => setShowCreateModal(true)}
-              className="btn btn-primary btn-sm"
-            >
-              <Plus className="h-4 w-4 mr-2" />
-              Add Todo
-            </button>
+            <div className="flex items-center space-x-3">
+              {recentTodos.length > 0 && (
+                <input
+                  type="checkbox"
+                  checked={allSelected}
+                  onChange={handleSelectAll}
+                  className="h-4 w-4 rounded border-gray-300 text-primary-600 focus:ring-primary-500"
+                  aria-label="Select all"
+                />
+              )}
+              <h2 className="text-lg font-semibold text-gray-900 dark:text-white">Recent Todos</h2>
+              <div className="flex items-center space-x-1 ml-2">
+                {viewOptions.map((option) => (
+                  <button
+                    key={option.value}
+                    onClick={() => setFilters({ view: option.value })}
+                    className={`px-3 py-1 rounded-full text-xs font-medium transition-colors ${
+                      view === option.value
+                        ? 'bg-primary-100 text-primary-800 dark:bg-primary-900 dark:text-primary-200'
+                        : 'text-gray-600 hover:bg-gray-100 dark:text-gray-400 dark:hover:bg-gray-700'
+                    }`}
+                  >
+                    {option.label}
+                  </button>
+                ))}
+              </div>
+            </div>
+            <div className="flex items-center space-x-2">
+              <select
+                value={filters.sort || '-createdAt'}
+                onChange={(e) => setFilters({ sort: e.target.value === '-createdAt' ? undefined : e.target.value })}
+                className="input py-1 text-sm w-auto"
+                aria-label="Sort by"
+              >
+                {sortOptions.map((option) => (
+                  <option key={option.value} value={option.value}>{option.label}</option>
+                ))}
+                {filters.sort && !sortOptions.some(option => option.value === filters.sort) && (
+                  <option value={filters.sort}>{filters.sort}</option>
+                )}
+              </select>
+              <button
+                onClick={() => handleExport('csv')}
+                className="btn btn-outline btn-sm"
+                title="Export as CSV"
+              >
+                <Download className="h-4 w-4 mr-2" />
+                CSV
+              </button>
+              <button
+                onClick={() => handleExport('json')}
+                className="btn btn-outline btn-sm"
+                title="Export as JSON"
+              >
+                <Download className="h-4 w-4 mr-2" />
+                JSON
+              </button>
+              <button
+                onClick={() => setShowImportModal(true)}
+                className="btn btn-outline btn-sm"
+              >
+                <Upload className="h-4 w-4 mr-2" />
+                Import
+              </button>
+              <button
+                onClick={() => setShowCreateModal(true)}
+                className="btn btn-primary btn-sm"
+              >
+                <Plus className="h-4 w-4 mr-2" />
+                Add Todo
+              </button>
+            </div>
           </div>
         </div>
 
+        <div className="px-6 pt-6 flex items-start space-x-2">
+          <div className="flex-1">
+            <TodoSearchBar
+              value={filters.q || ''}
+              onSearch={(q) => setFilters({ q: q || undefined })}
+            />
+          </div>
+          <button
+            onClick={() => setShowSaveFilterModal(true)}
+            className="btn btn-outline"
+            title="Save as smart list"
+          >
+            <Bookmark className="h-4 w-4 mr-2" />
+            Save
+          </button>
+        </div>
+
         <div className="p-6">
-          {todos.length === 0 ? (
+          {todos.length === 0 && filters.q ? (
+            <div className="text-center py-12">
+              <p className="text-gray-600 dark:text-gray-400">No todos match your search.</p>
+            </div>
+          ) : todos.length === 0 ? (
             <div className="text-center py-12">
               <Circle className="h-12 w-12 text-gray-400 mx-auto mb-4" />
               <h3 className="text-lg font-medium text-gray-900 dark:text-white mb-2">No todos yet</h3>
@@ -158,9 +330,35 @@ const DashboardPage: React.FC = () => {
             </div>
           ) : (
             <div className="space-y-4">
-              {todos.slice(0, 5).map((todo) => (
-                <TodoCard key={todo.id} todo={todo} />
+              {selectedIds.length > 0 && (
+                <BulkActionToolbar
+                  selectedIds={selectedIds}
+                  onClearSelection={() => setSelectedIds([])}
+                  onComplete={() => {
+                    setSelectedIds([]);
+                    loadTodos();
+                  }}
+                />
+              )}
+              {recentTodos.map((todo) => (
+                <TodoCard
+                  key={todo.id}
+                  todo={todo}
+                  selectable
+                  selected={selectedIds.includes(todo.id)}
+                  onSelectChange={handleSelectChange}
+                />
               ))}
+              {todos.length > recentTodos.length && (
+                <div className="text-center">
+                  <Link
+                    to="/todos"
+                    className="text-sm font-medium text-primary-600 hover:text-primary-500 dark:text-primary-400"
+                  >
+                    View all todos
+                  </Link>
+                </div>
+              )}
             </div>
           )}
         </div>
@@ -176,6 +374,25 @@ const DashboardPage: React.FC = () => {
           }}
         />
       )}
+
+      {/* Save Filter Modal */}
+      {showSaveFilterModal && (
+        <SaveFilterModal
+          filter={{ query: filters.q || '', view, sort: filters.sort || null }}
+          onClose={() => setShowSaveFilterModal(false)}
+        />
+      )}
+
+      {/* Import Todos Modal */}
+      {showImportModal && (
+        <ImportTodosModal
+          onClose={() => setShowImportModal(false)}
+          onSuccess={() => {
+            setShowImportModal(false);
+            loadTodos();
+          }}
+        />
+      )}
     </div>
   );
 };
@@ -6,6 +6,8 @@ import { z } from 'zod';
 import { Eye, EyeOff, Loader2 } from 'lucide-react';
 import { useAuthStore } from '@/store';
 import { authApi } from '@/utils/api';
+import { AuthResponse } from '@/types';
+import TwoFactorLoginForm from '@/components/TwoFactorLoginForm';
 import toast from 'react-hot-toast';
 
 const loginSchema = z.object({
@@ -17,7 +19,8 @@ type LoginFormData = z.infer<typeof loginSchema>;
 
 const LoginPage: React.FC = () => {
   const [showPassword, setShowPassword] = useState(false);
-  const { login, setLoading } = useAuthStore();
+  const [challengeToken, setChallengeToken] = useState<string | null>(null);
+  const { login } = useAuthStore();
   const navigate = useNavigate();
   const location = useLocation();
 
@@ -31,18 +34,25 @@ const LoginPage: React.FC = () => {
     resolver: zodResolver(loginSchema),
   });
 
+  const completeLogin = (response: AuthResponse) => {
+    login(response.user, response.token, response.refreshToken);
+    toast.success('Login successful!');
+    navigate(from, { replace: true });
+  };
+
+  // The global loading flag is left alone here: it unmounts this page and
+  // would drop the two-factor challenge between the two steps
   const onSubmit = async (data: LoginFormData) => {
     try {
-      setLoading(true);
       const response = await authApi.login(data);
-      
-      login(response.user, response.token);
-      toast.success('Login successful!');
-      navigate(from, { replace: true });
+
+      if ('twoFactorRequired' in response) {
+        setChallengeToken(response.challengeToken);
+        return;
+      }
+      completeLogin(response);
     } catch (error: any) {
       toast.error(error.response?.data?.error || 'Login failed');
-    } finally {
-      setLoading(false);
     }
   };
 
@@ -69,89 +79,105 @@ const LoginPage: React.FC = () => {
           </p>
         </div>
 
-        <form className="mt-8 space-y-6" onSubmit={handleSubmit(onSubmit)}>
-          <div className="space-y-4">
-            {/* Email */}
-            <div>
-              <label htmlFor="email" className="block text-sm font-medium text-gray-700 dark:text-gray-300">
-                Email address
-              </label>
-              <input
-                {...register('email')}
-                type="email"
-                autoComplete="email"
-                className="mt-1 input w-full"
-                placeholder="Enter your email"
-              />
-              {errors.email && (
-                <p className="mt-1 text-sm text-red-600 dark:text-red-400">
-                  {errors.email.message}
-                </p>
-              )}
-            </div>
-
-            {/* Password */}
-            <div>
-              <label htmlFor="password" className="block text-sm font-medium text-gray-700 dark:text-gray-300">
-                Password
-              </label>
-              <div className="mt-1 relative">
+        {challengeToken ? (
+          <TwoFactorLoginForm
+            challengeToken={challengeToken}
+            onSuccess={completeLogin}
+            onCancel={() => setChallengeToken(null)}
+          />
+        ) : (
+          <form className="mt-8 space-y-6" onSubmit={handleSubmit(onSubmit)}>
+            <div className="space-y-4">
+              {/* Email */}
+              <div>
+                <label htmlFor="email" className="block text-sm font-medium text-gray-700 dark:text-gray-300">
+                  Email address
+                </label>
                 <input
-                  {...register('password')}
-                  type={showPassword ? 'text' : 'password'}
-                  autoComplete="current-password"
-                  className="input w-full pr-10"
-                  placeholder="Enter your password"
+                  {...register('email')}
+                  type="email"
+                  autoComplete="email"
+                  className="mt-1 input w-full"
+                  placeholder="Enter your email"
                 />
-                <button
-                  type="button"
-                  className="absolute inset-y-0 right-0 pr-3 flex items-center"
-                  onClick={() => setShowPassword(!showPassword)}
-                >
-                  {showPassword ? (
-                    <EyeOff className="h-4 w-4 text-gray-400" />
-                  ) : (
-                    <Eye className="h-4 w-4 text-gray-400" />
-                  )}
-                </button>
+                {errors.email && (
+                  <p className="mt-1 text-sm text-red-600 dark:text-red-400">
+                    {errors.email.message}
+                  </p>
+                )}
+              </div>
+
+              {/* Password */}
+              <div>
+                <label htmlFor="password" className="block text-sm font-medium text-gray-700 dark:text-gray-300">
+                  Password
+                </label>
+                <div className="mt-1 relative">
+                  <input
+                    {...register('password')}
+                    type={showPassword ? 'text' : 'password'}
+                    autoComplete="current-password"
+                    className="input w-full pr-10"
+                    placeholder="Enter your password"
+                  />
+                  <button
+                    type="button"
+                    className="absolute inset-y-0 right-0 pr-3 flex items-center"
+                    onClick={() => setShowPassword(!showPassword)}
+                  >
+                    {showPassword ? (
+                      <EyeOff className="h-4 w-4 text-gray-400" />
+                    ) : (
+                      <Eye className="h-4 w-4 text-gray-400" />
+                    )}
+                  </button>
+                </div>
+                {errors.password && (
+                  <p className="mt-1 text-sm text-red-600 dark:text-red-400">
+                    {errors.password.message}
+                  </p>
+                )}
+                <div className="mt-2 text-right">
+                  <Link
+                    to="/forgot-password"
+                    className="text-sm font-medium text-primary-600 hover:text-primary-500 dark:text-primary-400"
+                  >
+                    Forgot your password?
+                  </Link>
+                </div>
               </div>
-              {errors.password && (
-                <p className="mt-1 text-sm text-red-600 dark:text-red-400">
-                  {errors.password.message}
-                </p>
-              )}
             </div>
-          </div>
 
-          {/* Submit button */}
-          <div>
-            <button
-              type="submit"
-              disabled={isSubmitting}
-              className="btn btn-primary w-full btn-lg"
-            >
-              {isSubmitting ? (
-                <>
-                  <Loader2 className="mr-2 h-4 w-4 animate-spin" />
-                  Signing in...
-                </>
-              ) : (
-                'Sign in'
-              )}
-            </button>
-          </div>
+            {/* Submit button */}
+            <div>
+              <button
+                type="submit"
+                disabled={isSubmitting}
+                className="btn btn-primary w-full btn-lg"
+              >
+                {isSubmitting ? (
+                  <>
+                    <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                    Signing in...
+                  </>
+                ) : (
+                  'Sign in'
+                )}
+              </button>
+            </div>
 
-          {/* Demo credentials */}
-          <div className="mt-6 p-4 bg-blue-50 dark:bg-blue-900/20 rounded-lg">
-            <h3 className="text-sm font-medium text-blue-800 dark:text-blue-200 mb-2">
-              Demo Credentials
-            </h3>
-            <div className="text-xs text-blue-700 dark:text-blue-300 space-y-1">
-              <p><strong>Email:</strong> demo@todoapp.com</p>
-              <p><strong>Password:</strong> password123</p>
+            {/* Demo credentials */}
+            <div className="mt-6 p-4 bg-blue-50 dark:bg-blue-900/20 rounded-lg">
+              <h3 className="text-sm font-medium text-blue-800 dark:text-blue-200 mb-2">
+                Demo Credentials
+              </h3>
+              <div className="text-xs text-blue-700 dark:text-blue-300 space-y-1">
+                <p><strong>Email:</strong> demo@todoapp.com</p>
+                <p><strong>Password:</strong> password123</p>
+              </div>
             </div>
-          </div>
-        </form>
+          </form>
+        )}
       </div>
     </div>
   );
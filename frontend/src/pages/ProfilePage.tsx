@@ -5,6 +5,11 @@ import { z } from 'zod';
 import { User, Mail, Calendar, Save, LogOut } from 'lucide-react';
 import { useAuthStore } from '@/store';
 import { authApi } from '@/utils/api';
+import CalendarFeedSettings from '@/components/CalendarFeedSettings';
+import SessionList from '@/components/SessionList';
+import TwoFactorSettings from '@/components/TwoFactorSettings';
+import AccessTokenList from '@/components/AccessTokenList';
+import WebhookSettings from '@/components/WebhookSettings';
 import toast from 'react-hot-toast';
 
 const profileSchema = z.object({
@@ -47,7 +52,22 @@ const ProfilePage: React.FC = () => {
     }
   };
 
-  const handleLogout = () => {
+  const handleResendVerification = async () => {
+    try {
+      await authApi.resendVerificationEmail();
+      toast.success('Verification email sent');
+    } catch (error: any) {
+      toast.error(error.response?.data?.error || 'Failed to send verification email');
+    }
+  };
+
+  const handleLogout = async () => {
+    // Revoke the session on the server, sign out locally either way
+    try {
+      await authApi.logout();
+    } catch (error) {
+      console.error('Failed to revoke session:', error);
+    }
     logout();
     toast.success('Logged out successfully');
   };
@@ -71,6 +91,18 @@ const ProfilePage: React.FC = () => {
         </div>
       </div>
 
+      {/* Email verification */}
+      {user?.emailVerifiedAt === null && (
+        <div className="flex items-center justify-between p-4 rounded-lg bg-yellow-50 dark:bg-yellow-900/20 border border-yellow-200 dark:border-yellow-800">
+          <p className="text-sm text-yellow-800 dark:text-yellow-200">
+            Your email address has not been verified yet.
+          </p>
+          <button onClick={handleResendVerification} className="btn btn-outline btn-sm ml-4">
+            Resend Email
+          </button>
+        </div>
+      )}
+
       {/* Profile Form */}
       <div className="bg-white dark:bg-gray-800 rounded-lg shadow-sm p-6">
         <h2 className="text-lg font-semibold text-gray-900 dark:text-white mb-6">
@@ -175,6 +207,21 @@ const ProfilePage: React.FC = () => {
         </form>
       </div>
 
+      {/* Calendar Feed */}
+      <CalendarFeedSettings />
+
+      {/* Two-factor authentication */}
+      <TwoFactorSettings />
+
+      {/* Sessions */}
+      <SessionList />
+
+      {/* Personal access tokens */}
+      <AccessTokenList />
+
+      {/* Webhooks */}
+      <WebhookSettings />
+
       {/* Danger Zone */}
       <div className="bg-white dark:bg-gray-800 rounded-lg shadow-sm p-6 border border-red-200 dark:border-red-800">
         <h2 className="text-lg font-semibold text-red-600 dark:text-red-400 mb-4">
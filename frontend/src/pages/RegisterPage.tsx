@@ -43,7 +43,7 @@ const RegisterPage: React.FC = () => {
         password: data.password,
       });
       
-      login(response.user, response.token);
+      login(response.user, response.token, response.refreshToken);
       toast.success('Account created successfully!');
       navigate('/dashboard');
     } catch (error: any) {
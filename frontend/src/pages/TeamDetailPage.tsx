@@ -0,0 +1,337 @@
+import React, { useEffect, useState } from 'react';
+import { Link, useNavigate, useParams } from 'react-router-dom';
+import { ArrowLeft, Crown, Mail, Trash2, UserMinus, LogOut, Save } from 'lucide-react';
+import { formatDistanceToNow } from 'date-fns';
+import { teamApi } from '@/utils/api';
+import { useAuthStore } from '@/store';
+import { Role, TeamDetails, TeamInvitation, TeamMember } from '@/types';
+import LoadingSpinner from '@/components/LoadingSpinner';
+import toast from 'react-hot-toast';
+
+// Mirrors the OWNER > ADMIN > MEMBER hierarchy enforced by the API
+const roleRank: Record<Role, number> = {
+  OWNER: 3,
+  ADMIN: 2,
+  MEMBER: 1,
+};
+
+const outranks = (actor: Role, target: Role) => roleRank[actor] > roleRank[target];
+
+const TeamDetailPage: React.FC = () => {
+  const { id } = useParams<{ id: string }>();
+  const navigate = useNavigate();
+  const { user } = useAuthStore();
+  const [team, setTeam] = useState<TeamDetails | null>(null);
+  const [invitations, setInvitations] = useState<TeamInvitation[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [name, setName] = useState('');
+  const [description, setDescription] = useState('');
+  const [inviteEmail, setInviteEmail] = useState('');
+  const [inviteRole, setInviteRole] = useState<Role>('MEMBER');
+
+  useEffect(() => {
+    loadTeam();
+  }, [id]);
+
+  const loadTeam = async () => {
+    if (!id) return;
+    try {
+      setIsLoading(true);
+      const response = await teamApi.getTeam(id);
+      setTeam(response);
+      setName(response.name);
+      setDescription(response.description || '');
+      if (roleRank[response.role] >= roleRank.ADMIN) {
+        const invitationsResponse = await teamApi.getTeamInvitations(id);
+        setInvitations(invitationsResponse.invitations);
+      }
+    } catch (error) {
+      toast.error('Failed to load team');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+    try {
+      await teamApi.updateTeam(team!.id, { name: name.trim(), description: description.trim() });
+      toast.success('Team updated successfully!');
+      loadTeam();
+    } catch (error: any) {
+      toast.error(error.response?.data?.error || 'Failed to update team');
+    }
+  };
+
+  const handleInvite = async (e: React.FormEvent) => {
+    e.preventDefault();
+    try {
+      const { invitation } = await teamApi.inviteMember(team!.id, inviteEmail.trim(), inviteRole);
+      setInvitations([invitation, ...invitations.filter(i => i.email !== invitation.email)]);
+      setInviteEmail('');
+      toast.success('Invitation sent');
+    } catch (error: any) {
+      toast.error(error.response?.data?.error || 'Failed to send invitation');
+    }
+  };
+
+  const handleRevoke = async (invitation: TeamInvitation) => {
+    try {
+      await teamApi.revokeInvitation(team!.id, invitation.id);
+      setInvitations(invitations.filter(i => i.id !== invitation.id));
+    } catch (error: any) {
+      toast.error(error.response?.data?.error || 'Failed to revoke invitation');
+    }
+  };
+
+  const handleRoleChange = async (member: TeamMember, role: Role) => {
+    try {
+      await teamApi.updateMemberRole(team!.id, member.userId, role);
+      toast.success(`${member.user.name} is now ${role.toLowerCase()}`);
+      loadTeam();
+    } catch (error: any) {
+      toast.error(error.response?.data?.error || 'Failed to update member');
+    }
+  };
+
+  const handleRemove = async (member: TeamMember) => {
+    if (!confirm(`Remove ${member.user.name} from the team?`)) return;
+    try {
+      await teamApi.removeMember(team!.id, member.userId);
+      loadTeam();
+    } catch (error: any) {
+      toast.error(error.response?.data?.error || 'Failed to remove member');
+    }
+  };
+
+  const handleTransfer = async (member: TeamMember) => {
+    if (!confirm(`Make ${member.user.name} the owner of this team? You will become an admin.`)) return;
+    try {
+      await teamApi.transferOwnership(team!.id, member.userId);
+      toast.success('Ownership transferred');
+      loadTeam();
+    } catch (error: any) {
+      toast.error(error.response?.data?.error || 'Failed to transfer ownership');
+    }
+  };
+
+  const handleLeave = async () => {
+    if (!confirm('Leave this team?')) return;
+    try {
+      await teamApi.leaveTeam(team!.id);
+      toast.success('You left the team');
+      navigate('/teams');
+    } catch (error: any) {
+      toast.error(error.response?.data?.error || 'Failed to leave team');
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!confirm('Delete this team? This action cannot be undone.')) return;
+    try {
+      await teamApi.deleteTeam(team!.id);
+      toast.success('Team deleted');
+      navigate('/teams');
+    } catch (error: any) {
+      toast.error(error.response?.data?.error || 'Failed to delete team');
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <LoadingSpinner size="lg" />
+      </div>
+    );
+  }
+
+  if (!team) {
+    return (
+      <div className="text-center py-12">
+        <h3 className="text-lg font-medium text-gray-900 dark:text-white mb-2">Team not found</h3>
+        <Link to="/teams" className="text-primary-600 hover:text-primary-500 dark:text-primary-400">
+          Back to teams
+        </Link>
+      </div>
+    );
+  }
+
+  const isAdmin = roleRank[team.role] >= roleRank.ADMIN;
+  const isOwner = team.role === 'OWNER';
+
+  return (
+    <div className="max-w-3xl mx-auto space-y-6">
+      <Link
+        to="/teams"
+        className="inline-flex items-center text-sm text-gray-600 dark:text-gray-400 hover:text-gray-900 dark:hover:text-white"
+      >
+        <ArrowLeft className="h-4 w-4 mr-1" />
+        Teams
+      </Link>
+
+      {/* Details */}
+      <div className="bg-white dark:bg-gray-800 rounded-lg shadow-sm p-6">
+        {isAdmin ? (
+          <form onSubmit={handleSave} className="space-y-4">
+            <input
+              type="text"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              className="input w-full text-lg font-semibold"
+              maxLength={100}
+            />
+            <textarea
+              value={description}
+              onChange={(e) => setDescription(e.target.value)}
+              rows={2}
+              className="input w-full resize-none"
+              placeholder="Description (optional)"
+              maxLength={500}
+            />
+            <button type="submit" disabled={!name.trim()} className="btn btn-primary btn-sm">
+              <Save className="h-4 w-4 mr-2" />
+              Save Changes
+            </button>
+          </form>
+        ) : (
+          <>
+            <h1 className="text-2xl font-bold text-gray-900 dark:text-white">{team.name}</h1>
+            {team.description && (
+              <p className="text-gray-600 dark:text-gray-400 mt-2">{team.description}</p>
+            )}
+          </>
+        )}
+      </div>
+
+      {/* Members */}
+      <div className="bg-white dark:bg-gray-800 rounded-lg shadow-sm">
+        <div className="p-6 border-b border-gray-200 dark:border-gray-700">
+          <h2 className="text-lg font-semibold text-gray-900 dark:text-white">
+            Members ({team.members.length})
+          </h2>
+        </div>
+        <div className="divide-y divide-gray-200 dark:divide-gray-700">
+          {team.members.map((member) => {
+            const canManage = member.userId !== user?.id && outranks(team.role, member.role);
+            return (
+              <div key={member.id} className="flex items-center justify-between p-4">
+                <div className="flex items-center space-x-3 min-w-0">
+                  <div className="h-8 w-8 bg-primary-600 rounded-full flex items-center justify-center text-sm font-medium text-white">
+                    {member.user.name.charAt(0).toUpperCase()}
+                  </div>
+                  <div className="min-w-0">
+                    <p className="flex items-center text-sm font-medium text-gray-900 dark:text-white truncate">
+                      {member.user.name}
+                      {member.role === 'OWNER' && <Crown className="h-3 w-3 ml-1 text-yellow-500" />}
+                    </p>
+                    <p className="text-xs text-gray-500 dark:text-gray-400 truncate">{member.user.email}</p>
+                  </div>
+                </div>
+                <div className="flex items-center space-x-2 ml-4">
+                  {/* Only the owner can pick between admin and member */}
+                  {canManage && isOwner ? (
+                    <select
+                      value={member.role}
+                      onChange={(e) => handleRoleChange(member, e.target.value as Role)}
+                      className="input py-1 text-sm w-auto"
+                    >
+                      <option value="ADMIN">Admin</option>
+                      <option value="MEMBER">Member</option>
+                    </select>
+                  ) : (
+                    <span className="text-xs font-medium text-gray-600 dark:text-gray-400">{member.role}</span>
+                  )}
+                  {isOwner && member.userId !== user?.id && (
+                    <button onClick={() => handleTransfer(member)} className="btn btn-outline btn-sm" title="Make owner">
+                      <Crown className="h-4 w-4" />
+                    </button>
+                  )}
+                  {canManage && (
+                    <button onClick={() => handleRemove(member)} className="btn btn-outline btn-sm" title="Remove from team">
+                      <UserMinus className="h-4 w-4" />
+                    </button>
+                  )}
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      </div>
+
+      {/* Invitations */}
+      {isAdmin && (
+        <div className="bg-white dark:bg-gray-800 rounded-lg shadow-sm">
+          <div className="p-6 border-b border-gray-200 dark:border-gray-700">
+            <h2 className="text-lg font-semibold text-gray-900 dark:text-white">Invite Members</h2>
+            <form onSubmit={handleInvite} className="flex space-x-2 mt-4">
+              <input
+                type="email"
+                value={inviteEmail}
+                onChange={(e) => setInviteEmail(e.target.value)}
+                className="input w-full"
+                placeholder="Email address"
+              />
+              <select
+                value={inviteRole}
+                onChange={(e) => setInviteRole(e.target.value as Role)}
+                className="input w-auto"
+              >
+                <option value="MEMBER">Member</option>
+                {isOwner && <option value="ADMIN">Admin</option>}
+              </select>
+              <button type="submit" disabled={!inviteEmail.trim()} className="btn btn-primary btn-sm">
+                <Mail className="h-4 w-4 mr-2" />
+                Invite
+              </button>
+            </form>
+          </div>
+          {invitations.length > 0 && (
+            <div className="divide-y divide-gray-200 dark:divide-gray-700">
+              {invitations.map((invitation) => (
+                <div key={invitation.id} className="flex items-center justify-between p-4">
+                  <div>
+                    <p className="text-sm font-medium text-gray-900 dark:text-white">{invitation.email}</p>
+                    <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">
+                      {invitation.role.toLowerCase()} · expires{' '}
+                      {formatDistanceToNow(new Date(invitation.expiresAt), { addSuffix: true })}
+                    </p>
+                  </div>
+                  <button onClick={() => handleRevoke(invitation)} className="btn btn-outline btn-sm">
+                    Revoke
+                  </button>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      )}
+
+      {/* Leave / delete */}
+      <div className="bg-white dark:bg-gray-800 rounded-lg shadow-sm p-6 border border-red-200 dark:border-red-800">
+        {isOwner ? (
+          <div className="flex items-center justify-between">
+            <p className="text-sm text-red-600 dark:text-red-400">
+              Deleting the team removes it for every member. Transfer ownership if you want to leave instead.
+            </p>
+            <button onClick={handleDelete} className="btn btn-danger btn-sm ml-4">
+              <Trash2 className="h-4 w-4 mr-2" />
+              Delete Team
+            </button>
+          </div>
+        ) : (
+          <div className="flex items-center justify-between">
+            <p className="text-sm text-red-600 dark:text-red-400">
+              You will lose access to this team's todos.
+            </p>
+            <button onClick={handleLeave} className="btn btn-danger btn-sm ml-4">
+              <LogOut className="h-4 w-4 mr-2" />
+              Leave Team
+            </button>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default TeamDetailPage;
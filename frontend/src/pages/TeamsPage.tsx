@@ -0,0 +1,202 @@
+import React, { useEffect, useState } from 'react';
+import { Link, useNavigate } from 'react-router-dom';
+import { Plus, Users, Mail, Check, X } from 'lucide-react';
+import { teamApi } from '@/utils/api';
+import { Team, TeamInvitation } from '@/types';
+import LoadingSpinner from '@/components/LoadingSpinner';
+import toast from 'react-hot-toast';
+
+const TeamsPage: React.FC = () => {
+  const navigate = useNavigate();
+  const [teams, setTeams] = useState<Team[]>([]);
+  const [invitations, setInvitations] = useState<TeamInvitation[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [showCreateForm, setShowCreateForm] = useState(false);
+  const [name, setName] = useState('');
+  const [description, setDescription] = useState('');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  useEffect(() => {
+    loadTeams();
+  }, []);
+
+  const loadTeams = async () => {
+    try {
+      setIsLoading(true);
+      const [teamsResponse, invitationsResponse] = await Promise.all([
+        teamApi.getTeams(),
+        teamApi.getMyInvitations(),
+      ]);
+      setTeams(teamsResponse.teams);
+      setInvitations(invitationsResponse.invitations);
+    } catch (error) {
+      toast.error('Failed to load teams');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!name.trim()) return;
+    try {
+      setIsSubmitting(true);
+      const team = await teamApi.createTeam({ name: name.trim(), description: description.trim() || undefined });
+      toast.success('Team created successfully!');
+      navigate(`/teams/${team.id}`);
+    } catch (error: any) {
+      toast.error(error.response?.data?.error || 'Failed to create team');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleAccept = async (invitation: TeamInvitation) => {
+    try {
+      const { teamId } = await teamApi.acceptInvitation(invitation.token);
+      toast.success(`You joined ${invitation.team?.name}`);
+      navigate(`/teams/${teamId}`);
+    } catch (error: any) {
+      toast.error(error.response?.data?.error || 'Failed to accept invitation');
+    }
+  };
+
+  const handleDecline = async (invitation: TeamInvitation) => {
+    try {
+      await teamApi.declineInvitation(invitation.token);
+      setInvitations(invitations.filter(i => i.id !== invitation.id));
+    } catch (error: any) {
+      toast.error(error.response?.data?.error || 'Failed to decline invitation');
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <LoadingSpinner size="lg" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="bg-white dark:bg-gray-800 rounded-lg shadow-sm p-6">
+        <div className="flex items-center justify-between">
+          <div>
+            <h1 className="text-2xl font-bold text-gray-900 dark:text-white">Teams</h1>
+            <p className="text-gray-600 dark:text-gray-400 mt-2">
+              Share todos and work together with other people.
+            </p>
+          </div>
+          <button onClick={() => setShowCreateForm(!showCreateForm)} className="btn btn-primary btn-sm">
+            <Plus className="h-4 w-4 mr-2" />
+            New Team
+          </button>
+        </div>
+
+        {showCreateForm && (
+          <form onSubmit={handleCreate} className="mt-6 space-y-4">
+            <input
+              type="text"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              className="input w-full"
+              placeholder="Team name"
+              maxLength={100}
+            />
+            <textarea
+              value={description}
+              onChange={(e) => setDescription(e.target.value)}
+              rows={2}
+              className="input w-full resize-none"
+              placeholder="Description (optional)"
+              maxLength={500}
+            />
+            <div className="flex space-x-3">
+              <button type="button" onClick={() => setShowCreateForm(false)} className="btn btn-outline btn-sm">
+                Cancel
+              </button>
+              <button type="submit" disabled={isSubmitting || !name.trim()} className="btn btn-primary btn-sm">
+                {isSubmitting ? 'Creating...' : 'Create Team'}
+              </button>
+            </div>
+          </form>
+        )}
+      </div>
+
+      {/* Invitations */}
+      {invitations.length > 0 && (
+        <div className="bg-white dark:bg-gray-800 rounded-lg shadow-sm">
+          <div className="p-6 border-b border-gray-200 dark:border-gray-700">
+            <h2 className="text-lg font-semibold text-gray-900 dark:text-white">Invitations</h2>
+          </div>
+          <div className="divide-y divide-gray-200 dark:divide-gray-700">
+            {invitations.map((invitation) => (
+              <div key={invitation.id} className="flex items-center justify-between p-4">
+                <div className="flex items-start space-x-3">
+                  <Mail className="h-5 w-5 text-primary-600 mt-0.5" />
+                  <div>
+                    <p className="text-sm font-medium text-gray-900 dark:text-white">
+                      {invitation.team?.name}
+                    </p>
+                    <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">
+                      Invited by {invitation.invitedBy.name} as {invitation.role.toLowerCase()}
+                    </p>
+                  </div>
+                </div>
+                <div className="flex items-center space-x-2 ml-4">
+                  <button onClick={() => handleAccept(invitation)} className="btn btn-primary btn-sm">
+                    <Check className="h-4 w-4 mr-1" />
+                    Accept
+                  </button>
+                  <button onClick={() => handleDecline(invitation)} className="btn btn-outline btn-sm">
+                    <X className="h-4 w-4 mr-1" />
+                    Decline
+                  </button>
+                </div>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {/* Teams */}
+      {teams.length === 0 ? (
+        <div className="bg-white dark:bg-gray-800 rounded-lg shadow-sm p-6 text-center py-12">
+          <Users className="h-12 w-12 text-gray-400 mx-auto mb-4" />
+          <h3 className="text-lg font-medium text-gray-900 dark:text-white mb-2">No teams yet</h3>
+          <p className="text-gray-600 dark:text-gray-400">
+            Create a team or accept an invitation to get started.
+          </p>
+        </div>
+      ) : (
+        <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
+          {teams.map((team) => (
+            <Link
+              key={team.id}
+              to={`/teams/${team.id}`}
+              className="bg-white dark:bg-gray-800 rounded-lg shadow-sm p-6 hover:shadow-md transition-shadow"
+            >
+              <div className="flex items-center justify-between">
+                <h3 className="text-lg font-semibold text-gray-900 dark:text-white truncate">{team.name}</h3>
+                <span className="inline-flex items-center px-2 py-1 rounded-full text-xs font-medium bg-primary-100 text-primary-800 dark:bg-primary-900 dark:text-primary-200">
+                  {team.role}
+                </span>
+              </div>
+              {team.description && (
+                <p className="text-sm text-gray-600 dark:text-gray-400 mt-2 line-clamp-2">{team.description}</p>
+              )}
+              <p className="flex items-center text-xs text-gray-500 dark:text-gray-400 mt-4">
+                <Users className="h-3 w-3 mr-1" />
+                {team.memberCount} {team.memberCount === 1 ? 'member' : 'members'} · owned by {team.owner.name}
+              </p>
+            </Link>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default TeamsPage;
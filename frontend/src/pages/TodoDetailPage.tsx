@@ -0,0 +1,88 @@
+import React, { useEffect, useState } from 'react';
+import { Link, useParams } from 'react-router-dom';
+import { ArrowLeft, History } from 'lucide-react';
+import { useTodoStore } from '@/store';
+import { todoApi } from '@/utils/api';
+import { Todo } from '@/types';
+import LoadingSpinner from '@/components/LoadingSpinner';
+import TodoCard from '@/components/TodoCard';
+import TodoHistoryTimeline from '@/components/TodoHistoryTimeline';
+import toast from 'react-hot-toast';
+
+const TodoDetailPage: React.FC = () => {
+  const { id } = useParams<{ id: string }>();
+  const [todo, setTodo] = useState<Todo | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+
+  useEffect(() => {
+    loadTodo();
+  }, [id]);
+
+  // Follow edits made in the detail drawer
+  const activeTodo = useTodoStore((state) => state.activeTodo);
+  useEffect(() => {
+    if (activeTodo && activeTodo.id === id) {
+      setTodo(activeTodo);
+    }
+  }, [activeTodo]);
+
+  const loadTodo = async () => {
+    if (!id) return;
+    try {
+      setIsLoading(true);
+      setTodo(await todoApi.getTodo(id));
+    } catch (error) {
+      toast.error('Failed to load todo');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <LoadingSpinner size="lg" />
+      </div>
+    );
+  }
+
+  if (!todo) {
+    return (
+      <div className="text-center py-12">
+        <h3 className="text-lg font-medium text-gray-900 dark:text-white mb-2">Todo not found</h3>
+        <Link to="/dashboard" className="text-primary-600 hover:text-primary-500 dark:text-primary-400">
+          Back to dashboard
+        </Link>
+      </div>
+    );
+  }
+
+  return (
+    <div className="max-w-3xl mx-auto space-y-6">
+      <Link
+        to="/dashboard"
+        className="inline-flex items-center text-sm text-gray-600 dark:text-gray-400 hover:text-gray-900 dark:hover:text-white"
+      >
+        <ArrowLeft className="h-4 w-4 mr-1" />
+        Back
+      </Link>
+
+      <TodoCard todo={todo} />
+
+      {/* History */}
+      <div className="bg-white dark:bg-gray-800 rounded-lg shadow-sm">
+        <div className="p-6 border-b border-gray-200 dark:border-gray-700">
+          <h2 className="flex items-center text-lg font-semibold text-gray-900 dark:text-white">
+            <History className="h-5 w-5 mr-2" />
+            History
+          </h2>
+        </div>
+        <div className="p-6">
+          <TodoHistoryTimeline todoId={todo.id} onReverted={setTodo} />
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default TodoDetailPage;
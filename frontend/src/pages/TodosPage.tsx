@@ -0,0 +1,370 @@
+import React, { useCallback, useEffect, useRef, useState } from 'react';
+import { useNavigate, useSearchParams } from 'react-router-dom';
+import { Plus, Search, X, ChevronLeft, ChevronRight } from 'lucide-react';
+import { useTodoStore } from '@/store';
+import { todoApi, categoryApi } from '@/utils/api';
+import { Todo, TodoPagination, TodoView } from '@/types';
+import LoadingSpinner from '@/components/LoadingSpinner';
+import TodoCard from '@/components/TodoCard';
+import CreateTodoModal from '@/components/CreateTodoModal';
+import toast from 'react-hot-toast';
+
+const PAGE_SIZE = 20;
+
+type Filters = ReturnType<typeof useTodoStore.getState>['filters'];
+
+// Filters mirrored in the query string of the page
+const FILTER_KEYS = ['status', 'priority', 'category', 'search', 'q', 'view', 'sort'] as const;
+
+const readFilters = (params: URLSearchParams): Filters => {
+  const filters: Filters = {};
+  for (const key of FILTER_KEYS) {
+    const value = params.get(key);
+    if (value) (filters as Record<string, string>)[key] = value;
+  }
+  return filters;
+};
+
+const toSearchParams = (filters: Filters, page: number) => {
+  const params = new URLSearchParams();
+  for (const key of FILTER_KEYS) {
+    const value = filters[key];
+    if (value) params.set(key, value);
+  }
+  if (page > 1) params.set('page', String(page));
+  return params;
+};
+
+const statusOptions = [
+  { value: '', label: 'All statuses' },
+  { value: 'TODO', label: 'To do' },
+  { value: 'IN_PROGRESS', label: 'In progress' },
+  { value: 'COMPLETED', label: 'Completed' },
+  { value: 'CANCELLED', label: 'Cancelled' },
+];
+
+const priorityOptions = [
+  { value: '', label: 'All priorities' },
+  { value: 'URGENT', label: 'Urgent' },
+  { value: 'HIGH', label: 'High' },
+  { value: 'MEDIUM', label: 'Medium' },
+  { value: 'LOW', label: 'Low' },
+];
+
+const viewOptions: { value: TodoView; label: string }[] = [
+  { value: 'all', label: 'All' },
+  { value: 'personal', label: 'Personal' },
+  { value: 'assigned', label: 'Assigned to me' },
+  { value: 'team', label: 'Team' },
+];
+
+const TodosPage: React.FC = () => {
+  const { todos, categories, filters, setTodos, updateTodo, removeTodo, setCategories, setFilters, clearFilters } = useTodoStore();
+  const navigate = useNavigate();
+  const [searchParams] = useSearchParams();
+  const [page, setPage] = useState(1);
+  const [pagination, setPagination] = useState<TodoPagination | null>(null);
+  const [searchInput, setSearchInput] = useState('');
+  const [isReady, setIsReady] = useState(false);
+  const [isLoading, setIsLoading] = useState(true);
+  const [showCreateModal, setShowCreateModal] = useState(false);
+  const hasReadUrl = useRef(false);
+
+  // The filters and page follow the query string, also when going back or
+  // forward. Opening the page without filters in the URL keeps the filters in
+  // the store, a link with filters wins over them.
+  useEffect(() => {
+    const urlFilters = readFilters(searchParams);
+    const urlPage = parseInt(searchParams.get('page') || '') || 1;
+
+    if (!hasReadUrl.current) {
+      hasReadUrl.current = true;
+      const storeParams = toSearchParams(useTodoStore.getState().filters, urlPage);
+      if (Object.keys(urlFilters).length === 0 && storeParams.toString() !== searchParams.toString()) {
+        navigate({ search: storeParams.toString() }, { replace: true });
+        return;
+      }
+    }
+
+    clearFilters();
+    setFilters(urlFilters);
+    setPage(urlPage);
+    setSearchInput(urlFilters.search || '');
+    setIsReady(true);
+  }, [searchParams, navigate, clearFilters, setFilters]);
+
+  useEffect(() => {
+    if (categories.length > 0) return;
+
+    const loadCategories = async () => {
+      try {
+        const response = await categoryApi.getCategories();
+        setCategories(response.categories);
+      } catch (error) {
+        console.error('Failed to load categories:', error);
+      }
+    };
+
+    loadCategories();
+  }, [categories.length, setCategories]);
+
+  const loadTodos = useCallback(async () => {
+    try {
+      setIsLoading(true);
+      const response = await todoApi.getTodos({ ...filters, page, limit: PAGE_SIZE });
+      // Deleting the last todos of the last page leaves the page empty
+      if (response.todos.length === 0 && page > 1) {
+        navigate({ search: toSearchParams(filters, Math.max(1, response.pagination.pages)).toString() }, { replace: true });
+        return;
+      }
+      setTodos(response.todos);
+      setPagination(response.pagination);
+    } catch (error: any) {
+      toast.error(error.response?.status === 400 ? error.response.data.error : 'Failed to load todos');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [filters, page, navigate, setTodos]);
+
+  useEffect(() => {
+    if (isReady) loadTodos();
+  }, [isReady, loadTodos]);
+
+  // Filter and page changes go through the query string, so each one is a
+  // history entry the store follows
+  const showTodos = (nextFilters: Filters, nextPage: number) => {
+    navigate({ search: toSearchParams(nextFilters, nextPage).toString() });
+  };
+
+  // Changing a filter starts again from the first page
+  const changeFilters = (updates: Partial<Filters>) => {
+    showTodos({ ...filters, ...updates }, 1);
+  };
+
+  const handleSearch = (e: React.FormEvent) => {
+    e.preventDefault();
+    changeFilters({ search: searchInput.trim() || undefined });
+  };
+
+  const handleClearFilters = () => {
+    setSearchInput('');
+    showTodos({}, 1);
+  };
+
+  // The card reports the todo with its status toggled; the change is shown
+  // right away and rolled back if saving fails
+  const handleUpdate = async (updated: Todo) => {
+    const previous = todos.find(todo => todo.id === updated.id);
+    if (!previous) return;
+
+    updateTodo(updated.id, { status: updated.status });
+    try {
+      const saved = await todoApi.updateTodo(updated.id, { status: updated.status });
+      updateTodo(saved.id, saved);
+    } catch (error: any) {
+      updateTodo(previous.id, { status: previous.status });
+      toast.error(error.response?.data?.error || 'Failed to update todo');
+    }
+  };
+
+  const handleDelete = async (id: string) => {
+    if (!confirm('Move this todo to the trash?')) return;
+
+    try {
+      await todoApi.deleteTodo(id);
+      removeTodo(id);
+      toast.success('Todo moved to trash');
+      loadTodos();
+    } catch (error: any) {
+      toast.error(error.response?.data?.error || 'Failed to delete todo');
+    }
+  };
+
+  const hasFilters = FILTER_KEYS.some(key => filters[key] && !(key === 'view' && filters.view === 'all'));
+  const firstItem = pagination && pagination.total > 0 ? (page - 1) * PAGE_SIZE + 1 : 0;
+  const lastItem = pagination ? Math.min(page * PAGE_SIZE, pagination.total) : 0;
+
+  // Page numbers around the current page
+  const pageNumbers = pagination
+    ? Array.from({ length: pagination.pages }, (_, index) => index + 1).filter(
+        number => number === 1 || number === pagination.pages || Math.abs(number - page) <= 2
+      )
+    : [];
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-2xl font-bold text-gray-900 dark:text-white">Todos</h1>
+          {pagination && (
+            <p className="text-gray-600 dark:text-gray-400 mt-1">
+              {pagination.total} {pagination.total === 1 ? 'todo' : 'todos'}{hasFilters ? ' match your filters' : ''}
+            </p>
+          )}
+        </div>
+        <button onClick={() => setShowCreateModal(true)} className="btn btn-primary">
+          <Plus className="h-4 w-4 mr-2" />
+          Add Todo
+        </button>
+      </div>
+
+      {/* Filters */}
+      <div className="bg-white dark:bg-gray-800 rounded-lg shadow-sm p-6 space-y-4">
+        <div className="flex items-center space-x-1">
+          {viewOptions.map((option) => (
+            <button
+              key={option.value}
+              onClick={() => changeFilters({ view: option.value === 'all' ? undefined : option.value })}
+              className={`px-3 py-1 rounded-full text-xs font-medium transition-colors ${
+                (filters.view || 'all') === option.value
+                  ? 'bg-primary-100 text-primary-800 dark:bg-primary-900 dark:text-primary-200'
+                  : 'text-gray-600 hover:bg-gray-100 dark:text-gray-400 dark:hover:bg-gray-700'
+              }`}
+            >
+              {option.label}
+            </button>
+          ))}
+        </div>
+
+        <div className="flex flex-wrap items-center gap-3">
+          <form onSubmit={handleSearch} className="relative flex-1 min-w-[12rem]">
+            <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-gray-400" />
+            <input
+              type="text"
+              value={searchInput}
+              onChange={(e) => setSearchInput(e.target.value)}
+              onBlur={() => (searchInput.trim() || undefined) !== filters.search && changeFilters({ search: searchInput.trim() || undefined })}
+              className="input w-full pl-9"
+              placeholder="Search titles and descriptions"
+            />
+          </form>
+          <select
+            value={filters.status || ''}
+            onChange={(e) => changeFilters({ status: e.target.value || undefined })}
+            className="input w-auto"
+            aria-label="Status"
+          >
+            {statusOptions.map((option) => (
+              <option key={option.value} value={option.value}>{option.label}</option>
+            ))}
+          </select>
+          <select
+            value={filters.priority || ''}
+            onChange={(e) => changeFilters({ priority: e.target.value || undefined })}
+            className="input w-auto"
+            aria-label="Priority"
+          >
+            {priorityOptions.map((option) => (
+              <option key={option.value} value={option.value}>{option.label}</option>
+            ))}
+          </select>
+          <select
+            value={filters.category || ''}
+            onChange={(e) => changeFilters({ category: e.target.value || undefined })}
+            className="input w-auto"
+            aria-label="Category"
+          >
+            <option value="">All categories</option>
+            {categories.map((category) => (
+              <option key={category.id} value={category.name}>{category.name}</option>
+            ))}
+          </select>
+          {hasFilters && (
+            <button onClick={handleClearFilters} className="btn btn-outline btn-sm">
+              <X className="h-4 w-4 mr-1" />
+              Clear
+            </button>
+          )}
+        </div>
+
+        {filters.q && (
+          <div className="flex items-center space-x-2 text-sm">
+            <span className="text-gray-600 dark:text-gray-400">Query:</span>
+            <span className="inline-flex items-center px-2 py-1 rounded-full bg-gray-100 dark:bg-gray-700 font-mono text-xs text-gray-800 dark:text-gray-200">
+              {filters.q}
+              <button
+                onClick={() => changeFilters({ q: undefined })}
+                className="ml-1 text-gray-400 hover:text-gray-600 dark:hover:text-gray-200"
+                title="Remove query"
+              >
+                <X className="h-3 w-3" />
+              </button>
+            </span>
+          </div>
+        )}
+      </div>
+
+      {/* List */}
+      {isLoading && !pagination ? (
+        <div className="flex items-center justify-center h-64">
+          <LoadingSpinner size="lg" />
+        </div>
+      ) : todos.length === 0 ? (
+        <div className="bg-white dark:bg-gray-800 rounded-lg shadow-sm text-center py-12">
+          <p className="text-gray-600 dark:text-gray-400">
+            {hasFilters ? 'No todos match your filters.' : 'No todos yet.'}
+          </p>
+        </div>
+      ) : (
+        <div className={`space-y-4 ${isLoading ? 'opacity-60' : ''}`}>
+          {todos.map((todo) => (
+            <TodoCard key={todo.id} todo={todo} onUpdate={handleUpdate} onDelete={handleDelete} />
+          ))}
+        </div>
+      )}
+
+      {/* Pagination */}
+      {pagination && pagination.pages > 1 && (
+        <div className="flex items-center justify-between">
+          <p className="text-sm text-gray-600 dark:text-gray-400">
+            Showing {firstItem}–{lastItem} of {pagination.total}
+          </p>
+          <div className="flex items-center space-x-1">
+            <button
+              onClick={() => showTodos(filters, page - 1)}
+              disabled={page <= 1}
+              className="btn btn-outline btn-sm"
+              aria-label="Previous page"
+            >
+              <ChevronLeft className="h-4 w-4" />
+            </button>
+            {pageNumbers.map((number, index) => (
+              <React.Fragment key={number}>
+                {index > 0 && number - pageNumbers[index - 1] > 1 && (
+                  <span className="px-1 text-gray-400">…</span>
+                )}
+                <button
+                  onClick={() => showTodos(filters, number)}
+                  className={`btn btn-sm ${number === page ? 'btn-primary' : 'btn-outline'}`}
+                >
+                  {number}
+                </button>
+              </React.Fragment>
+            ))}
+            <button
+              onClick={() => showTodos(filters, page + 1)}
+              disabled={page >= pagination.pages}
+              className="btn btn-outline btn-sm"
+              aria-label="Next page"
+            >
+              <ChevronRight className="h-4 w-4" />
+            </button>
+          </div>
+        </div>
+      )}
+
+      {/* Create Todo Modal */}
+      {showCreateModal && (
+        <CreateTodoModal
+          onClose={() => setShowCreateModal(false)}
+          onSuccess={() => {
+            setShowCreateModal(false);
+            loadTodos();
+          }}
+        />
+      )}
+    </div>
+  );
+};
+
+export default TodosPage;
@@ -0,0 +1,197 @@
+import React, { useEffect, useState } from 'react';
+import { Trash2, RotateCcw, Tag, CheckSquare } from 'lucide-react';
+import { formatDistanceToNow } from 'date-fns';
+import { trashApi } from '@/utils/api';
+import { TrashContents } from '@/types';
+import LoadingSpinner from '@/components/LoadingSpinner';
+import toast from 'react-hot-toast';
+
+const TrashPage: React.FC = () => {
+  const [trash, setTrash] = useState<TrashContents | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+
+  useEffect(() => {
+    loadTrash();
+  }, []);
+
+  const loadTrash = async () => {
+    try {
+      setIsLoading(true);
+      setTrash(await trashApi.getTrash());
+    } catch (error) {
+      toast.error('Failed to load trash');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleRestoreTodo = async (id: string) => {
+    try {
+      await trashApi.restoreTodo(id);
+      toast.success('Todo restored');
+      loadTrash();
+    } catch (error: any) {
+      toast.error(error.response?.data?.error || 'Failed to restore todo');
+    }
+  };
+
+  const handleRestoreCategory = async (id: string) => {
+    try {
+      await trashApi.restoreCategory(id);
+      toast.success('Category restored');
+      loadTrash();
+    } catch (error: any) {
+      toast.error(error.response?.data?.error || 'Failed to restore category');
+    }
+  };
+
+  const handlePurgeTodo = async (id: string) => {
+    if (!confirm('Permanently delete this todo? This action cannot be undone.')) return;
+    try {
+      await trashApi.purgeTodo(id);
+      loadTrash();
+    } catch (error: any) {
+      toast.error(error.response?.data?.error || 'Failed to delete todo');
+    }
+  };
+
+  const handlePurgeCategory = async (id: string) => {
+    if (!confirm('Permanently delete this category? This action cannot be undone.')) return;
+    try {
+      await trashApi.purgeCategory(id);
+      loadTrash();
+    } catch (error: any) {
+      toast.error(error.response?.data?.error || 'Failed to delete category');
+    }
+  };
+
+  const handleEmptyTrash = async () => {
+    if (!confirm('Permanently delete everything in the trash? This action cannot be undone.')) return;
+    try {
+      await trashApi.emptyTrash();
+      toast.success('Trash emptied');
+      loadTrash();
+    } catch (error: any) {
+      toast.error(error.response?.data?.error || 'Failed to empty trash');
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <LoadingSpinner size="lg" />
+      </div>
+    );
+  }
+
+  const isEmpty = !trash || (trash.todos.length === 0 && trash.categories.length === 0);
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="bg-white dark:bg-gray-800 rounded-lg shadow-sm p-6">
+        <div className="flex items-center justify-between">
+          <div>
+            <h1 className="text-2xl font-bold text-gray-900 dark:text-white">Trash</h1>
+            <p className="text-gray-600 dark:text-gray-400 mt-2">
+              Deleted items are permanently removed after {trash?.retentionDays ?? 30} days.
+            </p>
+          </div>
+          {!isEmpty && (
+            <button onClick={handleEmptyTrash} className="btn btn-danger btn-sm">
+              <Trash2 className="h-4 w-4 mr-2" />
+              Empty Trash
+            </button>
+          )}
+        </div>
+      </div>
+
+      {isEmpty ? (
+        <div className="bg-white dark:bg-gray-800 rounded-lg shadow-sm p-6 text-center py-12">
+          <Trash2 className="h-12 w-12 text-gray-400 mx-auto mb-4" />
+          <h3 className="text-lg font-medium text-gray-900 dark:text-white">Trash is empty</h3>
+        </div>
+      ) : (
+        <>
+          {/* Todos */}
+          {trash!.todos.length > 0 && (
+            <div className="bg-white dark:bg-gray-800 rounded-lg shadow-sm">
+              <div className="p-6 border-b border-gray-200 dark:border-gray-700">
+                <h2 className="text-lg font-semibold text-gray-900 dark:text-white">Todos</h2>
+              </div>
+              <div className="divide-y divide-gray-200 dark:divide-gray-700">
+                {trash!.todos.map((todo) => (
+                  <div key={todo.id} className="flex items-center justify-between p-4">
+                    <div className="flex items-start space-x-3 min-w-0">
+                      <CheckSquare className="h-5 w-5 text-gray-400 mt-0.5" />
+                      <div className="min-w-0">
+                        <p className="text-sm font-medium text-gray-900 dark:text-white truncate">
+                          {todo.title}
+                        </p>
+                        <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">
+                          Deleted {formatDistanceToNow(new Date(todo.deletedAt), { addSuffix: true })}
+                          {' · '}
+                          {todo.subtaskCount} subtasks, {todo.commentCount} comments
+                          {' · '}
+                          purged {formatDistanceToNow(new Date(todo.purgeAt), { addSuffix: true })}
+                        </p>
+                      </div>
+                    </div>
+                    <div className="flex items-center space-x-2 ml-4">
+                      <button onClick={() => handleRestoreTodo(todo.id)} className="btn btn-outline btn-sm">
+                        <RotateCcw className="h-4 w-4 mr-1" />
+                        Restore
+                      </button>
+                      <button onClick={() => handlePurgeTodo(todo.id)} className="btn btn-danger btn-sm">
+                        Delete forever
+                      </button>
+                    </div>
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+
+          {/* Categories */}
+          {trash!.categories.length > 0 && (
+            <div className="bg-white dark:bg-gray-800 rounded-lg shadow-sm">
+              <div className="p-6 border-b border-gray-200 dark:border-gray-700">
+                <h2 className="text-lg font-semibold text-gray-900 dark:text-white">Categories</h2>
+              </div>
+              <div className="divide-y divide-gray-200 dark:divide-gray-700">
+                {trash!.categories.map((category) => (
+                  <div key={category.id} className="flex items-center justify-between p-4">
+                    <div className="flex items-start space-x-3 min-w-0">
+                      <Tag className="h-5 w-5 mt-0.5" style={{ color: category.color }} />
+                      <div className="min-w-0">
+                        <p className="text-sm font-medium text-gray-900 dark:text-white truncate">
+                          {category.name}
+                        </p>
+                        <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">
+                          Deleted {formatDistanceToNow(new Date(category.deletedAt), { addSuffix: true })}
+                          {' · '}
+                          {category.todoCount ?? 0} linked todos
+                        </p>
+                      </div>
+                    </div>
+                    <div className="flex items-center space-x-2 ml-4">
+                      <button onClick={() => handleRestoreCategory(category.id)} className="btn btn-outline btn-sm">
+                        <RotateCcw className="h-4 w-4 mr-1" />
+                        Restore
+                      </button>
+                      <button onClick={() => handlePurgeCategory(category.id)} className="btn btn-danger btn-sm">
+                        Delete forever
+                      </button>
+                    </div>
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  );
+};
+
+export default TrashPage;
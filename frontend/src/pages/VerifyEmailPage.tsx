@@ -0,0 +1,78 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Link, useSearchParams } from 'react-router-dom';
+import { CheckCircle, AlertCircle } from 'lucide-react';
+import { useAuthStore } from '@/store';
+import { authApi } from '@/utils/api';
+import LoadingSpinner from '@/components/LoadingSpinner';
+
+type VerifyState = 'verifying' | 'verified' | 'failed';
+
+const VerifyEmailPage: React.FC = () => {
+  const [searchParams] = useSearchParams();
+  const token = searchParams.get('token');
+  const { isAuthenticated, updateUser } = useAuthStore();
+  const [state, setState] = useState<VerifyState>(token ? 'verifying' : 'failed');
+  const [error, setError] = useState('This verification link is incomplete.');
+  // Tokens are single use, so StrictMode's double effect must not send it twice
+  const requested = useRef(false);
+
+  useEffect(() => {
+    if (!token || requested.current) return;
+    requested.current = true;
+    verify(token);
+  }, [token]);
+
+  const verify = async (value: string) => {
+    try {
+      await authApi.verifyEmail(value);
+      if (isAuthenticated) {
+        updateUser({ emailVerifiedAt: new Date().toISOString() });
+      }
+      setState('verified');
+    } catch (error: any) {
+      setError(error.response?.data?.error || 'Failed to verify email');
+      setState('failed');
+    }
+  };
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-gray-50 dark:bg-gray-900 py-12 px-4 sm:px-6 lg:px-8">
+      <div className="max-w-md w-full p-6 bg-white dark:bg-gray-800 rounded-lg shadow-sm text-center">
+        {state === 'verifying' && (
+          <>
+            <LoadingSpinner size="lg" />
+            <p className="mt-4 text-sm text-gray-600 dark:text-gray-400">Verifying your email...</p>
+          </>
+        )}
+
+        {state === 'verified' && (
+          <>
+            <CheckCircle className="h-12 w-12 text-green-600 mx-auto mb-4" />
+            <h2 className="text-lg font-semibold text-gray-900 dark:text-white">Email verified</h2>
+          </>
+        )}
+
+        {state === 'failed' && (
+          <>
+            <AlertCircle className="h-12 w-12 text-red-600 mx-auto mb-4" />
+            <h2 className="text-lg font-semibold text-gray-900 dark:text-white">Verification failed</h2>
+            <p className="mt-2 text-sm text-gray-600 dark:text-gray-400">
+              {error} You can request a new link from your profile.
+            </p>
+          </>
+        )}
+
+        {state !== 'verifying' && (
+          <Link
+            to={isAuthenticated ? '/dashboard' : '/login'}
+            className="btn btn-primary mt-6"
+          >
+            {isAuthenticated ? 'Go to dashboard' : 'Sign in'}
+          </Link>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default VerifyEmailPage;
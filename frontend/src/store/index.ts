@@ -1,14 +1,16 @@
 import { create } from 'zustand';
 import { persist } from 'zustand/middleware';
-import { User, Todo, Category, Notification } from '@/types';
+import { User, Todo, Category, Notification, InboxNotification, SavedFilter, TodoView, Status, Subtask, Comment } from '@/types';
 
 // Auth Store
 interface AuthState {
   user: User | null;
   token: string | null;
+  refreshToken: string | null;
   isAuthenticated: boolean;
   isLoading: boolean;
-  login: (user: User, token: string) => void;
+  login: (user: User, token: string, refreshToken: string) => void;
+  setTokens: (token: string, refreshToken: string) => void;
   logout: () => void;
   setLoading: (loading: boolean) => void;
   updateUser: (user: Partial<User>) => void;
@@ -19,22 +21,29 @@ export const useAuthStore = create<AuthState>()(
     (set, get) => ({
       user: null,
       token: null,
+      refreshToken: null,
       isAuthenticated: false,
       isLoading: false,
       
-      login: (user: User, token: string) => {
+      login: (user: User, token: string, refreshToken: string) => {
         set({
           user,
           token,
+          refreshToken,
           isAuthenticated: true,
           isLoading: false,
         });
       },
+
+      setTokens: (token: string, refreshToken: string) => {
+        set({ token, refreshToken });
+      },
       
       logout: () => {
         set({
           user: null,
           token: null,
+          refreshToken: null,
           isAuthenticated: false,
           isLoading: false,
         });
@@ -58,6 +67,7 @@ export const useAuthStore = create<AuthState>()(
       partialize: (state) => ({
         user: state.user,
         token: state.token,
+        refreshToken: state.refreshToken,
         isAuthenticated: state.isAuthenticated,
       }),
     }
@@ -67,6 +77,8 @@ export const useAuthStore = create<AuthState>()(
 // Todo Store
 interface TodoState {
   todos: Todo[];
+  // Todo shown in the detail drawer, kept in sync with the list
+  activeTodo: Todo | null;
   categories: Category[];
   isLoading: boolean;
   error: string | null;
@@ -75,6 +87,9 @@ interface TodoState {
     priority?: string;
     category?: string;
     search?: string;
+    q?: string;
+    view?: TodoView;
+    sort?: string;
   };
   
   // Actions
@@ -82,6 +97,15 @@ interface TodoState {
   addTodo: (todo: Todo) => void;
   updateTodo: (id: string, updates: Partial<Todo>) => void;
   removeTodo: (id: string) => void;
+  openTodo: (todo: Todo) => void;
+  closeTodo: () => void;
+  addSubtask: (todoId: string, subtask: Subtask) => void;
+  updateSubtask: (todoId: string, subtaskId: string, updates: Partial<Subtask>) => void;
+  removeSubtask: (todoId: string, subtaskId: string) => void;
+  setSubtasks: (todoId: string, subtasks: Subtask[]) => void;
+  addComment: (todoId: string, comment: Comment) => void;
+  updateComment: (todoId: string, commentId: string, comment: Comment) => void;
+  removeComment: (todoId: string, commentId: string) => void;
   setCategories: (categories: Category[]) => void;
   addCategory: (category: Category) => void;
   updateCategory: (id: string, updates: Partial<Category>) => void;
@@ -92,8 +116,22 @@ interface TodoState {
   clearFilters: () => void;
 }
 
+// Apply a change to a todo both in the list and in the drawer
+const patchTodo = (state: TodoState, id: string, patch: (todo: Todo) => Partial<Todo>) => ({
+  todos: state.todos.map((todo) => (todo.id === id ? { ...todo, ...patch(todo) } : todo)),
+  activeTodo: state.activeTodo?.id === id ? { ...state.activeTodo, ...patch(state.activeTodo) } : state.activeTodo,
+});
+
+// Subtasks together with the progress counts shown on cards
+const withSubtasks = (subtasks: Subtask[]) => ({
+  subtasks,
+  completedSubtasks: subtasks.filter((subtask) => subtask.completed).length,
+  totalSubtasks: subtasks.length,
+});
+
 export const useTodoStore = create<TodoState>((set, get) => ({
   todos: [],
+  activeTodo: null,
   categories: [],
   isLoading: false,
   error: null,
@@ -110,18 +148,65 @@ export const useTodoStore = create<TodoState>((set, get) => ({
   },
   
   updateTodo: (id: string, updates: Partial<Todo>) => {
-    set((state) => ({
-      todos: state.todos.map((todo) =>
-        todo.id === id ? { ...todo, ...updates } : todo
-      ),
-    }));
+    set((state) => patchTodo(state, id, () => updates));
   },
   
   removeTodo: (id: string) => {
     set((state) => ({
       todos: state.todos.filter((todo) => todo.id !== id),
+      activeTodo: state.activeTodo?.id === id ? null : state.activeTodo,
     }));
   },
+
+  openTodo: (todo: Todo) => {
+    set({ activeTodo: todo });
+  },
+
+  closeTodo: () => {
+    set({ activeTodo: null });
+  },
+
+  addSubtask: (todoId: string, subtask: Subtask) => {
+    set((state) => patchTodo(state, todoId, (todo) => withSubtasks([...todo.subtasks, subtask])));
+  },
+
+  updateSubtask: (todoId: string, subtaskId: string, updates: Partial<Subtask>) => {
+    set((state) => patchTodo(state, todoId, (todo) => withSubtasks(
+      todo.subtasks.map((subtask) => (subtask.id === subtaskId ? { ...subtask, ...updates } : subtask))
+    )));
+  },
+
+  removeSubtask: (todoId: string, subtaskId: string) => {
+    set((state) => patchTodo(state, todoId, (todo) => withSubtasks(
+      todo.subtasks.filter((subtask) => subtask.id !== subtaskId)
+    )));
+  },
+
+  setSubtasks: (todoId: string, subtasks: Subtask[]) => {
+    set((state) => patchTodo(state, todoId, () => withSubtasks(subtasks)));
+  },
+
+  // Comments are kept newest first; a comment already there is skipped
+  addComment: (todoId: string, comment: Comment) => {
+    set((state) => patchTodo(state, todoId, (todo) => ({
+      comments: todo.comments.some((c) => c.id === comment.id) ? todo.comments : [comment, ...todo.comments],
+    })));
+  },
+
+  // Swap a comment for another, e.g. a pending one for the saved comment
+  updateComment: (todoId: string, commentId: string, comment: Comment) => {
+    set((state) => patchTodo(state, todoId, (todo) => ({
+      comments: todo.comments.some((c) => c.id === comment.id)
+        ? todo.comments.filter((c) => c.id !== commentId)
+        : todo.comments.map((c) => (c.id === commentId ? comment : c)),
+    })));
+  },
+
+  removeComment: (todoId: string, commentId: string) => {
+    set((state) => patchTodo(state, todoId, (todo) => ({
+      comments: todo.comments.filter((c) => c.id !== commentId),
+    })));
+  },
   
   setCategories: (categories: Category[]) => {
     set({ categories });
@@ -241,3 +326,149 @@ export const useUIStore = create<UIState>()(
     }
   )
 );
+
+// Notification Inbox Store
+interface NotificationState {
+  notifications: InboxNotification[];
+  unreadCount: number;
+
+  // Actions
+  setNotifications: (notifications: InboxNotification[], unreadCount: number) => void;
+  receiveNotification: (notification: InboxNotification) => void;
+  markRead: (id: string, read: boolean) => void;
+  markAllRead: () => void;
+  removeNotification: (id: string) => void;
+}
+
+export const useNotificationStore = create<NotificationState>((set) => ({
+  notifications: [],
+  unreadCount: 0,
+
+  setNotifications: (notifications: InboxNotification[], unreadCount: number) => {
+    set({ notifications, unreadCount });
+  },
+
+  receiveNotification: (notification: InboxNotification) => {
+    set((state) => ({
+      notifications: [notification, ...state.notifications],
+      unreadCount: state.unreadCount + (notification.read ? 0 : 1),
+    }));
+  },
+
+  markRead: (id: string, read: boolean) => {
+    set((state) => {
+      const target = state.notifications.find((n) => n.id === id);
+      const delta = target && target.read !== read ? (read ? -1 : 1) : 0;
+      return {
+        notifications: state.notifications.map((n) =>
+          n.id === id ? { ...n, read } : n
+        ),
+        unreadCount: Math.max(0, state.unreadCount + delta),
+      };
+    });
+  },
+
+  markAllRead: () => {
+    set((state) => ({
+      notifications: state.notifications.map((n) => ({ ...n, read: true })),
+      unreadCount: 0,
+    }));
+  },
+
+  removeNotification: (id: string) => {
+    set((state) => {
+      const target = state.notifications.find((n) => n.id === id);
+      return {
+        notifications: state.notifications.filter((n) => n.id !== id),
+        unreadCount: Math.max(0, state.unreadCount - (target && !target.read ? 1 : 0)),
+      };
+    });
+  },
+}));
+
+// Saved Filter Store
+interface SavedFilterState {
+  savedFilters: SavedFilter[];
+  defaultFilterId: string | null;
+  // Whether the pinned default view was applied since the app loaded
+  defaultApplied: boolean;
+
+  // Actions
+  setSavedFilters: (savedFilters: SavedFilter[], defaultFilterId: string | null) => void;
+  addSavedFilter: (savedFilter: SavedFilter) => void;
+  updateSavedFilter: (id: string, updates: Partial<SavedFilter>) => void;
+  removeSavedFilter: (id: string) => void;
+  setDefaultFilterId: (defaultFilterId: string | null) => void;
+  setDefaultApplied: (defaultApplied: boolean) => void;
+}
+
+export const useSavedFilterStore = create<SavedFilterState>((set) => ({
+  savedFilters: [],
+  defaultFilterId: null,
+  defaultApplied: false,
+
+  setSavedFilters: (savedFilters: SavedFilter[], defaultFilterId: string | null) => {
+    set({ savedFilters, defaultFilterId });
+  },
+
+  addSavedFilter: (savedFilter: SavedFilter) => {
+    set((state) => ({
+      savedFilters: [...state.savedFilters, savedFilter],
+    }));
+  },
+
+  updateSavedFilter: (id: string, updates: Partial<SavedFilter>) => {
+    set((state) => ({
+      savedFilters: state.savedFilters.map((filter) =>
+        filter.id === id ? { ...filter, ...updates } : filter
+      ),
+    }));
+  },
+
+  removeSavedFilter: (id: string) => {
+    set((state) => ({
+      savedFilters: state.savedFilters.filter((filter) => filter.id !== id),
+      defaultFilterId: state.defaultFilterId === id ? null : state.defaultFilterId,
+    }));
+  },
+
+  setDefaultFilterId: (defaultFilterId: string | null) => {
+    set({ defaultFilterId });
+  },
+
+  setDefaultApplied: (defaultApplied: boolean) => {
+    set({ defaultApplied });
+  },
+}));
+
+// Board Store
+interface BoardState {
+  // Most todos a column should hold, columns without a limit are missing
+  wipLimits: Partial<Record<Status, number>>;
+
+  // Actions
+  setWipLimit: (status: Status, limit: number | null) => void;
+}
+
+export const useBoardStore = create<BoardState>()(
+  persist(
+    (set) => ({
+      wipLimits: {},
+
+      setWipLimit: (status: Status, limit: number | null) => {
+        set((state) => {
+          const wipLimits = { ...state.wipLimits };
+          if (limit && limit > 0) {
+            wipLimits[status] = limit;
+          } else {
+            delete wipLimits[status];
+          }
+          return { wipLimits };
+        });
+      },
+    }),
+    {
+      name: 'board-storage',
+    }
+  )
+);
@@ -4,6 +4,7 @@ export interface User {
   email: string;
   name: string;
   avatar?: string;
+  emailVerifiedAt?: string | null;
   createdAt: string;
   updatedAt: string;
 }
@@ -22,12 +23,47 @@ export interface Todo {
   dueDate?: string;
   createdAt: string;
   updatedAt: string;
+  // Manual order, lower comes first
+  position: number;
+  // Status transitions
+  startedAt?: string | null;
+  completedAt?: string | null;
   userId: string;
   categories: Category[];
   subtasks: Subtask[];
   comments: Comment[];
   completedSubtasks: number;
   totalSubtasks: number;
+  recurrenceRule?: string | null;
+  recurrence?: Recurrence | null;
+  nextDueDate?: string | null;
+  blockedBy?: TodoSummary[];
+  blocking?: TodoSummary[];
+  teamId?: string | null;
+  team?: { id: string; name: string } | null;
+  assignees: TodoAssignee[];
+}
+
+// Team member a todo is assigned to
+export interface TodoAssignee {
+  id: string;
+  name: string;
+  email: string;
+  avatar?: string;
+}
+
+export type TodoView = 'all' | 'personal' | 'assigned' | 'team';
+
+// Minimal todo reference used by dependency relations
+export interface TodoSummary {
+  id: string;
+  title: string;
+  status: Status;
+}
+
+export interface TodoDependencies {
+  blockedBy: TodoSummary[];
+  blocking: TodoSummary[];
 }
 
 export interface CreateTodoData {
@@ -36,6 +72,9 @@ export interface CreateTodoData {
   priority?: Priority;
   dueDate?: string;
   categoryIds?: string[];
+  recurrence?: Recurrence | null;
+  teamId?: string | null;
+  assigneeIds?: string[];
 }
 
 export interface UpdateTodoData {
@@ -43,8 +82,77 @@ export interface UpdateTodoData {
   description?: string;
   priority?: Priority;
   status?: Status;
-  dueDate?: string;
+  dueDate?: string | null;
   categoryIds?: string[];
+  recurrence?: Recurrence | null;
+  ignoreBlockers?: boolean;
+  teamId?: string | null;
+  assigneeIds?: string[];
+  // Place the todo between these todos of its board column, null at either end
+  previousId?: string | null;
+  nextId?: string | null;
+}
+
+// Bulk action types
+export type BulkAction =
+  | 'SET_STATUS'
+  | 'SET_PRIORITY'
+  | 'SET_DUE_DATE'
+  | 'CLEAR_DUE_DATE'
+  | 'ADD_CATEGORIES'
+  | 'REMOVE_CATEGORIES'
+  | 'DELETE';
+
+export interface BulkActionData {
+  ids: string[];
+  action: BulkAction;
+  value?: string | string[];
+  ignoreBlockers?: boolean;
+}
+
+export interface BulkActionResult {
+  results: { id: string; success: boolean; error?: string }[];
+  summary: { total: number; succeeded: number; failed: number };
+}
+
+// Import / export types
+export type ExportFormat = 'csv' | 'json';
+export type ImportField = 'title' | 'description' | 'status' | 'priority' | 'dueDate' | 'categories';
+export type ImportMapping = Partial<Record<ImportField, string>>;
+
+export interface ImportAnalysis {
+  columns: string[];
+  mapping: ImportMapping;
+  sample: Record<string, string>[];
+  total: number;
+}
+
+export interface ImportReport {
+  dryRun: boolean;
+  total: number;
+  imported: number;
+  valid: number;
+  failed: number;
+  newCategories: string[];
+  preview: {
+    title: string;
+    description: string | null;
+    status: Status;
+    priority: Priority;
+    dueDate: string | null;
+    categories: string[];
+  }[];
+  errors: { row: number; line?: number; errors: string[] }[];
+}
+
+// Recurrence types
+export interface Recurrence {
+  frequency: RecurrenceFrequency;
+  interval: number;
+  byWeekday?: Weekday[];
+  byMonthDay?: number;
+  count?: number;
+  until?: string;
 }
 
 // Category types
@@ -68,6 +176,56 @@ export interface UpdateCategoryData {
   color?: string;
 }
 
+// History types
+export type HistoryAction = 'CREATED' | 'UPDATED' | 'DELETED' | 'RESTORED' | 'REVERTED';
+
+export interface FieldChange {
+  field: string;
+  from: any;
+  to: any;
+}
+
+export interface TodoRevision {
+  id: string;
+  revision: number;
+  action: HistoryAction;
+  changes: FieldChange[];
+  snapshot: Record<string, any>;
+  createdAt: string;
+  todoId: string;
+  actorId: string;
+  actor: {
+    id: string;
+    name: string;
+    avatar?: string;
+  };
+}
+
+// Trash types
+export interface TrashedTodo extends Omit<Todo, 'subtasks' | 'comments'> {
+  deletedAt: string;
+  purgeAt: string;
+  subtaskCount: number;
+  commentCount: number;
+}
+
+export interface TrashedCategory extends Category {
+  deletedAt: string;
+  purgeAt: string;
+}
+
+export interface TrashContents {
+  todos: TrashedTodo[];
+  categories: TrashedCategory[];
+  retentionDays: number;
+}
+
+// Calendar feed types
+export interface CalendarFeed {
+  token: string | null;
+  url: string | null;
+}
+
 // Subtask types
 export interface Subtask {
   id: string;
@@ -122,6 +280,7 @@ export interface Team {
     name: string;
     email: string;
   };
+  role: Role;
   memberCount: number;
   joinedAt: string;
 }
@@ -132,12 +291,51 @@ export interface TeamMember {
   joinedAt: string;
   teamId: string;
   userId: string;
+  user: {
+    id: string;
+    name: string;
+    email: string;
+    avatar?: string;
+  };
+}
+
+export interface TeamDetails extends Omit<Team, 'memberCount' | 'joinedAt'> {
+  members: TeamMember[];
+}
+
+export type InvitationStatus = 'PENDING' | 'ACCEPTED' | 'DECLINED' | 'REVOKED';
+
+export interface TeamInvitation {
+  id: string;
+  email: string;
+  role: Role;
+  token: string;
+  status: InvitationStatus;
+  expiresAt: string;
+  createdAt: string;
+  teamId: string;
+  team?: {
+    id: string;
+    name: string;
+    description?: string;
+  };
+  invitedBy: {
+    id: string;
+    name: string;
+  };
+}
+
+export interface CreateTeamData {
+  name: string;
+  description?: string;
 }
 
 // Enums
 export type Priority = 'LOW' | 'MEDIUM' | 'HIGH' | 'URGENT';
 export type Status = 'TODO' | 'IN_PROGRESS' | 'COMPLETED' | 'CANCELLED';
 export type Role = 'OWNER' | 'ADMIN' | 'MEMBER';
+export type RecurrenceFrequency = 'DAILY' | 'WEEKLY' | 'MONTHLY' | 'YEARLY';
+export type Weekday = 'SU' | 'MO' | 'TU' | 'WE' | 'TH' | 'FR' | 'SA';
 
 // API Response types
 export interface ApiResponse<T = any> {
@@ -173,9 +371,151 @@ export interface RegisterData {
   name: string;
 }
 
-export interface AuthResponse {
-  user: User;
+export interface AuthTokens {
   token: string;
+  refreshToken: string;
+}
+
+export interface AuthResponse extends AuthTokens {
+  user: User;
+}
+
+// Returned by login instead of tokens when the account uses 2FA
+export interface TwoFactorChallenge {
+  twoFactorRequired: true;
+  challengeToken: string;
+}
+
+export interface TwoFactorStatus {
+  enabled: boolean;
+  enabledAt: string | null;
+  recoveryCodesRemaining: number;
+}
+
+export interface TwoFactorSetup {
+  secret: string;
+  otpauthUri: string;
+  qrCode: string;
+}
+
+// A signed-in device
+export interface Session {
+  id: string;
+  userAgent?: string | null;
+  ipAddress?: string | null;
+  createdAt: string;
+  lastUsedAt: string;
+  expiresAt: string;
+  current: boolean;
+}
+
+// Personal access tokens for scripts and integrations
+export type AccessTokenScope = 'todos:read' | 'todos:write' | 'categories:read' | 'categories:write';
+
+export interface AccessToken {
+  id: string;
+  name: string;
+  tokenPrefix: string;
+  scopes: AccessTokenScope[];
+  expiresAt?: string | null;
+  lastUsedAt?: string | null;
+  createdAt: string;
+}
+
+export interface CreateAccessTokenData {
+  name: string;
+  scopes: AccessTokenScope[];
+  expiresAt?: string | null;
+}
+
+// Outgoing webhooks
+export type WebhookEvent =
+  | 'todo.created'
+  | 'todo.updated'
+  | 'todo.completed'
+  | 'todo.deleted'
+  | 'comment.created'
+  | 'category.created'
+  | 'category.updated'
+  | 'category.deleted';
+
+export type WebhookDeliveryStatus = 'PENDING' | 'SUCCEEDED' | 'FAILED';
+
+export interface WebhookDelivery {
+  id: string;
+  webhookId: string;
+  event: WebhookEvent | 'ping';
+  payload: string;
+  status: WebhookDeliveryStatus;
+  attempts: number;
+  nextAttemptAt?: string | null;
+  lastAttemptAt?: string | null;
+  responseStatus?: number | null;
+  error?: string | null;
+  createdAt: string;
+}
+
+export interface Webhook {
+  id: string;
+  url: string;
+  events: WebhookEvent[];
+  description?: string | null;
+  active: boolean;
+  createdAt: string;
+  updatedAt: string;
+  userId: string;
+  teamId?: string | null;
+  team?: {
+    id: string;
+    name: string;
+  } | null;
+  lastDelivery?: Pick<WebhookDelivery, 'id' | 'event' | 'status' | 'createdAt'> | null;
+}
+
+export interface CreateWebhookData {
+  url: string;
+  events: WebhookEvent[];
+  description?: string | null;
+  teamId?: string | null;
+}
+
+export interface UpdateWebhookData {
+  url?: string;
+  events?: WebhookEvent[];
+  description?: string | null;
+  active?: boolean;
+}
+
+// Saved filters ("smart lists")
+export interface SavedFilter {
+  id: string;
+  name: string;
+  query: string;
+  view: TodoView;
+  sort?: string | null;
+  createdAt: string;
+  updatedAt: string;
+  userId: string;
+  user: {
+    id: string;
+    name: string;
+  };
+  teamId?: string | null;
+  team?: {
+    id: string;
+    name: string;
+  } | null;
+  // Todos currently matching, null when the query no longer parses
+  count?: number | null;
+  canManage: boolean;
+}
+
+export interface SavedFilterData {
+  name: string;
+  query: string;
+  view?: TodoView;
+  sort?: string | null;
+  teamId?: string | null;
 }
 
 // Filter types
@@ -186,6 +526,26 @@ export interface TodoFilters {
   priority?: Priority;
   category?: string;
   search?: string;
+  // Query language, e.g. "status:todo priority:>=high due:<7d"
+  q?: string;
+  view?: TodoView;
+  teamId?: string;
+  // Comma separated fields, "-" for descending, e.g. "-priority,dueDate"
+  sort?: string;
+  // Continue after the last page instead of using `page`
+  cursor?: string;
+  // Due date window as ISO dates, from inclusive and to exclusive
+  dueFrom?: string;
+  dueTo?: string;
+}
+
+export interface TodoPagination {
+  // null when paging with a cursor
+  page: number | null;
+  limit: number;
+  total: number;
+  pages: number;
+  nextCursor: string | null;
 }
 
 // Statistics types
@@ -208,12 +568,90 @@ export interface UserStats {
   completedTodos: number;
 }
 
+// Analytics types
+export type AnalyticsInterval = 'day' | 'week';
+
+export interface AnalyticsQuery {
+  // YYYY-MM-DD, both days included
+  from?: string;
+  to?: string;
+  categoryId?: string;
+}
+
+export interface AnalyticsPoint {
+  date: string;
+  // null for days that haven't happened yet
+  count: number | null;
+}
+
+export interface FlowTimeSummary {
+  count: number;
+  averageHours: number | null;
+  medianHours: number | null;
+}
+
+export interface FlowTimes {
+  leadTime: FlowTimeSummary;
+  cycleTime: FlowTimeSummary;
+}
+
+export interface AnalyticsBreakdown {
+  byCategory: Array<{
+    id: string | null;
+    name: string;
+    color: string | null;
+    open: number;
+    completed: number;
+  }>;
+  byPriority: Array<{
+    priority: Priority;
+    open: number;
+    completed: number;
+  }>;
+}
+
+export interface Burndown {
+  total: number;
+  points: Array<{
+    date: string;
+    remaining: number | null;
+    ideal: number;
+  }>;
+}
+
+// Inbox notification types (persisted on the server)
+export type InboxNotificationType =
+  | 'REMINDER_BEFORE_DUE'
+  | 'REMINDER_DUE'
+  | 'REMINDER_OVERDUE'
+  | 'TEAM_INVITATION';
+
+export interface InboxNotification {
+  id: string;
+  type: InboxNotificationType;
+  title: string;
+  message?: string;
+  read: boolean;
+  readAt?: string;
+  scheduledFor?: string;
+  createdAt: string;
+  userId: string;
+  todoId?: string;
+  todo?: {
+    id: string;
+    title: string;
+    status: Status;
+    dueDate?: string;
+  };
+}
+
 // Socket events
 export interface SocketEvents {
   'todo-created': (todo: Todo) => void;
   'todo-updated': (todo: Todo) => void;
   'todo-deleted': (todoId: string) => void;
   'comment-added': (comment: Comment) => void;
+  'notification': (notification: InboxNotification) => void;
   'user-joined': (userId: string) => void;
   'user-left': (userId: string) => void;
 }
@@ -1,6 +1,6 @@
 import axios, { AxiosInstance, AxiosResponse } from 'axios';
 import { useAuthStore } from '@/store';
-import { ApiResponse, LoginData, RegisterData, AuthResponse, Todo, Category, CreateTodoData, UpdateTodoData, CreateCategoryData, UpdateCategoryData, UserStats } from '@/types';
+import { ApiResponse, LoginData, RegisterData, AuthResponse, Todo, Category, CreateTodoData, UpdateTodoData, CreateCategoryData, UpdateCategoryData, UserStats, TodoDependencies, TodoSummary, InboxNotification, TrashContents, TodoRevision, BulkActionData, BulkActionResult, ExportFormat, ImportAnalysis, ImportMapping, ImportReport, CalendarFeed, Team, TeamDetails, TeamMember, TeamInvitation, CreateTeamData, Role, TodoView, AuthTokens, Session, TwoFactorChallenge, TwoFactorStatus, TwoFactorSetup, AccessToken, AccessTokenScope, CreateAccessTokenData, Webhook, WebhookEvent, WebhookDelivery, CreateWebhookData, UpdateWebhookData, SavedFilter, SavedFilterData, TodoPagination, AnalyticsInterval, AnalyticsQuery, AnalyticsPoint, FlowTimes, AnalyticsBreakdown, Burndown, Subtask, CreateSubtaskData, UpdateSubtaskData, Comment, CreateCommentData } from '@/types';
 
 // Create axios instance
 const createApiClient = (): AxiosInstance => {
@@ -26,12 +26,27 @@ const createApiClient = (): AxiosInstance => {
     }
   );
 
-  // Response interceptor to handle errors
+  // Response interceptor: on a 401 refresh the access token once and retry,
+  // only sign out when the refresh token is rejected as well
   client.interceptors.response.use(
     (response) => response,
-    (error) => {
-      if (error.response?.status === 401) {
-        // Token expired or invalid
+    async (error) => {
+      const request = error.config;
+      const isAuthRequest = /^\/auth\/(login|register|refresh|forgot-password|reset-password|verify-email$)/.test(request?.url || '');
+
+      if (error.response?.status === 401 && request && !isAuthRequest) {
+        if (!request._retried) {
+          request._retried = true;
+          try {
+            const token = await refreshAccessToken(client);
+            request.headers.Authorization = `Bearer ${token}`;
+            return client(request);
+          } catch (refreshError) {
+            // Fall through to sign out
+          }
+        }
+
+        // Session expired or revoked
         useAuthStore.getState().logout();
         window.location.href = '/login';
       }
@@ -42,12 +57,46 @@ const createApiClient = (): AxiosInstance => {
   return client;
 };
 
+// Requests failing at the same time share a single refresh
+let refreshPromise: Promise<string> | null = null;
+
+const refreshAccessToken = (client: AxiosInstance): Promise<string> => {
+  if (!refreshPromise) {
+    refreshPromise = (async () => {
+      const { refreshToken, setTokens } = useAuthStore.getState();
+      if (!refreshToken) {
+        throw new Error('No refresh token');
+      }
+
+      // Plain axios so the refresh request skips these interceptors
+      const response: AxiosResponse<ApiResponse<AuthTokens>> = await axios.post(
+        `${client.defaults.baseURL}/auth/refresh`,
+        { refreshToken }
+      );
+      const tokens = response.data.data!;
+      setTokens(tokens.token, tokens.refreshToken);
+      return tokens.token;
+    })().finally(() => {
+      refreshPromise = null;
+    });
+  }
+  return refreshPromise;
+};
+
 const api = createApiClient();
 
+// Refresh the access token outside a request, e.g. for the socket handshake
+export const refreshSession = (): Promise<string> => refreshAccessToken(api);
+
 // Auth API
 export const authApi = {
-  login: async (data: LoginData): Promise<AuthResponse> => {
-    const response: AxiosResponse<ApiResponse<AuthResponse>> = await api.post('/auth/login', data);
+  login: async (data: LoginData): Promise<AuthResponse | TwoFactorChallenge> => {
+    const response: AxiosResponse<ApiResponse<AuthResponse | TwoFactorChallenge>> = await api.post('/auth/login', data);
+    return response.data.data!;
+  },
+
+  verifyTwoFactorLogin: async (data: { challengeToken: string; code?: string; recoveryCode?: string }): Promise<AuthResponse> => {
+    const response: AxiosResponse<ApiResponse<AuthResponse>> = await api.post('/auth/login/2fa', data);
     return response.data.data!;
   },
 
@@ -69,6 +118,63 @@ export const authApi = {
   changePassword: async (data: { currentPassword: string; newPassword: string }): Promise<void> => {
     await api.put('/auth/password', data);
   },
+
+  logout: async (): Promise<void> => {
+    await api.post('/auth/logout');
+  },
+
+  logoutAll: async (): Promise<void> => {
+    await api.post('/auth/logout-all');
+  },
+
+  getSessions: async (): Promise<{ sessions: Session[] }> => {
+    const response: AxiosResponse<ApiResponse<{ sessions: Session[] }>> = await api.get('/auth/sessions');
+    return response.data.data!;
+  },
+
+  revokeSession: async (id: string): Promise<void> => {
+    await api.delete(`/auth/sessions/${id}`);
+  },
+
+  forgotPassword: async (email: string): Promise<void> => {
+    await api.post('/auth/forgot-password', { email });
+  },
+
+  resetPassword: async (token: string, password: string): Promise<void> => {
+    await api.post('/auth/reset-password', { token, password });
+  },
+
+  verifyEmail: async (token: string): Promise<void> => {
+    await api.get('/auth/verify-email', { params: { token } });
+  },
+
+  resendVerificationEmail: async (): Promise<void> => {
+    await api.post('/auth/verify-email/resend');
+  },
+
+  getTwoFactorStatus: async (): Promise<TwoFactorStatus> => {
+    const response: AxiosResponse<ApiResponse<TwoFactorStatus>> = await api.get('/auth/2fa');
+    return response.data.data!;
+  },
+
+  setupTwoFactor: async (): Promise<TwoFactorSetup> => {
+    const response: AxiosResponse<ApiResponse<TwoFactorSetup>> = await api.post('/auth/2fa/setup');
+    return response.data.data!;
+  },
+
+  confirmTwoFactor: async (code: string): Promise<{ recoveryCodes: string[] }> => {
+    const response: AxiosResponse<ApiResponse<{ recoveryCodes: string[] }>> = await api.post('/auth/2fa/confirm', { code });
+    return response.data.data!;
+  },
+
+  regenerateRecoveryCodes: async (password: string): Promise<{ recoveryCodes: string[] }> => {
+    const response: AxiosResponse<ApiResponse<{ recoveryCodes: string[] }>> = await api.post('/auth/2fa/recovery-codes', { password });
+    return response.data.data!;
+  },
+
+  disableTwoFactor: async (password: string): Promise<void> => {
+    await api.post('/auth/2fa/disable', { password });
+  },
 };
 
 // Todo API
@@ -80,14 +186,21 @@ export const todoApi = {
     priority?: string;
     category?: string;
     search?: string;
-  }): Promise<{ todos: Todo[]; pagination: any }> => {
-    const response: AxiosResponse<ApiResponse<{ todos: Todo[]; pagination: any }>> = await api.get('/todos', { params });
+    q?: string;
+    view?: TodoView;
+    teamId?: string;
+    sort?: string;
+    cursor?: string;
+    dueFrom?: string;
+    dueTo?: string;
+  }): Promise<{ todos: Todo[]; pagination: TodoPagination }> => {
+    const response: AxiosResponse<ApiResponse<{ todos: Todo[]; pagination: TodoPagination }>> = await api.get('/todos', { params });
     return response.data.data!;
   },
 
   getTodo: async (id: string): Promise<Todo> => {
-    const response: AxiosResponse<ApiResponse<Todo>> = await api.get(`/todos/${id}`);
-    return response.data.data!;
+    const response: AxiosResponse<ApiResponse<{ todo: Todo }>> = await api.get(`/todos/${id}`);
+    return response.data.data!.todo;
   },
 
   createTodo: async (data: CreateTodoData): Promise<Todo> => {
@@ -96,13 +209,100 @@ export const todoApi = {
   },
 
   updateTodo: async (id: string, data: UpdateTodoData): Promise<Todo> => {
-    const response: AxiosResponse<ApiResponse<Todo>> = await api.put(`/todos/${id}`, data);
-    return response.data.data!;
+    const response: AxiosResponse<ApiResponse<{ todo: Todo; nextTodo?: Todo }>> = await api.put(`/todos/${id}`, data);
+    return response.data.data!.todo;
   },
 
   deleteTodo: async (id: string): Promise<void> => {
     await api.delete(`/todos/${id}`);
   },
+
+  bulkUpdate: async (data: BulkActionData): Promise<BulkActionResult> => {
+    const response: AxiosResponse<ApiResponse<BulkActionResult>> = await api.post('/todos/bulk', data);
+    return response.data.data!;
+  },
+
+  reorderTodos: async (ids: string[]): Promise<{ id: string; position: number }[]> => {
+    const response: AxiosResponse<ApiResponse<{ positions: { id: string; position: number }[] }>> = await api.post('/todos/reorder', { ids });
+    return response.data.data!.positions;
+  },
+
+  exportTodos: async (format: ExportFormat, params?: {
+    status?: string;
+    priority?: string;
+    category?: string;
+    search?: string;
+    q?: string;
+  }): Promise<Blob> => {
+    const response: AxiosResponse<Blob> = await api.get('/todos/export', {
+      params: { ...params, format },
+      responseType: 'blob',
+    });
+    return response.data;
+  },
+
+  analyzeImport: async (format: ExportFormat, content: string): Promise<ImportAnalysis> => {
+    const response: AxiosResponse<ApiResponse<ImportAnalysis>> = await api.post('/todos/import', { format, content });
+    return response.data.data!;
+  },
+
+  importTodos: async (data: {
+    format: ExportFormat;
+    content: string;
+    mapping: ImportMapping;
+    dryRun?: boolean;
+  }): Promise<{ report: ImportReport }> => {
+    const response: AxiosResponse<ApiResponse<{ report: ImportReport }>> = await api.post('/todos/import', data);
+    return response.data.data!;
+  },
+
+  getDependencies: async (id: string): Promise<TodoDependencies> => {
+    const response: AxiosResponse<ApiResponse<TodoDependencies>> = await api.get(`/todos/${id}/dependencies`);
+    return response.data.data!;
+  },
+
+  addDependency: async (id: string, dependsOnId: string): Promise<{ dependency: TodoSummary }> => {
+    const response: AxiosResponse<ApiResponse<{ dependency: TodoSummary }>> = await api.post(`/todos/${id}/dependencies`, { dependsOnId });
+    return response.data.data!;
+  },
+
+  removeDependency: async (id: string, dependsOnId: string): Promise<void> => {
+    await api.delete(`/todos/${id}/dependencies/${dependsOnId}`);
+  },
+
+  getHistory: async (id: string): Promise<{ revisions: TodoRevision[] }> => {
+    const response: AxiosResponse<ApiResponse<{ revisions: TodoRevision[] }>> = await api.get(`/todos/${id}/history`);
+    return response.data.data!;
+  },
+
+  revertTodo: async (id: string, revision: number): Promise<{ todo: Todo }> => {
+    const response: AxiosResponse<ApiResponse<{ todo: Todo }>> = await api.post(`/todos/${id}/history/${revision}/revert`);
+    return response.data.data!;
+  },
+
+  addSubtask: async (id: string, data: CreateSubtaskData): Promise<Subtask> => {
+    const response: AxiosResponse<ApiResponse<{ subtask: Subtask }>> = await api.post(`/todos/${id}/subtasks`, data);
+    return response.data.data!.subtask;
+  },
+
+  updateSubtask: async (subtaskId: string, data: UpdateSubtaskData): Promise<Subtask> => {
+    const response: AxiosResponse<ApiResponse<{ subtask: Subtask }>> = await api.put(`/todos/subtasks/${subtaskId}`, data);
+    return response.data.data!.subtask;
+  },
+
+  deleteSubtask: async (subtaskId: string): Promise<void> => {
+    await api.delete(`/todos/subtasks/${subtaskId}`);
+  },
+
+  reorderSubtasks: async (id: string, ids: string[]): Promise<Subtask[]> => {
+    const response: AxiosResponse<ApiResponse<{ subtasks: Subtask[] }>> = await api.post(`/todos/${id}/subtasks/reorder`, { ids });
+    return response.data.data!.subtasks;
+  },
+
+  addComment: async (id: string, data: CreateCommentData): Promise<Comment> => {
+    const response: AxiosResponse<ApiResponse<{ comment: Comment }>> = await api.post(`/todos/${id}/comments`, data);
+    return response.data.data!.comment;
+  },
 };
 
 // Category API
@@ -113,22 +313,27 @@ export const categoryApi = {
   },
 
   getCategory: async (id: string): Promise<Category> => {
-    const response: AxiosResponse<ApiResponse<Category>> = await api.get(`/categories/${id}`);
-    return response.data.data!;
+    const response: AxiosResponse<ApiResponse<{ category: Category }>> = await api.get(`/categories/${id}`);
+    return response.data.data!.category;
   },
 
   createCategory: async (data: CreateCategoryData): Promise<Category> => {
-    const response: AxiosResponse<ApiResponse<Category>> = await api.post('/categories', data);
-    return response.data.data!;
+    const response: AxiosResponse<ApiResponse<{ category: Category }>> = await api.post('/categories', data);
+    return response.data.data!.category;
   },
 
   updateCategory: async (id: string, data: UpdateCategoryData): Promise<Category> => {
-    const response: AxiosResponse<ApiResponse<Category>> = await api.put(`/categories/${id}`, data);
-    return response.data.data!;
+    const response: AxiosResponse<ApiResponse<{ category: Category }>> = await api.put(`/categories/${id}`, data);
+    return response.data.data!.category;
+  },
+
+  deleteCategory: async (id: string, reassignTo?: string): Promise<void> => {
+    await api.delete(`/categories/${id}`, { params: { reassignTo } });
   },
 
-  deleteCategory: async (id: string): Promise<void> => {
-    await api.delete(`/categories/${id}`);
+  mergeCategories: async (id: string, targetId: string): Promise<{ category: Category; movedTodos: number }> => {
+    const response: AxiosResponse<ApiResponse<{ category: Category; movedTodos: number }>> = await api.post(`/categories/${id}/merge`, { targetId });
+    return response.data.data!;
   },
 };
 
@@ -149,6 +354,266 @@ export const userApi = {
   },
 };
 
+// Notification API
+export const notificationApi = {
+  getNotifications: async (params?: {
+    page?: number;
+    limit?: number;
+    unread?: boolean;
+  }): Promise<{ notifications: InboxNotification[]; unreadCount: number; pagination: any }> => {
+    const response: AxiosResponse<ApiResponse<{ notifications: InboxNotification[]; unreadCount: number; pagination: any }>> = await api.get('/notifications', { params });
+    return response.data.data!;
+  },
+
+  markRead: async (id: string, read: boolean = true): Promise<InboxNotification> => {
+    const response: AxiosResponse<ApiResponse<{ notification: InboxNotification }>> = await api.put(`/notifications/${id}`, { read });
+    return response.data.data!.notification;
+  },
+
+  markAllRead: async (): Promise<void> => {
+    await api.put('/notifications/read-all');
+  },
+
+  deleteNotification: async (id: string): Promise<void> => {
+    await api.delete(`/notifications/${id}`);
+  },
+};
+
+// Team API
+export const teamApi = {
+  getTeams: async (): Promise<{ teams: Team[] }> => {
+    const response: AxiosResponse<ApiResponse<{ teams: Team[] }>> = await api.get('/teams');
+    return response.data.data!;
+  },
+
+  getTeam: async (id: string): Promise<TeamDetails> => {
+    const response: AxiosResponse<ApiResponse<{ team: TeamDetails }>> = await api.get(`/teams/${id}`);
+    return response.data.data!.team;
+  },
+
+  createTeam: async (data: CreateTeamData): Promise<TeamDetails> => {
+    const response: AxiosResponse<ApiResponse<{ team: TeamDetails }>> = await api.post('/teams', data);
+    return response.data.data!.team;
+  },
+
+  updateTeam: async (id: string, data: Partial<CreateTeamData>): Promise<void> => {
+    await api.put(`/teams/${id}`, data);
+  },
+
+  deleteTeam: async (id: string): Promise<void> => {
+    await api.delete(`/teams/${id}`);
+  },
+
+  getMyInvitations: async (): Promise<{ invitations: TeamInvitation[] }> => {
+    const response: AxiosResponse<ApiResponse<{ invitations: TeamInvitation[] }>> = await api.get('/teams/invitations');
+    return response.data.data!;
+  },
+
+  acceptInvitation: async (token: string): Promise<{ teamId: string }> => {
+    const response: AxiosResponse<ApiResponse<{ teamId: string }>> = await api.post(`/teams/invitations/${token}/accept`);
+    return response.data.data!;
+  },
+
+  declineInvitation: async (token: string): Promise<void> => {
+    await api.post(`/teams/invitations/${token}/decline`);
+  },
+
+  getTeamInvitations: async (id: string): Promise<{ invitations: TeamInvitation[] }> => {
+    const response: AxiosResponse<ApiResponse<{ invitations: TeamInvitation[] }>> = await api.get(`/teams/${id}/invitations`);
+    return response.data.data!;
+  },
+
+  inviteMember: async (id: string, email: string, role: Role): Promise<{ invitation: TeamInvitation }> => {
+    const response: AxiosResponse<ApiResponse<{ invitation: TeamInvitation }>> = await api.post(`/teams/${id}/invitations`, { email, role });
+    return response.data.data!;
+  },
+
+  revokeInvitation: async (id: string, invitationId: string): Promise<void> => {
+    await api.delete(`/teams/${id}/invitations/${invitationId}`);
+  },
+
+  updateMemberRole: async (id: string, userId: string, role: Role): Promise<{ member: TeamMember }> => {
+    const response: AxiosResponse<ApiResponse<{ member: TeamMember }>> = await api.put(`/teams/${id}/members/${userId}`, { role });
+    return response.data.data!;
+  },
+
+  removeMember: async (id: string, userId: string): Promise<void> => {
+    await api.delete(`/teams/${id}/members/${userId}`);
+  },
+
+  leaveTeam: async (id: string): Promise<void> => {
+    await api.post(`/teams/${id}/leave`);
+  },
+
+  transferOwnership: async (id: string, userId: string): Promise<void> => {
+    await api.post(`/teams/${id}/transfer`, { userId });
+  },
+};
+
+// Calendar feed API
+export const calendarApi = {
+  getFeed: async (): Promise<CalendarFeed> => {
+    const response: AxiosResponse<ApiResponse<CalendarFeed>> = await api.get('/calendar/feed');
+    return response.data.data!;
+  },
+
+  rotateToken: async (): Promise<CalendarFeed> => {
+    const response: AxiosResponse<ApiResponse<CalendarFeed>> = await api.post('/calendar/feed');
+    return response.data.data!;
+  },
+
+  disableFeed: async (): Promise<void> => {
+    await api.delete('/calendar/feed');
+  },
+};
+
+// Personal access tokens API
+export const accessTokenApi = {
+  getTokens: async (): Promise<{ tokens: AccessToken[]; scopes: AccessTokenScope[] }> => {
+    const response: AxiosResponse<ApiResponse<{ tokens: AccessToken[]; scopes: AccessTokenScope[] }>> = await api.get('/access-tokens');
+    return response.data.data!;
+  },
+
+  createToken: async (data: CreateAccessTokenData): Promise<{ token: string; accessToken: AccessToken }> => {
+    const response: AxiosResponse<ApiResponse<{ token: string; accessToken: AccessToken }>> = await api.post('/access-tokens', data);
+    return response.data.data!;
+  },
+
+  revokeToken: async (id: string): Promise<void> => {
+    await api.delete(`/access-tokens/${id}`);
+  },
+};
+
+// Webhooks API
+export const webhookApi = {
+  getWebhooks: async (): Promise<{ webhooks: Webhook[]; events: WebhookEvent[] }> => {
+    const response: AxiosResponse<ApiResponse<{ webhooks: Webhook[]; events: WebhookEvent[] }>> = await api.get('/webhooks');
+    return response.data.data!;
+  },
+
+  // The signing secret is only returned here and by rotateSecret
+  createWebhook: async (data: CreateWebhookData): Promise<{ webhook: Webhook; secret: string }> => {
+    const response: AxiosResponse<ApiResponse<{ webhook: Webhook; secret: string }>> = await api.post('/webhooks', data);
+    return response.data.data!;
+  },
+
+  rotateSecret: async (id: string): Promise<string> => {
+    const response: AxiosResponse<ApiResponse<{ secret: string }>> = await api.post(`/webhooks/${id}/secret`);
+    return response.data.data!.secret;
+  },
+
+  updateWebhook: async (id: string, data: UpdateWebhookData): Promise<Webhook> => {
+    const response: AxiosResponse<ApiResponse<{ webhook: Webhook }>> = await api.put(`/webhooks/${id}`, data);
+    return response.data.data!.webhook;
+  },
+
+  deleteWebhook: async (id: string): Promise<void> => {
+    await api.delete(`/webhooks/${id}`);
+  },
+
+  getDeliveries: async (id: string, params?: {
+    page?: number;
+    limit?: number;
+  }): Promise<{ deliveries: WebhookDelivery[]; pagination: any }> => {
+    const response: AxiosResponse<ApiResponse<{ deliveries: WebhookDelivery[]; pagination: any }>> = await api.get(`/webhooks/${id}/deliveries`, { params });
+    return response.data.data!;
+  },
+
+  replayDelivery: async (id: string, deliveryId: string): Promise<WebhookDelivery> => {
+    const response: AxiosResponse<ApiResponse<{ delivery: WebhookDelivery }>> = await api.post(`/webhooks/${id}/deliveries/${deliveryId}/replay`);
+    return response.data.data!.delivery;
+  },
+
+  sendTestEvent: async (id: string): Promise<WebhookDelivery> => {
+    const response: AxiosResponse<ApiResponse<{ delivery: WebhookDelivery }>> = await api.post(`/webhooks/${id}/test`);
+    return response.data.data!.delivery;
+  },
+};
+
+// Saved filters API
+export const savedFilterApi = {
+  getFilters: async (): Promise<{ filters: SavedFilter[]; defaultFilterId: string | null }> => {
+    const response: AxiosResponse<ApiResponse<{ filters: SavedFilter[]; defaultFilterId: string | null }>> = await api.get('/saved-filters');
+    return response.data.data!;
+  },
+
+  createFilter: async (data: SavedFilterData): Promise<SavedFilter> => {
+    const response: AxiosResponse<ApiResponse<{ filter: SavedFilter }>> = await api.post('/saved-filters', data);
+    return response.data.data!.filter;
+  },
+
+  updateFilter: async (id: string, data: Partial<SavedFilterData>): Promise<SavedFilter> => {
+    const response: AxiosResponse<ApiResponse<{ filter: SavedFilter }>> = await api.put(`/saved-filters/${id}`, data);
+    return response.data.data!.filter;
+  },
+
+  deleteFilter: async (id: string): Promise<void> => {
+    await api.delete(`/saved-filters/${id}`);
+  },
+
+  setDefault: async (filterId: string | null): Promise<void> => {
+    await api.put('/saved-filters/default', { filterId });
+  },
+};
+
+// Analytics API
+export const analyticsApi = {
+  getCompleted: async (params: AnalyticsQuery & { interval?: AnalyticsInterval }): Promise<AnalyticsPoint[]> => {
+    const response: AxiosResponse<ApiResponse<{ interval: AnalyticsInterval; series: AnalyticsPoint[] }>> = await api.get('/analytics/completed', { params });
+    return response.data.data!.series;
+  },
+
+  getFlowTimes: async (params: AnalyticsQuery): Promise<FlowTimes> => {
+    const response: AxiosResponse<ApiResponse<FlowTimes>> = await api.get('/analytics/flow', { params });
+    return response.data.data!;
+  },
+
+  getOverdue: async (params: AnalyticsQuery): Promise<AnalyticsPoint[]> => {
+    const response: AxiosResponse<ApiResponse<{ series: AnalyticsPoint[] }>> = await api.get('/analytics/overdue', { params });
+    return response.data.data!.series;
+  },
+
+  getBreakdown: async (params: Pick<AnalyticsQuery, 'categoryId'>): Promise<AnalyticsBreakdown> => {
+    const response: AxiosResponse<ApiResponse<AnalyticsBreakdown>> = await api.get('/analytics/breakdown', { params });
+    return response.data.data!;
+  },
+
+  getBurndown: async (params: AnalyticsQuery): Promise<Burndown> => {
+    const response: AxiosResponse<ApiResponse<Burndown>> = await api.get('/analytics/burndown', { params });
+    return response.data.data!;
+  },
+};
+
+// Trash API
+export const trashApi = {
+  getTrash: async (): Promise<TrashContents> => {
+    const response: AxiosResponse<ApiResponse<TrashContents>> = await api.get('/trash');
+    return response.data.data!;
+  },
+
+  restoreTodo: async (id: string): Promise<{ todo: Todo }> => {
+    const response: AxiosResponse<ApiResponse<{ todo: Todo }>> = await api.post(`/trash/todos/${id}/restore`);
+    return response.data.data!;
+  },
+
+  restoreCategory: async (id: string): Promise<{ category: Category }> => {
+    const response: AxiosResponse<ApiResponse<{ category: Category }>> = await api.post(`/trash/categories/${id}/restore`);
+    return response.data.data!;
+  },
+
+  purgeTodo: async (id: string): Promise<void> => {
+    await api.delete(`/trash/todos/${id}`);
+  },
+
+  purgeCategory: async (id: string): Promise<void> => {
+    await api.delete(`/trash/categories/${id}`);
+  },
+
+  emptyTrash: async (): Promise<void> => {
+    await api.delete('/trash');
+  },
+};
+
 // Health check
 export const healthApi = {
   check: async (): Promise<{ status: string; timestamp: string; uptime: number; environment: string }> => {
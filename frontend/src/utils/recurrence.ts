@@ -0,0 +1,40 @@
+import { Recurrence, RecurrenceFrequency, Weekday } from '@/types';
+
+export const weekdayOptions: { value: Weekday; label: string }[] = [
+  { value: 'MO', label: 'Mon' },
+  { value: 'TU', label: 'Tue' },
+  { value: 'WE', label: 'Wed' },
+  { value: 'TH', label: 'Thu' },
+  { value: 'FR', label: 'Fri' },
+  { value: 'SA', label: 'Sat' },
+  { value: 'SU', label: 'Sun' },
+];
+
+const frequencyUnits: Record<RecurrenceFrequency, string> = {
+  DAILY: 'day',
+  WEEKLY: 'week',
+  MONTHLY: 'month',
+  YEARLY: 'year',
+};
+
+// Human readable summary, e.g. "Every 2 weeks on Mon, Wed · 10 times"
+export const describeRecurrence = (recurrence: Recurrence): string => {
+  const unit = frequencyUnits[recurrence.frequency];
+  const interval = recurrence.interval || 1;
+  let text = interval === 1 ? `Every ${unit}` : `Every ${interval} ${unit}s`;
+
+  if (recurrence.byWeekday && recurrence.byWeekday.length > 0) {
+    const days = weekdayOptions
+      .filter((option) => recurrence.byWeekday!.includes(option.value))
+      .map((option) => option.label);
+    text += ` on ${days.join(', ')}`;
+  }
+
+  if (recurrence.count) {
+    text += ` · ${recurrence.count} times`;
+  } else if (recurrence.until) {
+    text += ` · until ${new Date(recurrence.until).toLocaleDateString()}`;
+  }
+
+  return text;
+};
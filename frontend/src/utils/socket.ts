@@ -1,11 +1,14 @@
 import { io, Socket } from 'socket.io-client';
-import { useAuthStore, useTodoStore } from '@/store';
-import { Todo, Comment } from '@/types';
+import toast from 'react-hot-toast';
+import { useAuthStore, useTodoStore, useNotificationStore } from '@/store';
+import { Todo, Comment, InboxNotification } from '@/types';
+import { refreshSession } from '@/utils/api';
 
 class SocketService {
   private socket: Socket | null = null;
   private reconnectAttempts = 0;
   private maxReconnectAttempts = 5;
+  private hasRefreshedToken = false;
 
   connect(): void {
     if (this.socket?.connected) {
@@ -18,10 +21,9 @@ class SocketService {
       return;
     }
 
+    // Read on every handshake so reconnects send the current access token
     this.socket = io(import.meta.env.VITE_SOCKET_URL || 'http://localhost:3001', {
-      auth: {
-        token,
-      },
+      auth: (cb) => cb({ token: useAuthStore.getState().token }),
       transports: ['websocket', 'polling'],
     });
 
@@ -41,12 +43,8 @@ class SocketService {
     this.socket.on('connect', () => {
       console.log('Socket connected:', this.socket?.id);
       this.reconnectAttempts = 0;
-      
-      // Join user's personal room
-      const user = useAuthStore.getState().user;
-      if (user) {
-        this.joinUserRoom(user.id);
-      }
+      this.hasRefreshedToken = false;
+      // The server places the socket in the user's room and team rooms
     });
 
     this.socket.on('disconnect', (reason) => {
@@ -55,15 +53,24 @@ class SocketService {
 
     this.socket.on('connect_error', (error) => {
       console.error('Socket connection error:', error);
+      // The handshake was rejected, most likely because the access token expired
+      if (error.message === 'Authentication required' || error.message === 'Invalid token') {
+        this.refreshAndReconnect();
+        return;
+      }
       this.handleReconnect();
     });
 
-    // Todo events
+    // Todo events (emitted by the server after a change is saved)
     this.socket.on('todo-created', (todo: Todo) => {
       console.log('Todo created:', todo);
-      // Handle todo creation in store
-      const { addTodo } = useTodoStore.getState();
-      addTodo(todo);
+      // The creating tab may already have the todo from its own request
+      const { todos, addTodo, updateTodo } = useTodoStore.getState();
+      if (todos.some(t => t.id === todo.id)) {
+        updateTodo(todo.id, todo);
+      } else {
+        addTodo(todo);
+      }
     });
 
     this.socket.on('todo-updated', (todo: Todo) => {
@@ -83,8 +90,15 @@ class SocketService {
     // Comment events
     this.socket.on('comment-added', (comment: Comment) => {
       console.log('Comment added:', comment);
-      // Handle comment addition
-      // You might want to update the specific todo with the new comment
+      const { addComment } = useTodoStore.getState();
+      addComment(comment.todoId, comment);
+    });
+
+    // Notification events
+    this.socket.on('notification', (notification: InboxNotification) => {
+      const { receiveNotification } = useNotificationStore.getState();
+      receiveNotification(notification);
+      toast(notification.title, { icon: '🔔' });
     });
 
     // User events
@@ -97,6 +111,24 @@ class SocketService {
     });
   }
 
+  // Refresh the access token once and connect again with it. A second
+  // rejection means the session is gone, so the socket stays closed.
+  private async refreshAndReconnect(): Promise<void> {
+    if (this.hasRefreshedToken) {
+      this.disconnect();
+      return;
+    }
+    this.hasRefreshedToken = true;
+
+    try {
+      await refreshSession();
+      this.socket?.connect();
+    } catch (error) {
+      console.error('Failed to refresh socket token:', error);
+      this.disconnect();
+    }
+  }
+
   private handleReconnect(): void {
     if (this.reconnectAttempts < this.maxReconnectAttempts) {
       this.reconnectAttempts++;
@@ -112,13 +144,7 @@ class SocketService {
     }
   }
 
-  // Room management
-  joinUserRoom(userId: string): void {
-    if (this.socket?.connected) {
-      this.socket.emit('join-user-room', userId);
-    }
-  }
-
+  // Room management (the server checks team membership)
   joinTeamRoom(teamId: string): void {
     if (this.socket?.connected) {
       this.socket.emit('join-team-room', teamId);
@@ -131,32 +157,6 @@ class SocketService {
     }
   }
 
-  // Todo events
-  emitTodoCreated(todo: Todo): void {
-    if (this.socket?.connected) {
-      this.socket.emit('todo-created', todo);
-    }
-  }
-
-  emitTodoUpdated(todo: Todo): void {
-    if (this.socket?.connected) {
-      this.socket.emit('todo-updated', todo);
-    }
-  }
-
-  emitTodoDeleted(todoId: string): void {
-    if (this.socket?.connected) {
-      this.socket.emit('todo-deleted', todoId);
-    }
-  }
-
-  // Comment events
-  emitCommentAdded(comment: Comment): void {
-    if (this.socket?.connected) {
-      this.socket.emit('comment-added', comment);
-    }
-  }
-
   // Utility methods
   isConnected(): boolean {
     return this.socket?.connected || false;
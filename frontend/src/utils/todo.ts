@@ -0,0 +1,7 @@
+import { Todo } from '@/types';
+
+// A todo is overdue once its due date has passed until it is completed
+export const isOverdue = (todo: Pick<Todo, 'dueDate' | 'status'>) => {
+  if (!todo.dueDate) return false;
+  return new Date(todo.dueDate) < new Date() && todo.status !== 'COMPLETED';
+};